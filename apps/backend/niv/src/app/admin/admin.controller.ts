@@ -0,0 +1,355 @@
+// apps/backend/niv/src/app/admin/admin.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { NIV_ERRORS, OnboardingError } from '../onboarding/errors';
+import { OnboardingService } from '../onboarding/onboarding.service';
+import {
+  isWebhookSubscriptionStatus,
+  WEBHOOK_SUBSCRIPTION_STATUSES,
+  type WebhookSubscriptionSettings,
+} from '../onboarding/webhook-subscription';
+
+type WebhookSubscriptionBody = {
+  endUrl?: unknown;
+  eventGroups?: unknown;
+  includeDischarged?: unknown;
+  includeOutpatient?: unknown;
+  enableRoomReservationCancellation?: unknown;
+  vendorExternalId?: unknown;
+};
+
+/**
+ * Controller for operations endpoints
+ *
+ * PCC webhook subscriptions belong to the application: a new or changed
+ * subscription is a request PCC reviews before it takes effect, and the
+ * delivery credentials always come from PCC_WEBHOOK_USERNAME /
+ * PCC_WEBHOOK_PASSWORD.
+ */
+@Controller('admin')
+export class AdminController {
+  private readonly logger = new Logger(AdminController.name);
+
+  constructor(private readonly onboardingService: OnboardingService) {}
+
+  /**
+   * The application's webhook subscriptions, newest first
+   */
+  @Get('webhook-subscriptions')
+  async listWebhookSubscriptions(
+    @Query('orgUuid') orgUuid?: string,
+    @Query('status') status?: string
+  ) {
+    if (status && !isWebhookSubscriptionStatus(status)) {
+      throw this.invalidInput(
+        'INVALID_STATUS',
+        `status must be one of ${WEBHOOK_SUBSCRIPTION_STATUSES.join(', ')}`
+      );
+    }
+
+    try {
+      const subscriptions =
+        await this.onboardingService.listWebhookSubscriptions(
+          orgUuid?.trim() || undefined,
+          status && isWebhookSubscriptionStatus(status) ? status : undefined
+        );
+
+      return {
+        success: true,
+        data: subscriptions,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'webhook_subscriptions_lookup', {
+        orgUuid,
+        status,
+      });
+    }
+  }
+
+  /**
+   * Request a new webhook subscription
+   */
+  @Post('webhook-subscriptions')
+  async createWebhookSubscription(@Body() body: WebhookSubscriptionBody) {
+    const changes = this.readSubscriptionBody(body);
+    if (changes.endUrl === undefined || changes.eventGroups === undefined) {
+      throw this.invalidInput(
+        'INVALID_SUBSCRIPTION',
+        'endUrl and eventGroups are required'
+      );
+    }
+
+    try {
+      const receipt = await this.onboardingService.createWebhookSubscription({
+        endUrl: changes.endUrl,
+        eventGroups: changes.eventGroups,
+        includeDischarged: changes.includeDischarged ?? false,
+        includeOutpatient: changes.includeOutpatient ?? false,
+        enableRoomReservationCancellation:
+          changes.enableRoomReservationCancellation ?? false,
+        vendorExternalId: changes.vendorExternalId ?? null,
+      });
+
+      return {
+        success: true,
+        data: receipt,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'webhook_subscription_save', {
+        endUrl: changes.endUrl,
+      });
+    }
+  }
+
+  /**
+   * Compare PCC with the configured subscription; submits a request
+   * unless dryRun=true
+   */
+  @Post('webhook-subscriptions/reconcile')
+  async reconcileWebhookSubscriptions(@Query('dryRun') dryRun?: string) {
+    try {
+      const result = await this.onboardingService.reconcileWebhookSubscriptions(
+        dryRun === 'true'
+      );
+
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'webhook_subscription_reconcile', {
+        dryRun: dryRun === 'true',
+      });
+    }
+  }
+
+  /**
+   * Deliveries PCC could not make to the listed facilities (last 7 days)
+   */
+  @Get('webhook-subscriptions/errors')
+  async listWebhookDeliveryErrors(
+    @Query('orgUuid') orgUuid?: string,
+    @Query('facilityIds') facilityIds?: string
+  ) {
+    if (!orgUuid?.trim()) {
+      throw this.invalidInput('INVALID_ORG_UUID', 'orgUuid is required');
+    }
+    const ids = (facilityIds ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => id !== '')
+      .map(Number);
+    if (
+      ids.length === 0 ||
+      ids.some((id) => !Number.isInteger(id) || id <= 0)
+    ) {
+      throw this.invalidInput(
+        'INVALID_FACILITY',
+        'facilityIds must be a comma-separated list of facility IDs'
+      );
+    }
+
+    try {
+      const facilities = await this.onboardingService.listWebhookDeliveryErrors(
+        orgUuid.trim(),
+        [...new Set(ids)]
+      );
+
+      return {
+        success: true,
+        data: { orgUuid: orgUuid.trim(), facilities },
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'webhook_errors_lookup', {
+        orgUuid,
+        facilityIds: ids,
+      });
+    }
+  }
+
+  /**
+   * Request a change to a webhook subscription; omitted settings are kept
+   */
+  @Put('webhook-subscriptions/:subscriptionId')
+  async updateWebhookSubscription(
+    @Param('subscriptionId', ParseIntPipe) subscriptionId: number,
+    @Body() body: WebhookSubscriptionBody
+  ) {
+    const changes = this.readSubscriptionBody(body);
+
+    try {
+      const receipt = await this.onboardingService.updateWebhookSubscription(
+        subscriptionId,
+        changes
+      );
+
+      return {
+        success: true,
+        data: receipt,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'webhook_subscription_save', {
+        subscriptionId,
+      });
+    }
+  }
+
+  /**
+   * Reads the settings present in a subscription body
+   */
+  private readSubscriptionBody(
+    body: WebhookSubscriptionBody
+  ): Partial<WebhookSubscriptionSettings> {
+    let changes: Partial<WebhookSubscriptionSettings> = {};
+
+    if (body?.endUrl !== undefined) {
+      if (typeof body.endUrl !== 'string' || !body.endUrl.trim()) {
+        throw this.invalidInput('INVALID_SUBSCRIPTION', 'endUrl must be a URL');
+      }
+      changes = { ...changes, endUrl: body.endUrl.trim() };
+    }
+
+    if (body?.eventGroups !== undefined) {
+      if (
+        !Array.isArray(body.eventGroups) ||
+        !body.eventGroups.every((group) => typeof group === 'string')
+      ) {
+        throw this.invalidInput(
+          'INVALID_SUBSCRIPTION',
+          'eventGroups must be a list of PCC event group names'
+        );
+      }
+      changes = {
+        ...changes,
+        eventGroups: [
+          ...new Set(body.eventGroups.map((group: string) => group.trim())),
+        ],
+      };
+    }
+
+    const flags = [
+      'includeDischarged',
+      'includeOutpatient',
+      'enableRoomReservationCancellation',
+    ] as const;
+    for (const flag of flags) {
+      if (body?.[flag] !== undefined) {
+        if (typeof body[flag] !== 'boolean') {
+          throw this.invalidInput(
+            'INVALID_SUBSCRIPTION',
+            `${flag} must be true or false`
+          );
+        }
+        changes = { ...changes, [flag]: body[flag] };
+      }
+    }
+
+    if (body?.vendorExternalId !== undefined) {
+      if (
+        body.vendorExternalId !== null &&
+        typeof body.vendorExternalId !== 'string'
+      ) {
+        throw this.invalidInput(
+          'INVALID_SUBSCRIPTION',
+          'vendorExternalId must be a string or null'
+        );
+      }
+      changes = {
+        ...changes,
+        vendorExternalId: body.vendorExternalId?.trim() || null,
+      };
+    }
+
+    return changes;
+  }
+
+  /**
+   * Builds a 400 response for malformed request input
+   */
+  private invalidInput(error: string, message: string): HttpException {
+    return new HttpException(
+      {
+        error,
+        message,
+        timestamp: new Date().toISOString(),
+      },
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  /**
+   * Maps domain errors to HTTP responses, as the onboarding endpoints do
+   */
+  private mapDomainErrorToHttp(
+    error: unknown,
+    operation: string,
+    context?: Record<string, unknown>
+  ): HttpException {
+    if (!(error instanceof OnboardingError)) {
+      this.logger.error(`Unexpected error in ${operation}:`, error);
+
+      return new HttpException(
+        {
+          error: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+          operation,
+          timestamp: new Date().toISOString(),
+          ...(context && { context }),
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    let status: HttpStatus;
+    switch (error.code) {
+      case NIV_ERRORS.WEBHOOK_SUBSCRIPTION_NOT_FOUND:
+      case NIV_ERRORS.FACILITY_NOT_FOUND:
+        status = HttpStatus.NOT_FOUND;
+        break;
+      case NIV_ERRORS.PCC_UNAUTHORIZED:
+        status = HttpStatus.UNAUTHORIZED;
+        break;
+      case NIV_ERRORS.WEBHOOK_SUBSCRIPTIONS_NOT_CONFIGURED:
+        status = HttpStatus.UNPROCESSABLE_ENTITY;
+        break;
+      default:
+        status =
+          error.action === 'retry'
+            ? HttpStatus.SERVICE_UNAVAILABLE
+            : HttpStatus.BAD_REQUEST;
+    }
+
+    return new HttpException(
+      {
+        error: error.code,
+        message: error.message,
+        action: error.action,
+        operation,
+        timestamp: new Date().toISOString(),
+        ...(error.action === 'retry' && { retryable: true, retryAfter: 30 }),
+        ...(error.action === 'user-input' &&
+          error.context?.actionRequired !== undefined && {
+            actionRequired: error.context.actionRequired,
+          }),
+        ...(context && { context }),
+      },
+      status
+    );
+  }
+}
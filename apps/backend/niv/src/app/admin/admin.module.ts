@@ -0,0 +1,18 @@
+// apps/backend/niv/src/app/admin/admin.module.ts
+
+/**
+ * NestJS Module (Hexagonal Architecture)
+ *
+ * Operations endpoints for managing the service's PCC integration, backed
+ * by the onboarding bounded context.
+ */
+
+import { Module } from '@nestjs/common';
+import { OnboardingModule } from '../onboarding/onboarding.module';
+import { AdminController } from './admin.controller';
+
+@Module({
+  imports: [OnboardingModule],
+  controllers: [AdminController],
+})
+export class AdminModule {}
@@ -1,13 +1,26 @@
 import { Module } from '@nestjs/common';
+import { AdminModule } from './admin/admin.module';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { FacilitiesModule } from './facilities/facilities.module';
 import { OAuthModule } from './oauth/oauth.module';
 import { OnboardingModule } from './onboarding/onboarding.module'; // Add this
 import { PccTestModule } from './pcc-test/pcc-test.module';
+import { StaffModule } from './staff/staff.module';
 import { UploadModule } from './upload/upload.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
 
 @Module({
-  imports: [UploadModule, OAuthModule, PccTestModule, OnboardingModule], // Add OnboardingModule
+  imports: [
+    UploadModule,
+    OAuthModule,
+    PccTestModule,
+    OnboardingModule,
+    WebhooksModule,
+    AdminModule,
+    FacilitiesModule,
+    StaffModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
@@ -0,0 +1,21 @@
+// apps/backend/niv/src/app/aws/s3-client.ts
+import { S3Client } from '@aws-sdk/client-s3';
+import { fromIni } from '@aws-sdk/credential-providers';
+
+// Bucket uploads go to
+export function getS3BucketFromEnv(): string {
+  return process.env.AWS_S3_BUCKET || 'af-sandbox-documents-dev';
+}
+
+// S3 client for AWS_REGION, using AWS_PROFILE when set and the default
+// credential chain otherwise
+export function createS3ClientFromEnv(): S3Client {
+  const region = process.env.AWS_REGION || 'us-east-2';
+
+  return process.env.AWS_PROFILE
+    ? new S3Client({
+        region,
+        credentials: fromIni({ profile: process.env.AWS_PROFILE }),
+      })
+    : new S3Client({ region });
+}
@@ -0,0 +1,41 @@
+// apps/backend/niv/src/app/aws/s3-document-store.ts
+import { GetObjectCommand, NoSuchKey } from '@aws-sdk/client-s3';
+import type { ReadStoredDocument } from '../onboarding/case-document-operations';
+import { createS3ClientFromEnv, getS3BucketFromEnv } from './s3-client';
+
+// Create S3 document store - reads uploaded files back for the onboarding
+// context, which is built without NestJS
+export function createS3DocumentStoreFromEnv() {
+  const s3Client = createS3ClientFromEnv();
+  const bucket = getS3BucketFromEnv();
+
+  const readDocument: ReadStoredDocument = async (storageKey) => {
+    try {
+      const response = await s3Client.send(
+        new GetObjectCommand({ Bucket: bucket, Key: storageKey })
+      );
+      if (!response.Body) {
+        return null;
+      }
+
+      return {
+        content: Buffer.from(await response.Body.transformToByteArray()),
+        contentType: response.ContentType ?? null,
+      };
+    } catch (error) {
+      // Nothing was uploaded under the key yet
+      if (error instanceof NoSuchKey) {
+        return null;
+      }
+      throw new Error(
+        `S3 read failed for ${storageKey}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  };
+
+  return {
+    readDocument,
+  };
+}
@@ -1,9 +1,9 @@
 // apps/backend/niv/src/app/aws/s3.service.ts
 import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
-import { fromIni } from '@aws-sdk/credential-providers';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { Injectable, Logger } from '@nestjs/common';
 import { ExceptionTranslator } from '../exception-translator.service';
+import { createS3ClientFromEnv, getS3BucketFromEnv } from './s3-client';
 
 export interface PresignedUrlRequest {
   key: string;
@@ -25,7 +25,7 @@ export class S3Service {
   private readonly bucket: string;
 
   constructor() {
-    this.bucket = process.env.AWS_S3_BUCKET || 'af-sandbox-documents-dev';
+    this.bucket = getS3BucketFromEnv();
 
     // Debug logging
     this.logger.log(`=== AWS Configuration ===`);
@@ -34,17 +34,10 @@ export class S3Service {
     this.logger.log(`AWS_S3_BUCKET: ${this.bucket}`);
 
     // Create S3Client with proper credential provider
+    this.s3Client = createS3ClientFromEnv();
     if (process.env.AWS_PROFILE) {
-      this.s3Client = new S3Client({
-        region: process.env.AWS_REGION || 'us-east-2',
-        credentials: fromIni({ profile: process.env.AWS_PROFILE }),
-      });
       this.logger.log(`Using AWS profile: ${process.env.AWS_PROFILE}`);
     } else {
-      // Use default credential chain
-      this.s3Client = new S3Client({
-        region: process.env.AWS_REGION || 'us-east-2',
-      });
       this.logger.log('Using default AWS credential chain');
     }
 
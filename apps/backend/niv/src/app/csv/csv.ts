@@ -0,0 +1,81 @@
+// RFC 4180 CSV parsing: quoted fields may contain commas, quotes ("")
+// and line breaks. A leading UTF-8 BOM (spreadsheet exports) is ignored.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// Parses CSV with a header row into records keyed by header name
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((name) => name.trim());
+  return rows.map((cells) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, cells[index] ?? ''])
+    )
+  );
+}
+
+// Cells a spreadsheet would run as a formula (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Formats one RFC 4180 CSV line (with CRLF). Fields with commas, quotes or
+// line breaks are quoted; text starting like a formula is prefixed with '
+export function formatCsvRow(cells: ReadonlyArray<string | number>): string {
+  return (
+    cells
+      .map((cell) => {
+        if (typeof cell === 'number') {
+          return String(cell);
+        }
+        const text = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
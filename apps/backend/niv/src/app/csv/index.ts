@@ -0,0 +1,2 @@
+// Clean barrel export for CSV helpers
+export { formatCsvRow, parseCsv, parseCsvRecords } from './csv';
@@ -0,0 +1,7 @@
+// Clean barrel export for the Postgres integration
+export {
+  createPostgresClient,
+  createPostgresConfigFromEnv,
+} from './postgres-client';
+export type { PostgresClient } from './postgres-client';
+export type { PostgresClientConfig, PostgresQuery } from './types';
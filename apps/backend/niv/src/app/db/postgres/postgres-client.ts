@@ -0,0 +1,107 @@
+import { Pool, PoolClient, types } from 'pg';
+import { PostgresClientConfig, PostgresQuery } from './types';
+
+// Return DATE columns as 'YYYY-MM-DD' strings instead of local-midnight Dates,
+// so calendar dates (birth dates, visit dates) never shift with the server TZ
+const PG_DATE_OID = 1082;
+types.setTypeParser(PG_DATE_OID, (value: string) => value);
+
+// Create Postgres client - returns functions for running queries
+export function createPostgresClient(config: PostgresClientConfig) {
+  // Connection pool - closure variable, connects lazily on first query
+  const pool = new Pool({
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.user,
+    password: config.password,
+    max: config.maxConnections || 10,
+    idleTimeoutMillis: config.idleTimeoutMs || 30000,
+  });
+
+  // Idle client errors must not crash the process
+  pool.on('error', (error) => {
+    console.error('Postgres idle client error:', error);
+  });
+
+  // Run a parameterized query and return the rows
+  const query: PostgresQuery = async (text, params) => {
+    try {
+      const result = await pool.query(text, params);
+      return result.rows;
+    } catch (error) {
+      // Keep the driver error as the cause; its SQLSTATE code tells
+      // constraint violations from outages
+      throw new Error(
+        `Postgres query failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        { cause: error }
+      );
+    }
+  };
+
+  // Run several queries on one connection inside BEGIN/COMMIT
+  const transaction = async <T>(
+    work: (query: PostgresQuery) => Promise<T>
+  ): Promise<T> => {
+    const client: PoolClient = await pool.connect();
+    const scopedQuery: PostgresQuery = async (text, params) => {
+      const result = await client.query(text, params);
+      return result.rows;
+    };
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(scopedQuery);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      // Rethrow as-is so domain errors raised inside the work survive
+      throw error;
+    } finally {
+      client.release();
+    }
+  };
+
+  // Test connectivity - useful for health checks
+  const testConnection = async (): Promise<boolean> => {
+    try {
+      await pool.query('SELECT 1');
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  // Close all pooled connections - used on shutdown
+  const end = async (): Promise<void> => {
+    await pool.end();
+  };
+
+  // Return client functions
+  return {
+    query,
+    transaction,
+    testConnection,
+    end,
+  };
+}
+
+export type PostgresClient = ReturnType<typeof createPostgresClient>;
+
+// Helper function to create config from environment variables
+// Defaults match the postgres service in docker-compose.yaml
+export function createPostgresConfigFromEnv(): PostgresClientConfig {
+  return {
+    host: process.env.PGHOST || 'localhost',
+    port: process.env.PGPORT ? parseInt(process.env.PGPORT, 10) : 5432,
+    database: process.env.PGDATABASE || 'lab',
+    user: process.env.PGUSER || 'lab_user',
+    password: process.env.PGPASSWORD || 'lab_password',
+    maxConnections: process.env.PG_POOL_MAX
+      ? parseInt(process.env.PG_POOL_MAX, 10)
+      : undefined,
+  };
+}
@@ -0,0 +1,16 @@
+// Postgres-specific types that might be reused across bounded contexts
+export type PostgresClientConfig = {
+  readonly host: string;
+  readonly port: number;
+  readonly database: string;
+  readonly user: string;
+  readonly password: string;
+  readonly maxConnections?: number;
+  readonly idleTimeoutMs?: number;
+};
+
+// Query function shared by the client and transaction scopes
+export type PostgresQuery = <T extends Record<string, any>>(
+  text: string,
+  params?: unknown[]
+) => Promise<T[]>;
@@ -1,9 +1,24 @@
 // Clean barrel export for the PCC integration
 export { createPccClient, createPccConfigFromEnv } from './pcc-client';
 export type {
+  PccAdtRecordResponse,
+  PccAdvanceDirectiveConsentResponse,
   PccClientConfig,
   PccConditionResponse,
+  PccDiagnosticReportResponse,
+  PccDiagnosticReportResult,
+  PccFacilityResponse,
   PccListResponse,
+  PccObservationResponse,
+  PccPagedResponse,
   PccPatientResponse,
+  PccPractitionerResponse,
+  PccPatientDocumentRequest,
+  PccPatientDocumentResponse,
+  PccProgressNoteRequest,
+  PccProgressNoteTypeResponse,
   PccTokenResponse,
+  PccWebhookErrorResponse,
+  PccWebhookSubscriptionRequest,
+  PccWebhookSubscriptionResponse,
 } from './types';
@@ -128,6 +128,31 @@ export function createPccClient(config: PccClientConfig) {
     }
   };
 
+  // HTTP POST of a multipart form - axios sets the boundary header
+  const postForm = async <T>(endpoint: string, form: FormData): Promise<T> => {
+    const token = await getAccessToken();
+    const httpsAgent = createMTLSAgent();
+    const url = `${baseUrl}${endpoint}`;
+
+    try {
+      const response: AxiosResponse<T> = await axios.post(url, form, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+        httpsAgent,
+        timeout,
+      });
+
+      return response.data;
+    } catch (error) {
+      throw new Error(
+        `PCC API POST failed for ${endpoint}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  };
+
   // Clear cached token - useful for testing
   const clearTokenCache = (): void => {
     cachedToken = null;
@@ -148,6 +173,7 @@ export function createPccClient(config: PccClientConfig) {
   return {
     get,
     post,
+    postForm,
     getAccessToken,
     clearTokenCache,
     testCertificates,
@@ -29,6 +29,59 @@ export type PccConditionResponse = {
   icd10Description: string;
   onsetDate: string;
   principalDiagnosis: boolean;
+  clinicalStatus?: string; // 'ACTIVE' or 'RESOLVED'
+  resolvedDate?: string; // YYYY-MM-DD
+  rankDescription?: string;
+  classificationDescription?: string;
+};
+
+// Vital sign reading (GET /observations)
+export type PccObservationResponse = {
+  observationId: number;
+  patientId: number;
+  type: string; // oxygenSaturation, respirations, heartrate ...
+  value?: number;
+  unit?: string;
+  recordedDate: string;
+  method?: string;
+};
+
+export type PccDiagnosticReportResult = {
+  code?: string; // LOINC for laboratory reports
+  codeSystem?: string;
+  codeDescription?: string;
+  observationId?: string;
+  observationName?: string;
+  resultStatus?: string; // Final or Corrected
+  valueQuantity?: {
+    value?: string;
+    unitText?: string;
+  };
+};
+
+// Laboratory or radiology report (GET /diagnostic-reports)
+export type PccDiagnosticReportResponse = {
+  reportId: string;
+  reportName?: string;
+  reportType: string;
+  reportStatus?: string;
+  effectiveDateTime?: string; // specimen collection
+  issuedDateTime?: string;
+  testSet?: Array<{
+    panelName?: string;
+    results?: PccDiagnosticReportResult[];
+  }>;
+};
+
+// Advance directive consent (GET /advance-directives-consents)
+export type PccAdvanceDirectiveConsentResponse = {
+  advanceDirectivesConsentId: number;
+  patientId: number;
+  status: 'active' | 'pending' | 'discontinued';
+  description?: string;
+  directives?: string[]; // Intubation, Life Support, Resuscitation ...
+  consentStatus?: string;
+  orderDate?: string;
 };
 
 // PCC API list response wrapper
@@ -40,3 +93,142 @@ export type PccListResponse<T> = {
     totalCount: number;
   };
 };
+
+// Webhook subscription request for the application (GET /webhook-subscriptions)
+export type PccWebhookSubscriptionResponse = {
+  webhookSubscriptionId: number;
+  applicationName: string;
+  applicationType?: 'SANDBOX' | 'PRODUCTION';
+  action: 'SUBSCRIBE' | 'UNSUBSCRIBE';
+  status:
+    | 'PENDING'
+    | 'APPROVED'
+    | 'PARTIAL_APPROVED'
+    | 'CANCELLED'
+    | 'REJECTED'
+    | 'RETIRED';
+  endUrl: string;
+  eventGroupList?: string[];
+  includeDischarged?: boolean;
+  includeOutpatient?: boolean;
+  enableRoomReservationCancellation?: boolean;
+  username?: string;
+  vendorExternalId?: string;
+  createdDate?: string;
+  revisionDate?: string;
+  // Per-organization rollout of the subscription
+  currentSubscription?: Array<{
+    orgUuid: string;
+    action?: 'SUBSCRIBE' | 'UNSUBSCRIBE';
+    status: 'PROCESSING' | 'SUCCESS' | 'FAILED';
+  }>;
+};
+
+// Subscribes, or replaces the current subscription (POST /webhook-subscriptions)
+export type PccWebhookSubscriptionRequest = {
+  applicationName: string;
+  endUrl: string;
+  eventGroupList: string[];
+  includeDischarged: boolean;
+  includeOutpatient: boolean;
+  enableRoomReservationCancellation: boolean;
+  username: string;
+  password: string;
+  vendorExternalId?: string;
+};
+
+// Failed delivery to the subscription's endUrl (GET /webhook-errors)
+export type PccWebhookErrorResponse = {
+  errorTimeStamp?: string;
+  webhookErrorCode: string;
+};
+
+// PCC API list response wrapper for endpoints paged with hasMore
+export type PccPagedResponse<T> = {
+  data: T[];
+  paging?: {
+    hasMore: boolean;
+    page: number;
+    pageSize: number;
+  };
+};
+
+// Admission, discharge or transfer record (GET /adt-records)
+export type PccAdtRecordResponse = {
+  adtRecordId: number;
+  patientId: number;
+  actionCode?: string;
+  actionType: string; // facility-defined, e.g. "Transfer Out"
+  standardActionType: string; // Admission, Death, Discharge, Leave ...
+  effectiveDateTime: string;
+  isCancelledRecord?: boolean;
+  destination?: string;
+  destinationType?: string;
+  origin?: string;
+  originType?: string;
+  outpatient?: boolean;
+};
+
+// Facility (GET /facs lists them; GET /facs/{facId} adds address and beds)
+export type PccFacilityResponse = {
+  facId: number;
+  facilityName: string;
+  facilityCode?: string;
+  active?: boolean;
+  healthType?: string; // SNF, ALF ...
+  addressLine1?: string;
+  addressLine2?: string;
+  city?: string;
+  state?: string; // US facilities
+  prov?: string; // Canadian facilities
+  postalCode?: string;
+  country?: string;
+  timeZone?: string; // IANA name, e.g. "America/New_York"
+  bedCount?: number;
+};
+
+// Progress note type configured for a facility (GET /progress-note-types),
+// paged with hasMore
+export type PccProgressNoteTypeResponse = {
+  progressNoteTypeId?: number;
+  noteType: string;
+  noteCode?: string;
+  sections?: string[];
+};
+
+// Progress note written to the chart (POST /progress-notes); PCC answers
+// 409 when a note with the same externalId was already written
+export type PccProgressNoteRequest = {
+  patientId: number;
+  noteType: string;
+  externalId: string;
+  effectiveDate: string;
+  isEncounterNote: boolean;
+  sections: Array<{ name: string; value: string }>;
+};
+
+// Document attached to the chart (POST /patients/{patientId}/documents);
+// sent as the JSON "metadata" part of a multipart form, then the file
+export type PccPatientDocumentRequest = {
+  documentName: string;
+  documentCategory: number;
+  effectiveDate: string;
+};
+
+export type PccPatientDocumentResponse = {
+  documentId: number;
+};
+
+// Practitioner on a patient's care team (GET /practitioners?patientId=)
+export type PccPractitionerResponse = {
+  practitionerId: number;
+  firstName: string;
+  lastName: string;
+  middleName?: string;
+  title?: string; // MD, RN, RRT ...
+  providerType?: string; // e.g. "Respiratory Therapist"
+  npi?: string;
+  email?: string;
+  phone?: string;
+  active?: boolean;
+};
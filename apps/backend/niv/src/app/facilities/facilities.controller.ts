@@ -0,0 +1,178 @@
+// apps/backend/niv/src/app/facilities/facilities.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { NIV_ERRORS, OnboardingError } from '../onboarding/errors';
+import { OnboardingService } from '../onboarding/onboarding.service';
+
+/**
+ * Controller for the facility directory
+ *
+ * Facilities come from PCC /facs and are stored locally; an organization
+ * is synced the first time its facilities are listed and daily after
+ * that (FACILITY_SYNC_INTERVAL_MS). With rtId the list is limited to the
+ * facilities that RT covers.
+ */
+@Controller('facilities')
+export class FacilitiesController {
+  private readonly logger = new Logger(FacilitiesController.name);
+
+  constructor(private readonly onboardingService: OnboardingService) {}
+
+  /**
+   * Facilities by name, optionally for one organization or RT
+   */
+  @Get()
+  async listFacilities(
+    @Query('orgUuid') orgUuid?: string,
+    @Query('rtId') rtId?: string,
+    @Query('includeInactive') includeInactive?: string
+  ) {
+    const filter = {
+      orgUuid: orgUuid?.trim() || undefined,
+      rtId: rtId?.trim() || undefined,
+      includeInactive: includeInactive === 'true',
+    };
+
+    try {
+      const facilities = await this.onboardingService.listFacilities(filter);
+
+      return {
+        success: true,
+        data: facilities,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'facility_list', filter);
+    }
+  }
+
+  /**
+   * Refresh an organization's facilities from PCC
+   */
+  @Post('sync')
+  async syncFacilities(@Body() body: { orgUuid?: unknown }) {
+    if (typeof body?.orgUuid !== 'string' || !body.orgUuid.trim()) {
+      throw this.invalidInput('INVALID_ORG_UUID', 'orgUuid is required');
+    }
+    const orgUuid = body.orgUuid.trim();
+
+    try {
+      const report = await this.onboardingService.syncFacilities(orgUuid);
+
+      return {
+        success: true,
+        data: report,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'facility_sync', { orgUuid });
+    }
+  }
+
+  /**
+   * One facility with its address, time zone and bed count
+   */
+  @Get(':facilityId')
+  async getFacility(
+    @Param('facilityId', ParseIntPipe) facilityId: number,
+    @Query('orgUuid') orgUuid?: string
+  ) {
+    if (!orgUuid?.trim()) {
+      throw this.invalidInput('INVALID_ORG_UUID', 'orgUuid is required');
+    }
+
+    try {
+      const facility = await this.onboardingService.getFacility(
+        orgUuid.trim(),
+        facilityId
+      );
+
+      return {
+        success: true,
+        data: facility,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'facility_lookup', {
+        orgUuid,
+        facilityId,
+      });
+    }
+  }
+
+  /**
+   * Builds a 400 response for malformed request input
+   */
+  private invalidInput(error: string, message: string): HttpException {
+    return new HttpException(
+      {
+        error,
+        message,
+        timestamp: new Date().toISOString(),
+      },
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  /**
+   * Maps domain errors to HTTP responses, as the onboarding endpoints do
+   */
+  private mapDomainErrorToHttp(
+    error: unknown,
+    operation: string,
+    context?: Record<string, unknown>
+  ): HttpException {
+    if (!(error instanceof OnboardingError)) {
+      this.logger.error(`Unexpected error in ${operation}:`, error);
+
+      return new HttpException(
+        {
+          error: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+          operation,
+          timestamp: new Date().toISOString(),
+          ...(context && { context }),
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    let status: HttpStatus;
+    switch (error.code) {
+      case NIV_ERRORS.FACILITY_NOT_FOUND:
+        status = HttpStatus.NOT_FOUND;
+        break;
+      case NIV_ERRORS.PCC_UNAUTHORIZED:
+        status = HttpStatus.UNAUTHORIZED;
+        break;
+      default:
+        status =
+          error.action === 'retry'
+            ? HttpStatus.SERVICE_UNAVAILABLE
+            : HttpStatus.BAD_REQUEST;
+    }
+
+    return new HttpException(
+      {
+        error: error.code,
+        message: error.message,
+        action: error.action,
+        operation,
+        timestamp: new Date().toISOString(),
+        ...(error.action === 'retry' && { retryable: true, retryAfter: 30 }),
+        ...(context && { context }),
+      },
+      status
+    );
+  }
+}
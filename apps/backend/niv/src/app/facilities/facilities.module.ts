@@ -0,0 +1,17 @@
+// apps/backend/niv/src/app/facilities/facilities.module.ts
+
+/**
+ * NestJS Module (Hexagonal Architecture)
+ *
+ * Facility directory endpoints, backed by the onboarding bounded context.
+ */
+
+import { Module } from '@nestjs/common';
+import { OnboardingModule } from '../onboarding/onboarding.module';
+import { FacilitiesController } from './facilities.controller';
+
+@Module({
+  imports: [OnboardingModule],
+  controllers: [FacilitiesController],
+})
+export class FacilitiesModule {}
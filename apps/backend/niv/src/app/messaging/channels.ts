@@ -0,0 +1,55 @@
+import type { PostgresClient } from '../db/postgres';
+import {
+  createFileEmailChannel,
+  createSmtpEmailChannel,
+} from './email-channel';
+import { createInAppChannel } from './in-app-channel';
+import { ChannelName, MessageChannel, SmtpConfig } from './types';
+import { createWebhookChannel } from './webhook-channel';
+
+// Helper function to create SMTP config from environment variables
+// Defaults point at a local MailHog instance
+export function createSmtpConfigFromEnv(): SmtpConfig {
+  return {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : 1025,
+    secure: process.env.SMTP_SECURE === 'true',
+    from: process.env.SMTP_FROM || 'niv-onboarding@localhost',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+  };
+}
+
+/**
+ * Create the enabled message channels from environment variables
+ *
+ * NOTIFICATION_CHANNELS - comma separated, default "in-app,email,webhook"
+ * NOTIFICATION_EMAIL_FILE - when set, email goes to this JSON-lines file
+ *                           instead of SMTP (dev stand-in)
+ */
+export function createMessageChannelsFromEnv(
+  client: PostgresClient
+): Map<ChannelName, MessageChannel> {
+  const enabled = (process.env.NOTIFICATION_CHANNELS || 'in-app,email,webhook')
+    .split(',')
+    .map((name) => name.trim());
+
+  const channels = new Map<ChannelName, MessageChannel>();
+
+  if (enabled.includes('in-app')) {
+    channels.set('in-app', createInAppChannel(client));
+  }
+  if (enabled.includes('email')) {
+    channels.set(
+      'email',
+      process.env.NOTIFICATION_EMAIL_FILE
+        ? createFileEmailChannel(process.env.NOTIFICATION_EMAIL_FILE)
+        : createSmtpEmailChannel(createSmtpConfigFromEnv())
+    );
+  }
+  if (enabled.includes('webhook')) {
+    channels.set('webhook', createWebhookChannel());
+  }
+
+  return channels;
+}
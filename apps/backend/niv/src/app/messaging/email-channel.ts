@@ -0,0 +1,53 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { createTransport } from 'nodemailer';
+import { MessageChannel, OutboundMessage, SmtpConfig } from './types';
+
+// Email over SMTP - works against MailHog (localhost:1025) in dev
+export function createSmtpEmailChannel(config: SmtpConfig): MessageChannel {
+  const transport = createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user
+      ? { user: config.user, pass: config.password }
+      : undefined,
+  });
+
+  const send = async (message: OutboundMessage): Promise<void> => {
+    try {
+      await transport.sendMail({
+        from: config.from,
+        to: message.address,
+        subject: message.subject,
+        text: message.body,
+        headers: { 'X-Message-Id': message.messageId },
+      });
+    } catch (error) {
+      throw new Error(
+        `SMTP delivery to ${message.address} failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  };
+
+  return { name: 'email', send };
+}
+
+// Email written to a JSON-lines file - local stand-in when no SMTP server runs
+export function createFileEmailChannel(filePath: string): MessageChannel {
+  const send = async (message: OutboundMessage): Promise<void> => {
+    await mkdir(dirname(filePath), { recursive: true });
+    await appendFile(
+      filePath,
+      `${JSON.stringify({
+        ...message,
+        channel: 'email',
+        sentAt: new Date().toISOString(),
+      })}\n`
+    );
+  };
+
+  return { name: 'email', send };
+}
@@ -0,0 +1,24 @@
+import type { PostgresClient } from '../db/postgres';
+import { MessageChannel, OutboundMessage } from './types';
+
+// In-app - stores the message in in_app_notifications for the user's inbox
+export function createInAppChannel(client: PostgresClient): MessageChannel {
+  const send = async (message: OutboundMessage): Promise<void> => {
+    await client.query(
+      `INSERT INTO in_app_notifications (
+         message_id, recipient_id, subject, body, data
+       )
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (message_id) DO NOTHING`,
+      [
+        message.messageId,
+        message.address,
+        message.subject,
+        message.body,
+        message.data ? JSON.stringify(message.data) : null,
+      ]
+    );
+  };
+
+  return { name: 'in-app', send };
+}
@@ -0,0 +1,17 @@
+// Clean barrel export for outbound messaging channels
+export {
+  createMessageChannelsFromEnv,
+  createSmtpConfigFromEnv,
+} from './channels';
+export {
+  createFileEmailChannel,
+  createSmtpEmailChannel,
+} from './email-channel';
+export { createInAppChannel } from './in-app-channel';
+export { createWebhookChannel } from './webhook-channel';
+export type {
+  ChannelName,
+  MessageChannel,
+  OutboundMessage,
+  SmtpConfig,
+} from './types';
@@ -0,0 +1,28 @@
+// Messaging types shared by every delivery channel
+export type ChannelName = 'in-app' | 'email' | 'webhook';
+
+// A rendered message addressed to one recipient on one channel
+export type OutboundMessage = {
+  readonly messageId: string;
+  readonly recipientId: string;
+  // Email address, webhook URL or in-app user id depending on channel
+  readonly address: string;
+  readonly subject: string;
+  readonly body: string;
+  readonly data?: Record<string, unknown>;
+};
+
+// Channel contract - send resolves once the message is handed off
+export type MessageChannel = {
+  readonly name: ChannelName;
+  readonly send: (message: OutboundMessage) => Promise<void>;
+};
+
+export type SmtpConfig = {
+  readonly host: string;
+  readonly port: number;
+  readonly secure: boolean;
+  readonly from: string;
+  readonly user?: string;
+  readonly password?: string;
+};
@@ -0,0 +1,29 @@
+import axios from 'axios';
+import { MessageChannel, OutboundMessage } from './types';
+
+// Webhook - POSTs the message as JSON to the recipient's URL
+export function createWebhookChannel(timeout = 10000): MessageChannel {
+  const send = async (message: OutboundMessage): Promise<void> => {
+    try {
+      await axios.post(
+        message.address,
+        {
+          messageId: message.messageId,
+          recipientId: message.recipientId,
+          subject: message.subject,
+          body: message.body,
+          data: message.data,
+        },
+        { timeout, headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      throw new Error(
+        `Webhook delivery to ${message.address} failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  };
+
+  return { name: 'webhook', send };
+}
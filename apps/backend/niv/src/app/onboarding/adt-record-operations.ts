@@ -0,0 +1,29 @@
+// apps/backend/niv/src/app/onboarding/adt-record-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for recording which ADT records were applied to a
+ * case. Implemented by adt-record-repository.ts.
+ */
+
+import type { AppliedAdtRecord } from './adt-record';
+
+/**
+ * Contract for reading the ADT records already applied to a case, oldest
+ * first
+ */
+export type FindAppliedAdtRecords = (
+  caseId: string
+) => Promise<AppliedAdtRecord[]>;
+
+/**
+ * Contract for recording that an ADT record was applied to a case
+ *
+ * Returns false when the record was already applied, so a webhook and a
+ * poll acting on the same record apply it once
+ */
+export type SaveAppliedAdtRecord = (
+  applied: AppliedAdtRecord
+) => Promise<boolean>;
@@ -0,0 +1,87 @@
+// apps/backend/niv/src/app/onboarding/adt-record-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements applied ADT record persistence using Postgres
+ * (onboarding_case_adt_records table).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import type { AdtActionType, AdtOutcome } from './adt-record';
+import type {
+  FindAppliedAdtRecords,
+  SaveAppliedAdtRecord,
+} from './adt-record-operations';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+
+/**
+ * Row shape of the onboarding_case_adt_records table
+ */
+type AppliedAdtRecordRow = {
+  case_id: string;
+  adt_record_id: number;
+  standard_action_type: AdtActionType;
+  effective_at: Date;
+  outcome: AdtOutcome;
+  applied_at: Date;
+};
+
+/**
+ * Create applied ADT record repository using Postgres as the implementation
+ */
+export function createPostgresAdtRecordRepository(client: PostgresClient) {
+  const findAppliedRecords: FindAppliedAdtRecords = async (caseId) => {
+    try {
+      const rows = await client.query<AppliedAdtRecordRow>(
+        `SELECT * FROM onboarding_case_adt_records
+         WHERE case_id = $1
+         ORDER BY effective_at, adt_record_id`,
+        [caseId]
+      );
+
+      return rows.map((row) => ({
+        caseId: row.case_id,
+        adtRecordId: row.adt_record_id,
+        standardActionType: row.standard_action_type,
+        effectiveAt: row.effective_at,
+        outcome: row.outcome,
+        appliedAt: row.applied_at,
+      }));
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'adt_record_lookup');
+    }
+  };
+
+  const saveAppliedRecord: SaveAppliedAdtRecord = async (applied) => {
+    try {
+      const rows = await client.query<{ adt_record_id: number }>(
+        `INSERT INTO onboarding_case_adt_records (
+           case_id, adt_record_id, standard_action_type, effective_at,
+           outcome, applied_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (case_id, adt_record_id) DO NOTHING
+         RETURNING adt_record_id`,
+        [
+          applied.caseId,
+          applied.adtRecordId,
+          applied.standardActionType,
+          applied.effectiveAt,
+          applied.outcome,
+          applied.appliedAt,
+        ]
+      );
+
+      return rows.length > 0;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'adt_record_save');
+    }
+  };
+
+  return {
+    findAppliedRecords,
+    saveAppliedRecord,
+  };
+}
@@ -0,0 +1,157 @@
+// apps/backend/niv/src/app/onboarding/adt-record.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * Admission, discharge and transfer (ADT) records from the patient's
+ * census in PCC. Facilities name their own action types; each maps to a
+ * standard action type, which decides what the record means for an
+ * onboarding case:
+ *
+ *   Death                          → CLOSED
+ *   Discharge to a hospital, Leave → SUSPENDED (the patient is expected back)
+ *   Any other Discharge            → CLOSED
+ *   Admission, Return from Leave   → WATCHLIST on a SUSPENDED or CLOSED case
+ *
+ * Each record is applied to a case once, oldest first.
+ */
+
+import type { OnboardingCase, OnboardingStatus } from './onboarding-case';
+
+export const ADT_ACTION_TYPES = [
+  'Admission',
+  'Death',
+  'Discharge',
+  'Internal Transfer',
+  'Leave',
+  'Return from Leave',
+  'Room Reserve',
+] as const;
+
+export type AdtActionType = (typeof ADT_ACTION_TYPES)[number];
+
+// What applying a record did to the case
+export type AdtOutcome = 'SUSPENDED' | 'CLOSED' | 'READMITTED' | 'NO_CHANGE';
+
+export type AdtRecord = {
+  readonly adtRecordId: number;
+  readonly patientId: number;
+  readonly standardActionType: AdtActionType;
+  // The facility's own name for the action, e.g. "Transfer Out"
+  readonly actionType: string;
+  readonly effectiveAt: Date;
+  // Where the patient went (Death, Discharge, Leave)
+  readonly destination: string | null;
+  readonly destinationType: string | null;
+  // Where the patient came from (Admission, Return from Leave)
+  readonly origin: string | null;
+};
+
+/**
+ * A record that has been applied to a case
+ */
+export type AppliedAdtRecord = {
+  readonly caseId: string;
+  readonly adtRecordId: number;
+  readonly standardActionType: AdtActionType;
+  readonly effectiveAt: Date;
+  readonly outcome: AdtOutcome;
+  readonly appliedAt: Date;
+};
+
+export type AdtDecision = {
+  readonly outcome: AdtOutcome;
+  // Reason recorded on the case transition
+  readonly reason: string;
+};
+
+// Statuses a case is in while the patient is in the building
+const IN_CARE_STATUSES: readonly OnboardingStatus[] = [
+  'NEW',
+  'WATCHLIST',
+  'PENDING',
+  'ACTIVE',
+  'REVIEWED',
+  'CHANGED',
+];
+
+export function isAdtActionType(value: string): value is AdtActionType {
+  return (ADT_ACTION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Decide what an ADT record means for the case
+ *
+ * Business rules:
+ * - A discharge to an acute care setting suspends the case; the patient
+ *   usually returns, so their onboarding resumes on readmission
+ * - Death or a discharge anywhere else closes the case, also while it is
+ *   suspended
+ * - Readmission re-opens a SUSPENDED or CLOSED case for RT review with its
+ *   history; a case closed by the patient's death stays closed
+ */
+export function decideAdtAction(
+  onboardingCase: OnboardingCase,
+  record: AdtRecord,
+  closedByDeath: boolean
+): AdtDecision {
+  const effective = record.effectiveAt.toISOString().slice(0, 10);
+  const where = (place: string | null, type: string | null) =>
+    [place, type && type !== place ? `(${type})` : null]
+      .filter(Boolean)
+      .join(' ');
+  const inCare = IN_CARE_STATUSES.includes(onboardingCase.status);
+
+  switch (record.standardActionType) {
+    case 'Death':
+      return onboardingCase.status === 'CLOSED'
+        ? noChange('case already closed')
+        : {
+            outcome: 'CLOSED',
+            reason: `Patient died (${record.actionType}, effective ${effective})`,
+          };
+
+    case 'Discharge':
+    case 'Leave': {
+      const destination = where(record.destination, record.destinationType);
+      const expectedBack =
+        record.standardActionType === 'Leave' ||
+        /hospital|acute/i.test(record.destinationType ?? '');
+      // A suspended patient discharged for good closes the case
+      if (!inCare && (expectedBack || onboardingCase.status === 'CLOSED')) {
+        return noChange(`case already ${onboardingCase.status}`);
+      }
+      return {
+        outcome: expectedBack ? 'SUSPENDED' : 'CLOSED',
+        reason: `${record.actionType} effective ${effective}${
+          destination ? ` to ${destination}` : ''
+        }`,
+      };
+    }
+
+    case 'Admission':
+    case 'Return from Leave': {
+      if (inCare) {
+        return noChange(`case already ${onboardingCase.status}`);
+      }
+      if (closedByDeath) {
+        return noChange('case was closed when the patient died');
+      }
+      const origin = where(record.origin, null);
+      return {
+        outcome: 'READMITTED',
+        reason: `${record.actionType} effective ${effective}${
+          origin ? ` from ${origin}` : ''
+        }`,
+      };
+    }
+
+    default:
+      // Room changes and bed holds leave the case where it is
+      return noChange(`${record.standardActionType} does not affect the case`);
+  }
+}
+
+function noChange(reason: string): AdtDecision {
+  return { outcome: 'NO_CHANGE', reason };
+}
@@ -0,0 +1,400 @@
+// apps/backend/niv/src/app/onboarding/adt-tracking.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Follows each enrolled patient's census in PCC. New ADT records are
+ * applied to the case oldest first: a hospital transfer or leave suspends
+ * it, a discharge or death closes it, and a readmission puts it back on
+ * the RT review queue with a refreshed assessment. A patient who moves to
+ * another facility of the organization takes their case with them, and
+ * the case is reassigned to an RT covering the new facility.
+ */
+
+import { decideAdtAction, type AdtOutcome, type AdtRecord } from './adt-record';
+import type {
+  FindAppliedAdtRecords,
+  SaveAppliedAdtRecord,
+} from './adt-record-operations';
+import { toQualificationSnapshot } from './case-management';
+import type { CaseNotifications } from './case-notifications';
+import type {
+  FindAdtTrackedCases,
+  FindInactiveCasesByPerson,
+  SaveCaseTransition,
+  SaveOnboardingCase,
+} from './case-operations';
+import { applyTransition, type CaseTransition } from './case-workflow';
+import type { GetPatient, GetPatientAdtRecords } from './ehr-operations';
+import { forEachWithLimit } from './facility-screening';
+import {
+  withPatientStay,
+  withQualification,
+  type OnboardingCase,
+  type OnboardingStatus,
+} from './onboarding-case';
+import type { AssessmentResult } from './qualifications';
+import type { RtAssignmentService } from './rt-assignment';
+
+export const PCC_ADT_ACTOR = 'system:pcc-adt';
+// Cases synced side by side; each sync makes two or three PCC calls
+const SYNC_CONCURRENCY = 4;
+
+const TRANSITION_FOR: Partial<Record<AdtOutcome, CaseTransition>> = {
+  SUSPENDED: 'suspend',
+  CLOSED: 'close',
+  READMITTED: 'readmit',
+};
+
+/**
+ * An ADT record applied during a sync
+ */
+export type AdtChange = {
+  readonly adtRecordId: number;
+  readonly standardActionType: AdtRecord['standardActionType'];
+  readonly effectiveAt: Date;
+  readonly outcome: AdtOutcome;
+  readonly reason: string;
+};
+
+/**
+ * What syncing a case with the patient's census did
+ */
+export type AdtSyncResult = {
+  readonly caseId: string;
+  readonly patientId: number;
+  readonly status: OnboardingStatus;
+  // Facility the case moved from (transfers only)
+  readonly movedFromFacilityId: number | null;
+  readonly changes: AdtChange[];
+};
+
+/**
+ * Outcome of syncing every tracked case
+ */
+export type AdtSyncReport = {
+  readonly checked: number;
+  // Cases that moved or had records applied
+  readonly changed: AdtSyncResult[];
+  readonly failed: Array<{ caseId: string; error: string }>;
+};
+
+/**
+ * Dependencies that ADT tracking needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type AdtTrackingDependencies = {
+  getPatient: GetPatient;
+  getAdtRecords: GetPatientAdtRecords;
+  assessQualification: (
+    orgUuid: string,
+    patientId: number
+  ) => Promise<AssessmentResult>;
+  findInactiveCasesByPerson: FindInactiveCasesByPerson;
+  findTrackedCases: FindAdtTrackedCases;
+  saveCase: SaveOnboardingCase;
+  saveTransition: SaveCaseTransition;
+  findAppliedRecords: FindAppliedAdtRecords;
+  saveAppliedRecord: SaveAppliedAdtRecord;
+  assignRt: RtAssignmentService['assignCase'];
+  notify: CaseNotifications['notify'];
+  // Called when a notification cannot be sent; the census change stands
+  onNotificationFailure: (error: unknown) => void;
+  // How long a CLOSED case is still matched to a readmission
+  readmissionWindowDays: number;
+};
+
+/**
+ * ADT tracking domain service interface
+ */
+export interface AdtTracking {
+  /**
+   * Apply the patient's new ADT records to their case
+   *
+   * Business rules:
+   * - Each record is applied once, oldest first
+   * - A patient now at another facility moves the case there and it is
+   *   reassigned to an RT covering that facility
+   * - Readmission refreshes the qualification assessment before the case
+   *   goes back to WATCHLIST
+   */
+  syncCase(onboardingCase: OnboardingCase, now?: Date): Promise<AdtSyncResult>;
+
+  /**
+   * Move a SUSPENDED or CLOSED case from another facility of the
+   * organization to a newly admitted patient ID, then sync it
+   *
+   * Returns null when the patient was not enrolled elsewhere
+   */
+  followTransfer(
+    orgUuid: string,
+    patientId: number,
+    now?: Date
+  ): Promise<AdtSyncResult | null>;
+
+  /**
+   * Sync every case that is open or closed within the readmission window
+   */
+  syncTrackedCases(now?: Date): Promise<AdtSyncReport>;
+}
+
+/**
+ * Factory function to create ADT tracking domain service
+ */
+export function createAdtTracking(deps: AdtTrackingDependencies): AdtTracking {
+  const windowStart = (now: Date) =>
+    new Date(now.getTime() - deps.readmissionWindowDays * 24 * 60 * 60_000);
+
+  // Business rule: the case follows the patient; the RT must cover the
+  // facility the patient is now in
+  const moveCase = async (
+    onboardingCase: OnboardingCase,
+    patientId: number,
+    facilityId: number,
+    now: Date
+  ): Promise<{ moved: OnboardingCase; assignmentError: unknown }> => {
+    const stay = await deps.saveCase(
+      withPatientStay(onboardingCase, patientId, facilityId, now)
+    );
+    const moved = await deps.saveTransition(
+      applyTransition(
+        stay,
+        'transfer',
+        PCC_ADT_ACTOR,
+        `Transferred from facility ${onboardingCase.facilityId} (patient ${onboardingCase.patientId}) to facility ${facilityId} (patient ${patientId})`,
+        now
+      )
+    );
+
+    try {
+      return {
+        moved: await deps.assignRt(moved, PCC_ADT_ACTOR),
+        assignmentError: null,
+      };
+    } catch (error) {
+      // The move stands; the previous RT keeps the case until staff reassign it
+      return { moved, assignmentError: error };
+    }
+  };
+
+  const refreshQualification = async (
+    onboardingCase: OnboardingCase,
+    now: Date
+  ): Promise<OnboardingCase> => {
+    const assessment = await deps.assessQualification(
+      onboardingCase.orgUuid,
+      onboardingCase.patientId
+    );
+    const snapshot = toQualificationSnapshot(assessment, now);
+    // Readmission goes ahead on the last assessment when PCC has no answer
+    return snapshot
+      ? await deps.saveCase(withQualification(onboardingCase, snapshot, now))
+      : onboardingCase;
+  };
+
+  const applyRecords = async (
+    onboardingCase: OnboardingCase,
+    now: Date
+  ): Promise<{ current: OnboardingCase; changes: AdtChange[] }> => {
+    const [records, applied] = await Promise.all([
+      deps.getAdtRecords(
+        onboardingCase.orgUuid,
+        onboardingCase.patientId,
+        onboardingCase.createdAt
+      ),
+      deps.findAppliedRecords(onboardingCase.caseId),
+    ]);
+    const appliedIds = new Set(applied.map((record) => record.adtRecordId));
+    let closedByDeath = applied.some(
+      (record) =>
+        record.standardActionType === 'Death' && record.outcome === 'CLOSED'
+    );
+
+    let current = onboardingCase;
+    const changes: AdtChange[] = [];
+    for (const record of records) {
+      if (appliedIds.has(record.adtRecordId)) {
+        continue;
+      }
+
+      const decision = decideAdtAction(current, record, closedByDeath);
+      const transition = TRANSITION_FOR[decision.outcome];
+      if (transition) {
+        if (decision.outcome === 'READMITTED') {
+          current = await refreshQualification(current, now);
+        }
+        current = await deps.saveTransition(
+          applyTransition(
+            current,
+            transition,
+            PCC_ADT_ACTOR,
+            decision.reason,
+            now
+          )
+        );
+      }
+
+      const saved = await deps.saveAppliedRecord({
+        caseId: current.caseId,
+        adtRecordId: record.adtRecordId,
+        standardActionType: record.standardActionType,
+        effectiveAt: record.effectiveAt,
+        outcome: decision.outcome,
+        appliedAt: now,
+      });
+      if (!saved) {
+        // Applied by a concurrent sync
+        continue;
+      }
+
+      closedByDeath ||=
+        record.standardActionType === 'Death' && decision.outcome === 'CLOSED';
+      changes.push({
+        adtRecordId: record.adtRecordId,
+        standardActionType: record.standardActionType,
+        effectiveAt: record.effectiveAt,
+        outcome: decision.outcome,
+        reason: decision.reason,
+      });
+
+      if (decision.outcome !== 'NO_CHANGE') {
+        void deps
+          .notify({
+            type: 'CENSUS_CHANGED',
+            onboardingCase: current,
+            change: `${decision.outcome}: ${decision.reason}`,
+          })
+          .catch(deps.onNotificationFailure);
+      }
+    }
+
+    return { current, changes };
+  };
+
+  const syncMoved = async (
+    original: OnboardingCase,
+    moved: OnboardingCase,
+    assignmentError: unknown,
+    now: Date
+  ): Promise<AdtSyncResult> => {
+    void deps
+      .notify({
+        type: 'CENSUS_CHANGED',
+        onboardingCase: moved,
+        change: `Transferred from facility ${original.facilityId} to facility ${moved.facilityId}`,
+      })
+      .catch(deps.onNotificationFailure);
+
+    const { current, changes } = await applyRecords(moved, now);
+    if (assignmentError) {
+      // Records are applied; staff must still pick an RT for the new facility
+      throw assignmentError;
+    }
+
+    return {
+      caseId: current.caseId,
+      patientId: current.patientId,
+      status: current.status,
+      movedFromFacilityId: original.facilityId,
+      changes,
+    };
+  };
+
+  const syncCase = async (
+    onboardingCase: OnboardingCase,
+    now: Date = new Date()
+  ): Promise<AdtSyncResult> => {
+    const patient = await deps.getPatient(
+      onboardingCase.orgUuid,
+      onboardingCase.patientId
+    );
+    if (patient && patient.facilityId !== onboardingCase.facilityId) {
+      const { moved, assignmentError } = await moveCase(
+        onboardingCase,
+        onboardingCase.patientId,
+        patient.facilityId,
+        now
+      );
+      return await syncMoved(onboardingCase, moved, assignmentError, now);
+    }
+
+    const { current, changes } = await applyRecords(onboardingCase, now);
+    return {
+      caseId: current.caseId,
+      patientId: current.patientId,
+      status: current.status,
+      movedFromFacilityId: null,
+      changes,
+    };
+  };
+
+  const followTransfer = async (
+    orgUuid: string,
+    patientId: number,
+    now: Date = new Date()
+  ): Promise<AdtSyncResult | null> => {
+    const patient = await deps.getPatient(orgUuid, patientId);
+    if (!patient?.dateOfBirth) {
+      // Without a date of birth a name alone is too weak a match
+      return null;
+    }
+
+    const since = windowStart(now);
+    const candidates = (
+      await deps.findInactiveCasesByPerson(
+        orgUuid,
+        patient.firstName,
+        patient.lastName,
+        patient.dateOfBirth
+      )
+    ).filter(
+      (candidate) =>
+        candidate.facilityId !== patient.facilityId &&
+        (candidate.status === 'SUSPENDED' || candidate.updatedAt >= since)
+    );
+    if (candidates.length !== 1) {
+      // None, or more than one person it could be - left for staff
+      return null;
+    }
+
+    const [previous] = candidates;
+    const { moved, assignmentError } = await moveCase(
+      previous,
+      patientId,
+      patient.facilityId,
+      now
+    );
+    return await syncMoved(previous, moved, assignmentError, now);
+  };
+
+  const syncTrackedCases = async (
+    now: Date = new Date()
+  ): Promise<AdtSyncReport> => {
+    const cases = await deps.findTrackedCases(windowStart(now));
+
+    const changed: AdtSyncResult[] = [];
+    const failed: Array<{ caseId: string; error: string }> = [];
+    await forEachWithLimit(cases, SYNC_CONCURRENCY, async (onboardingCase) => {
+      try {
+        const result = await syncCase(onboardingCase, now);
+        if (result.movedFromFacilityId !== null || result.changes.length > 0) {
+          changed.push(result);
+        }
+      } catch (error) {
+        failed.push({
+          caseId: onboardingCase.caseId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+
+    return { checked: cases.length, changed, failed };
+  };
+
+  return {
+    syncCase,
+    followTransfer,
+    syncTrackedCases,
+  };
+}
@@ -0,0 +1,39 @@
+// apps/backend/niv/src/app/onboarding/case-document-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for case document records and the storage their
+ * files are uploaded to. Implemented by case-document-repository.ts and
+ * aws/s3-document-store.ts.
+ */
+
+import type { CaseDocument, StoredDocument } from './case-document';
+
+/**
+ * Contract for storing a new or updated case document
+ */
+export type SaveCaseDocument = (document: CaseDocument) => Promise<void>;
+
+/**
+ * Contract for reading one case document
+ */
+export type FindCaseDocument = (
+  documentId: string
+) => Promise<CaseDocument | null>;
+
+/**
+ * Contract for reading a case's documents, newest first
+ */
+export type FindCaseDocuments = (caseId: string) => Promise<CaseDocument[]>;
+
+/**
+ * Contract for reading an uploaded file back from storage
+ *
+ * Business operation: "Has the file actually arrived?"
+ * Resolves null when nothing was uploaded under the key
+ */
+export type ReadStoredDocument = (
+  storageKey: string
+) => Promise<StoredDocument | null>;
@@ -0,0 +1,128 @@
+// apps/backend/niv/src/app/onboarding/case-document-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements case document records using Postgres (case_documents table).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import type { CaseDocument, CaseDocumentStatus } from './case-document';
+import type {
+  FindCaseDocument,
+  FindCaseDocuments,
+  SaveCaseDocument,
+} from './case-document-operations';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+
+/**
+ * Row shape of the case_documents table
+ */
+type CaseDocumentRow = {
+  document_id: string;
+  case_id: string;
+  org_uuid: string;
+  patient_id: number;
+  facility_id: number;
+  file_name: string;
+  content_type: string;
+  storage_key: string;
+  status: CaseDocumentStatus;
+  pcc_document_id: number | null;
+  last_error: string | null;
+  created_at: Date;
+  attached_at: Date | null;
+};
+
+function rowToDocument(row: CaseDocumentRow): CaseDocument {
+  return {
+    documentId: row.document_id,
+    caseId: row.case_id,
+    orgUuid: row.org_uuid,
+    patientId: row.patient_id,
+    facilityId: row.facility_id,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    storageKey: row.storage_key,
+    status: row.status,
+    pccDocumentId: row.pcc_document_id,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    attachedAt: row.attached_at,
+  };
+}
+
+/**
+ * Create case document repository using Postgres as the implementation
+ */
+export function createPostgresCaseDocumentRepository(client: PostgresClient) {
+  const saveDocument: SaveCaseDocument = async (document) => {
+    try {
+      await client.query(
+        `INSERT INTO case_documents (
+           document_id, case_id, org_uuid, patient_id, facility_id,
+           file_name, content_type, storage_key, status, pcc_document_id,
+           last_error, created_at, attached_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         ON CONFLICT (document_id) DO UPDATE SET
+           status = EXCLUDED.status,
+           pcc_document_id = EXCLUDED.pcc_document_id,
+           last_error = EXCLUDED.last_error,
+           attached_at = EXCLUDED.attached_at`,
+        [
+          document.documentId,
+          document.caseId,
+          document.orgUuid,
+          document.patientId,
+          document.facilityId,
+          document.fileName,
+          document.contentType,
+          document.storageKey,
+          document.status,
+          document.pccDocumentId,
+          document.lastError,
+          document.createdAt,
+          document.attachedAt,
+        ]
+      );
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'case_document_save');
+    }
+  };
+
+  const findDocument: FindCaseDocument = async (documentId) => {
+    try {
+      const rows = await client.query<CaseDocumentRow>(
+        `SELECT * FROM case_documents WHERE document_id = $1`,
+        [documentId]
+      );
+
+      return rows.length > 0 ? rowToDocument(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'case_document_lookup');
+    }
+  };
+
+  const findCaseDocuments: FindCaseDocuments = async (caseId) => {
+    try {
+      const rows = await client.query<CaseDocumentRow>(
+        `SELECT * FROM case_documents
+         WHERE case_id = $1
+         ORDER BY created_at DESC`,
+        [caseId]
+      );
+
+      return rows.map(rowToDocument);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'case_document_lookup');
+    }
+  };
+
+  return {
+    saveDocument,
+    findDocument,
+    findCaseDocuments,
+  };
+}
@@ -0,0 +1,115 @@
+// apps/backend/niv/src/app/onboarding/case-document.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * A document uploaded for an onboarding case (a sleep study, a signed
+ * order, a lab report) and its copy in the patient's PCC chart. The file
+ * itself lives in S3; once the uploader confirms it is there it is
+ * attached to the chart and PCC's document ID is kept with the record.
+ */
+
+import type { OnboardingCase } from './onboarding-case';
+
+export type CaseDocumentStatus = 'AWAITING_UPLOAD' | 'ATTACHED' | 'FAILED';
+
+/**
+ * A case document and where its chart copy stands
+ */
+export type CaseDocument = {
+  readonly documentId: string;
+  readonly caseId: string;
+  readonly orgUuid: string;
+  readonly patientId: number;
+  readonly facilityId: number;
+  readonly fileName: string;
+  readonly contentType: string;
+  // S3 object key the uploader puts the file under
+  readonly storageKey: string;
+  readonly status: CaseDocumentStatus;
+  // ID PCC gave the chart copy once attached
+  readonly pccDocumentId: number | null;
+  readonly lastError: string | null;
+  readonly createdAt: Date;
+  readonly attachedAt: Date | null;
+};
+
+/**
+ * What the uploader says about the file it is about to put in S3
+ */
+export type CaseDocumentUpload = {
+  readonly fileName: string;
+  readonly contentType: string;
+  readonly storageKey: string;
+};
+
+/**
+ * The file as read back from storage
+ */
+export type StoredDocument = {
+  readonly content: Buffer;
+  readonly contentType: string | null;
+};
+
+/**
+ * A document as PCC attaches it to the chart
+ */
+export type PatientDocument = {
+  readonly orgUuid: string;
+  readonly patientId: number;
+  readonly facilityId: number;
+  readonly fileName: string;
+  readonly contentType: string;
+  // PCC document category the chart files it under
+  readonly categoryId: number;
+  readonly effectiveAt: Date;
+  readonly content: Buffer;
+};
+
+/**
+ * Record a document the uploader is about to put in storage
+ */
+export function createCaseDocument(
+  documentId: string,
+  onboardingCase: OnboardingCase,
+  upload: CaseDocumentUpload,
+  now: Date
+): CaseDocument {
+  return {
+    documentId,
+    caseId: onboardingCase.caseId,
+    orgUuid: onboardingCase.orgUuid,
+    patientId: onboardingCase.patientId,
+    facilityId: onboardingCase.facilityId,
+    fileName: upload.fileName,
+    contentType: upload.contentType,
+    storageKey: upload.storageKey,
+    status: 'AWAITING_UPLOAD',
+    pccDocumentId: null,
+    lastError: null,
+    createdAt: now,
+    attachedAt: null,
+  };
+}
+
+/**
+ * The chart copy of a stored document; the type the uploader declared
+ * wins over what storage reports, since that is what was allowed
+ */
+export function toPatientDocument(
+  document: CaseDocument,
+  stored: StoredDocument,
+  categoryId: number,
+  now: Date
+): PatientDocument {
+  return {
+    orgUuid: document.orgUuid,
+    patientId: document.patientId,
+    facilityId: document.facilityId,
+    fileName: document.fileName,
+    contentType: document.contentType,
+    categoryId,
+    effectiveAt: now,
+    content: stored.content,
+  };
+}
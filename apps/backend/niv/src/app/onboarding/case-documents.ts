@@ -0,0 +1,153 @@
+// apps/backend/niv/src/app/onboarding/case-documents.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Files documents uploaded for an onboarding case in the patient's PCC
+ * chart. An upload is recorded against the case before the file is sent
+ * to storage; when the uploader confirms it, the file is read back and
+ * attached to the chart.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  createCaseDocument,
+  toPatientDocument,
+  type CaseDocument,
+  type CaseDocumentUpload,
+} from './case-document';
+import type {
+  FindCaseDocument,
+  FindCaseDocuments,
+  ReadStoredDocument,
+  SaveCaseDocument,
+} from './case-document-operations';
+import type { CaseManagement } from './case-management';
+import type { AttachPatientDocument } from './ehr-operations';
+import { OnboardingError } from './errors';
+
+/**
+ * Dependencies that case documents need
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type CaseDocumentsDependencies = {
+  getCase: CaseManagement['getCase'];
+  saveDocument: SaveCaseDocument;
+  findDocument: FindCaseDocument;
+  findCaseDocuments: FindCaseDocuments;
+  readStoredDocument: ReadStoredDocument;
+  attachPatientDocument: AttachPatientDocument;
+  // PCC document category uploads are filed under, when configured
+  documentCategoryId: number | null;
+};
+
+/**
+ * Case documents domain service interface
+ */
+export interface CaseDocuments {
+  /**
+   * Record a document about to be uploaded for a case
+   *
+   * Business rule: the case must exist; the document goes to that
+   * case's patient
+   */
+  registerUpload(
+    caseId: string,
+    upload: CaseDocumentUpload,
+    now?: Date
+  ): Promise<CaseDocument>;
+
+  /**
+   * Attach an uploaded document to the patient's chart
+   *
+   * Business rules:
+   * - The file must be in storage; nothing is recorded until it is
+   * - A document already attached is returned as it is
+   * - A failed attach is recorded on the document and can be confirmed
+   *   again
+   */
+  attachDocument(documentId: string, now?: Date): Promise<CaseDocument>;
+
+  /**
+   * A case's documents, newest first
+   */
+  listCaseDocuments(caseId: string): Promise<CaseDocument[]>;
+}
+
+/**
+ * Factory function to create case documents domain service
+ */
+export function createCaseDocuments(
+  deps: CaseDocumentsDependencies
+): CaseDocuments {
+  const registerUpload = async (
+    caseId: string,
+    upload: CaseDocumentUpload,
+    now: Date = new Date()
+  ): Promise<CaseDocument> => {
+    const onboardingCase = await deps.getCase(caseId);
+    const document = createCaseDocument(
+      randomUUID(),
+      onboardingCase,
+      upload,
+      now
+    );
+
+    await deps.saveDocument(document);
+    return document;
+  };
+
+  const attachDocument = async (
+    documentId: string,
+    now: Date = new Date()
+  ): Promise<CaseDocument> => {
+    const document = await deps.findDocument(documentId);
+    if (!document) {
+      throw OnboardingError.caseDocumentNotFound(documentId);
+    }
+    if (document.status === 'ATTACHED') {
+      return document;
+    }
+    if (deps.documentCategoryId === null) {
+      throw OnboardingError.documentCategoryNotConfigured();
+    }
+
+    const stored = await deps.readStoredDocument(document.storageKey);
+    if (!stored) {
+      throw OnboardingError.caseDocumentNotUploaded(
+        documentId,
+        document.storageKey
+      );
+    }
+
+    try {
+      const pccDocumentId = await deps.attachPatientDocument(
+        toPatientDocument(document, stored, deps.documentCategoryId, now)
+      );
+
+      const attached: CaseDocument = {
+        ...document,
+        status: 'ATTACHED',
+        pccDocumentId,
+        lastError: null,
+        attachedAt: now,
+      };
+      await deps.saveDocument(attached);
+      return attached;
+    } catch (error) {
+      await deps.saveDocument({
+        ...document,
+        status: 'FAILED',
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+
+  return {
+    registerUpload,
+    attachDocument,
+    listCaseDocuments: deps.findCaseDocuments,
+  };
+}
@@ -0,0 +1,305 @@
+// apps/backend/niv/src/app/onboarding/case-management.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Business logic for enrolling patients in NIV onboarding and looking up
+ * their onboarding cases. Enrollment runs the qualification assessment and
+ * keeps its outcome on the case, so the record shows what was concluded
+ * and when.
+ */
+
+import { randomUUID } from 'crypto';
+import type { CaseNotifications } from './case-notifications';
+import type {
+  FindCaseTransitions,
+  FindOnboardingCase,
+  FindOnboardingCaseByPatient,
+  FindOnboardingCases,
+  OnboardingCaseFilter,
+  SaveCaseTransition,
+  SaveOnboardingCase,
+} from './case-operations';
+import {
+  addToWatchlist,
+  applyTransition,
+  type CaseTransition,
+  type CaseTransitionRecord,
+} from './case-workflow';
+import { OnboardingError } from './errors';
+import type { LabOrders } from './lab-orders';
+import {
+  openOnboardingCase,
+  type OnboardingCase,
+  type QualificationSnapshot,
+} from './onboarding-case';
+import type { AssessmentResult } from './qualifications';
+import type { ReReviewScheduler } from './re-review';
+import type { RtAssignmentService } from './rt-assignment';
+
+/**
+ * Dependencies that case management needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type CaseManagementDependencies = {
+  assessQualification: (
+    orgUuid: string,
+    patientId: number
+  ) => Promise<AssessmentResult>;
+  saveCase: SaveOnboardingCase;
+  findCase: FindOnboardingCase;
+  findCaseByPatient: FindOnboardingCaseByPatient;
+  findCases: FindOnboardingCases;
+  saveTransition: SaveCaseTransition;
+  findTransitions: FindCaseTransitions;
+  assignRt: RtAssignmentService['assignCase'];
+  reassignRt: RtAssignmentService['reassignCase'];
+  notify: CaseNotifications['notify'];
+  scheduleReReview: ReReviewScheduler['scheduleReReview'];
+  orderLabs: LabOrders['orderLabs'];
+  // Receives NOTIFICATION_FAILED errors, which never block the workflow
+  onNotificationFailure: (error: unknown) => void;
+};
+
+/**
+ * Case management domain service interface
+ */
+export interface CaseManagement {
+  /**
+   * Enroll a patient in NIV onboarding
+   *
+   * Business rules:
+   * - Patient must exist in EHR
+   * - A patient can only have one onboarding case per organization
+   * - New cases start in NEW with the enrollment assessment attached
+   * - Entering NEW assigns a respiratory therapist for the facility
+   * - Once assigned, an assessed case moves to WATCHLIST, the RT review
+   *   queue
+   * - Missing lab evidence puts the case on the lab-order worklist
+   * - Saving the case notifies the RT and facility staff
+   */
+  openCase(orgUuid: string, patientId: number): Promise<OnboardingCase>;
+
+  /**
+   * Get an onboarding case, failing with CASE_NOT_FOUND if missing
+   */
+  getCase(caseId: string): Promise<OnboardingCase>;
+
+  /**
+   * List onboarding cases, most recently updated first
+   */
+  listCases(filter: OnboardingCaseFilter): Promise<OnboardingCase[]>;
+
+  /**
+   * Move a case through the workflow
+   *
+   * Business rules:
+   * - Only transitions defined in case-workflow.ts are allowed
+   * - Every transition records who made it and why
+   * - Closing a case as REVIEWED schedules its re-review
+   * - Requesting labs puts the case on the lab-order worklist
+   */
+  transitionCase(
+    caseId: string,
+    transition: CaseTransition,
+    actor: string,
+    reason?: string
+  ): Promise<OnboardingCase>;
+
+  /**
+   * Get the transition history of a case, oldest first
+   */
+  getCaseHistory(caseId: string): Promise<CaseTransitionRecord[]>;
+
+  /**
+   * Assign a respiratory therapist to the case
+   *
+   * With an rtId this is a manual (re)assignment by staff; without one the
+   * configured assignment strategy picks the RT. A NEW case left waiting
+   * for an RT moves to WATCHLIST once it has one.
+   */
+  assignRt(
+    caseId: string,
+    assignedBy: string,
+    rtId?: string,
+    reason?: string
+  ): Promise<OnboardingCase>;
+}
+
+/**
+ * Factory function to create case management domain service
+ *
+ * @param deps - Qualification assessment and case repository operations
+ */
+export function createCaseManagement(
+  deps: CaseManagementDependencies
+): CaseManagement {
+  // Workflow: Patient stored and assigned → RT review queue
+  const enqueueForReview = async (
+    onboardingCase: OnboardingCase,
+    actor: string
+  ): Promise<OnboardingCase> => {
+    if (
+      onboardingCase.status !== 'NEW' ||
+      !onboardingCase.assignedRtId ||
+      !onboardingCase.qualification
+    ) {
+      return onboardingCase;
+    }
+    return await deps.saveTransition(addToWatchlist(onboardingCase, actor));
+  };
+
+  const openCase = async (
+    orgUuid: string,
+    patientId: number
+  ): Promise<OnboardingCase> => {
+    // Business rule: one case per patient
+    const existing = await deps.findCaseByPatient(orgUuid, patientId);
+    if (existing) {
+      throw OnboardingError.caseAlreadyExists(
+        patientId,
+        orgUuid,
+        existing.caseId
+      );
+    }
+
+    // Business rule: patient must exist in EHR
+    const assessment = await deps.assessQualification(orgUuid, patientId);
+    if (!assessment.success || !assessment.data) {
+      throw OnboardingError.patientNotFound(patientId, orgUuid);
+    }
+
+    const onboardingCase = openOnboardingCase(
+      randomUUID(),
+      orgUuid,
+      assessment.data.patient,
+      toQualificationSnapshot(assessment)
+    );
+
+    const saved = await deps.saveCase(onboardingCase);
+
+    // Workflow: NEW → Assign Respiratory Therapist RT
+    let assigned = saved;
+    let assignmentError: unknown = null;
+    try {
+      assigned = await deps.assignRt(saved, 'system');
+    } catch (error) {
+      assignmentError = error;
+    }
+    assigned = await enqueueForReview(assigned, 'system');
+
+    // Workflow: Are additional labs required? → order labs
+    const labsRequired = assigned.qualification?.labsRequired ?? [];
+    if (labsRequired.length > 0) {
+      await deps.orderLabs(assigned, labsRequired, 'system');
+    }
+
+    // Workflow: Store in NIV → System Notification Triggered
+    await deps
+      .notify({ type: 'CASE_SAVED', onboardingCase: assigned })
+      .catch(deps.onNotificationFailure);
+
+    if (assignmentError) {
+      throw assignmentError;
+    }
+    return assigned;
+  };
+
+  const getCase = async (caseId: string): Promise<OnboardingCase> => {
+    const onboardingCase = await deps.findCase(caseId);
+    if (!onboardingCase) {
+      throw OnboardingError.caseNotFound(caseId);
+    }
+    return onboardingCase;
+  };
+
+  const listCases = async (
+    filter: OnboardingCaseFilter
+  ): Promise<OnboardingCase[]> => {
+    return await deps.findCases(filter);
+  };
+
+  const transitionCase = async (
+    caseId: string,
+    transition: CaseTransition,
+    actor: string,
+    reason?: string
+  ): Promise<OnboardingCase> => {
+    const onboardingCase = await getCase(caseId);
+    const outcome = applyTransition(onboardingCase, transition, actor, reason);
+    const saved = await deps.saveTransition(outcome);
+
+    // Workflow: refused / not qualified → re-review after a set period
+    if (saved.status === 'REVIEWED') {
+      await deps.scheduleReReview(saved, transition);
+    }
+    // Workflow: order additional labs, including blood gases if missing
+    if (transition === 'requestLabs') {
+      await deps.orderLabs(
+        saved,
+        saved.qualification?.labsRequired ?? [],
+        actor
+      );
+    }
+    return saved;
+  };
+
+  const getCaseHistory = async (
+    caseId: string
+  ): Promise<CaseTransitionRecord[]> => {
+    // Business rule: history of an unknown case is an error, not []
+    await getCase(caseId);
+    return await deps.findTransitions(caseId);
+  };
+
+  const assignRt = async (
+    caseId: string,
+    assignedBy: string,
+    rtId?: string,
+    reason?: string
+  ): Promise<OnboardingCase> => {
+    const onboardingCase = await getCase(caseId);
+
+    const assigned = rtId
+      ? await deps.reassignRt(onboardingCase, rtId, assignedBy, reason)
+      : await deps.assignRt(onboardingCase, assignedBy);
+    return await enqueueForReview(assigned, assignedBy);
+  };
+
+  return {
+    openCase,
+    getCase,
+    listCases,
+    transitionCase,
+    getCaseHistory,
+    assignRt,
+  };
+}
+
+/**
+ * Captures the parts of an assessment worth keeping on the case
+ */
+export function toQualificationSnapshot(
+  assessment: AssessmentResult,
+  assessedAt: Date = new Date()
+): QualificationSnapshot | null {
+  if (!assessment.data) {
+    return null;
+  }
+
+  return {
+    clinicalQualifications: assessment.data.clinicalQualifications,
+    isNivEligible: assessment.data.isNivEligible,
+    diagnoses: assessment.data.diagnoses.map((diagnosis) => ({
+      code: diagnosis.code,
+      description: diagnosis.description,
+      isPrimary: diagnosis.isPrimary,
+      clinicalStatus: diagnosis.clinicalStatus,
+    })),
+    assessedAt,
+    ruleSetVersion: assessment.data.ruleSet.version,
+    labsRequired: assessment.data.labsRequired.tests,
+    exclusionReason: assessment.data.exclusion.reason,
+  };
+}
@@ -0,0 +1,278 @@
+// apps/backend/niv/src/app/onboarding/case-notifications.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Fans workflow events out to the people who need to know about them
+ * ("System Notification Triggered" in docs/wf-onboarding.d2). Every message
+ * gets a delivery record; failed deliveries are retried with backoff and
+ * reported as NOTIFICATION_FAILED without undoing the workflow step that
+ * triggered them.
+ */
+
+import { randomUUID } from 'crypto';
+import type { ChannelName } from '../messaging';
+import { OnboardingError } from './errors';
+import type {
+  CaseNotificationEvent,
+  NotificationDelivery,
+  NotificationRecipient,
+  NotificationRole,
+} from './notification';
+import type {
+  DeliverMessage,
+  FindDueDeliveries,
+  ResolveCaseRecipients,
+  SaveNotificationDeliveries,
+} from './notification-operations';
+
+// Give up after this many attempts; backoff doubles from one minute
+const MAX_DELIVERY_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60_000;
+
+type EventTemplate<E extends CaseNotificationEvent = CaseNotificationEvent> = {
+  readonly roles: readonly NotificationRole[];
+  readonly subject: (event: E) => string;
+  readonly body: (event: E) => string;
+};
+
+/**
+ * Who is notified for each event, and what they are told
+ */
+const EVENT_TEMPLATES: {
+  [T in CaseNotificationEvent['type']]: EventTemplate<
+    Extract<CaseNotificationEvent, { type: T }>
+  >;
+} = {
+  // New: RT, facility nurse, administrator, DON and unit manager notified
+  CASE_SAVED: {
+    roles: ['RT', 'NURSE', 'ADMIN', 'DON', 'MANAGER'],
+    subject: ({ onboardingCase }) =>
+      `NIV onboarding: ${onboardingCase.firstName} ${onboardingCase.lastName} added for review`,
+    body: ({ onboardingCase }) =>
+      [
+        `${onboardingCase.firstName} ${onboardingCase.lastName} (patient ${onboardingCase.patientId}) was added to NIV onboarding.`,
+        `Facility: ${onboardingCase.facilityId}`,
+        `Status: ${onboardingCase.status}`,
+        `NIV eligible: ${
+          onboardingCase.qualification?.isNivEligible ? 'yes' : 'no'
+        }`,
+        `Assigned RT: ${onboardingCase.assignedRtId ?? 'unassigned'}`,
+      ].join('\n'),
+  },
+  // ACTIVE: must be seen by RT every 7 days
+  VISIT_OVERDUE: {
+    roles: ['RT', 'NURSE', 'DON'],
+    subject: ({ onboardingCase }) =>
+      `NIV visit overdue: ${onboardingCase.firstName} ${onboardingCase.lastName}`,
+    body: ({ onboardingCase, dueAt, lastVisitAt }) =>
+      [
+        `${onboardingCase.firstName} ${onboardingCase.lastName} (patient ${onboardingCase.patientId}) is due a weekly RT visit.`,
+        `Facility: ${onboardingCase.facilityId}`,
+        `Visit due: ${dueAt.toISOString().slice(0, 10)}`,
+        `Last RT visit: ${
+          lastVisitAt ? lastVisitAt.toISOString().slice(0, 10) : 'none recorded'
+        }`,
+        `Assigned RT: ${onboardingCase.assignedRtId ?? 'unassigned'}`,
+      ].join('\n'),
+  },
+  // SUSPENDED / CLOSED / readmitted / transferred: the RT's caseload changed
+  CENSUS_CHANGED: {
+    roles: ['RT', 'NURSE', 'DON'],
+    subject: ({ onboardingCase }) =>
+      `NIV census change: ${onboardingCase.firstName} ${onboardingCase.lastName}`,
+    body: ({ onboardingCase, change }) =>
+      [
+        `${onboardingCase.firstName} ${onboardingCase.lastName} (patient ${onboardingCase.patientId}): ${change}.`,
+        `Facility: ${onboardingCase.facilityId}`,
+        `Status: ${onboardingCase.status}`,
+        `Assigned RT: ${onboardingCase.assignedRtId ?? 'unassigned'}`,
+      ].join('\n'),
+  },
+};
+
+/**
+ * Dependencies that case notifications need
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type CaseNotificationsDependencies = {
+  resolveRecipients: ResolveCaseRecipients;
+  deliver: DeliverMessage;
+  saveDeliveries: SaveNotificationDeliveries;
+  findDueDeliveries: FindDueDeliveries;
+  enabledChannels: readonly ChannelName[];
+};
+
+/**
+ * Outcome of a retry sweep
+ */
+export type RetryReport = {
+  readonly attempted: number;
+  readonly sent: number;
+  readonly failed: number;
+};
+
+/**
+ * Case notifications domain service interface
+ */
+export interface CaseNotifications {
+  /**
+   * Notify every role interested in the event
+   *
+   * Throws NOTIFICATION_FAILED after recording deliveries when any message
+   * failed or a role had nobody to notify. Callers decide whether that
+   * blocks them - workflow transitions must not be blocked.
+   */
+  notify(event: CaseNotificationEvent): Promise<void>;
+
+  /**
+   * Re-send failed deliveries whose retry time has come
+   */
+  retryDueDeliveries(now?: Date): Promise<RetryReport>;
+}
+
+/**
+ * Factory function to create case notifications domain service
+ */
+export function createCaseNotifications(
+  deps: CaseNotificationsDependencies
+): CaseNotifications {
+  const attempt = async (
+    delivery: NotificationDelivery,
+    now: Date
+  ): Promise<NotificationDelivery> => {
+    const attempts = delivery.attempts + 1;
+
+    try {
+      await deps.deliver(delivery.channel, {
+        messageId: delivery.deliveryId,
+        recipientId: delivery.recipientId,
+        address: delivery.address,
+        subject: delivery.subject,
+        body: delivery.body,
+        data: { caseId: delivery.caseId, event: delivery.eventType },
+      });
+
+      return {
+        ...delivery,
+        status: 'SENT',
+        attempts,
+        lastError: null,
+        nextAttemptAt: null,
+        sentAt: now,
+      };
+    } catch (error) {
+      return {
+        ...delivery,
+        status: 'FAILED',
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt:
+          attempts < MAX_DELIVERY_ATTEMPTS
+            ? new Date(
+                now.getTime() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)
+              )
+            : null,
+      };
+    }
+  };
+
+  const notify = async (event: CaseNotificationEvent): Promise<void> => {
+    // Each template only ever receives its own event type
+    const template = EVENT_TEMPLATES[event.type] as EventTemplate;
+    const now = new Date();
+    const recipients = await deps.resolveRecipients(
+      event.onboardingCase,
+      template.roles
+    );
+
+    const deliveries = recipients.flatMap((recipient) =>
+      channelsFor(recipient, deps.enabledChannels).map(
+        ({ channel, address }): NotificationDelivery => ({
+          deliveryId: randomUUID(),
+          caseId: event.onboardingCase.caseId,
+          eventType: event.type,
+          recipientId: recipient.recipientId,
+          role: recipient.role,
+          channel,
+          address,
+          subject: template.subject(event),
+          body: template.body(event),
+          status: 'PENDING',
+          attempts: 0,
+          lastError: null,
+          nextAttemptAt: null,
+          createdAt: now,
+          sentAt: null,
+        })
+      )
+    );
+
+    // Record before sending so nothing is lost if the process dies mid-way
+    await deps.saveDeliveries(deliveries);
+    const attempted = await Promise.all(
+      deliveries.map((delivery) => attempt(delivery, now))
+    );
+    await deps.saveDeliveries(attempted);
+
+    const failures = attempted
+      .filter((delivery) => delivery.status === 'FAILED')
+      .map((delivery) => ({
+        recipientId: delivery.recipientId,
+        role: delivery.role,
+        channel: delivery.channel,
+        error: delivery.lastError,
+      }));
+    const missingRoles = template.roles.filter(
+      (role) => !recipients.some((recipient) => recipient.role === role)
+    );
+
+    if (failures.length > 0 || missingRoles.length > 0) {
+      throw OnboardingError.notificationFailed(
+        event.onboardingCase.caseId,
+        event.type,
+        failures,
+        missingRoles
+      );
+    }
+  };
+
+  const retryDueDeliveries = async (
+    now: Date = new Date()
+  ): Promise<RetryReport> => {
+    const due = await deps.findDueDeliveries(now, 100);
+    const attempted = await Promise.all(
+      due.map((delivery) => attempt(delivery, now))
+    );
+    await deps.saveDeliveries(attempted);
+
+    const sent = attempted.filter((d) => d.status === 'SENT').length;
+    return { attempted: attempted.length, sent, failed: due.length - sent };
+  };
+
+  return {
+    notify,
+    retryDueDeliveries,
+  };
+}
+
+/**
+ * Channels a recipient can be reached on: in-app always, email and
+ * webhook when the recipient has an address for them
+ */
+function channelsFor(
+  recipient: NotificationRecipient,
+  enabledChannels: readonly ChannelName[]
+): Array<{ channel: ChannelName; address: string }> {
+  const candidates: Array<{ channel: ChannelName; address: string | null }> = [
+    { channel: 'in-app', address: recipient.recipientId },
+    { channel: 'email', address: recipient.email },
+    { channel: 'webhook', address: recipient.webhookUrl },
+  ];
+
+  return candidates.filter(
+    (candidate): candidate is { channel: ChannelName; address: string } =>
+      candidate.address !== null && enabledChannels.includes(candidate.channel)
+  );
+}
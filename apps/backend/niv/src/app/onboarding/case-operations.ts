@@ -0,0 +1,105 @@
+// apps/backend/niv/src/app/onboarding/case-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for persisting onboarding cases. These interfaces are
+ * implemented by case repository adapters (case-repository.ts) which handle
+ * the technical details of a specific store like Postgres.
+ */
+
+import type { CaseTransitionRecord, TransitionOutcome } from './case-workflow';
+import type { OnboardingCase, OnboardingStatus } from './onboarding-case';
+
+/**
+ * Filters for listing onboarding cases
+ */
+export type OnboardingCaseFilter = {
+  orgUuid?: string;
+  facilityId?: number;
+  status?: OnboardingStatus;
+  limit?: number;
+  offset?: number;
+};
+
+/**
+ * Contract for storing a new or updated onboarding case
+ *
+ * Business operation: "Record this patient's onboarding case"
+ */
+export type SaveOnboardingCase = (
+  onboardingCase: OnboardingCase
+) => Promise<OnboardingCase>;
+
+/**
+ * Contract for loading a single onboarding case
+ *
+ * Business operation: "Open this patient's onboarding case"
+ */
+export type FindOnboardingCase = (
+  caseId: string
+) => Promise<OnboardingCase | null>;
+
+/**
+ * Contract for finding the case already opened for a patient
+ *
+ * Business operation: "Is this patient already enrolled?"
+ */
+export type FindOnboardingCaseByPatient = (
+  orgUuid: string,
+  patientId: number
+) => Promise<OnboardingCase | null>;
+
+/**
+ * Contract for listing onboarding cases
+ *
+ * Business operation: "Show the patients currently in onboarding"
+ * Most recently updated cases first
+ */
+export type FindOnboardingCases = (
+  filter: OnboardingCaseFilter
+) => Promise<OnboardingCase[]>;
+
+/**
+ * Contract for finding a person's SUSPENDED or CLOSED cases by name and
+ * date of birth
+ *
+ * Business operation: "Was this newly admitted patient enrolled at another
+ * of our facilities?" PCC gives a patient a new ID at each facility
+ */
+export type FindInactiveCasesByPerson = (
+  orgUuid: string,
+  firstName: string,
+  lastName: string,
+  dateOfBirth: Date
+) => Promise<OnboardingCase[]>;
+
+/**
+ * Contract for listing the cases whose patients' census is followed
+ *
+ * Business operation: "Whose admissions and discharges should we check?"
+ * Every case except those CLOSED before closedSince
+ */
+export type FindAdtTrackedCases = (
+  closedSince: Date
+) => Promise<OnboardingCase[]>;
+
+/**
+ * Contract for storing a status transition together with its audit record
+ *
+ * Business operation: "Move this case and note who did it and why"
+ * Must fail with ILLEGAL_STATUS_TRANSITION if the case moved concurrently
+ */
+export type SaveCaseTransition = (
+  outcome: TransitionOutcome
+) => Promise<OnboardingCase>;
+
+/**
+ * Contract for reading a case's transition history, oldest first
+ *
+ * Business operation: "Show how this case moved through the workflow"
+ */
+export type FindCaseTransitions = (
+  caseId: string
+) => Promise<CaseTransitionRecord[]>;
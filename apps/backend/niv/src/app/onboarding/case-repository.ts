@@ -0,0 +1,395 @@
+// apps/backend/niv/src/app/onboarding/case-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements onboarding case persistence using Postgres. Translates between
+ * the OnboardingCase aggregate and the onboarding_cases and
+ * onboarding_case_transitions tables created by postgres/init_scripts.
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import type {
+  FindAdtTrackedCases,
+  FindCaseTransitions,
+  FindInactiveCasesByPerson,
+  FindOnboardingCase,
+  FindOnboardingCaseByPatient,
+  FindOnboardingCases,
+  SaveCaseTransition,
+  SaveOnboardingCase,
+} from './case-operations';
+import type { CaseTransition, CaseTransitionRecord } from './case-workflow';
+import { OnboardingError } from './errors';
+import type {
+  OnboardingCase,
+  OnboardingStatus,
+  QualificationSnapshot,
+} from './onboarding-case';
+
+/**
+ * Row shape of the onboarding_cases table
+ */
+export type OnboardingCaseRow = {
+  case_id: string;
+  org_uuid: string;
+  patient_id: number;
+  facility_id: number;
+  first_name: string;
+  last_name: string;
+  date_of_birth: string | null;
+  status: OnboardingStatus;
+  assigned_rt_id: string | null;
+  qualification:
+    | (Omit<QualificationSnapshot, 'assessedAt'> & {
+        assessedAt: string;
+      })
+    | null;
+  device_fitted_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+/**
+ * Row shape of the onboarding_case_transitions table
+ */
+type CaseTransitionRow = {
+  case_id: string;
+  transition: CaseTransition;
+  from_status: OnboardingStatus;
+  to_status: OnboardingStatus;
+  actor: string;
+  reason: string | null;
+  occurred_at: Date;
+};
+
+/**
+ * Create case repository using Postgres as the implementation
+ *
+ * Takes the shared Postgres client; multi-statement writes run in a
+ * transaction on a single connection.
+ */
+export function createPostgresCaseRepository(client: PostgresClient) {
+  const { query } = client;
+
+  const saveCase: SaveOnboardingCase = async (
+    onboardingCase: OnboardingCase
+  ) => {
+    try {
+      const rows = await query<OnboardingCaseRow>(
+        `INSERT INTO onboarding_cases (
+           case_id, org_uuid, patient_id, facility_id, first_name, last_name,
+           date_of_birth, status, assigned_rt_id, qualification,
+           device_fitted_at, created_at, updated_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         ON CONFLICT (case_id) DO UPDATE SET
+           patient_id = EXCLUDED.patient_id,
+           facility_id = EXCLUDED.facility_id,
+           first_name = EXCLUDED.first_name,
+           last_name = EXCLUDED.last_name,
+           date_of_birth = EXCLUDED.date_of_birth,
+           status = EXCLUDED.status,
+           assigned_rt_id = EXCLUDED.assigned_rt_id,
+           qualification = EXCLUDED.qualification,
+           device_fitted_at = EXCLUDED.device_fitted_at,
+           updated_at = EXCLUDED.updated_at
+         RETURNING *`,
+        [
+          onboardingCase.caseId,
+          onboardingCase.orgUuid,
+          onboardingCase.patientId,
+          onboardingCase.facilityId,
+          onboardingCase.firstName,
+          onboardingCase.lastName,
+          onboardingCase.dateOfBirth
+            ? onboardingCase.dateOfBirth.toISOString().slice(0, 10)
+            : null,
+          onboardingCase.status,
+          onboardingCase.assignedRtId,
+          onboardingCase.qualification
+            ? JSON.stringify(onboardingCase.qualification)
+            : null,
+          onboardingCase.deviceFittedAt,
+          onboardingCase.createdAt,
+          onboardingCase.updatedAt,
+        ]
+      );
+
+      return rowToOnboardingCase(rows[0]);
+    } catch (error) {
+      // Another enrolment of the same patient won the race
+      if (isUniqueViolation(error)) {
+        const existing = await findCaseByPatient(
+          onboardingCase.orgUuid,
+          onboardingCase.patientId
+        ).catch(() => null);
+        throw OnboardingError.caseAlreadyExists(
+          onboardingCase.patientId,
+          onboardingCase.orgUuid,
+          existing?.caseId ?? 'unknown'
+        );
+      }
+      throw mapStoreErrorToOnboardingError(error, 'case_save');
+    }
+  };
+
+  const findCase: FindOnboardingCase = async (caseId: string) => {
+    try {
+      const rows = await query<OnboardingCaseRow>(
+        'SELECT * FROM onboarding_cases WHERE case_id = $1',
+        [caseId]
+      );
+
+      return rows.length > 0 ? rowToOnboardingCase(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'case_lookup');
+    }
+  };
+
+  const findCaseByPatient: FindOnboardingCaseByPatient = async (
+    orgUuid: string,
+    patientId: number
+  ) => {
+    try {
+      const rows = await query<OnboardingCaseRow>(
+        'SELECT * FROM onboarding_cases WHERE org_uuid = $1 AND patient_id = $2',
+        [orgUuid, patientId]
+      );
+
+      return rows.length > 0 ? rowToOnboardingCase(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'case_lookup_by_patient');
+    }
+  };
+
+  const findCases: FindOnboardingCases = async (filter) => {
+    // Build WHERE clause from the filters that were provided
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.orgUuid) {
+      params.push(filter.orgUuid);
+      conditions.push(`org_uuid = $${params.length}`);
+    }
+    if (filter.facilityId) {
+      params.push(filter.facilityId);
+      conditions.push(`facility_id = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(filter.limit ?? 100, filter.offset ?? 0);
+
+    try {
+      const rows = await query<OnboardingCaseRow>(
+        `SELECT * FROM onboarding_cases ${where}
+         ORDER BY updated_at DESC
+         LIMIT $${params.length - 1} OFFSET $${params.length}`,
+        params
+      );
+
+      return rows.map(rowToOnboardingCase);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'case_list');
+    }
+  };
+
+  const findInactiveCasesByPerson: FindInactiveCasesByPerson = async (
+    orgUuid: string,
+    firstName: string,
+    lastName: string,
+    dateOfBirth: Date
+  ) => {
+    try {
+      const rows = await query<OnboardingCaseRow>(
+        `SELECT * FROM onboarding_cases
+         WHERE org_uuid = $1
+           AND lower(first_name) = lower($2)
+           AND lower(last_name) = lower($3)
+           AND date_of_birth = $4
+           AND status IN ('SUSPENDED', 'CLOSED')
+         ORDER BY updated_at DESC`,
+        [orgUuid, firstName, lastName, dateOfBirth.toISOString().slice(0, 10)]
+      );
+
+      return rows.map(rowToOnboardingCase);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'case_lookup_by_person');
+    }
+  };
+
+  const findAdtTrackedCases: FindAdtTrackedCases = async (
+    closedSince: Date
+  ) => {
+    try {
+      const rows = await query<OnboardingCaseRow>(
+        `SELECT * FROM onboarding_cases
+         WHERE status <> 'CLOSED' OR updated_at >= $1
+         ORDER BY updated_at`,
+        [closedSince]
+      );
+
+      return rows.map(rowToOnboardingCase);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'case_list_adt_tracked');
+    }
+  };
+
+  const saveTransition: SaveCaseTransition = async ({
+    onboardingCase,
+    record,
+  }) => {
+    try {
+      return await client.transaction(async (tx) => {
+        // Only move the case if nobody moved it since it was loaded
+        const rows = await tx<OnboardingCaseRow>(
+          `UPDATE onboarding_cases
+           SET status = $3, device_fitted_at = $4, updated_at = $5
+           WHERE case_id = $1 AND status = $2
+           RETURNING *`,
+          [
+            record.caseId,
+            record.fromStatus,
+            onboardingCase.status,
+            onboardingCase.deviceFittedAt,
+            onboardingCase.updatedAt,
+          ]
+        );
+
+        if (rows.length === 0) {
+          throw OnboardingError.illegalTransition(
+            record.caseId,
+            record.transition,
+            record.fromStatus,
+            'case was modified concurrently'
+          );
+        }
+
+        await tx(
+          `INSERT INTO onboarding_case_transitions (
+             case_id, transition, from_status, to_status, actor, reason, occurred_at
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            record.caseId,
+            record.transition,
+            record.fromStatus,
+            record.toStatus,
+            record.actor,
+            record.reason,
+            record.occurredAt,
+          ]
+        );
+
+        return rowToOnboardingCase(rows[0]);
+      });
+    } catch (error) {
+      if (error instanceof OnboardingError) {
+        throw error;
+      }
+      throw mapStoreErrorToOnboardingError(error, 'case_transition');
+    }
+  };
+
+  const findTransitions: FindCaseTransitions = async (caseId: string) => {
+    try {
+      const rows = await query<CaseTransitionRow>(
+        `SELECT * FROM onboarding_case_transitions
+         WHERE case_id = $1
+         ORDER BY occurred_at ASC, transition_id ASC`,
+        [caseId]
+      );
+
+      return rows.map(rowToTransitionRecord);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'case_transition_history');
+    }
+  };
+
+  return {
+    saveCase,
+    findCase,
+    findCaseByPatient,
+    findCases,
+    findInactiveCasesByPerson,
+    findAdtTrackedCases,
+    saveTransition,
+    findTransitions,
+  };
+}
+
+/**
+ * Maps a database row to the OnboardingCase aggregate
+ */
+export function rowToOnboardingCase(row: OnboardingCaseRow): OnboardingCase {
+  return {
+    caseId: row.case_id,
+    orgUuid: row.org_uuid,
+    patientId: row.patient_id,
+    facilityId: row.facility_id,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    dateOfBirth: row.date_of_birth ? new Date(row.date_of_birth) : null,
+    status: row.status,
+    assignedRtId: row.assigned_rt_id,
+    qualification: row.qualification
+      ? {
+          ...row.qualification,
+          assessedAt: new Date(row.qualification.assessedAt),
+        }
+      : null,
+    deviceFittedAt: row.device_fitted_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Maps a database row to a transition audit record
+ */
+function rowToTransitionRecord(row: CaseTransitionRow): CaseTransitionRecord {
+  return {
+    caseId: row.case_id,
+    transition: row.transition,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    actor: row.actor,
+    reason: row.reason,
+    occurredAt: row.occurred_at,
+  };
+}
+
+/**
+ * Whether a store error is a unique constraint violation (SQLSTATE 23505)
+ */
+function isUniqueViolation(error: unknown): boolean {
+  const cause =
+    error instanceof Error && error.cause !== undefined ? error.cause : error;
+  return (
+    cause !== null &&
+    typeof cause === 'object' &&
+    (cause as { code?: unknown }).code === '23505'
+  );
+}
+
+/**
+ * Maps technical database errors to business domain OnboardingError instances
+ */
+export function mapStoreErrorToOnboardingError(
+  error: unknown,
+  operation: string
+): OnboardingError {
+  // Log the technical details first
+  console.error(`Case store error during ${operation}:`, error);
+
+  return OnboardingError.caseStoreUnavailable(
+    operation,
+    error instanceof Error ? error : undefined
+  );
+}
@@ -0,0 +1,252 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyTransition,
+  availableTransitions,
+  CASE_TRANSITIONS,
+  type CaseTransition,
+} from './case-workflow';
+import { NIV_ERRORS, OnboardingError } from './errors';
+import {
+  ONBOARDING_STATUSES,
+  type OnboardingCase,
+  type QualificationSnapshot,
+} from './onboarding-case';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const eligible: QualificationSnapshot = {
+  clinicalQualifications: { COPD: true, CRF: false, NMD: false, RTD: false },
+  isNivEligible: true,
+  diagnoses: [
+    {
+      code: 'J44.9',
+      description: 'Chronic obstructive pulmonary disease, unspecified',
+      isPrimary: true,
+    },
+  ],
+  assessedAt: new Date('2026-10-18T09:00:00Z'),
+};
+
+const notEligible: QualificationSnapshot = {
+  ...eligible,
+  clinicalQualifications: { COPD: false, CRF: false, NMD: false, RTD: false },
+  isNivEligible: false,
+  diagnoses: [],
+};
+
+function makeCase(overrides: Partial<OnboardingCase> = {}): OnboardingCase {
+  return {
+    caseId: 'case-1',
+    orgUuid: 'org-1',
+    patientId: 42,
+    facilityId: 7,
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    dateOfBirth: null,
+    status: 'WATCHLIST',
+    assignedRtId: 'rt-1',
+    qualification: eligible,
+    deviceFittedAt: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function violationOf(
+  onboardingCase: OnboardingCase,
+  transition: CaseTransition,
+  reason?: string
+): string {
+  try {
+    applyTransition(onboardingCase, transition, 'rt-1', reason, NOW);
+  } catch (error) {
+    expect(error).toBeInstanceOf(OnboardingError);
+    expect((error as OnboardingError).code).toBe(
+      NIV_ERRORS.ILLEGAL_STATUS_TRANSITION
+    );
+    const { context } = (error as OnboardingError).context as {
+      context: { violation: string };
+    };
+    return context.violation;
+  }
+  throw new Error(`${transition} was allowed`);
+}
+
+describe('CASE_TRANSITIONS', () => {
+  it('only moves cases between known statuses', () => {
+    for (const definition of Object.values(CASE_TRANSITIONS)) {
+      for (const status of definition.from) {
+        expect(ONBOARDING_STATUSES).toContain(status);
+      }
+      if ('to' in definition) {
+        expect(ONBOARDING_STATUSES).toContain(definition.to);
+      }
+    }
+  });
+
+  it.each([
+    ['addToWatchlist', 'NEW', 'WATCHLIST'],
+    ['markQualified', 'WATCHLIST', 'PENDING'],
+    ['recordRefusal', 'WATCHLIST', 'REVIEWED'],
+    ['markNotQualified', 'CHANGED', 'REVIEWED'],
+    ['requestLabs', 'REVIEWED', 'CHANGED'],
+    ['recordChange', 'WATCHLIST', 'CHANGED'],
+    ['reopenForReview', 'REVIEWED', 'WATCHLIST'],
+    ['suspend', 'ACTIVE', 'SUSPENDED'],
+    ['close', 'SUSPENDED', 'CLOSED'],
+    ['readmit', 'CLOSED', 'WATCHLIST'],
+  ] as const)('%s moves %s to %s', (transition, from, to) => {
+    const { onboardingCase, record } = applyTransition(
+      makeCase({ status: from }),
+      transition,
+      'rt-1',
+      'reason given',
+      NOW
+    );
+
+    expect(onboardingCase.status).toBe(to);
+    expect(onboardingCase.updatedAt).toEqual(NOW);
+    expect(record).toEqual({
+      caseId: 'case-1',
+      transition,
+      fromStatus: from,
+      toStatus: to,
+      actor: 'rt-1',
+      reason: 'reason given',
+      occurredAt: NOW,
+    });
+  });
+});
+
+describe('applyTransition', () => {
+  it('rejects a transition from the wrong status', () => {
+    expect(violationOf(makeCase({ status: 'ACTIVE' }), 'markQualified')).toBe(
+      'cannot markQualified from ACTIVE'
+    );
+  });
+
+  it('requires a reason where the workflow asks for one', () => {
+    expect(violationOf(makeCase(), 'markNotQualified', '   ')).toBe(
+      'a reason is required'
+    );
+  });
+
+  it('records a trimmed reason, or null when none is needed', () => {
+    const refused = applyTransition(
+      makeCase(),
+      'recordRefusal',
+      'rt-1',
+      '  declined mask  ',
+      NOW
+    );
+    const qualified = applyTransition(
+      makeCase(),
+      'markQualified',
+      'rt-1',
+      undefined,
+      NOW
+    );
+
+    expect(refused.record.reason).toBe('declined mask');
+    expect(qualified.record.reason).toBeNull();
+  });
+
+  it('needs an assessment and an RT before the watchlist', () => {
+    expect(
+      violationOf(
+        makeCase({ status: 'NEW', qualification: null }),
+        'addToWatchlist'
+      )
+    ).toBe('case has no qualification assessment from the EHR lookup');
+    expect(
+      violationOf(
+        makeCase({ status: 'NEW', assignedRtId: null }),
+        'addToWatchlist'
+      )
+    ).toBe('no respiratory therapist is assigned');
+  });
+
+  it('only qualifies, or records a refusal for, an eligible patient', () => {
+    const ineligible = makeCase({ qualification: notEligible });
+
+    expect(violationOf(ineligible, 'markQualified')).toBe(
+      'latest qualification assessment does not show NIV eligibility'
+    );
+    expect(violationOf(ineligible, 'recordRefusal', 'declined')).toBe(
+      'latest qualification assessment does not show NIV eligibility'
+    );
+  });
+
+  it('stamps the fitting without moving the case, and only once', () => {
+    const { onboardingCase, record } = applyTransition(
+      makeCase({ status: 'PENDING' }),
+      'fitDevice',
+      'rt-1',
+      undefined,
+      NOW
+    );
+
+    expect(onboardingCase.status).toBe('PENDING');
+    expect(onboardingCase.deviceFittedAt).toEqual(NOW);
+    expect(record.toStatus).toBe('PENDING');
+    expect(violationOf(onboardingCase, 'fitDevice')).toBe(
+      'device has already been fitted'
+    );
+  });
+
+  it('activates only a fitted patient', () => {
+    expect(violationOf(makeCase({ status: 'PENDING' }), 'activate')).toBe(
+      'patient must be fitted for a device before activation'
+    );
+
+    const fitted = makeCase({ status: 'PENDING', deviceFittedAt: NOW });
+    expect(
+      applyTransition(fitted, 'activate', 'rt-1', undefined, NOW).onboardingCase
+        .status
+    ).toBe('ACTIVE');
+  });
+
+  it('readmits only a patient with an assigned RT', () => {
+    expect(
+      violationOf(
+        makeCase({ status: 'SUSPENDED', assignedRtId: null }),
+        'readmit',
+        'back from hospital'
+      )
+    ).toBe('no respiratory therapist is assigned');
+  });
+
+  it('does not suspend a closed case', () => {
+    expect(
+      violationOf(makeCase({ status: 'CLOSED' }), 'suspend', 'on leave')
+    ).toBe('cannot suspend from CLOSED');
+  });
+});
+
+describe('availableTransitions', () => {
+  it('lists what a watchlisted eligible case can do next', () => {
+    expect(availableTransitions(makeCase())).toEqual([
+      'markQualified',
+      'recordRefusal',
+      'markNotQualified',
+      'requestLabs',
+      'recordChange',
+      'suspend',
+      'close',
+      'transfer',
+    ]);
+  });
+
+  it('leaves guarded transitions out', () => {
+    expect(
+      availableTransitions(makeCase({ qualification: notEligible }))
+    ).not.toContain('markQualified');
+    expect(availableTransitions(makeCase({ status: 'PENDING' }))).toEqual([
+      'fitDevice',
+      'suspend',
+      'close',
+      'transfer',
+    ]);
+  });
+});
@@ -0,0 +1,303 @@
+// apps/backend/niv/src/app/onboarding/case-workflow.ts
+
+/**
+ * Domain Logic (DDD)
+ *
+ * Status state machine for onboarding cases, following the NIV workflow in
+ * docs/wf-onboarding.d2:
+ *
+ *   NEW → WATCHLIST → PENDING → ACTIVE
+ *   WATCHLIST → REVIEWED (refused or not qualified) → WATCHLIST (re-review)
+ *   WATCHLIST / REVIEWED → CHANGED (labs ordered, clinical data changed)
+ *
+ * and, driven by the patient's census in PCC (adt-record.ts):
+ *
+ *   any → SUSPENDED (hospital transfer, leave) / CLOSED (discharge, death)
+ *   SUSPENDED / CLOSED → WATCHLIST (readmission)
+ *
+ * Pure functions only - persistence of the moved case and its transition
+ * record is the repository's job.
+ */
+
+import { OnboardingError } from './errors';
+import type { OnboardingCase, OnboardingStatus } from './onboarding-case';
+
+type TransitionDefinition = {
+  readonly from: readonly OnboardingStatus[];
+  // Omitted when the transition records a workflow step without moving status
+  readonly to?: OnboardingStatus;
+  readonly requiresReason: boolean;
+  // Returns a violation message, or null when the case may move
+  readonly guard?: (onboardingCase: OnboardingCase) => string | null;
+};
+
+// Statuses of a patient who is in the facility
+const IN_CARE = [
+  'NEW',
+  'WATCHLIST',
+  'PENDING',
+  'ACTIVE',
+  'REVIEWED',
+  'CHANGED',
+] as const satisfies readonly OnboardingStatus[];
+
+const requireEligible = (onboardingCase: OnboardingCase): string | null =>
+  onboardingCase.qualification?.isNivEligible
+    ? null
+    : 'latest qualification assessment does not show NIV eligibility';
+
+/**
+ * Named transitions of the onboarding workflow
+ */
+export const CASE_TRANSITIONS = {
+  // Patient stored and assigned - waiting for RT review
+  addToWatchlist: {
+    from: ['NEW'],
+    to: 'WATCHLIST',
+    requiresReason: false,
+    guard: (onboardingCase) => {
+      if (!onboardingCase.qualification) {
+        return 'case has no qualification assessment from the EHR lookup';
+      }
+      return onboardingCase.assignedRtId
+        ? null
+        : 'no respiratory therapist is assigned';
+    },
+  },
+  // RT review: qualified and patient did not refuse
+  markQualified: {
+    from: ['WATCHLIST', 'CHANGED'],
+    to: 'PENDING',
+    requiresReason: false,
+    guard: requireEligible,
+  },
+  // RT review: qualified but patient refused - queue for re-review
+  recordRefusal: {
+    from: ['WATCHLIST', 'CHANGED'],
+    to: 'REVIEWED',
+    requiresReason: true,
+    guard: requireEligible,
+  },
+  // RT review: not qualified and no further labs needed
+  markNotQualified: {
+    from: ['WATCHLIST', 'CHANGED'],
+    to: 'REVIEWED',
+    requiresReason: true,
+  },
+  // Additional labs (including blood gases) ordered
+  requestLabs: {
+    from: ['WATCHLIST', 'CHANGED', 'REVIEWED'],
+    to: 'CHANGED',
+    requiresReason: true,
+  },
+  // Clinical data changed since the last review
+  recordChange: {
+    from: ['WATCHLIST', 'REVIEWED'],
+    to: 'CHANGED',
+    requiresReason: true,
+  },
+  // Re-review period elapsed - back on the RT review queue
+  reopenForReview: {
+    from: ['REVIEWED'],
+    to: 'WATCHLIST',
+    requiresReason: false,
+  },
+  // Patient fitted for device - stays PENDING until activated
+  fitDevice: {
+    from: ['PENDING'],
+    requiresReason: false,
+    guard: (onboardingCase) =>
+      onboardingCase.deviceFittedAt ? 'device has already been fitted' : null,
+  },
+  // Fitted patient moves to post tracking
+  activate: {
+    from: ['PENDING'],
+    to: 'ACTIVE',
+    requiresReason: false,
+    guard: (onboardingCase) =>
+      onboardingCase.deviceFittedAt
+        ? null
+        : 'patient must be fitted for a device before activation',
+  },
+  // Patient left for a hospital or on leave - expected back
+  suspend: {
+    from: IN_CARE,
+    to: 'SUSPENDED',
+    requiresReason: true,
+  },
+  // Patient discharged for good or died
+  close: {
+    from: [...IN_CARE, 'SUSPENDED'],
+    to: 'CLOSED',
+    requiresReason: true,
+  },
+  // Patient readmitted - back on the RT review queue with their history
+  readmit: {
+    from: ['SUSPENDED', 'CLOSED'],
+    to: 'WATCHLIST',
+    requiresReason: true,
+    guard: (onboardingCase) =>
+      onboardingCase.assignedRtId
+        ? null
+        : 'no respiratory therapist is assigned',
+  },
+  // Patient moved to another facility of the organization
+  transfer: {
+    from: [...IN_CARE, 'SUSPENDED', 'CLOSED'],
+    requiresReason: true,
+  },
+} as const satisfies Record<string, TransitionDefinition>;
+
+export type CaseTransition = keyof typeof CASE_TRANSITIONS;
+
+/**
+ * Audit record of a status transition - who moved the case and why
+ */
+export type CaseTransitionRecord = {
+  readonly caseId: string;
+  readonly transition: CaseTransition;
+  readonly fromStatus: OnboardingStatus;
+  readonly toStatus: OnboardingStatus;
+  readonly actor: string;
+  readonly reason: string | null;
+  readonly occurredAt: Date;
+};
+
+export type TransitionOutcome = {
+  readonly onboardingCase: OnboardingCase;
+  readonly record: CaseTransitionRecord;
+};
+
+export function isCaseTransition(value: string): value is CaseTransition {
+  return Object.prototype.hasOwnProperty.call(CASE_TRANSITIONS, value);
+}
+
+/**
+ * Transitions that are currently allowed for the case (guards included)
+ */
+export function availableTransitions(
+  onboardingCase: OnboardingCase
+): CaseTransition[] {
+  return (Object.keys(CASE_TRANSITIONS) as CaseTransition[]).filter(
+    (transition) => findViolation(onboardingCase, transition) === null
+  );
+}
+
+/**
+ * Apply a named transition to the case
+ *
+ * Throws ILLEGAL_STATUS_TRANSITION when the case is in the wrong status,
+ * a guard fails, or a required reason is missing.
+ */
+export function applyTransition(
+  onboardingCase: OnboardingCase,
+  transition: CaseTransition,
+  actor: string,
+  reason?: string,
+  now: Date = new Date()
+): TransitionOutcome {
+  const definition: TransitionDefinition = CASE_TRANSITIONS[transition];
+  const trimmedReason = reason?.trim() || null;
+
+  const violation =
+    findViolation(onboardingCase, transition) ??
+    (definition.requiresReason && !trimmedReason
+      ? 'a reason is required'
+      : null);
+
+  if (violation) {
+    throw OnboardingError.illegalTransition(
+      onboardingCase.caseId,
+      transition,
+      onboardingCase.status,
+      violation
+    );
+  }
+
+  const toStatus = definition.to ?? onboardingCase.status;
+  const moved: OnboardingCase = {
+    ...onboardingCase,
+    status: toStatus,
+    deviceFittedAt:
+      transition === 'fitDevice' ? now : onboardingCase.deviceFittedAt,
+    updatedAt: now,
+  };
+
+  return {
+    onboardingCase: moved,
+    record: {
+      caseId: onboardingCase.caseId,
+      transition,
+      fromStatus: onboardingCase.status,
+      toStatus,
+      actor,
+      reason: trimmedReason,
+      occurredAt: now,
+    },
+  };
+}
+
+// Named transition functions - read like the workflow diagram
+export const addToWatchlist = (c: OnboardingCase, actor: string) =>
+  applyTransition(c, 'addToWatchlist', actor);
+
+export const markQualified = (
+  c: OnboardingCase,
+  actor: string,
+  reason?: string
+) => applyTransition(c, 'markQualified', actor, reason);
+
+export const recordRefusal = (
+  c: OnboardingCase,
+  actor: string,
+  reason: string
+) => applyTransition(c, 'recordRefusal', actor, reason);
+
+export const markNotQualified = (
+  c: OnboardingCase,
+  actor: string,
+  reason: string
+) => applyTransition(c, 'markNotQualified', actor, reason);
+
+export const requestLabs = (c: OnboardingCase, actor: string, reason: string) =>
+  applyTransition(c, 'requestLabs', actor, reason);
+
+export const recordChange = (
+  c: OnboardingCase,
+  actor: string,
+  reason: string
+) => applyTransition(c, 'recordChange', actor, reason);
+
+export const reopenForReview = (c: OnboardingCase, actor: string) =>
+  applyTransition(c, 'reopenForReview', actor);
+
+export const fitDevice = (c: OnboardingCase, actor: string, reason?: string) =>
+  applyTransition(c, 'fitDevice', actor, reason);
+
+export const activate = (c: OnboardingCase, actor: string, reason?: string) =>
+  applyTransition(c, 'activate', actor, reason);
+
+export const suspend = (c: OnboardingCase, actor: string, reason: string) =>
+  applyTransition(c, 'suspend', actor, reason);
+
+export const close = (c: OnboardingCase, actor: string, reason: string) =>
+  applyTransition(c, 'close', actor, reason);
+
+export const readmit = (c: OnboardingCase, actor: string, reason: string) =>
+  applyTransition(c, 'readmit', actor, reason);
+
+export const transfer = (c: OnboardingCase, actor: string, reason: string) =>
+  applyTransition(c, 'transfer', actor, reason);
+
+function findViolation(
+  onboardingCase: OnboardingCase,
+  transition: CaseTransition
+): string | null {
+  const definition: TransitionDefinition = CASE_TRANSITIONS[transition];
+
+  if (!definition.from.includes(onboardingCase.status)) {
+    return `cannot ${transition} from ${onboardingCase.status}`;
+  }
+
+  return definition.guard ? definition.guard(onboardingCase) : null;
+}
@@ -0,0 +1,204 @@
+// apps/backend/niv/src/app/onboarding/condition-criteria.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * Which recorded conditions count towards a qualification category. PCC
+ * keeps resolved and historical problems on the chart, so a rule set can
+ * require a condition to be active, or to have started within a window,
+ * before its code qualifies the patient. Criteria apply to the whole rule
+ * set and can be overridden per category.
+ */
+
+import type { Diagnosis } from './diagnosis';
+import {
+  QUALIFICATION_CATEGORIES,
+  type DiagnosisCatalog,
+  type QualificationCategory,
+} from './diagnosis-catalog';
+import { OnboardingError } from './errors';
+
+export type ConditionCriteria = {
+  readonly requireActive: boolean;
+  // null when the onset date does not matter
+  readonly onsetWithinDays: number | null;
+};
+
+export type ConditionCriteriaByCategory = Record<
+  QualificationCategory,
+  ConditionCriteria
+>;
+
+/**
+ * Manifest shape:
+ * { requireActive, onsetWithinDays, categories: { CRF: { ... } } }
+ * where every field is optional
+ */
+export type ConditionCriteriaConfig = Partial<ConditionCriteria> & {
+  categories?: Partial<
+    Record<QualificationCategory, Partial<ConditionCriteria>>
+  >;
+};
+
+// A catalogued diagnosis left out of its category, and why
+export type DisregardedDiagnosis = {
+  readonly conditionId: number;
+  readonly code: string;
+  readonly category: QualificationCategory;
+  // e.g. "resolved 2021-03-04" or "onset 2019-01-01, over 365 days ago"
+  readonly reason: string;
+};
+
+export type ConditionScreen = {
+  readonly counted: Diagnosis[];
+  readonly disregarded: DisregardedDiagnosis[];
+};
+
+// Rule sets without criteria count every recorded condition
+const ANY_CONDITION: ConditionCriteria = {
+  requireActive: false,
+  onsetWithinDays: null,
+};
+
+function formatDate(date: Date): string {
+  return isNaN(date.getTime()) ? 'unknown' : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve criteria per category, failing with RULE_SETS_INVALID on bad data
+ */
+export function compileConditionCriteria(
+  source: string,
+  config: ConditionCriteriaConfig = {}
+): ConditionCriteriaByCategory {
+  const problems: string[] = [];
+
+  const resolveCriteria = (
+    where: string,
+    overrides: Partial<ConditionCriteria>,
+    base: ConditionCriteria
+  ): ConditionCriteria => {
+    const { requireActive, onsetWithinDays } = overrides;
+    if (requireActive !== undefined && typeof requireActive !== 'boolean') {
+      problems.push(`${where} requireActive must be true or false`);
+    }
+    if (
+      onsetWithinDays !== undefined &&
+      onsetWithinDays !== null &&
+      !(Number.isInteger(onsetWithinDays) && onsetWithinDays > 0)
+    ) {
+      problems.push(`${where} onsetWithinDays must be a positive whole number`);
+    }
+    return {
+      requireActive: requireActive ?? base.requireActive,
+      onsetWithinDays:
+        onsetWithinDays === undefined ? base.onsetWithinDays : onsetWithinDays,
+    };
+  };
+
+  const defaults = resolveCriteria('conditions', config, ANY_CONDITION);
+  const categories = config.categories ?? {};
+
+  for (const category of Object.keys(categories)) {
+    if (!(QUALIFICATION_CATEGORIES as readonly string[]).includes(category)) {
+      problems.push(`conditions name unknown category "${category}"`);
+    }
+  }
+
+  const criteria = Object.fromEntries(
+    QUALIFICATION_CATEGORIES.map((category) => [
+      category,
+      resolveCriteria(
+        `conditions.categories.${category}`,
+        categories[category] ?? {},
+        defaults
+      ),
+    ])
+  ) as ConditionCriteriaByCategory;
+
+  if (problems.length > 0) {
+    throw OnboardingError.ruleSetsInvalid(source, problems);
+  }
+  return criteria;
+}
+
+/**
+ * Whether every category leaves out some recorded conditions - resolved
+ * ones, or ones that started too long ago
+ */
+export function screensConditions(
+  criteria: ConditionCriteriaByCategory
+): boolean {
+  return QUALIFICATION_CATEGORIES.every(
+    (category) =>
+      criteria[category].requireActive ||
+      criteria[category].onsetWithinDays !== null
+  );
+}
+
+/**
+ * Why a diagnosis does not meet the criteria, or null when it does
+ */
+function whyDisregarded(
+  diagnosis: Diagnosis,
+  criteria: ConditionCriteria,
+  now: Date
+): string | null {
+  if (criteria.requireActive && diagnosis.clinicalStatus !== 'ACTIVE') {
+    return diagnosis.resolvedDate
+      ? `${diagnosis.clinicalStatus.toLowerCase()} ${formatDate(diagnosis.resolvedDate)}`
+      : diagnosis.clinicalStatus.toLowerCase();
+  }
+
+  if (criteria.onsetWithinDays !== null) {
+    const onset = diagnosis.onsetDate.getTime();
+    if (isNaN(onset)) {
+      return `onset unknown, must be within ${criteria.onsetWithinDays} days`;
+    }
+    const ageDays = (now.getTime() - onset) / (24 * 60 * 60 * 1000);
+    if (ageDays > criteria.onsetWithinDays) {
+      return `onset ${formatDate(diagnosis.onsetDate)}, over ${criteria.onsetWithinDays} days ago`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split diagnoses into those that count towards their category and those
+ * the rule set disregards
+ *
+ * Business rules:
+ * - Codes outside the qualification categories are always counted (they
+ *   qualify nothing; exclusions judge them separately)
+ * - A catalogued code counts only when its category's criteria are met
+ */
+export function screenDiagnoses(
+  diagnoses: readonly Diagnosis[],
+  catalog: DiagnosisCatalog,
+  criteria: ConditionCriteriaByCategory,
+  now: Date = new Date()
+): ConditionScreen {
+  const counted: Diagnosis[] = [];
+  const disregarded: DisregardedDiagnosis[] = [];
+
+  for (const diagnosis of diagnoses) {
+    const category = catalog.match(diagnosis.icd10Code)?.entry.category;
+    const reason = category
+      ? whyDisregarded(diagnosis, criteria[category], now)
+      : null;
+
+    if (category && reason) {
+      disregarded.push({
+        conditionId: diagnosis.conditionId,
+        code: diagnosis.icd10Code,
+        category,
+        reason,
+      });
+    } else {
+      counted.push(diagnosis);
+    }
+  }
+
+  return { counted, disregarded };
+}
@@ -0,0 +1,41 @@
+// apps/backend/niv/src/app/onboarding/diagnosis-catalog-file.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ *
+ * Loads a diagnosis code catalog (JSON or CSV) from disk. Catalogs are
+ * named by the qualification rule sets in rule-set-file.ts.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import {
+  parseCsvCatalog,
+  parseJsonCatalog,
+  type DiagnosisCatalog,
+} from './diagnosis-catalog';
+import { OnboardingError } from './errors';
+
+/**
+ * Load and validate a JSON or CSV catalog file
+ *
+ * CSV files carry no version of their own; the version is a hash of the
+ * content, so any edit shows up as a new version on assessments
+ */
+export function loadDiagnosisCatalog(path: string): DiagnosisCatalog {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw OnboardingError.catalogInvalid(path, [
+      `cannot be read: ${error instanceof Error ? error.message : error}`,
+    ]);
+  }
+
+  if (extname(path).toLowerCase() === '.csv') {
+    const hash = createHash('sha256').update(text).digest('hex');
+    return parseCsvCatalog(text, path, `csv-${hash.slice(0, 12)}`);
+  }
+  return parseJsonCatalog(text, path);
+}
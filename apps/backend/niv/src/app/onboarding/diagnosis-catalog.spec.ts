@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createDiagnosisCatalog,
+  parseCsvCatalog,
+  type CatalogEntry,
+} from './diagnosis-catalog';
+import { NIV_ERRORS, OnboardingError } from './errors';
+
+const HEADER =
+  'Diagnosis Code,Diagnosis Name,Diagnosis Type,Qualification Category';
+
+const ENTRIES: CatalogEntry[] = [
+  { code: 'J44.9', name: 'COPD', diagnosisType: 'COPD', category: 'COPD' },
+  {
+    code: 'J96.1x',
+    name: 'Chronic respiratory failure',
+    diagnosisType: 'RF w/o hyper',
+    category: 'CRF',
+  },
+  {
+    code: 'J96.12',
+    name: 'Chronic respiratory failure with hypercapnia',
+    diagnosisType: 'RF w/ hyper',
+    category: 'CRF',
+  },
+  {
+    code: 'G12.2x',
+    name: 'Motor neuron disease',
+    diagnosisType: 'Stand Alone',
+    category: 'NMD',
+  },
+  {
+    code: 'G12.21x',
+    name: 'ALS family',
+    diagnosisType: 'Stand Alone',
+    category: 'NMD',
+  },
+  { code: 'E66.2', name: 'OHS', diagnosisType: 'Stand Alone', category: 'RTD' },
+  {
+    code: 'Z99.11',
+    name: 'Ventilator',
+    diagnosisType: 'Vent dependence',
+    category: null,
+  },
+];
+
+function problemsOf(build: () => unknown): string[] {
+  try {
+    build();
+  } catch (error) {
+    expect(error).toBeInstanceOf(OnboardingError);
+    expect((error as OnboardingError).code).toBe(
+      NIV_ERRORS.DIAGNOSIS_CATALOG_INVALID
+    );
+    const { context } = (error as OnboardingError).context as {
+      context: { problems: string[] };
+    };
+    return context.problems;
+  }
+  throw new Error('catalog was accepted');
+}
+
+describe('createDiagnosisCatalog', () => {
+  const catalog = createDiagnosisCatalog('v1', 'test', ENTRIES);
+
+  it('prefers an exact entry over a family covering the code', () => {
+    expect(catalog.match('J96.12')?.entry.diagnosisType).toBe('RF w/ hyper');
+    expect(catalog.match('J96.10')?.entry.code).toBe('J96.1x');
+  });
+
+  it('picks the most specific family', () => {
+    expect(catalog.match('G12.21')?.entry.code).toBe('G12.21x');
+    expect(catalog.match('G12.29')?.entry.code).toBe('G12.2x');
+  });
+
+  it('matches codes as EHRs send them', () => {
+    const match = catalog.match(' j9611 ');
+
+    expect(match?.code).toBe('J96.11');
+    expect(match?.rule.kind).toBe('prefix');
+    expect(catalog.findByCode('j449')?.code).toBe('J44.9');
+  });
+
+  it('does not match unknown or malformed codes', () => {
+    expect(catalog.match('J45.909')).toBeNull();
+    expect(catalog.match('not a code')).toBeNull();
+    expect(catalog.findByCode('J96.10')).toBeNull();
+  });
+
+  it('lists codes by category, leaving non-qualifying ones out', () => {
+    expect(catalog.findByCategory('CRF').map(({ code }) => code)).toEqual([
+      'J96.1x',
+      'J96.12',
+    ]);
+    expect(catalog.match('Z99.11')?.entry.category).toBeNull();
+  });
+
+  it('rejects malformed, duplicate and missing data', () => {
+    expect(
+      problemsOf(() =>
+        createDiagnosisCatalog(' ', 'test', [
+          ...ENTRIES.filter(({ category }) => category !== 'RTD'),
+          {
+            code: 'J44.9',
+            name: 'again',
+            diagnosisType: 'COPD',
+            category: 'COPD',
+          },
+          {
+            code: '44.9',
+            name: 'bad',
+            diagnosisType: 'COPD',
+            category: 'COPD',
+          },
+        ])
+      )
+    ).toEqual([
+      'missing version',
+      'J44.9 is listed more than once',
+      'malformed ICD-10 code "44.9"',
+      'no codes for category RTD',
+    ]);
+  });
+});
+
+describe('parseCsvCatalog', () => {
+  it('derives categories from the diagnosis type unless one is given', () => {
+    const catalog = parseCsvCatalog(
+      [
+        HEADER,
+        'J44.9,COPD,COPD,',
+        'J96.1x,Chronic respiratory failure,RF w/o hyper,',
+        'G12.21,ALS,Stand Alone,NMD',
+        'E66.2,OHS,Stand Alone,RTD',
+        'I27.0,Primary pulmonary hypertension,Stand Alone,NONE',
+        'Z99.11,Ventilator,Vent dependence,',
+      ].join('\r\n'),
+      'codes.csv',
+      'csv-1'
+    );
+
+    expect(catalog.version).toBe('csv-1');
+    expect(catalog.match('J96.10')?.entry.category).toBe('CRF');
+    expect(catalog.match('G12.21')?.entry.category).toBe('NMD');
+    expect(catalog.match('I27.0')?.entry.category).toBeNull();
+    expect(catalog.match('Z99.11')?.entry.category).toBeNull();
+  });
+
+  it('requires a category for types that do not imply one', () => {
+    expect(
+      problemsOf(() =>
+        parseCsvCatalog(
+          [HEADER, 'G12.21,ALS,Stand Alone,', 'J96.2x,ARF,RF family,'].join(
+            '\n'
+          ),
+          'codes.csv',
+          'csv-1'
+        )
+      )
+    ).toEqual([
+      'G12.21 (Stand Alone) needs a Qualification Category',
+      'J96.2x (RF family) needs a Qualification Category',
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+// apps/backend/niv/src/app/onboarding/diagnosis-catalog.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * Catalog of ICD-10 codes that qualify a patient for NIV, maintained by
+ * clinical staff as data (docs/niv-diagnosis-codes.csv) rather than code.
+ * Every catalog carries a version and is validated when loaded, so a bad
+ * catalog fails at startup instead of silently changing eligibility.
+ */
+
+import { parseCsvRecords } from '../csv';
+import type { ClinicalQualifications } from './diagnosis';
+import { OnboardingError } from './errors';
+import {
+  matchesIcd10Rule,
+  normalizeIcd10Code,
+  parseIcd10Rule,
+  type Icd10Code,
+  type Icd10Rule,
+} from './icd10-code';
+
+export type QualificationCategory = keyof ClinicalQualifications;
+
+export const QUALIFICATION_CATEGORIES: readonly QualificationCategory[] = [
+  'COPD',
+  'CRF',
+  'NMD',
+  'RTD',
+];
+
+/**
+ * Category implied by the clinical diagnosis type in the source CSV.
+ * "Stand Alone" codes span several categories, so each needs its own;
+ * null types are catalogued but do not qualify on their own.
+ */
+const DIAGNOSIS_TYPE_CATEGORIES: Record<string, QualificationCategory | null> =
+  {
+    COPD: 'COPD',
+    'Acute RF': 'CRF',
+    'RF w/ hyper': 'CRF',
+    'RF w/o hyper': 'CRF',
+    'Vent dependence': null,
+  };
+
+export type CatalogEntry = {
+  // Exact code ("J44.1") or family ("J96.1x") - see icd10-code.ts
+  readonly code: string;
+  readonly name: string;
+  // Clinical grouping from the source CSV (COPD, Acute RF, Stand Alone ...)
+  readonly diagnosisType: string;
+  // Qualification category, or null when the code does not qualify alone
+  readonly category: QualificationCategory | null;
+};
+
+// A diagnosis code covered by the catalog, and the rule that covered it
+export type CatalogMatch = {
+  readonly code: Icd10Code;
+  readonly entry: CatalogEntry;
+  readonly rule: Icd10Rule;
+};
+
+export type DiagnosisCatalog = {
+  readonly version: string;
+  readonly source: string;
+  readonly entries: readonly CatalogEntry[];
+  // Exact entries only, after normalizing the code
+  findByCode(code: string): CatalogEntry | null;
+  findByCategory(category: QualificationCategory): readonly CatalogEntry[];
+  // Exact entry first, otherwise the most specific family covering the code
+  match(code: string): CatalogMatch | null;
+};
+
+function isQualificationCategory(
+  value: unknown
+): value is QualificationCategory {
+  return (QUALIFICATION_CATEGORIES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Build a catalog, failing with DIAGNOSIS_CATALOG_INVALID on bad data
+ *
+ * Business rules:
+ * - Catalog has a version
+ * - Codes and families are well-formed ICD-10 and listed once
+ * - Every qualification category has at least one code
+ */
+export function createDiagnosisCatalog(
+  version: string,
+  source: string,
+  entries: readonly CatalogEntry[]
+): DiagnosisCatalog {
+  const problems: string[] = [];
+  const byCode = new Map<string, { entry: CatalogEntry; rule: Icd10Rule }>();
+  const families: Array<{ entry: CatalogEntry; rule: Icd10Rule }> = [];
+
+  if (!version.trim()) {
+    problems.push('missing version');
+  }
+
+  for (const entry of entries) {
+    const rule = parseIcd10Rule(entry.code);
+    if (!rule) {
+      problems.push(`malformed ICD-10 code "${entry.code}"`);
+      continue;
+    }
+    if (!entry.name.trim()) {
+      problems.push(`${entry.code} has no name`);
+    }
+    if (entry.category !== null && !isQualificationCategory(entry.category)) {
+      problems.push(`${entry.code} has unknown category "${entry.category}"`);
+    }
+
+    if (rule.kind === 'exact') {
+      if (byCode.has(rule.key)) {
+        problems.push(`${entry.code} is listed more than once`);
+      }
+      byCode.set(rule.key, { entry, rule });
+    } else {
+      if (families.some((family) => family.rule.key === rule.key)) {
+        problems.push(`${entry.code} is listed more than once`);
+      }
+      families.push({ entry, rule });
+    }
+  }
+
+  // Longest stem first, so the most specific family wins
+  families.sort((a, b) => b.rule.key.length - a.rule.key.length);
+
+  for (const category of QUALIFICATION_CATEGORIES) {
+    if (!entries.some((entry) => entry.category === category)) {
+      problems.push(`no codes for category ${category}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw OnboardingError.catalogInvalid(source, problems);
+  }
+
+  const byCategory = new Map(
+    QUALIFICATION_CATEGORIES.map((category) => [
+      category,
+      entries.filter((entry) => entry.category === category),
+    ])
+  );
+
+  return {
+    version,
+    source,
+    entries,
+    findByCode: (code) => {
+      const normalized = normalizeIcd10Code(code);
+      return (normalized && byCode.get(normalized)?.entry) ?? null;
+    },
+    findByCategory: (category) => byCategory.get(category) ?? [],
+    match: (code) => {
+      const normalized = normalizeIcd10Code(code);
+      if (!normalized) {
+        return null;
+      }
+
+      const found =
+        byCode.get(normalized) ??
+        families.find(({ rule }) => matchesIcd10Rule(normalized, rule));
+      return found ? { code: normalized, ...found } : null;
+    },
+  };
+}
+
+/**
+ * Parse a JSON catalog: { version, codes: [{ code, name, diagnosisType, category }] }
+ */
+export function parseJsonCatalog(
+  text: string,
+  source: string
+): DiagnosisCatalog {
+  let document: {
+    version?: unknown;
+    codes?: Array<Record<string, unknown>>;
+  };
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw OnboardingError.catalogInvalid(source, [
+      `not valid JSON: ${error instanceof Error ? error.message : error}`,
+    ]);
+  }
+
+  if (!Array.isArray(document.codes)) {
+    throw OnboardingError.catalogInvalid(source, ['missing codes array']);
+  }
+
+  return createDiagnosisCatalog(
+    typeof document.version === 'string' ? document.version : '',
+    source,
+    document.codes.map((row) => ({
+      code: String(row.code ?? '').trim(),
+      name: String(row.name ?? '').trim(),
+      diagnosisType: String(row.diagnosisType ?? '').trim(),
+      category: (row.category ?? null) as QualificationCategory | null,
+    }))
+  );
+}
+
+/**
+ * Parse a CSV catalog in the docs/niv-diagnosis-codes.csv layout
+ *
+ * Columns: Diagnosis Code, Diagnosis Name, Diagnosis Type and an optional
+ * Qualification Category (required for "Stand Alone" codes). A blank
+ * category for other types falls back to the type's category.
+ */
+export function parseCsvCatalog(
+  text: string,
+  source: string,
+  version: string
+): DiagnosisCatalog {
+  const problems: string[] = [];
+
+  const entries = parseCsvRecords(text).map((record): CatalogEntry => {
+    const code = (record['Diagnosis Code'] ?? '').trim();
+    const diagnosisType = (record['Diagnosis Type'] ?? '').trim();
+    const explicit = (record['Qualification Category'] ?? '').trim();
+
+    let category: QualificationCategory | null;
+    if (explicit) {
+      category =
+        explicit.toUpperCase() === 'NONE'
+          ? null
+          : (explicit as QualificationCategory);
+    } else if (diagnosisType in DIAGNOSIS_TYPE_CATEGORIES) {
+      category = DIAGNOSIS_TYPE_CATEGORIES[diagnosisType];
+    } else {
+      problems.push(
+        `${code} (${diagnosisType || 'no type'}) needs a Qualification Category`
+      );
+      category = null;
+    }
+
+    return {
+      code,
+      name: (record['Diagnosis Name'] ?? '').trim(),
+      diagnosisType,
+      category,
+    };
+  });
+
+  if (problems.length > 0) {
+    throw OnboardingError.catalogInvalid(source, problems);
+  }
+
+  return createDiagnosisCatalog(version, source, entries);
+}
@@ -1,3 +1,19 @@
+import type { DisregardedDiagnosis } from './condition-criteria';
+import {
+  QUALIFICATION_CATEGORIES,
+  type CatalogMatch,
+  type DiagnosisCatalog,
+} from './diagnosis-catalog';
+
+export const CONDITION_CLINICAL_STATUSES = [
+  'ACTIVE',
+  'RESOLVED',
+  'INACTIVE',
+] as const;
+
+export type ConditionClinicalStatus =
+  (typeof CONDITION_CLINICAL_STATUSES)[number];
+
 // Domain data structure - designed to map from PCC condition API
 export type Diagnosis = {
   readonly conditionId: number;
@@ -5,6 +21,20 @@ export type Diagnosis = {
   readonly description: string;
   readonly onsetDate: Date;
   readonly isPrimary: boolean;
+  readonly clinicalStatus: ConditionClinicalStatus;
+  readonly resolvedDate: Date | null;
+  // PCC rank ("Primary", "Secondary" ...) and classification ("Admission",
+  // "History" ...) where the facility records them
+  readonly rank: string | null;
+  readonly classification: string | null;
+};
+
+// Clinical status, resolution and rank as PCC records them (all optional)
+export type DiagnosisClinicalDetails = {
+  readonly clinicalStatus?: ConditionClinicalStatus;
+  readonly resolvedDate?: Date | null;
+  readonly rank?: string | null;
+  readonly classification?: string | null;
 };
 
 // Clinical qualification categories
@@ -21,133 +51,116 @@ export function createDiagnosis(
   icd10Code: string,
   description: string,
   onsetDate: Date,
-  isPrimary: boolean
+  isPrimary: boolean,
+  details: DiagnosisClinicalDetails = {}
 ): Diagnosis {
+  const resolvedDate = details.resolvedDate ?? null;
   return {
     conditionId,
     icd10Code,
     description,
     onsetDate,
     isPrimary,
+    // Without a reported status, a resolution date means resolved
+    clinicalStatus:
+      details.clinicalStatus ?? (resolvedDate ? 'RESOLVED' : 'ACTIVE'),
+    resolvedDate,
+    rank: details.rank ?? null,
+    classification: details.classification ?? null,
   };
 }
 
-// ICD-10 code mappings for each clinical qualification category
-const COPD_CODES = [
-  'J44.0',
-  'J44.1',
-  'J42',
-  'J43.9',
-  'J44.9',
-  'J47.9',
-  'J43.8',
-  'J44.89',
-  'J45.909',
-  'J45.998',
-  'J45.50',
-];
-
-const CRF_CODES = [
-  'J96.11',
-  'J96.20',
-  'J96.90',
-  'J96.10',
-  'J96.21',
-  'J96.92',
-  'J96.12',
-  'J96.22',
-  'J96.01',
-  'J96.02',
-  'J96.00',
-];
-
-const NMD_CODES = [
-  'G80.0',
-  'G80.1',
-  'G82.22',
-  'I69.964',
-  'G12.0',
-  'G12.21',
-  'G12.9',
-  'G14',
-  'G23.1',
-  'G35',
-  'G47.31',
-  'G47.34',
-  'G47.35',
-  'G61.0',
-  'G70.00',
-  'G70.01',
-  'G70.2',
-  'G70.80',
-  'G71.0',
-  'G71.01',
-  'G71.02',
-  'G71.021',
-  'G71.032',
-  'G71.033',
-  'G71.034',
-  'G71.11',
-  'G71.2',
-  'G73.1',
-  'G73.7',
-  'G73.81',
-  'G73.89',
-  'G80.9',
-  'G90.9',
-  'S14.109A',
-];
-
-const RTD_CODES = [
-  'M40.00',
-  'M40.204',
-  'M40.294',
-  'M41.34',
-  'M41.46',
-  'M40.209',
-  'M40.299',
-  'M41.9',
-  'M45.9',
-  'Q67.6',
-  'Q76.49',
-  'J95.1',
-  'S22.49XA',
-];
-
-// Clinical qualification functions - pure functions operating on diagnosis arrays
-export function hasCopdQualification(diagnoses: Diagnosis[]): boolean {
-  return diagnoses.some((diagnosis) =>
-    COPD_CODES.includes(diagnosis.icd10Code)
+// PCC reports 'ACTIVE' or 'RESOLVED'; anything else is treated as inactive
+export function parseConditionClinicalStatus(
+  value: string | null | undefined
+): ConditionClinicalStatus | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const status = value.toUpperCase();
+  return (CONDITION_CLINICAL_STATUSES as readonly string[]).includes(status)
+    ? (status as ConditionClinicalStatus)
+    : 'INACTIVE';
+}
+
+// A patient diagnosis covered by the catalog, with the rule that matched
+export type DiagnosisMatch = {
+  readonly diagnosis: Diagnosis;
+  readonly match: CatalogMatch;
+};
+
+// Diagnoses that qualify for a category, each with the catalog rule that
+// matched (codes are normalized, families cover their child codes)
+export function matchQualifyingDiagnoses(
+  diagnoses: Diagnosis[],
+  catalog: DiagnosisCatalog
+): DiagnosisMatch[] {
+  return diagnoses.flatMap((diagnosis) => {
+    const match = catalog.match(diagnosis.icd10Code);
+    return match?.entry.category ? [{ diagnosis, match }] : [];
+  });
+}
+
+// Clinical qualification functions - pure functions operating on diagnosis
+// arrays, with the qualifying ICD-10 codes looked up in the catalog
+function hasCategoryQualification(
+  diagnoses: Diagnosis[],
+  catalog: DiagnosisCatalog,
+  category: keyof ClinicalQualifications
+): boolean {
+  return diagnoses.some(
+    (diagnosis) =>
+      catalog.match(diagnosis.icd10Code)?.entry.category === category
   );
 }
 
-export function hasCrfQualification(diagnoses: Diagnosis[]): boolean {
-  return diagnoses.some((diagnosis) => CRF_CODES.includes(diagnosis.icd10Code));
+export function hasCopdQualification(
+  diagnoses: Diagnosis[],
+  catalog: DiagnosisCatalog
+): boolean {
+  return hasCategoryQualification(diagnoses, catalog, 'COPD');
+}
+
+export function hasCrfQualification(
+  diagnoses: Diagnosis[],
+  catalog: DiagnosisCatalog
+): boolean {
+  return hasCategoryQualification(diagnoses, catalog, 'CRF');
 }
 
-export function hasNmdQualification(diagnoses: Diagnosis[]): boolean {
-  return diagnoses.some((diagnosis) => NMD_CODES.includes(diagnosis.icd10Code));
+export function hasNmdQualification(
+  diagnoses: Diagnosis[],
+  catalog: DiagnosisCatalog
+): boolean {
+  return hasCategoryQualification(diagnoses, catalog, 'NMD');
 }
 
-export function hasRtdQualification(diagnoses: Diagnosis[]): boolean {
-  return diagnoses.some((diagnosis) => RTD_CODES.includes(diagnosis.icd10Code));
+export function hasRtdQualification(
+  diagnoses: Diagnosis[],
+  catalog: DiagnosisCatalog
+): boolean {
+  return hasCategoryQualification(diagnoses, catalog, 'RTD');
 }
 
 // Combined function to get all clinical qualifications at once
 export function getClinicalQualifications(
-  diagnoses: Diagnosis[]
+  diagnoses: Diagnosis[],
+  catalog: DiagnosisCatalog
 ): ClinicalQualifications {
   return {
-    COPD: hasCopdQualification(diagnoses),
-    CRF: hasCrfQualification(diagnoses),
-    NMD: hasNmdQualification(diagnoses),
-    RTD: hasRtdQualification(diagnoses),
+    COPD: hasCopdQualification(diagnoses, catalog),
+    CRF: hasCrfQualification(diagnoses, catalog),
+    NMD: hasNmdQualification(diagnoses, catalog),
+    RTD: hasRtdQualification(diagnoses, catalog),
   };
 }
 
 // General NIV eligibility - patient qualifies if they have any of the 4 categories
-export function isNivEligible(diagnoses: Diagnosis[]): boolean {
-  const qualifications = getClinicalQualifications(diagnoses);
+export function isNivEligible(
+  diagnoses: Diagnosis[],
+  catalog: DiagnosisCatalog
+): boolean {
+  const qualifications = getClinicalQualifications(diagnoses, catalog);
   return (
     qualifications.COPD ||
     qualifications.CRF ||
@@ -159,17 +172,135 @@ export function isNivEligible(diagnoses: Diagnosis[]): boolean {
 // Helper function to get qualifying diagnosis codes for a specific category
 export function getQualifyingCodesForCategory(
   diagnoses: Diagnosis[],
-  category: keyof ClinicalQualifications
+  category: keyof ClinicalQualifications,
+  catalog: DiagnosisCatalog
 ): string[] {
-  const categoryCodeMap = {
-    COPD: COPD_CODES,
-    CRF: CRF_CODES,
-    NMD: NMD_CODES,
-    RTD: RTD_CODES,
+  return matchQualifyingDiagnoses(diagnoses, catalog)
+    .filter(({ match }) => match.entry.category === category)
+    .map(({ diagnosis }) => diagnosis.icd10Code);
+}
+
+// Why a diagnosis counted towards a category
+export type DiagnosisEvidence = {
+  readonly conditionId: number;
+  // Code as recorded in the EHR, and its normalized form
+  readonly code: string;
+  readonly normalizedCode: string;
+  readonly description: string;
+  readonly onsetDate: Date;
+  readonly isPrimary: boolean;
+  readonly clinicalStatus: ConditionClinicalStatus;
+  // Catalog rule that matched ("J44.1" exact, "J96.1x" family)
+  readonly matchedRule: string;
+  readonly matchKind: 'exact' | 'prefix';
+};
+
+export type CategoryEvidence = {
+  readonly qualifies: boolean;
+  readonly diagnoses: readonly DiagnosisEvidence[];
+  // Catalogued diagnoses the rule set's condition criteria left out
+  readonly disregarded: readonly DisregardedDiagnosis[];
+};
+
+export type QualificationEvidence = {
+  readonly catalogVersion: string;
+  readonly categories: Record<keyof ClinicalQualifications, CategoryEvidence>;
+  readonly rationale: string;
+};
+
+// Evidence behind each qualification category, principal diagnoses first
+export function explainClinicalQualifications(
+  diagnoses: Diagnosis[],
+  catalog: DiagnosisCatalog,
+  disregarded: readonly DisregardedDiagnosis[] = []
+): QualificationEvidence {
+  const matches = matchQualifyingDiagnoses(diagnoses, catalog);
+
+  const categoryEvidence = (
+    category: keyof ClinicalQualifications
+  ): CategoryEvidence => {
+    const evidence = matches
+      .filter(({ match }) => match.entry.category === category)
+      .map(
+        ({ diagnosis, match }): DiagnosisEvidence => ({
+          conditionId: diagnosis.conditionId,
+          code: diagnosis.icd10Code,
+          normalizedCode: match.code,
+          description: diagnosis.description,
+          onsetDate: diagnosis.onsetDate,
+          isPrimary: diagnosis.isPrimary,
+          clinicalStatus: diagnosis.clinicalStatus,
+          matchedRule: match.rule.pattern,
+          matchKind: match.rule.kind,
+        })
+      )
+      .sort(
+        (a, b) =>
+          Number(b.isPrimary) - Number(a.isPrimary) ||
+          (b.onsetDate.getTime() || 0) - (a.onsetDate.getTime() || 0)
+      );
+
+    return {
+      qualifies: evidence.length > 0,
+      diagnoses: evidence,
+      disregarded: disregarded.filter((d) => d.category === category),
+    };
+  };
+
+  const categories = {
+    COPD: categoryEvidence('COPD'),
+    CRF: categoryEvidence('CRF'),
+    NMD: categoryEvidence('NMD'),
+    RTD: categoryEvidence('RTD'),
+  };
+
+  return {
+    catalogVersion: catalog.version,
+    categories,
+    rationale: buildRationale(
+      categories,
+      diagnoses.length,
+      catalog.version,
+      disregarded
+    ),
   };
+}
+
+function buildRationale(
+  categories: Record<keyof ClinicalQualifications, CategoryEvidence>,
+  diagnosisCount: number,
+  catalogVersion: string,
+  disregarded: readonly DisregardedDiagnosis[]
+): string {
+  const qualifying = QUALIFICATION_CATEGORIES.filter(
+    (category) => categories[category].qualifies
+  );
+  const notCounted =
+    disregarded.length > 0
+      ? ` Not counted: ${disregarded
+          .map(({ code, reason }) => `${code} (${reason})`)
+          .join(', ')}.`
+      : '';
+
+  if (qualifying.length === 0) {
+    return `Not NIV eligible: none of the patient's ${diagnosisCount} diagnoses match a qualifying code in catalog ${catalogVersion}.${notCounted}`;
+  }
+
+  const reasons = qualifying.map((category) => {
+    const cited = categories[category].diagnoses
+      .map(
+        (evidence) =>
+          `${evidence.normalizedCode} ${evidence.description} (${
+            evidence.isPrimary ? 'principal, ' : ''
+          }onset ${
+            isNaN(evidence.onsetDate.getTime())
+              ? 'unknown'
+              : evidence.onsetDate.toISOString().slice(0, 10)
+          })`
+      )
+      .join(', ');
+    return `${category} - ${cited}`;
+  });
 
-  const relevantCodes = categoryCodeMap[category];
-  return diagnoses
-    .filter((diagnosis) => relevantCodes.includes(diagnosis.icd10Code))
-    .map((diagnosis) => diagnosis.icd10Code);
+  return `NIV eligible: ${reasons.join('; ')}. Catalog ${catalogVersion}.${notCounted}`;
 }
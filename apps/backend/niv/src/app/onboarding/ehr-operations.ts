@@ -12,8 +12,21 @@
  * ways to access patient information from the electronic health record system.
  */
 
+import { AdtRecord } from './adt-record';
+import { PatientDocument } from './case-document';
 import { Diagnosis } from './diagnosis';
+import { AdvanceDirective } from './exclusion';
+import { FacilityProfile } from './facility';
+import { Observation } from './observation';
 import { Patient } from './patient';
+import { ProgressNote, ProgressNoteType } from './progress-note';
+import { PractitionerProfile } from './staff-member';
+import {
+  WebhookDeliveryError,
+  WebhookSubscription,
+  WebhookSubscriptionRequest,
+  WebhookSubscriptionStatus,
+} from './webhook-subscription';
 
 /**
  * Contract for retrieving individual patient data from EHR
@@ -49,6 +62,41 @@ export type GetPatientWithDiagnoses = (
   diagnoses: Diagnosis[];
 }>;
 
+/**
+ * Contract for retrieving physiologic measurements for a patient from EHR
+ *
+ * Business operation: "Get this patient's SpO2, blood gases and spirometry"
+ * Covers vital signs and laboratory results recorded on or after `since`
+ */
+export type GetPatientObservations = (
+  orgUuid: string,
+  patientId: number,
+  since: Date
+) => Promise<Observation[]>;
+
+/**
+ * Contract for retrieving a patient's active advance directives from EHR
+ *
+ * Business operation: "Has this patient refused ventilatory support?"
+ */
+export type GetPatientAdvanceDirectives = (
+  orgUuid: string,
+  patientId: number
+) => Promise<AdvanceDirective[]>;
+
+/**
+ * Contract for retrieving a patient's admission, discharge and transfer
+ * records from EHR
+ *
+ * Business operation: "Has this patient left, moved or come back?"
+ * Active records effective on or after `since`, oldest first
+ */
+export type GetPatientAdtRecords = (
+  orgUuid: string,
+  patientId: number,
+  since: Date
+) => Promise<AdtRecord[]>;
+
 /**
  * Contract for getting multiple patients (for batch operations)
  *
@@ -61,3 +109,100 @@ export type GetPatients = (
   page?: number,
   pageSize?: number
 ) => Promise<Patient[]>;
+
+/**
+ * Contract for listing an organization's facilities from EHR
+ *
+ * Business operation: "Which buildings does this organization run?"
+ * The list carries names and codes; address and beds come with GetFacility.
+ * Resolves only once every page is read; a page that fails fails the list
+ */
+export type GetFacilities = (orgUuid: string) => Promise<FacilityProfile[]>;
+
+/**
+ * Contract for retrieving one facility with its address, time zone and
+ * bed count from EHR
+ *
+ * Business operation: "Where is this facility and how big is it?"
+ * Fails with FACILITY_NOT_FOUND if the organization has no such facility
+ */
+export type GetFacility = (
+  orgUuid: string,
+  facilityId: number
+) => Promise<FacilityProfile>;
+
+/**
+ * Contract for listing the practitioners on a patient's care team
+ *
+ * Business operation: "Who looks after this patient?"
+ * The EHR lists practitioners per patient, not per facility
+ */
+export type GetPractitioners = (
+  orgUuid: string,
+  patientId: number
+) => Promise<PractitionerProfile[]>;
+
+/**
+ * Contract for listing the progress note types a facility uses
+ *
+ * Business operation: "Which kinds of note can we write to this chart?"
+ */
+export type GetProgressNoteTypes = (
+  orgUuid: string,
+  facilityId: number
+) => Promise<ProgressNoteType[]>;
+
+/**
+ * Contract for writing a progress note to the patient's chart
+ *
+ * Business operation: "Record the RT's decision where facility staff see it"
+ * The external ID makes a retry safe: resolves to the ID the EHR gave the
+ * note, or null when a note with that external ID is already on the chart
+ */
+export type CreateProgressNote = (
+  note: ProgressNote,
+  externalId: string
+) => Promise<number | null>;
+
+/**
+ * Contract for attaching a document to the patient's chart
+ *
+ * Business operation: "File this sleep study with the patient's records"
+ * Resolves to the ID the EHR gave the document
+ */
+export type AttachPatientDocument = (
+  document: PatientDocument
+) => Promise<number>;
+
+/**
+ * Contract for retrieving the application's webhook subscription requests
+ *
+ * Business operation: "Which events has PCC agreed to send us?"
+ * Includes pending, retired and rejected requests unless status narrows it
+ */
+export type GetWebhookSubscriptions = (
+  applicationName: string,
+  status?: WebhookSubscriptionStatus
+) => Promise<WebhookSubscription[]>;
+
+/**
+ * Contract for submitting a webhook subscription request to the EHR
+ *
+ * Business operation: "Ask PCC to send these events to this URL"
+ * The request replaces the current subscription once PCC approves it;
+ * returns the new subscription ID
+ */
+export type SubmitWebhookSubscription = (
+  request: WebhookSubscriptionRequest
+) => Promise<number>;
+
+/**
+ * Contract for retrieving webhook deliveries the EHR could not make
+ *
+ * Business operation: "Which events did PCC fail to deliver for this facility?"
+ * PCC keeps the latest 100 errors of the past seven days
+ */
+export type GetWebhookDeliveryErrors = (
+  orgUuid: string,
+  facilityId: number
+) => Promise<WebhookDeliveryError[]>;
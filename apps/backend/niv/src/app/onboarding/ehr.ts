@@ -16,19 +16,59 @@
 import {
   createPccClient,
   createPccConfigFromEnv,
+  PccAdtRecordResponse,
+  PccAdvanceDirectiveConsentResponse,
   PccConditionResponse,
+  PccDiagnosticReportResponse,
+  PccFacilityResponse,
   PccListResponse,
+  PccObservationResponse,
+  PccPagedResponse,
+  PccPatientDocumentRequest,
+  PccPatientDocumentResponse,
   PccPatientResponse,
+  PccPractitionerResponse,
+  PccProgressNoteRequest,
+  PccProgressNoteTypeResponse,
+  PccWebhookErrorResponse,
+  PccWebhookSubscriptionResponse,
 } from '../ehr/pcc';
-import { createDiagnosis } from './diagnosis';
+import { isAdtActionType, type AdtRecord } from './adt-record';
+import { createDiagnosis, parseConditionClinicalStatus } from './diagnosis';
 import {
+  AttachPatientDocument,
+  GetFacilities,
+  GetFacility,
   GetPatient,
+  GetPatientAdtRecords,
+  GetPatientAdvanceDirectives,
   GetPatientDiagnoses,
+  GetPatientObservations,
   GetPatients,
   GetPatientWithDiagnoses,
+  GetPractitioners,
+  GetProgressNoteTypes,
+  CreateProgressNote,
+  GetWebhookDeliveryErrors,
+  GetWebhookSubscriptions,
+  SubmitWebhookSubscription,
 } from './ehr-operations';
 import { OnboardingError } from './errors';
+import type { AdvanceDirective } from './exclusion';
+import { EMPTY_FACILITY_ADDRESS, type FacilityProfile } from './facility';
+import {
+  createObservation,
+  getMeasurementKindForLoinc,
+  type Observation,
+} from './observation';
 import { createPatient } from './patient';
+import type { ProgressNoteType } from './progress-note';
+import type { PractitionerProfile } from './staff-member';
+import type { WebhookSubscription } from './webhook-subscription';
+
+// PCC's maximum page size for observations and diagnostic reports
+const PCC_MAX_PAGE_SIZE = 200;
+const PCC_MAX_PROVIDER_LENGTH = 200;
 
 /**
  * Create EHR adapter using PointClickCare as the implementation
@@ -40,6 +80,26 @@ export function createEhrAdapter() {
   const config = createPccConfigFromEnv();
   const pccClient = createPccClient(config);
 
+  // Every page of a list endpoint paged with hasMore
+  const getAllPages = async <T>(
+    endpoint: string,
+    params: Record<string, any>
+  ): Promise<T[]> => {
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      const response = await pccClient.get<PccPagedResponse<T>>(endpoint, {
+        ...params,
+        page,
+        pageSize: PCC_MAX_PAGE_SIZE,
+      });
+
+      items.push(...(response.data ?? []));
+      if (!response.paging?.hasMore) {
+        return items;
+      }
+    }
+  };
+
   const getPatient: GetPatient = async (orgUuid: string, patientId: number) => {
     try {
       const pccPatient = await pccClient.get<PccPatientResponse>(
@@ -73,7 +133,13 @@ export function createEhrAdapter() {
     try {
       const response = await pccClient.get<
         PccListResponse<PccConditionResponse>
-      >(`/public/preview1/orgs/${orgUuid}/conditions`, { patientId });
+      >(`/public/preview1/orgs/${orgUuid}/conditions`, {
+        patientId,
+        // PCC returns active conditions only unless asked; rule sets decide
+        // whether resolved ones count
+        clinicalStatus: 'active,resolved',
+        pageSize: PCC_MAX_PAGE_SIZE,
+      });
 
       if (!response.data || response.data.length === 0) {
         return [];
@@ -85,7 +151,17 @@ export function createEhrAdapter() {
           condition.icd10,
           condition.icd10Description,
           new Date(condition.onsetDate),
-          condition.principalDiagnosis
+          condition.principalDiagnosis,
+          {
+            clinicalStatus: parseConditionClinicalStatus(
+              condition.clinicalStatus
+            ),
+            resolvedDate: condition.resolvedDate
+              ? new Date(condition.resolvedDate)
+              : null,
+            rank: condition.rankDescription ?? null,
+            classification: condition.classificationDescription ?? null,
+          }
         )
       );
     } catch (error) {
@@ -136,6 +212,164 @@ export function createEhrAdapter() {
     }
   };
 
+  const getPatientObservations: GetPatientObservations = async (
+    orgUuid: string,
+    patientId: number,
+    since: Date
+  ) => {
+    try {
+      // SpO2 comes from vital signs; blood gases and spirometry from labs
+      const [vitals, reports] = await Promise.all([
+        getAllPages<PccObservationResponse>(
+          `/public/preview1/orgs/${orgUuid}/observations`,
+          {
+            patientId,
+            type: 'oxygenSaturation',
+            startDate: since.toISOString(),
+          }
+        ),
+        getAllPages<PccDiagnosticReportResponse>(
+          `/public/preview1/orgs/${orgUuid}/diagnostic-reports`,
+          {
+            patientId,
+            reportType: 'laboratory',
+            status: 'COMPLETED,RESULTED',
+            issuedDateTime: `ge${since.toISOString()}`,
+          }
+        ),
+      ]);
+
+      const vitalSigns = vitals.map((reading) =>
+        createObservation(
+          `vitals-${reading.observationId}`,
+          'SPO2',
+          Number(reading.value),
+          reading.unit ?? '%',
+          new Date(reading.recordedDate),
+          'vitals',
+          'Oxygen saturation'
+        )
+      );
+
+      const labResults = reports.flatMap((report) =>
+        (report.testSet ?? []).flatMap((test) =>
+          (test.results ?? []).map((result, index) => {
+            const kind = getMeasurementKindForLoinc(result.code);
+            if (!kind || result.valueQuantity?.value === undefined) {
+              return null;
+            }
+
+            return createObservation(
+              result.observationId ?? `${report.reportId}-${index}`,
+              kind,
+              parseFloat(result.valueQuantity.value),
+              result.valueQuantity.unitText ?? '',
+              // Collection time, falling back to when the report was issued
+              new Date(report.effectiveDateTime ?? report.issuedDateTime ?? ''),
+              'lab',
+              result.observationName ??
+                result.codeDescription ??
+                report.reportName ??
+                kind
+            );
+          })
+        )
+      );
+
+      return [...vitalSigns, ...labResults].filter(
+        (observation): observation is Observation => observation !== null
+      );
+    } catch (error) {
+      // No measurements on file is expected for many patients
+      if (isPccNotFoundError(error)) {
+        return [];
+      }
+
+      throw mapPccErrorToOnboardingError(error, 'observation_lookup', {
+        orgUuid,
+        patientId,
+      });
+    }
+  };
+
+  const getPatientAdvanceDirectives: GetPatientAdvanceDirectives = async (
+    orgUuid: string,
+    patientId: number
+  ) => {
+    try {
+      const response = await pccClient.get<
+        PccListResponse<PccAdvanceDirectiveConsentResponse>
+      >(`/public/preview1/orgs/${orgUuid}/advance-directives-consents`, {
+        patientId,
+        status: 'active',
+        pageSize: PCC_MAX_PAGE_SIZE,
+      });
+
+      return (response.data ?? []).map(
+        (consent): AdvanceDirective => ({
+          directiveId: consent.advanceDirectivesConsentId,
+          status: consent.status,
+          description: consent.description ?? '',
+          directives: consent.directives ?? [],
+          orderDate: consent.orderDate ? new Date(consent.orderDate) : null,
+        })
+      );
+    } catch (error) {
+      // No consents on file is the common case, not an error
+      if (isPccNotFoundError(error)) {
+        return [];
+      }
+
+      throw mapPccErrorToOnboardingError(error, 'advance_directive_lookup', {
+        orgUuid,
+        patientId,
+      });
+    }
+  };
+
+  const getPatientAdtRecords: GetPatientAdtRecords = async (
+    orgUuid: string,
+    patientId: number,
+    since: Date
+  ) => {
+    try {
+      const records = await getAllPages<PccAdtRecordResponse>(
+        `/public/preview1/orgs/${orgUuid}/adt-records`,
+        { patientId }
+      );
+
+      return records
+        .flatMap((record): AdtRecord[] =>
+          !record.isCancelledRecord &&
+          isAdtActionType(record.standardActionType) &&
+          new Date(record.effectiveDateTime) >= since
+            ? [
+                {
+                  adtRecordId: record.adtRecordId,
+                  patientId: record.patientId,
+                  standardActionType: record.standardActionType,
+                  actionType: record.actionType,
+                  effectiveAt: new Date(record.effectiveDateTime),
+                  destination: record.destination ?? null,
+                  destinationType: record.destinationType ?? null,
+                  origin: record.origin ?? record.originType ?? null,
+                },
+              ]
+            : []
+        )
+        .sort(
+          (a, b) =>
+            a.effectiveAt.getTime() - b.effectiveAt.getTime() ||
+            a.adtRecordId - b.adtRecordId
+        );
+    } catch (error) {
+      throw mapPccErrorToOnboardingError(error, 'patient_adt_lookup', {
+        orgUuid,
+        patientId,
+      });
+    }
+  };
+
   const getPatients: GetPatients = async (
     orgUuid: string,
     facilityId?: number,
@@ -145,7 +379,8 @@ export function createEhrAdapter() {
     try {
       const params: Record<string, any> = { page, pageSize };
       if (facilityId) {
-        params.facilityId = facilityId;
+        // PCC names the facility filter facId
+        params.facId = facilityId;
       }
 
       const response = await pccClient.get<PccListResponse<PccPatientResponse>>(
@@ -176,6 +411,268 @@ export function createEhrAdapter() {
     }
   };
 
+  const getFacilities: GetFacilities = async (orgUuid: string) => {
+    try {
+      const facilities: FacilityProfile[] = [];
+      for (let page = 1; ; page++) {
+        const response = await pccClient.get<
+          PccPagedResponse<PccFacilityResponse>
+        >(`/public/preview1/orgs/${orgUuid}/facs`, {
+          page,
+          pageSize: PCC_MAX_PAGE_SIZE,
+        });
+
+        facilities.push(
+          ...response.data.map((pccFacility) =>
+            toFacilityProfile(orgUuid, pccFacility)
+          )
+        );
+        if (!response.paging?.hasMore) {
+          return facilities;
+        }
+      }
+    } catch (error) {
+      throw mapPccErrorToOnboardingError(error, 'facilities_lookup', {
+        orgUuid,
+      });
+    }
+  };
+
+  const getFacility: GetFacility = async (
+    orgUuid: string,
+    facilityId: number
+  ) => {
+    try {
+      const pccFacility = await pccClient.get<PccFacilityResponse>(
+        `/public/preview1/orgs/${orgUuid}/facs/${facilityId}`
+      );
+
+      return toFacilityProfile(orgUuid, pccFacility);
+    } catch (error) {
+      throw mapPccErrorToOnboardingError(error, 'facility_lookup', {
+        orgUuid,
+        facilityId,
+      });
+    }
+  };
+
+  const getPractitioners: GetPractitioners = async (
+    orgUuid: string,
+    patientId: number
+  ) => {
+    try {
+      const practitioners = await getAllPages<PccPractitionerResponse>(
+        `/public/preview1/orgs/${orgUuid}/practitioners`,
+        { patientId }
+      );
+
+      return practitioners.map((pccPractitioner) =>
+        toPractitionerProfile(orgUuid, pccPractitioner)
+      );
+    } catch (error) {
+      throw mapPccErrorToOnboardingError(error, 'practitioners_lookup', {
+        orgUuid,
+        patientId,
+      });
+    }
+  };
+
+  const getProgressNoteTypes: GetProgressNoteTypes = async (
+    orgUuid: string,
+    facilityId: number
+  ) => {
+    try {
+      const types: ProgressNoteType[] = [];
+      for (let page = 1; ; page++) {
+        const response = await pccClient.get<
+          PccPagedResponse<PccProgressNoteTypeResponse>
+        >(`/public/preview1/orgs/${orgUuid}/progress-note-types`, {
+          facId: facilityId,
+          page,
+          pageSize: PCC_MAX_PAGE_SIZE,
+        });
+
+        types.push(
+          ...response.data.map((pccType) => ({
+            description: pccType.noteType,
+            sections: pccType.sections ?? [],
+          }))
+        );
+        if (!response.paging?.hasMore) {
+          return types;
+        }
+      }
+    } catch (error) {
+      throw mapPccErrorToOnboardingError(error, 'progress_note_types_lookup', {
+        orgUuid,
+        facilityId,
+      });
+    }
+  };
+
+  const createProgressNote: CreateProgressNote = async (note, externalId) => {
+    try {
+      const request: PccProgressNoteRequest = {
+        patientId: note.patientId,
+        noteType: note.noteType,
+        externalId,
+        effectiveDate: note.effectiveAt.toISOString(),
+        isEncounterNote: false,
+        sections: [
+          ...note.sections.map((section) => ({
+            name: section.name,
+            value: section.text,
+          })),
+          // PCC requires the author, at most 200 characters
+          {
+            name: 'Provider',
+            value: note.provider.slice(0, PCC_MAX_PROVIDER_LENGTH),
+          },
+        ],
+      };
+      const response = await pccClient.post<{ progressNoteId: number }>(
+        `/public/preview1/orgs/${note.orgUuid}/progress-notes`,
+        request
+      );
+
+      return response.progressNoteId;
+    } catch (error) {
+      // Written by an earlier attempt whose reply was lost
+      if (getHttpStatus(error) === 409) {
+        return null;
+      }
+      throw mapPccErrorToOnboardingError(error, 'progress_note_create', {
+        orgUuid: note.orgUuid,
+        patientId: note.patientId,
+      });
+    }
+  };
+
+  const attachPatientDocument: AttachPatientDocument = async (document) => {
+    try {
+      const fields: PccPatientDocumentRequest = {
+        documentName: document.fileName,
+        documentCategory: document.categoryId,
+        effectiveDate: document.effectiveAt.toISOString(),
+      };
+      // PCC reads the fields from one JSON part, sent ahead of the file
+      const form = new FormData();
+      form.append(
+        'metadata',
+        new Blob([JSON.stringify(fields)], { type: 'application/json' })
+      );
+      form.append(
+        'file',
+        new Blob([document.content], { type: document.contentType }),
+        document.fileName
+      );
+
+      const response = await pccClient.postForm<PccPatientDocumentResponse>(
+        `/public/preview1/orgs/${document.orgUuid}/patients/${document.patientId}/documents`,
+        form
+      );
+
+      return response.documentId;
+    } catch (error) {
+      throw mapPccErrorToOnboardingError(error, 'patient_document_attach', {
+        orgUuid: document.orgUuid,
+        patientId: document.patientId,
+      });
+    }
+  };
+
+  const getWebhookSubscriptions: GetWebhookSubscriptions = async (
+    applicationName: string,
+    status?: string
+  ) => {
+    try {
+      const subscriptions: WebhookSubscription[] = [];
+      for (let page = 1; ; page++) {
+        const params: Record<string, any> = {
+          applicationName,
+          page,
+          pageSize: PCC_MAX_PAGE_SIZE,
+        };
+        if (status) {
+          params.status = status;
+        }
+
+        const response = await pccClient.get<
+          PccPagedResponse<PccWebhookSubscriptionResponse>
+        >('/public/preview1/webhook-subscriptions', params);
+
+        subscriptions.push(...response.data.map(toWebhookSubscription));
+        if (!response.paging?.hasMore) {
+          return subscriptions;
+        }
+      }
+    } catch (error) {
+      throw mapPccErrorToOnboardingError(
+        error,
+        'webhook_subscriptions_lookup',
+        {
+          applicationName,
+          status,
+        }
+      );
+    }
+  };
+
+  const submitWebhookSubscription: SubmitWebhookSubscription = async (
+    request
+  ) => {
+    try {
+      const response = await pccClient.post<{ webhookSubscriptionId: number }>(
+        '/public/preview1/webhook-subscriptions',
+        {
+          applicationName: request.applicationName,
+          endUrl: request.endUrl,
+          eventGroupList: [...request.eventGroups],
+          includeDischarged: request.includeDischarged,
+          includeOutpatient: request.includeOutpatient,
+          enableRoomReservationCancellation:
+            request.enableRoomReservationCancellation,
+          username: request.username,
+          password: request.password,
+          ...(request.vendorExternalId && {
+            vendorExternalId: request.vendorExternalId,
+          }),
+        }
+      );
+
+      return response.webhookSubscriptionId;
+    } catch (error) {
+      // Never log or echo the webhook password
+      throw mapPccErrorToOnboardingError(error, 'webhook_subscription_submit', {
+        applicationName: request.applicationName,
+        endUrl: request.endUrl,
+      });
+    }
+  };
+
+  const getWebhookDeliveryErrors: GetWebhookDeliveryErrors = async (
+    orgUuid: string,
+    facilityId: number
+  ) => {
+    try {
+      const response = await pccClient.get<
+        PccListResponse<PccWebhookErrorResponse>
+      >(`/public/preview1/orgs/${orgUuid}/facs/${facilityId}/webhook-errors`);
+
+      return response.data.map((pccError) => ({
+        occurredAt: pccError.errorTimeStamp
+          ? new Date(pccError.errorTimeStamp)
+          : null,
+        code: pccError.webhookErrorCode,
+      }));
+    } catch (error) {
+      throw mapPccErrorToOnboardingError(error, 'webhook_errors_lookup', {
+        orgUuid,
+        facilityId,
+      });
+    }
+  };
+
   const testConnection = async (): Promise<boolean> => {
     try {
       await pccClient.getAccessToken();
@@ -189,8 +686,20 @@ export function createEhrAdapter() {
     getPatient,
     getPatientDiagnoses,
     getPatientWithDiagnoses,
+    getPatientObservations,
+    getPatientAdvanceDirectives,
+    getPatientAdtRecords,
     getPatients,
+    getFacilities,
+    getFacility,
+    getPractitioners,
+    getProgressNoteTypes,
+    createProgressNote,
+    attachPatientDocument,
     testConnection,
+    getWebhookSubscriptions,
+    submitWebhookSubscription,
+    getWebhookDeliveryErrors,
   };
 }
 
@@ -218,7 +727,8 @@ export function createMockEhrAdapter() {
         'J44.1',
         'COPD with exacerbation',
         new Date('2023-01-15'),
-        true
+        true,
+        { rank: 'Primary' }
       ),
       createDiagnosis(
         2,
@@ -227,6 +737,14 @@ export function createMockEhrAdapter() {
         new Date('2023-02-01'),
         false
       ),
+      createDiagnosis(
+        3,
+        'J96.02',
+        'Acute respiratory failure with hypercapnia',
+        new Date('2019-11-03'),
+        false,
+        { clinicalStatus: 'RESOLVED', resolvedDate: new Date('2019-12-10') }
+      ),
     ];
   };
 
@@ -241,6 +759,50 @@ export function createMockEhrAdapter() {
     return { patient, diagnoses };
   };
 
+  const getPatientObservations: GetPatientObservations = async (
+    _orgUuid: string,
+    _patientId: number,
+    _since: Date
+  ) => {
+    // Hypercapnic but no overnight oximetry yet
+    const recordedAt = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000);
+    return [
+      createObservation(
+        'lab-1',
+        'PACO2',
+        54,
+        'mmHg',
+        recordedAt,
+        'lab',
+        'pCO2 arterial'
+      ),
+      createObservation(
+        'lab-2',
+        'PH',
+        7.37,
+        '',
+        recordedAt,
+        'lab',
+        'pH arterial'
+      ),
+    ].filter((observation): observation is Observation => observation !== null);
+  };
+
+  const getPatientAdvanceDirectives: GetPatientAdvanceDirectives = async (
+    _orgUuid: string,
+    _patientId: number
+  ) => {
+    return [];
+  };
+
+  const getPatientAdtRecords: GetPatientAdtRecords = async (
+    _orgUuid: string,
+    _patientId: number,
+    _since: Date
+  ) => {
+    return [];
+  };
+
   const getPatients: GetPatients = async (
     _orgUuid: string,
     _facilityId?: number,
@@ -253,6 +815,93 @@ export function createMockEhrAdapter() {
     ];
   };
 
+  const getFacilities: GetFacilities = async (orgUuid: string) => {
+    return [
+      {
+        orgUuid,
+        facilityId: 1,
+        name: 'Mock Skilled Nursing',
+        facilityCode: 'MSN',
+        healthType: 'SNF',
+        address: EMPTY_FACILITY_ADDRESS,
+        timeZone: 'America/New_York',
+        bedCount: 120,
+        active: true,
+      },
+    ];
+  };
+
+  const getFacility: GetFacility = async (
+    orgUuid: string,
+    facilityId: number
+  ) => {
+    const [facility] = await getFacilities(orgUuid);
+    return { ...facility, facilityId };
+  };
+
+  const getPractitioners: GetPractitioners = async (
+    orgUuid: string,
+    _patientId: number
+  ) => {
+    return [
+      {
+        orgUuid,
+        practitionerId: 101,
+        firstName: 'Rita',
+        lastName: 'Lung',
+        profession: 'Respiratory Therapist',
+        email: 'rita.lung@example.com',
+        phone: null,
+        active: true,
+      },
+      {
+        orgUuid,
+        practitionerId: 102,
+        firstName: 'Dana',
+        lastName: 'Ward',
+        profession: 'Director of Nursing',
+        email: 'dana.ward@example.com',
+        phone: null,
+        active: true,
+      },
+    ];
+  };
+
+  const getProgressNoteTypes: GetProgressNoteTypes = async (
+    _orgUuid: string,
+    _facilityId: number
+  ) => {
+    return [{ description: 'Respiratory Therapy', sections: ['Note Text'] }];
+  };
+
+  const createProgressNote: CreateProgressNote = async (_note, _externalId) => {
+    return 1;
+  };
+
+  const attachPatientDocument: AttachPatientDocument = async (_document) => {
+    return 1;
+  };
+
+  const getWebhookSubscriptions: GetWebhookSubscriptions = async (
+    _applicationName: string,
+    _status?: string
+  ) => {
+    return [];
+  };
+
+  const submitWebhookSubscription: SubmitWebhookSubscription = async (
+    _request
+  ) => {
+    return 1;
+  };
+
+  const getWebhookDeliveryErrors: GetWebhookDeliveryErrors = async (
+    _orgUuid: string,
+    _facilityId: number
+  ) => {
+    return [];
+  };
+
   const testConnection = async (): Promise<boolean> => {
     return true;
   };
@@ -261,8 +910,99 @@ export function createMockEhrAdapter() {
     getPatient,
     getPatientDiagnoses,
     getPatientWithDiagnoses,
+    getPatientObservations,
+    getPatientAdvanceDirectives,
+    getPatientAdtRecords,
     getPatients,
+    getFacilities,
+    getFacility,
+    getPractitioners,
+    getProgressNoteTypes,
+    createProgressNote,
+    attachPatientDocument,
     testConnection,
+    getWebhookSubscriptions,
+    submitWebhookSubscription,
+    getWebhookDeliveryErrors,
+  };
+}
+
+/**
+ * Translate a PCC facility into the domain facility profile
+ */
+function toFacilityProfile(
+  orgUuid: string,
+  pccFacility: PccFacilityResponse
+): FacilityProfile {
+  return {
+    orgUuid,
+    facilityId: pccFacility.facId,
+    name: pccFacility.facilityName,
+    facilityCode: pccFacility.facilityCode ?? null,
+    healthType: pccFacility.healthType ?? null,
+    address: {
+      line1: pccFacility.addressLine1 ?? null,
+      line2: pccFacility.addressLine2 ?? null,
+      city: pccFacility.city ?? null,
+      region: pccFacility.state ?? pccFacility.prov ?? null,
+      postalCode: pccFacility.postalCode ?? null,
+      country: pccFacility.country ?? null,
+    },
+    timeZone: pccFacility.timeZone ?? null,
+    bedCount: pccFacility.bedCount ?? null,
+    // PCC omits the flag on facilities that are in use
+    active: pccFacility.active ?? true,
+  };
+}
+
+/**
+ * Translate a practitioner on a PCC care team into the domain profile
+ */
+function toPractitionerProfile(
+  orgUuid: string,
+  pccPractitioner: PccPractitionerResponse
+): PractitionerProfile {
+  return {
+    orgUuid,
+    practitionerId: pccPractitioner.practitionerId,
+    firstName: pccPractitioner.firstName,
+    lastName: pccPractitioner.lastName,
+    profession: pccPractitioner.providerType ?? pccPractitioner.title ?? null,
+    email: pccPractitioner.email || null,
+    phone: pccPractitioner.phone || null,
+    active: pccPractitioner.active ?? true,
+  };
+}
+
+/**
+ * Translate a PCC webhook subscription into the domain value object
+ */
+function toWebhookSubscription(
+  pccSubscription: PccWebhookSubscriptionResponse
+): WebhookSubscription {
+  return {
+    subscriptionId: pccSubscription.webhookSubscriptionId,
+    applicationName: pccSubscription.applicationName,
+    action: pccSubscription.action,
+    status: pccSubscription.status,
+    endUrl: pccSubscription.endUrl,
+    eventGroups: pccSubscription.eventGroupList ?? [],
+    includeDischarged: pccSubscription.includeDischarged ?? false,
+    includeOutpatient: pccSubscription.includeOutpatient ?? false,
+    enableRoomReservationCancellation:
+      pccSubscription.enableRoomReservationCancellation ?? false,
+    vendorExternalId: pccSubscription.vendorExternalId || null,
+    username: pccSubscription.username ?? null,
+    orgs: (pccSubscription.currentSubscription ?? []).map((org) => ({
+      orgUuid: org.orgUuid,
+      status: org.status,
+    })),
+    createdAt: pccSubscription.createdDate
+      ? new Date(pccSubscription.createdDate)
+      : null,
+    revisedAt: pccSubscription.revisionDate
+      ? new Date(pccSubscription.revisionDate)
+      : null,
   };
 }
 
@@ -287,6 +1027,18 @@ function mapPccErrorToOnboardingError(
 
     switch (status) {
       case 404:
+        // Facility-level lookups (no patient) name the missing facility
+        if (
+          typeof context.patientId !== 'number' &&
+          typeof context.facilityId === 'number'
+        ) {
+          return OnboardingError.facilityNotFound(
+            context.facilityId,
+            orgUuid,
+            error instanceof Error ? error : undefined
+          );
+        }
+
         // Patient not found in PCC - this is a business-meaningful error
         return OnboardingError.patientNotFound(
           patientId,
@@ -7,6 +7,7 @@
 export const NIV_ERRORS = {
   // Patient Lookup Errors (PCC Integration)
   PATIENT_NOT_FOUND: 'PATIENT_NOT_FOUND',
+  FACILITY_NOT_FOUND: 'FACILITY_NOT_FOUND',
   PCC_UNAVAILABLE: 'PCC_UNAVAILABLE',
   PCC_UNAUTHORIZED: 'PCC_UNAUTHORIZED',
   PCC_TIMEOUT: 'PCC_TIMEOUT',
@@ -15,11 +16,44 @@ export const NIV_ERRORS = {
   QUALIFICATION_FAILED: 'QUALIFICATION_FAILED',
   MISSING_CLINICAL_DATA: 'MISSING_CLINICAL_DATA',
   INVALID_DIAGNOSIS_CODES: 'INVALID_DIAGNOSIS_CODES',
+  DIAGNOSIS_CATALOG_INVALID: 'DIAGNOSIS_CATALOG_INVALID',
+  RULE_SETS_INVALID: 'RULE_SETS_INVALID',
+  RULE_SET_NOT_FOUND: 'RULE_SET_NOT_FOUND',
 
   // Workflow State Errors
   RT_ASSIGNMENT_FAILED: 'RT_ASSIGNMENT_FAILED',
   NOTIFICATION_FAILED: 'NOTIFICATION_FAILED',
 
+  // Onboarding Case Errors
+  CASE_NOT_FOUND: 'CASE_NOT_FOUND',
+  CASE_ALREADY_EXISTS: 'CASE_ALREADY_EXISTS',
+  CASE_STORE_UNAVAILABLE: 'CASE_STORE_UNAVAILABLE',
+  ILLEGAL_STATUS_TRANSITION: 'ILLEGAL_STATUS_TRANSITION',
+  REVIEW_CLAIM_REJECTED: 'REVIEW_CLAIM_REJECTED',
+  VISIT_REJECTED: 'VISIT_REJECTED',
+
+  // Facility Screening Errors
+  SCREENING_JOB_NOT_FOUND: 'SCREENING_JOB_NOT_FOUND',
+  SCREENING_ALREADY_RUNNING: 'SCREENING_ALREADY_RUNNING',
+
+  // Patient Import Errors
+  PATIENT_IMPORT_INVALID: 'PATIENT_IMPORT_INVALID',
+
+  // Webhook Subscription Errors
+  WEBHOOK_SUBSCRIPTIONS_NOT_CONFIGURED: 'WEBHOOK_SUBSCRIPTIONS_NOT_CONFIGURED',
+  WEBHOOK_SUBSCRIPTION_NOT_FOUND: 'WEBHOOK_SUBSCRIPTION_NOT_FOUND',
+  WEBHOOK_SUBSCRIPTION_INVALID: 'WEBHOOK_SUBSCRIPTION_INVALID',
+
+  // Staff Directory Errors
+  STAFF_MEMBER_NOT_FOUND: 'STAFF_MEMBER_NOT_FOUND',
+  STAFF_MEMBER_INVALID: 'STAFF_MEMBER_INVALID',
+
+  // Chart Write-back Errors
+  PROGRESS_NOTE_TYPE_NOT_FOUND: 'PROGRESS_NOTE_TYPE_NOT_FOUND',
+  CASE_DOCUMENT_NOT_FOUND: 'CASE_DOCUMENT_NOT_FOUND',
+  CASE_DOCUMENT_NOT_UPLOADED: 'CASE_DOCUMENT_NOT_UPLOADED',
+  DOCUMENT_CATEGORY_NOT_CONFIGURED: 'DOCUMENT_CATEGORY_NOT_CONFIGURED',
+
   // Input Validation Errors
   INVALID_PATIENT_ID: 'INVALID_PATIENT_ID',
   INVALID_ORG_UUID: 'INVALID_ORG_UUID',
@@ -83,6 +117,25 @@ export class OnboardingError extends Error {
     );
   }
 
+  /**
+   * Create error for facility not found in PCC
+   */
+  static facilityNotFound(
+    facilityId: number,
+    orgUuid: string,
+    cause?: Error
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.FACILITY_NOT_FOUND,
+      `Facility ${facilityId} not found in organization ${orgUuid}`,
+      'stop',
+      {
+        cause,
+        context: { facilityId, orgUuid, operation: 'facility_lookup' },
+      }
+    );
+  }
+
   /**
    * Create error for PCC service unavailable (recoverable)
    */
@@ -117,6 +170,425 @@ export class OnboardingError extends Error {
     );
   }
 
+  /**
+   * Create error for onboarding case not found
+   */
+  static caseNotFound(caseId: string): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.CASE_NOT_FOUND,
+      `Onboarding case ${caseId} not found`,
+      'stop',
+      {
+        context: { caseId, operation: 'case_lookup' },
+      }
+    );
+  }
+
+  /**
+   * Create error for enrolling a patient who already has a case
+   */
+  static caseAlreadyExists(
+    patientId: number,
+    orgUuid: string,
+    caseId: string
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.CASE_ALREADY_EXISTS,
+      `Patient ${patientId} in organization ${orgUuid} already has onboarding case ${caseId}`,
+      'stop',
+      {
+        context: { patientId, orgUuid, caseId, operation: 'case_create' },
+      }
+    );
+  }
+
+  /**
+   * Create error for case storage unavailable (recoverable)
+   */
+  static caseStoreUnavailable(
+    operation: string,
+    cause?: Error
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.CASE_STORE_UNAVAILABLE,
+      `Onboarding case store unavailable during ${operation}`,
+      'retry',
+      {
+        cause,
+        context: { operation, service: 'postgres' },
+      }
+    );
+  }
+
+  /**
+   * Create error for a workflow transition the case cannot make
+   */
+  static illegalTransition(
+    caseId: string,
+    transition: string,
+    status: string,
+    violation: string
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.ILLEGAL_STATUS_TRANSITION,
+      `Cannot apply ${transition} to onboarding case ${caseId} in status ${status}: ${violation}`,
+      'stop',
+      {
+        context: {
+          caseId,
+          transition,
+          status,
+          violation,
+          operation: 'case_transition',
+        },
+      }
+    );
+  }
+
+  /**
+   * Create error for a case that could not be given a respiratory therapist
+   */
+  static rtAssignmentFailed(
+    orgUuid: string,
+    facilityId: number,
+    reason: string,
+    caseId?: string
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.RT_ASSIGNMENT_FAILED,
+      `Could not assign a respiratory therapist for facility ${facilityId} in organization ${orgUuid}: ${reason}`,
+      'user-input',
+      {
+        actionRequired: 'Assign a respiratory therapist to the case manually',
+        context: {
+          orgUuid,
+          facilityId,
+          caseId,
+          reason,
+          operation: 'rt_assignment',
+        },
+      }
+    );
+  }
+
+  /**
+   * Create error for notifications that could not be delivered (recoverable)
+   */
+  static notificationFailed(
+    caseId: string,
+    eventType: string,
+    failures: Array<Record<string, unknown>>,
+    missingRoles: string[]
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.NOTIFICATION_FAILED,
+      `Notifications for ${eventType} on case ${caseId} were not fully delivered (${failures.length} failed, missing roles: ${
+        missingRoles.join(', ') || 'none'
+      })`,
+      'retry',
+      {
+        context: {
+          caseId,
+          eventType,
+          failures,
+          missingRoles,
+          operation: 'case_notification',
+        },
+      }
+    );
+  }
+
+  /**
+   * Create error for a review claim, release or completion that is not allowed
+   */
+  static reviewClaimRejected(
+    caseId: string,
+    rtId: string,
+    violation: string
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.REVIEW_CLAIM_REJECTED,
+      `Review of case ${caseId} by ${rtId} rejected: ${violation}`,
+      'stop',
+      {
+        context: { caseId, rtId, violation, operation: 'review_claim' },
+      }
+    );
+  }
+
+  /**
+   * Create error for an RT visit that cannot be recorded on the case
+   */
+  static visitRejected(caseId: string, violation: string): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.VISIT_REJECTED,
+      `RT visit for case ${caseId} rejected: ${violation}`,
+      'stop',
+      {
+        context: { caseId, violation, operation: 'rt_visit' },
+      }
+    );
+  }
+
+  /**
+   * Create error for a diagnosis code catalog that fails validation
+   *
+   * Raised at startup so a bad catalog never drives qualification
+   */
+  static catalogInvalid(source: string, problems: string[]): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.DIAGNOSIS_CATALOG_INVALID,
+      `Diagnosis catalog ${source} is invalid: ${problems.join('; ')}`,
+      'stop',
+      {
+        context: { source, problems, operation: 'diagnosis_catalog_load' },
+      }
+    );
+  }
+
+  /**
+   * Create error for qualification rule sets that fail validation
+   *
+   * Raised at startup, like an invalid catalog
+   */
+  static ruleSetsInvalid(source: string, problems: string[]): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.RULE_SETS_INVALID,
+      `Qualification rule sets ${source} are invalid: ${problems.join('; ')}`,
+      'stop',
+      {
+        context: { source, problems, operation: 'rule_set_load' },
+      }
+    );
+  }
+
+  /**
+   * Create error for an unknown qualification rule set version
+   */
+  static ruleSetNotFound(version: string): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.RULE_SET_NOT_FOUND,
+      `Qualification rule set version ${version} not found`,
+      'user-input',
+      {
+        actionRequired:
+          'Choose a rule set version listed by GET /onboarding/rule-sets',
+        context: { version, operation: 'rule_set_lookup' },
+      }
+    );
+  }
+
+  /**
+   * Create error for an unknown screening job
+   */
+  static screeningJobNotFound(jobId: string): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.SCREENING_JOB_NOT_FOUND,
+      `Screening job ${jobId} not found`,
+      'stop',
+      {
+        context: { jobId, operation: 'screening_lookup' },
+      }
+    );
+  }
+
+  /**
+   * Create error for starting a screening while one runs for the same scope
+   */
+  static screeningAlreadyRunning(
+    orgUuid: string,
+    facilityId: number | null,
+    jobId: string
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.SCREENING_ALREADY_RUNNING,
+      `Screening job ${jobId} is already running for ${
+        facilityId === null
+          ? `organization ${orgUuid}`
+          : `facility ${facilityId}`
+      }`,
+      'stop',
+      {
+        context: { orgUuid, facilityId, jobId, operation: 'screening_start' },
+      }
+    );
+  }
+
+  /**
+   * Create error for a patient import file that cannot be read as a whole
+   *
+   * Problems with single rows are reported per row instead
+   */
+  static patientImportInvalid(problems: string[]): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.PATIENT_IMPORT_INVALID,
+      `Patient import file is invalid: ${problems.join('; ')}`,
+      'user-input',
+      {
+        actionRequired:
+          'Upload a CSV with a patientId column, or firstName, lastName, dateOfBirth and facilityId columns',
+        context: { problems, operation: 'patient_import' },
+      }
+    );
+  }
+
+  /**
+   * Create error for managing webhook subscriptions without the config
+   * they need
+   */
+  static webhookSubscriptionsNotConfigured(missing: string[]): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.WEBHOOK_SUBSCRIPTIONS_NOT_CONFIGURED,
+      `Webhook subscriptions are not configured: ${missing.join(', ')} not set`,
+      'user-input',
+      {
+        actionRequired: `Set ${missing.join(', ')} and restart the service`,
+        context: { missing, operation: 'webhook_subscription_config' },
+      }
+    );
+  }
+
+  /**
+   * Create error for a webhook subscription PCC does not report
+   */
+  static webhookSubscriptionNotFound(
+    subscriptionId: number,
+    applicationName: string
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.WEBHOOK_SUBSCRIPTION_NOT_FOUND,
+      `Webhook subscription ${subscriptionId} not found for application ${applicationName}`,
+      'stop',
+      {
+        context: {
+          subscriptionId,
+          applicationName,
+          operation: 'webhook_subscription_lookup',
+        },
+      }
+    );
+  }
+
+  /**
+   * Create error for a subscription request PCC would reject
+   */
+  static webhookSubscriptionInvalid(problems: string[]): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.WEBHOOK_SUBSCRIPTION_INVALID,
+      `Webhook subscription is invalid: ${problems.join('; ')}`,
+      'user-input',
+      {
+        actionRequired: 'Correct the subscription settings and submit again',
+        context: { problems, operation: 'webhook_subscription_save' },
+      }
+    );
+  }
+
+  /**
+   * Create error for an unknown staff member
+   */
+  static staffMemberNotFound(staffId: string): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.STAFF_MEMBER_NOT_FOUND,
+      `Staff member ${staffId} not found`,
+      'stop',
+      {
+        context: { staffId, operation: 'staff_lookup' },
+      }
+    );
+  }
+
+  /**
+   * Create error for staff details the directory cannot store
+   */
+  static staffMemberInvalid(problems: string[]): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.STAFF_MEMBER_INVALID,
+      `Staff member is invalid: ${problems.join('; ')}`,
+      'user-input',
+      {
+        actionRequired: 'Correct the staff details and submit again',
+        context: { problems, operation: 'staff_save' },
+      }
+    );
+  }
+
+  /**
+   * Create error for a progress note type the facility does not offer
+   */
+  static progressNoteTypeNotFound(
+    noteType: string,
+    facilityId: number
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.PROGRESS_NOTE_TYPE_NOT_FOUND,
+      `Progress note type "${noteType}" is not configured for facility ${facilityId} in PCC`,
+      'user-input',
+      {
+        actionRequired:
+          'Set PCC_PROGRESS_NOTE_TYPE to a type listed by PCC progress-note-types',
+        context: {
+          noteType,
+          facilityId,
+          operation: 'progress_note_type_lookup',
+        },
+      }
+    );
+  }
+
+  /**
+   * Create error for an unknown case document
+   */
+  static caseDocumentNotFound(documentId: string): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.CASE_DOCUMENT_NOT_FOUND,
+      `Case document ${documentId} not found`,
+      'stop',
+      {
+        context: { documentId, operation: 'case_document_lookup' },
+      }
+    );
+  }
+
+  /**
+   * Create error for confirming a document whose file never arrived
+   */
+  static caseDocumentNotUploaded(
+    documentId: string,
+    storageKey: string
+  ): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.CASE_DOCUMENT_NOT_UPLOADED,
+      `Nothing has been uploaded for case document ${documentId}`,
+      'user-input',
+      {
+        actionRequired:
+          'PUT the file to the presigned URL before confirming the upload',
+        context: {
+          documentId,
+          storageKey,
+          operation: 'case_document_attach',
+        },
+      }
+    );
+  }
+
+  /**
+   * Create error for attaching documents without a PCC document category
+   */
+  static documentCategoryNotConfigured(): OnboardingError {
+    return new OnboardingError(
+      NIV_ERRORS.DOCUMENT_CATEGORY_NOT_CONFIGURED,
+      'No PCC document category is configured for chart uploads',
+      'user-input',
+      {
+        actionRequired:
+          'Set PCC_DOCUMENT_CATEGORY_ID to the PCC document category to file uploads under',
+        context: { operation: 'case_document_attach' },
+      }
+    );
+  }
+
   /**
    * Check if this error represents a temporary/recoverable condition
    */
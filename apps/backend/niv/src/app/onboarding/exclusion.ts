@@ -0,0 +1,177 @@
+// apps/backend/niv/src/app/onboarding/exclusion.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * Exclusion and contraindication rules, evaluated alongside the inclusion
+ * categories. A patient who is already ventilator dependent, has a
+ * tracheostomy, or has an advance directive refusing ventilatory support
+ * should not be flagged for NIV however many inclusion codes they have.
+ * Diagnosis exclusions are data, carried by the rule set; advance
+ * directives are read from the EHR.
+ */
+
+import type { Diagnosis } from './diagnosis';
+import { OnboardingError } from './errors';
+import {
+  matchesIcd10Rule,
+  normalizeIcd10Code,
+  parseIcd10Rule,
+  type Icd10Rule,
+} from './icd10-code';
+
+export const EXCLUSION_REASONS = [
+  'VENT_DEPENDENT',
+  'TRACHEOSTOMY',
+  'ADVANCE_DIRECTIVE',
+] as const;
+
+export type ExclusionReason = (typeof EXCLUSION_REASONS)[number];
+
+// Diagnosis code (or family) that excludes a patient
+export type ExclusionRule = {
+  readonly code: string;
+  readonly name: string;
+  readonly reason: Exclude<ExclusionReason, 'ADVANCE_DIRECTIVE'>;
+};
+
+export type CompiledExclusionRule = ExclusionRule & {
+  readonly rule: Icd10Rule;
+};
+
+// Domain data structure - designed to map from PCC advance directive consents
+export type AdvanceDirective = {
+  readonly directiveId: number;
+  readonly status: 'active' | 'pending' | 'discontinued';
+  readonly description: string;
+  // Individual directives in the consent (Intubation, Life Support ...)
+  readonly directives: readonly string[];
+  readonly orderDate: Date | null;
+};
+
+export type Exclusion = {
+  readonly reason: ExclusionReason;
+  // Shown to staff, e.g. "Z99.11 Dependence on Ventilator"
+  readonly detail: string;
+  // Condition or advance directive that triggered the exclusion
+  readonly source: 'diagnosis' | 'advance-directive';
+  readonly sourceId: number;
+};
+
+export type ExclusionOutcome = {
+  readonly excluded: boolean;
+  readonly exclusions: readonly Exclusion[];
+  // First exclusion in plain words, null when not excluded
+  readonly reason: string | null;
+};
+
+const REASON_LABELS: Record<ExclusionReason, string> = {
+  VENT_DEPENDENT: 'Already ventilator dependent',
+  TRACHEOSTOMY: 'Has a tracheostomy',
+  ADVANCE_DIRECTIVE: 'Advance directive refuses ventilatory support',
+};
+
+// Wording of consents that refuse ventilation, intubation or life support
+const REFUSAL_PATTERNS: readonly RegExp[] = [
+  /\bDNI\b/i,
+  /\bdo not intubate\b/i,
+  /\bno (?:mechanical |non-?invasive )?ventilat/i,
+  /\bno (?:intubation|life support|bipap|cpap|niv)\b/i,
+  /\brefuses? (?:mechanical |non-?invasive )?(?:ventilat|intubation|life support|bipap|cpap|niv)/i,
+  /\bcomfort (?:care|measures) only\b/i,
+];
+
+/**
+ * Compile exclusion rules, failing with RULE_SETS_INVALID on bad codes
+ */
+export function compileExclusionRules(
+  source: string,
+  rules: readonly ExclusionRule[]
+): CompiledExclusionRule[] {
+  const problems: string[] = [];
+
+  const compiled = rules.flatMap((exclusion) => {
+    const rule = parseIcd10Rule(exclusion.code);
+    if (!rule) {
+      problems.push(`malformed exclusion code "${exclusion.code}"`);
+      return [];
+    }
+    if (
+      exclusion.reason !== 'VENT_DEPENDENT' &&
+      exclusion.reason !== 'TRACHEOSTOMY'
+    ) {
+      problems.push(
+        `exclusion ${exclusion.code} has unknown reason "${exclusion.reason}"`
+      );
+    }
+    return [{ ...exclusion, rule }];
+  });
+
+  if (problems.length > 0) {
+    throw OnboardingError.ruleSetsInvalid(source, problems);
+  }
+  return compiled;
+}
+
+/**
+ * True when an active advance directive refuses ventilatory support
+ */
+export function refusesVentilatorySupport(
+  directive: AdvanceDirective
+): boolean {
+  if (directive.status !== 'active') {
+    return false;
+  }
+  const text = [directive.description, ...directive.directives].join(' ');
+  return REFUSAL_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/**
+ * Evaluate exclusions from diagnoses and advance directives
+ *
+ * Business rules:
+ * - Only active conditions exclude (a closed tracheostomy does not)
+ * - Only active directives that refuse ventilatory support exclude
+ */
+export function evaluateExclusions(
+  diagnoses: readonly Diagnosis[],
+  directives: readonly AdvanceDirective[],
+  rules: readonly CompiledExclusionRule[]
+): ExclusionOutcome {
+  const byDiagnosis = diagnoses.flatMap((diagnosis): Exclusion[] => {
+    if (diagnosis.clinicalStatus !== 'ACTIVE') {
+      return [];
+    }
+    const code = normalizeIcd10Code(diagnosis.icd10Code);
+    const match =
+      code && rules.find(({ rule }) => matchesIcd10Rule(code, rule));
+    return match
+      ? [
+          {
+            reason: match.reason,
+            detail: `${diagnosis.icd10Code} ${diagnosis.description || match.name}`,
+            source: 'diagnosis',
+            sourceId: diagnosis.conditionId,
+          },
+        ]
+      : [];
+  });
+
+  const byDirective = directives.filter(refusesVentilatorySupport).map(
+    (directive): Exclusion => ({
+      reason: 'ADVANCE_DIRECTIVE',
+      detail: directive.description || directive.directives.join(', '),
+      source: 'advance-directive',
+      sourceId: directive.directiveId,
+    })
+  );
+
+  const exclusions = [...byDiagnosis, ...byDirective];
+  const first = exclusions[0];
+
+  return {
+    excluded: exclusions.length > 0,
+    exclusions,
+    reason: first ? `${REASON_LABELS[first.reason]}: ${first.detail}` : null,
+  };
+}
@@ -0,0 +1,205 @@
+// apps/backend/niv/src/app/onboarding/facility-directory.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Keeps the local facility directory in step with PCC: lists an
+ * organization's facilities, reads each one's address, time zone and bed
+ * count, and stores them so patients, cases and screening results can be
+ * labelled without a PCC call.
+ */
+
+import type { GetFacilities, GetFacility } from './ehr-operations';
+import type { Facility, FacilityProfile } from './facility';
+import type {
+  FacilityFilter,
+  FindFacilities,
+  FindFacility,
+  FindFacilityOrgs,
+  SaveFacilities,
+} from './facility-operations';
+
+/**
+ * Outcome of syncing an organization's facilities
+ */
+export type FacilitySyncReport = {
+  readonly orgUuid: string;
+  readonly synced: number;
+  // Stored facilities PCC no longer lists
+  readonly deactivated: number;
+  // Facilities whose details could not be read; stored from the list
+  readonly failed: Array<{ facilityId: number; error: string }>;
+};
+
+/**
+ * Outcome of refreshing every organization
+ */
+export type FacilitySyncSweep = {
+  readonly reports: FacilitySyncReport[];
+  readonly failed: Array<{ orgUuid: string; error: string }>;
+};
+
+/**
+ * Dependencies that the facility directory needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type FacilityDirectoryDependencies = {
+  getFacilities: GetFacilities;
+  getFacility: GetFacility;
+  saveFacilities: SaveFacilities;
+  findFacilities: FindFacilities;
+  findFacility: FindFacility;
+  findFacilityOrgs: FindFacilityOrgs;
+};
+
+/**
+ * Facility directory domain service interface
+ */
+export interface FacilityDirectory {
+  /**
+   * List stored facilities by name
+   *
+   * Business rules:
+   * - An organization not yet in the directory is synced from PCC first
+   * - With an RT, only the facilities that RT covers are listed
+   */
+  listFacilities(filter: FacilityFilter): Promise<Facility[]>;
+
+  /**
+   * Get one facility; one the directory does not hold yet is read from PCC
+   *
+   * Fails with FACILITY_NOT_FOUND when PCC does not know it either
+   */
+  getFacility(orgUuid: string, facilityId: number): Promise<Facility>;
+
+  /**
+   * Refresh an organization's facilities from PCC
+   *
+   * Business rule: a stored facility is deactivated only when a complete
+   * listing leaves it out; a listing that fails part-way ends the sync
+   * with nothing changed
+   */
+  syncFacilities(orgUuid: string, now?: Date): Promise<FacilitySyncReport>;
+
+  /**
+   * Refresh every organization the directory holds; an organization PCC
+   * cannot list is reported and the rest carry on
+   */
+  syncAllFacilities(now?: Date): Promise<FacilitySyncSweep>;
+}
+
+/**
+ * Factory function to create facility directory domain service
+ */
+export function createFacilityDirectory(
+  deps: FacilityDirectoryDependencies
+): FacilityDirectory {
+  const syncFacilities = async (
+    orgUuid: string,
+    now: Date = new Date()
+  ): Promise<FacilitySyncReport> => {
+    const listed = await deps.getFacilities(orgUuid);
+
+    // One facility at a time; an organization has tens, not thousands
+    const profiles: FacilityProfile[] = [];
+    const failed: Array<{ facilityId: number; error: string }> = [];
+    for (const facility of listed) {
+      try {
+        profiles.push(await deps.getFacility(orgUuid, facility.facilityId));
+      } catch (error) {
+        profiles.push(facility);
+        failed.push({
+          facilityId: facility.facilityId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const listedIds = new Set(listed.map((facility) => facility.facilityId));
+    const dropped = (
+      await deps.findFacilities({ orgUuid, includeInactive: true })
+    ).filter(
+      (facility) => facility.active && !listedIds.has(facility.facilityId)
+    );
+
+    await deps.saveFacilities([
+      ...profiles.map((profile) => ({ ...profile, syncedAt: now })),
+      ...dropped.map((facility) => ({
+        ...facility,
+        active: false,
+        syncedAt: now,
+      })),
+    ]);
+
+    return {
+      orgUuid,
+      synced: profiles.length,
+      deactivated: dropped.length,
+      failed,
+    };
+  };
+
+  const listFacilities = async (
+    filter: FacilityFilter
+  ): Promise<Facility[]> => {
+    const facilities = await deps.findFacilities(filter);
+    if (facilities.length > 0 || !filter.orgUuid) {
+      return facilities;
+    }
+
+    const known = await deps.findFacilities({
+      orgUuid: filter.orgUuid,
+      includeInactive: true,
+    });
+    if (known.length > 0) {
+      return facilities;
+    }
+
+    await syncFacilities(filter.orgUuid);
+    return await deps.findFacilities(filter);
+  };
+
+  const getFacility = async (
+    orgUuid: string,
+    facilityId: number
+  ): Promise<Facility> => {
+    const stored = await deps.findFacility(orgUuid, facilityId);
+    if (stored) {
+      return stored;
+    }
+
+    // Opened since the last sync
+    const synced = {
+      ...(await deps.getFacility(orgUuid, facilityId)),
+      syncedAt: new Date(),
+    };
+    await deps.saveFacilities([synced]);
+    return synced;
+  };
+
+  const syncAllFacilities = async (
+    now: Date = new Date()
+  ): Promise<FacilitySyncSweep> => {
+    const reports: FacilitySyncReport[] = [];
+    const failed: Array<{ orgUuid: string; error: string }> = [];
+    for (const orgUuid of await deps.findFacilityOrgs()) {
+      try {
+        reports.push(await syncFacilities(orgUuid, now));
+      } catch (error) {
+        failed.push({
+          orgUuid,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return { reports, failed };
+  };
+
+  return {
+    listFacilities,
+    getFacility,
+    syncFacilities,
+    syncAllFacilities,
+  };
+}
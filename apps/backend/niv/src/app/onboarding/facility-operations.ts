@@ -0,0 +1,49 @@
+// apps/backend/niv/src/app/onboarding/facility-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for the local facility directory. Implemented by
+ * facility-repository.ts.
+ */
+
+import type { Facility } from './facility';
+
+/**
+ * Filters for listing facilities
+ */
+export type FacilityFilter = {
+  orgUuid?: string;
+  // Only facilities this RT covers
+  rtId?: string;
+  includeInactive?: boolean;
+};
+
+/**
+ * Contract for storing facilities read from the EHR, replacing what was
+ * stored for them
+ */
+export type SaveFacilities = (facilities: readonly Facility[]) => Promise<void>;
+
+/**
+ * Contract for listing stored facilities by name
+ *
+ * Business operation: "Which facilities can this person see?"
+ */
+export type FindFacilities = (filter: FacilityFilter) => Promise<Facility[]>;
+
+/**
+ * Contract for finding one stored facility
+ */
+export type FindFacility = (
+  orgUuid: string,
+  facilityId: number
+) => Promise<Facility | null>;
+
+/**
+ * Contract for listing the organizations the directory holds
+ *
+ * Business operation: "Whose facilities do we refresh from PCC?"
+ */
+export type FindFacilityOrgs = () => Promise<string[]>;
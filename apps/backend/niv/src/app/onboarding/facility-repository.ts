@@ -0,0 +1,184 @@
+// apps/backend/niv/src/app/onboarding/facility-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements the facility directory using Postgres (facilities table,
+ * with staff_facilities for an RT's facilities).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+import type { Facility } from './facility';
+import type {
+  FindFacilities,
+  FindFacility,
+  FindFacilityOrgs,
+  SaveFacilities,
+} from './facility-operations';
+
+/**
+ * Row shape of the facilities table
+ */
+type FacilityRow = {
+  org_uuid: string;
+  facility_id: number;
+  name: string;
+  facility_code: string | null;
+  health_type: string | null;
+  address_line1: string | null;
+  address_line2: string | null;
+  city: string | null;
+  region: string | null;
+  postal_code: string | null;
+  country: string | null;
+  time_zone: string | null;
+  bed_count: number | null;
+  active: boolean;
+  synced_at: Date;
+};
+
+function rowToFacility(row: FacilityRow): Facility {
+  return {
+    orgUuid: row.org_uuid,
+    facilityId: row.facility_id,
+    name: row.name,
+    facilityCode: row.facility_code,
+    healthType: row.health_type,
+    address: {
+      line1: row.address_line1,
+      line2: row.address_line2,
+      city: row.city,
+      region: row.region,
+      postalCode: row.postal_code,
+      country: row.country,
+    },
+    timeZone: row.time_zone,
+    bedCount: row.bed_count,
+    active: row.active,
+    syncedAt: row.synced_at,
+  };
+}
+
+/**
+ * Create facility repository using Postgres as the implementation
+ */
+export function createPostgresFacilityRepository(client: PostgresClient) {
+  const saveFacilities: SaveFacilities = async (facilities) => {
+    try {
+      await client.transaction(async (tx) => {
+        for (const facility of facilities) {
+          await tx(
+            `INSERT INTO facilities (
+               org_uuid, facility_id, name, facility_code, health_type,
+               address_line1, address_line2, city, region, postal_code,
+               country, time_zone, bed_count, active, synced_at
+             )
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+             ON CONFLICT (org_uuid, facility_id) DO UPDATE SET
+               name = EXCLUDED.name,
+               facility_code = EXCLUDED.facility_code,
+               health_type = EXCLUDED.health_type,
+               address_line1 = EXCLUDED.address_line1,
+               address_line2 = EXCLUDED.address_line2,
+               city = EXCLUDED.city,
+               region = EXCLUDED.region,
+               postal_code = EXCLUDED.postal_code,
+               country = EXCLUDED.country,
+               time_zone = EXCLUDED.time_zone,
+               bed_count = EXCLUDED.bed_count,
+               active = EXCLUDED.active,
+               synced_at = EXCLUDED.synced_at`,
+            [
+              facility.orgUuid,
+              facility.facilityId,
+              facility.name,
+              facility.facilityCode,
+              facility.healthType,
+              facility.address.line1,
+              facility.address.line2,
+              facility.address.city,
+              facility.address.region,
+              facility.address.postalCode,
+              facility.address.country,
+              facility.timeZone,
+              facility.bedCount,
+              facility.active,
+              facility.syncedAt,
+            ]
+          );
+        }
+      });
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'facility_save');
+    }
+  };
+
+  const findFacilities: FindFacilities = async (filter) => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.orgUuid) {
+      params.push(filter.orgUuid);
+      conditions.push(`f.org_uuid = $${params.length}`);
+    }
+    if (filter.rtId) {
+      params.push(filter.rtId);
+      conditions.push(
+        `EXISTS (SELECT 1 FROM staff_facilities sf
+                 WHERE sf.org_uuid = f.org_uuid
+                   AND sf.facility_id = f.facility_id
+                   AND sf.staff_id = $${params.length})`
+      );
+    }
+    if (!filter.includeInactive) {
+      conditions.push('f.active');
+    }
+
+    try {
+      const rows = await client.query<FacilityRow>(
+        `SELECT f.* FROM facilities f
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY f.name, f.org_uuid, f.facility_id`,
+        params
+      );
+
+      return rows.map(rowToFacility);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'facility_list');
+    }
+  };
+
+  const findFacility: FindFacility = async (orgUuid, facilityId) => {
+    try {
+      const rows = await client.query<FacilityRow>(
+        `SELECT * FROM facilities WHERE org_uuid = $1 AND facility_id = $2`,
+        [orgUuid, facilityId]
+      );
+
+      return rows.length > 0 ? rowToFacility(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'facility_lookup');
+    }
+  };
+
+  const findFacilityOrgs: FindFacilityOrgs = async () => {
+    try {
+      const rows = await client.query<{ org_uuid: string }>(
+        `SELECT DISTINCT org_uuid FROM facilities ORDER BY org_uuid`
+      );
+
+      return rows.map((row) => row.org_uuid);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'facility_org_list');
+    }
+  };
+
+  return {
+    saveFacilities,
+    findFacilities,
+    findFacility,
+    findFacilityOrgs,
+  };
+}
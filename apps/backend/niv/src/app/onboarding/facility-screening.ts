@@ -0,0 +1,405 @@
+// apps/backend/niv/src/app/onboarding/facility-screening.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Facility-wide eligibility screening. Starting a screening records a
+ * RUNNING job and returns it straight away; the job then pages through
+ * the EHR patient list (facility by facility for an organization-wide
+ * job), assesses a bounded number of patients at a time and saves each
+ * result, reporting progress after every page. A patient that cannot be
+ * assessed is recorded as FAILED and the job carries on; only losing the
+ * patient list itself fails the job.
+ */
+
+import { randomUUID } from 'crypto';
+import type { FindOnboardingCaseByPatient } from './case-operations';
+import type { GetPatients } from './ehr-operations';
+import { OnboardingError } from './errors';
+import { groupByFacility, type FacilityGroup } from './facility';
+import type { FacilityDirectory } from './facility-directory';
+import type { FindFacilities } from './facility-operations';
+import type { Patient } from './patient';
+import type { AssessmentResult } from './qualifications';
+import {
+  addScreeningResults,
+  EMPTY_SCREENING_PROGRESS,
+  type ScreeningJob,
+  type ScreeningResult,
+  type ScreeningResultOutcome,
+} from './screening-job';
+import type {
+  FindScreeningJob,
+  FindScreeningJobs,
+  FindScreeningResults,
+  SaveScreeningJob,
+  SaveScreeningResult,
+  ScreeningJobFilter,
+} from './screening-operations';
+
+// Largest page the PCC patient list returns
+const SCREENING_PAGE_SIZE = 200;
+// A RUNNING job without progress for this long died with its process
+const STALLED_AFTER_MS = 15 * 60_000;
+
+/**
+ * Dependencies that facility screening needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type ScreeningDependencies = {
+  assessQualification: (
+    orgUuid: string,
+    patientId: number
+  ) => Promise<AssessmentResult>;
+  getPatients: GetPatients;
+  findCaseByPatient: FindOnboardingCaseByPatient;
+  saveJob: SaveScreeningJob;
+  findJob: FindScreeningJob;
+  findJobs: FindScreeningJobs;
+  saveResult: SaveScreeningResult;
+  findResults: FindScreeningResults;
+  findFacilities: FindFacilities;
+  // Facilities an organization-wide job screens; syncs an unknown org first
+  listFacilities: FacilityDirectory['listFacilities'];
+  // Patients assessed at the same time (SCREENING_CONCURRENCY)
+  concurrency: number;
+  // Called when a job stops on an unexpected error
+  onJobFailure: (jobId: string, error: unknown) => void;
+};
+
+/**
+ * Facility screening domain service interface
+ */
+export interface FacilityScreening {
+  /**
+   * Start screening every patient in a facility, or the organization
+   *
+   * Business rules:
+   * - One RUNNING job per organization and facility; a job that stopped
+   *   reporting progress is marked FAILED and no longer blocks a new one
+   * - Resolves once the job is recorded; screening continues in the
+   *   background and is followed through getJob
+   */
+  startScreening(
+    orgUuid: string,
+    facilityId: number | null,
+    requestedBy: string,
+    now?: Date
+  ): Promise<ScreeningJob>;
+
+  /**
+   * Get a screening job and its progress
+   *
+   * Fails with SCREENING_JOB_NOT_FOUND for an unknown job
+   */
+  getJob(jobId: string): Promise<ScreeningJob>;
+
+  /**
+   * Screening jobs matching the filter, newest first
+   */
+  listJobs(filter: ScreeningJobFilter): Promise<ScreeningJob[]>;
+
+  /**
+   * A job's per-patient results, optionally only one outcome
+   *
+   * Fails with SCREENING_JOB_NOT_FOUND for an unknown job
+   */
+  listResults(
+    jobId: string,
+    outcome?: ScreeningResultOutcome
+  ): Promise<ScreeningResult[]>;
+
+  /**
+   * A job's per-patient results grouped by facility, facilities by name
+   *
+   * Fails with SCREENING_JOB_NOT_FOUND for an unknown job
+   */
+  listResultsByFacility(
+    jobId: string,
+    outcome?: ScreeningResultOutcome
+  ): Promise<FacilityGroup<ScreeningResult>[]>;
+}
+
+/**
+ * Run fn over items with at most limit calls in flight
+ */
+export async function forEachWithLimit<T>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+}
+
+/**
+ * Factory function to create facility screening domain service
+ */
+export function createFacilityScreening(
+  deps: ScreeningDependencies
+): FacilityScreening {
+  const concurrency = Math.max(1, deps.concurrency);
+
+  const screenPatient = async (
+    job: ScreeningJob,
+    patient: Patient
+  ): Promise<ScreeningResult> => {
+    const base = {
+      jobId: job.jobId,
+      patientId: patient.patientId,
+      facilityId: patient.facilityId,
+      firstName: patient.firstName,
+      lastName: patient.lastName,
+    };
+
+    try {
+      const [assessment, existingCase] = await Promise.all([
+        deps.assessQualification(job.orgUuid, patient.patientId),
+        deps.findCaseByPatient(job.orgUuid, patient.patientId),
+      ]);
+      if (!assessment.success || !assessment.data) {
+        throw new Error(assessment.error ?? 'Assessment returned no data');
+      }
+
+      return await deps.saveResult({
+        ...base,
+        outcome: assessment.data.outcome,
+        clinicalQualifications: assessment.data.clinicalQualifications,
+        qualifyingCodes: [
+          ...new Set(
+            Object.values(assessment.data.evidence.categories).flatMap(
+              ({ diagnoses }) => diagnoses.map(({ code }) => code)
+            )
+          ),
+        ],
+        exclusionReason: assessment.data.exclusion.reason,
+        labsRequired: assessment.data.labsRequired.required,
+        ruleSetVersion: assessment.data.ruleSet.version,
+        caseId: existingCase?.caseId ?? null,
+        error: null,
+        screenedAt: new Date(),
+      });
+    } catch (error) {
+      // Business rule: one patient's failure never stops the screening
+      const failed: ScreeningResult = {
+        ...base,
+        outcome: 'FAILED',
+        clinicalQualifications: null,
+        qualifyingCodes: [],
+        exclusionReason: null,
+        labsRequired: false,
+        ruleSetVersion: null,
+        caseId: null,
+        error: error instanceof Error ? error.message : String(error),
+        screenedAt: new Date(),
+      };
+      try {
+        return await deps.saveResult(failed);
+      } catch {
+        // Still counted in the job's progress even if it cannot be stored
+        return failed;
+      }
+    }
+  };
+
+  const failJob = async (
+    job: ScreeningJob,
+    error: string
+  ): Promise<ScreeningJob> => {
+    const now = new Date();
+    return await deps.saveJob({
+      ...job,
+      status: 'FAILED',
+      error,
+      updatedAt: now,
+      finishedAt: now,
+    });
+  };
+
+  const runJob = async (started: ScreeningJob): Promise<ScreeningJob> => {
+    let job = started;
+
+    // PCC lists patients one facility at a time, so an organization-wide
+    // job walks the organization's active facilities in the directory
+    let facilityIds: number[];
+    if (job.facilityId !== null) {
+      facilityIds = [job.facilityId];
+    } else {
+      try {
+        facilityIds = (await deps.listFacilities({ orgUuid: job.orgUuid })).map(
+          (facility) => facility.facilityId
+        );
+      } catch (error) {
+        return await failJob(
+          job,
+          `Facility directory could not be read: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      if (facilityIds.length === 0) {
+        return await failJob(
+          job,
+          'No active facilities in the directory for this organization'
+        );
+      }
+    }
+
+    for (const [index, facilityId] of facilityIds.entries()) {
+      const lastFacility = index === facilityIds.length - 1;
+
+      for (let page = 1; ; page++) {
+        let patients: Patient[];
+        try {
+          patients = await deps.getPatients(
+            job.orgUuid,
+            facilityId,
+            page,
+            SCREENING_PAGE_SIZE
+          );
+        } catch (error) {
+          return await failJob(
+            job,
+            `Patient list page ${page} of facility ${facilityId} could not be read: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+
+        const results: ScreeningResult[] = [];
+        await forEachWithLimit(patients, concurrency, async (patient) => {
+          results.push(await screenPatient(job, patient));
+        });
+
+        const facilityComplete = patients.length < SCREENING_PAGE_SIZE;
+        const listingComplete = facilityComplete && lastFacility;
+        const progress = {
+          ...addScreeningResults(job.progress, results),
+          pagesRead: job.progress.pagesRead + 1,
+          patientsFound: job.progress.patientsFound + patients.length,
+          listingComplete,
+        };
+        const now = new Date();
+
+        job = await deps.saveJob({
+          ...job,
+          progress,
+          status: listingComplete
+            ? progress.failed > 0
+              ? 'COMPLETED_WITH_ERRORS'
+              : 'COMPLETED'
+            : 'RUNNING',
+          updatedAt: now,
+          finishedAt: listingComplete ? now : null,
+        });
+
+        if (facilityComplete) {
+          break;
+        }
+      }
+    }
+
+    return job;
+  };
+
+  const startScreening = async (
+    orgUuid: string,
+    facilityId: number | null,
+    requestedBy: string,
+    now: Date = new Date()
+  ): Promise<ScreeningJob> => {
+    const running = (
+      await deps.findJobs({
+        orgUuid,
+        facilityId: facilityId ?? undefined,
+        status: 'RUNNING',
+      })
+    ).filter((job) => job.facilityId === facilityId);
+
+    for (const job of running) {
+      if (now.getTime() - job.updatedAt.getTime() < STALLED_AFTER_MS) {
+        throw OnboardingError.screeningAlreadyRunning(
+          orgUuid,
+          facilityId,
+          job.jobId
+        );
+      }
+      await deps.saveJob({
+        ...job,
+        status: 'FAILED',
+        error: 'Stopped reporting progress before finishing',
+        updatedAt: now,
+        finishedAt: now,
+      });
+    }
+
+    const job = await deps.saveJob({
+      jobId: randomUUID(),
+      orgUuid,
+      facilityId,
+      status: 'RUNNING',
+      requestedBy,
+      concurrency,
+      progress: EMPTY_SCREENING_PROGRESS,
+      error: null,
+      startedAt: now,
+      updatedAt: now,
+      finishedAt: null,
+    });
+
+    // Runs after the caller has its job id; progress is read from the store
+    void runJob(job).catch((error) => deps.onJobFailure(job.jobId, error));
+
+    return job;
+  };
+
+  const getJob = async (jobId: string): Promise<ScreeningJob> => {
+    const job = await deps.findJob(jobId);
+    if (!job) {
+      throw OnboardingError.screeningJobNotFound(jobId);
+    }
+    return job;
+  };
+
+  const listJobs = async (
+    filter: ScreeningJobFilter
+  ): Promise<ScreeningJob[]> => {
+    return await deps.findJobs(filter);
+  };
+
+  const listResults = async (
+    jobId: string,
+    outcome?: ScreeningResultOutcome
+  ): Promise<ScreeningResult[]> => {
+    await getJob(jobId);
+    return await deps.findResults(jobId, outcome);
+  };
+
+  const listResultsByFacility = async (
+    jobId: string,
+    outcome?: ScreeningResultOutcome
+  ): Promise<FacilityGroup<ScreeningResult>[]> => {
+    const job = await getJob(jobId);
+    const [results, facilities] = await Promise.all([
+      deps.findResults(jobId, outcome),
+      deps.findFacilities({ orgUuid: job.orgUuid, includeInactive: true }),
+    ]);
+    return groupByFacility(results, facilities);
+  };
+
+  return {
+    startScreening,
+    getJob,
+    listJobs,
+    listResults,
+    listResultsByFacility,
+  };
+}
@@ -0,0 +1,112 @@
+// apps/backend/niv/src/app/onboarding/facility.ts
+
+/**
+ * Entity + Domain Logic (DDD)
+ *
+ * A facility of an organization, as PCC describes it. Patients, cases,
+ * screening results and RT coverage name a facility by its PCC facility ID;
+ * the directory kept from PCC supplies the name, address, time zone and
+ * bed count shown alongside. A facility PCC no longer lists is kept as
+ * inactive so older cases still have a name.
+ */
+
+export type FacilityAddress = {
+  readonly line1: string | null;
+  readonly line2: string | null;
+  readonly city: string | null;
+  // State, or province for Canadian facilities
+  readonly region: string | null;
+  readonly postalCode: string | null;
+  readonly country: string | null;
+};
+
+/**
+ * A facility as read from the EHR
+ */
+export type FacilityProfile = {
+  readonly orgUuid: string;
+  readonly facilityId: number;
+  readonly name: string;
+  readonly facilityCode: string | null;
+  readonly healthType: string | null;
+  readonly address: FacilityAddress;
+  // IANA time zone, e.g. "America/New_York"
+  readonly timeZone: string | null;
+  readonly bedCount: number | null;
+  readonly active: boolean;
+};
+
+export type Facility = FacilityProfile & {
+  readonly syncedAt: Date;
+};
+
+export type FacilityGroup<T> = {
+  readonly facilityId: number;
+  readonly facilityName: string;
+  readonly items: T[];
+};
+
+export const EMPTY_FACILITY_ADDRESS: FacilityAddress = {
+  line1: null,
+  line2: null,
+  city: null,
+  region: null,
+  postalCode: null,
+  country: null,
+};
+
+/**
+ * Name to show for a facility, falling back to its ID when the directory
+ * does not know it
+ */
+export function facilityLabel(
+  facilityId: number,
+  facility?: Pick<Facility, 'name'> | null
+): string {
+  return facility?.name || `Facility ${facilityId}`;
+}
+
+/**
+ * Single-line address, e.g. "12 Main St, Springfield, IL 62701"; null when
+ * PCC gave none
+ */
+export function formatFacilityAddress(address: FacilityAddress): string | null {
+  const locality = [
+    address.city,
+    [address.region, address.postalCode].filter(Boolean).join(' '),
+  ].filter(Boolean);
+  const parts = [address.line1, address.line2, ...locality].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Group items by facility, ordered by facility name
+ */
+export function groupByFacility<T extends { readonly facilityId: number }>(
+  items: readonly T[],
+  facilities: readonly Facility[]
+): FacilityGroup<T>[] {
+  const byId = new Map(
+    facilities.map((facility) => [facility.facilityId, facility])
+  );
+  const groups = new Map<number, FacilityGroup<T>>();
+
+  for (const item of items) {
+    let group = groups.get(item.facilityId);
+    if (!group) {
+      group = {
+        facilityId: item.facilityId,
+        facilityName: facilityLabel(item.facilityId, byId.get(item.facilityId)),
+        items: [],
+      };
+      groups.set(item.facilityId, group);
+    }
+    group.items.push(item);
+  }
+
+  return [...groups.values()].sort(
+    (a, b) =>
+      a.facilityName.localeCompare(b.facilityName) ||
+      a.facilityId - b.facilityId
+  );
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  matchesIcd10Rule,
+  normalizeIcd10Code,
+  parseIcd10Rule,
+  type Icd10Code,
+} from './icd10-code';
+
+describe('normalizeIcd10Code', () => {
+  it.each([
+    ['J44.1', 'J44.1'],
+    ['j44.1 ', 'J44.1'],
+    ['J441', 'J44.1'],
+    [' j 96. 11', 'J96.11'],
+    ['R09', 'R09'],
+    ['s069x9a', 'S06.9X9A'],
+  ])('normalizes "%s" to %s', (raw, expected) => {
+    expect(normalizeIcd10Code(raw)).toBe(expected);
+  });
+
+  it.each(['', '44.1', 'JJ4.1', 'J4', 'J44.12345', 'J44-1'])(
+    'rejects "%s"',
+    (raw) => {
+      expect(normalizeIcd10Code(raw)).toBeNull();
+    }
+  );
+});
+
+describe('parseIcd10Rule', () => {
+  it('parses exact codes in canonical form', () => {
+    expect(parseIcd10Rule(' j961 ')).toEqual({
+      pattern: 'j961',
+      kind: 'exact',
+      key: 'J96.1',
+    });
+  });
+
+  it('reads a trailing lower-case x or * as a family', () => {
+    expect(parseIcd10Rule('J96.1x')).toEqual({
+      pattern: 'J96.1x',
+      kind: 'prefix',
+      key: 'J961',
+    });
+    expect(parseIcd10Rule('G12*')?.key).toBe('G12');
+  });
+
+  it('keeps an upper-case X as the ICD-10 placeholder', () => {
+    expect(parseIcd10Rule('T17.9X')).toEqual({
+      pattern: 'T17.9X',
+      kind: 'exact',
+      key: 'T17.9X',
+    });
+  });
+
+  it('rejects malformed patterns', () => {
+    expect(parseIcd10Rule('x')).toBeNull();
+    expect(parseIcd10Rule('J9x')).toBeNull();
+    expect(parseIcd10Rule('J96.12345x')).toBeNull();
+    expect(parseIcd10Rule('not a code')).toBeNull();
+  });
+});
+
+describe('matchesIcd10Rule', () => {
+  const code = (raw: string) => normalizeIcd10Code(raw) as Icd10Code;
+
+  it('matches exact rules only on the same code', () => {
+    const rule = parseIcd10Rule('J96.12')!;
+
+    expect(matchesIcd10Rule(code('j9612'), rule)).toBe(true);
+    expect(matchesIcd10Rule(code('J96.1'), rule)).toBe(false);
+    expect(matchesIcd10Rule(code('J96.121'), rule)).toBe(false);
+  });
+
+  it('matches every code under a family stem', () => {
+    const rule = parseIcd10Rule('J96.1x')!;
+
+    expect(matchesIcd10Rule(code('J96.1'), rule)).toBe(true);
+    expect(matchesIcd10Rule(code('J96.10'), rule)).toBe(true);
+    expect(matchesIcd10Rule(code('J96.12'), rule)).toBe(true);
+    expect(matchesIcd10Rule(code('J96.2'), rule)).toBe(false);
+    expect(matchesIcd10Rule(code('J96'), rule)).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+// apps/backend/niv/src/app/onboarding/icd10-code.ts
+
+/**
+ * Value Object (DDD)
+ *
+ * ICD-10-CM codes as they arrive from EHRs and spreadsheets vary in case,
+ * whitespace and whether the dot is present ("J441", "j44.1 "). Codes are
+ * normalized to the canonical dotted upper-case form before any matching.
+ */
+
+// Canonical ICD-10 code, e.g. "J44.1" or "S06.9X9A"
+export type Icd10Code = string & { readonly __brand: 'Icd10Code' };
+
+// Category (three characters) plus up to four characters of detail
+const DOTLESS_PATTERN = /^[A-Z][0-9][0-9A-Z][0-9A-Z]{0,4}$/;
+
+/**
+ * Normalize a raw code, or null when it cannot be an ICD-10 code
+ */
+export function normalizeIcd10Code(raw: string): Icd10Code | null {
+  const dotless = raw.toUpperCase().replace(/[\s.]/g, '');
+  if (!DOTLESS_PATTERN.test(dotless)) {
+    return null;
+  }
+
+  return (
+    dotless.length > 3 ? `${dotless.slice(0, 3)}.${dotless.slice(3)}` : dotless
+  ) as Icd10Code;
+}
+
+/**
+ * A catalog rule: an exact code, or a family written with a trailing
+ * lower-case "x" or "*" ("J96.1x" covers J96.10, J96.11, J96.12 ...).
+ * Upper-case X stays literal - it is the ICD-10 placeholder character.
+ */
+export type Icd10Rule = {
+  readonly pattern: string;
+  readonly kind: 'exact' | 'prefix';
+  // Normalized code for exact rules, dotless stem for prefix rules
+  readonly key: string;
+};
+
+/**
+ * Parse a catalog pattern into a rule, or null when malformed
+ */
+export function parseIcd10Rule(pattern: string): Icd10Rule | null {
+  const trimmed = pattern.trim();
+  const family = /^(.+?)(x|\*)$/.exec(trimmed);
+
+  if (family) {
+    const stem = family[1].toUpperCase().replace(/[\s.]/g, '');
+    return /^[A-Z][0-9][0-9A-Z][0-9A-Z]{0,3}$/.test(stem)
+      ? { pattern: trimmed, kind: 'prefix', key: stem }
+      : null;
+  }
+
+  const code = normalizeIcd10Code(trimmed);
+  return code ? { pattern: trimmed, kind: 'exact', key: code } : null;
+}
+
+/**
+ * Whether a normalized code is covered by the rule
+ */
+export function matchesIcd10Rule(code: Icd10Code, rule: Icd10Rule): boolean {
+  return rule.kind === 'exact'
+    ? code === rule.key
+    : code.replace('.', '').startsWith(rule.key);
+}
@@ -0,0 +1,38 @@
+// apps/backend/niv/src/app/onboarding/lab-order-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for the lab-order worklist.
+ * Implemented by lab-order-repository.ts.
+ */
+
+import type { LabOrder, LabOrderStatus } from './lab-order';
+
+/**
+ * Filter for the lab-order worklist
+ */
+export type LabOrderFilter = {
+  readonly orgUuid?: string;
+  readonly facilityId?: number;
+  readonly caseId?: string;
+  readonly status?: LabOrderStatus;
+};
+
+/**
+ * Contract for storing a lab order (insert or update by orderId)
+ */
+export type SaveLabOrder = (order: LabOrder) => Promise<LabOrder>;
+
+/**
+ * Contract for finding the case's OPEN lab order, if any
+ */
+export type FindOpenLabOrder = (caseId: string) => Promise<LabOrder | null>;
+
+/**
+ * Contract for listing lab orders, oldest first
+ *
+ * Business operation: "Which labs still need to be drawn?"
+ */
+export type FindLabOrders = (filter: LabOrderFilter) => Promise<LabOrder[]>;
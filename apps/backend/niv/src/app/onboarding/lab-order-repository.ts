@@ -0,0 +1,149 @@
+// apps/backend/niv/src/app/onboarding/lab-order-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements the lab-order worklist using Postgres (lab_orders table).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+import type { LabOrder, LabOrderStatus } from './lab-order';
+import type {
+  FindLabOrders,
+  FindOpenLabOrder,
+  SaveLabOrder,
+} from './lab-order-operations';
+import type { Observation } from './observation';
+import type { RequiredLabTest } from './physiologic-criteria';
+
+/**
+ * Row shape of the lab_orders table
+ */
+type LabOrderRow = {
+  order_id: string;
+  case_id: string;
+  org_uuid: string;
+  patient_id: number;
+  facility_id: number;
+  tests: RequiredLabTest[];
+  status: LabOrderStatus;
+  ordered_by: string;
+  ordered_at: Date;
+  resulted_at: Date | null;
+  results: Array<Omit<Observation, 'recordedAt'> & { recordedAt: string }>;
+};
+
+function rowToLabOrder(row: LabOrderRow): LabOrder {
+  return {
+    orderId: row.order_id,
+    caseId: row.case_id,
+    orgUuid: row.org_uuid,
+    patientId: row.patient_id,
+    facilityId: row.facility_id,
+    tests: row.tests,
+    status: row.status,
+    orderedBy: row.ordered_by,
+    orderedAt: row.ordered_at,
+    resultedAt: row.resulted_at,
+    results: row.results.map((result) => ({
+      ...result,
+      recordedAt: new Date(result.recordedAt),
+    })),
+  };
+}
+
+/**
+ * Create lab-order repository using Postgres as the implementation
+ */
+export function createPostgresLabOrderRepository(client: PostgresClient) {
+  const saveOrder: SaveLabOrder = async (order) => {
+    try {
+      const rows = await client.query<LabOrderRow>(
+        `INSERT INTO lab_orders (
+           order_id, case_id, org_uuid, patient_id, facility_id, tests,
+           status, ordered_by, ordered_at, resulted_at, results
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (order_id) DO UPDATE SET
+           tests = EXCLUDED.tests,
+           status = EXCLUDED.status,
+           resulted_at = EXCLUDED.resulted_at,
+           results = EXCLUDED.results
+         RETURNING *`,
+        [
+          order.orderId,
+          order.caseId,
+          order.orgUuid,
+          order.patientId,
+          order.facilityId,
+          JSON.stringify(order.tests),
+          order.status,
+          order.orderedBy,
+          order.orderedAt,
+          order.resultedAt,
+          JSON.stringify(order.results),
+        ]
+      );
+
+      return rowToLabOrder(rows[0]);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'lab_order_save');
+    }
+  };
+
+  const findOpenOrder: FindOpenLabOrder = async (caseId) => {
+    try {
+      const rows = await client.query<LabOrderRow>(
+        `SELECT * FROM lab_orders WHERE case_id = $1 AND status = 'OPEN'`,
+        [caseId]
+      );
+
+      return rows.length > 0 ? rowToLabOrder(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'lab_order_lookup');
+    }
+  };
+
+  const findOrders: FindLabOrders = async (filter) => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.orgUuid) {
+      params.push(filter.orgUuid);
+      conditions.push(`org_uuid = $${params.length}`);
+    }
+    if (filter.facilityId !== undefined) {
+      params.push(filter.facilityId);
+      conditions.push(`facility_id = $${params.length}`);
+    }
+    if (filter.caseId) {
+      params.push(filter.caseId);
+      conditions.push(`case_id = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    try {
+      const rows = await client.query<LabOrderRow>(
+        `SELECT * FROM lab_orders
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY ordered_at ASC`,
+        params
+      );
+
+      return rows.map(rowToLabOrder);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'lab_order_list');
+    }
+  };
+
+  return {
+    saveOrder,
+    findOpenOrder,
+    findOrders,
+  };
+}
@@ -0,0 +1,71 @@
+// apps/backend/niv/src/app/onboarding/lab-order.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * Lab-order worklist items ("Are additional labs required? → order
+ * additional labs, including blood gases if missing" in
+ * docs/wf-onboarding.d2). A case has at most one OPEN order, listing the
+ * tests still needed; it is RESULTED once a result for any of them is
+ * recorded in the EHR after the order was placed.
+ */
+
+import type { Observation } from './observation';
+import {
+  LAB_TEST_MEASUREMENTS,
+  type RequiredLabTest,
+} from './physiologic-criteria';
+
+export const LAB_ORDER_STATUSES = ['OPEN', 'RESULTED', 'CANCELLED'] as const;
+
+export type LabOrderStatus = (typeof LAB_ORDER_STATUSES)[number];
+
+export type LabOrder = {
+  readonly orderId: string;
+  readonly caseId: string;
+  readonly orgUuid: string;
+  readonly patientId: number;
+  readonly facilityId: number;
+  readonly tests: readonly RequiredLabTest[];
+  readonly status: LabOrderStatus;
+  // 'system' when flagged by an assessment, otherwise the RT who asked
+  readonly orderedBy: string;
+  readonly orderedAt: Date;
+  readonly resultedAt: Date | null;
+  // Measurements that resulted the order
+  readonly results: readonly Observation[];
+};
+
+export function isLabOrderStatus(value: string): value is LabOrderStatus {
+  return (LAB_ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Measurements for the ordered tests recorded after the order was placed
+ */
+export function findNewLabResults(
+  order: LabOrder,
+  observations: readonly Observation[]
+): Observation[] {
+  const kinds = new Set(
+    order.tests.flatMap(({ test }) => LAB_TEST_MEASUREMENTS[test])
+  );
+
+  return observations.filter(
+    (observation) =>
+      kinds.has(observation.kind) &&
+      observation.recordedAt.getTime() >= order.orderedAt.getTime()
+  );
+}
+
+/**
+ * One-line summary of results for the case history
+ */
+export function describeLabResults(results: readonly Observation[]): string {
+  return results
+    .map(
+      (result) =>
+        `${result.name} ${result.value}${result.unit ? ` ${result.unit}` : ''}`
+    )
+    .join(', ');
+}
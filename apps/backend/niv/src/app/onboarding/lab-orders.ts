@@ -0,0 +1,265 @@
+// apps/backend/niv/src/app/onboarding/lab-orders.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Lab-order worklist. Cases whose diagnosis qualifies but whose blood gas,
+ * oximetry or spirometry evidence is missing (or an RT asked for labs)
+ * get an OPEN order listing the tests. Open orders are checked against
+ * the EHR; when new results arrive the case is re-assessed and moved to
+ * CHANGED so it goes back in front of an RT.
+ */
+
+import { randomUUID } from 'crypto';
+import { toQualificationSnapshot } from './case-management';
+import type {
+  FindOnboardingCase,
+  SaveCaseTransition,
+  SaveOnboardingCase,
+} from './case-operations';
+import { applyTransition, CASE_TRANSITIONS } from './case-workflow';
+import type { GetPatientObservations } from './ehr-operations';
+import {
+  describeLabResults,
+  findNewLabResults,
+  type LabOrder,
+} from './lab-order';
+import type {
+  FindLabOrders,
+  FindOpenLabOrder,
+  LabOrderFilter,
+  SaveLabOrder,
+} from './lab-order-operations';
+import {
+  withQualification,
+  type OnboardingCase,
+  type OnboardingStatus,
+} from './onboarding-case';
+import type { RequiredLabTest } from './physiologic-criteria';
+import type { AssessmentResult } from './qualifications';
+
+export const LAB_RESULTS_ACTOR = 'system:lab-results';
+
+// Ordered when labs are requested without specific missing tests
+const DEFAULT_LAB_TESTS: readonly RequiredLabTest[] = [
+  {
+    test: 'ARTERIAL_BLOOD_GAS',
+    withinDays: 90,
+    categories: [],
+    criteria: [],
+    reason: 'MISSING',
+  },
+];
+
+// Cases past review (PENDING, ACTIVE) no longer wait on labs
+const LAB_ORDER_CASE_STATUSES: readonly OnboardingStatus[] = [
+  'NEW',
+  'WATCHLIST',
+  'CHANGED',
+  'REVIEWED',
+];
+
+export type LabResultReport = {
+  readonly checked: number;
+  readonly resulted: number;
+  readonly cancelled: number;
+  readonly failed: number;
+};
+
+/**
+ * Dependencies that the lab-order worklist needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type LabOrderDependencies = {
+  assessQualification: (
+    orgUuid: string,
+    patientId: number
+  ) => Promise<AssessmentResult>;
+  getPatientObservations: GetPatientObservations;
+  findCase: FindOnboardingCase;
+  saveCase: SaveOnboardingCase;
+  saveTransition: SaveCaseTransition;
+  saveOrder: SaveLabOrder;
+  findOpenOrder: FindOpenLabOrder;
+  findOrders: FindLabOrders;
+};
+
+/**
+ * Lab-order worklist domain service interface
+ */
+export interface LabOrders {
+  /**
+   * Open a lab order for the case, or add tests to its OPEN order
+   *
+   * Business rules:
+   * - One OPEN order per case
+   * - Without specific tests, blood gases are ordered
+   */
+  orderLabs(
+    onboardingCase: OnboardingCase,
+    tests: readonly RequiredLabTest[],
+    orderedBy: string,
+    now?: Date
+  ): Promise<LabOrder>;
+
+  /**
+   * Lab orders matching the filter, oldest first
+   */
+  listWorklist(filter: LabOrderFilter): Promise<LabOrder[]>;
+
+  /**
+   * Look for results of OPEN orders in the EHR
+   *
+   * Business rules:
+   * - A result recorded after the order for any ordered test resolves it
+   * - The case is re-assessed and moved to CHANGED for re-review (NEW and
+   *   CHANGED cases keep their status, they are already headed for review)
+   * - Tests still missing after re-assessment get a new order
+   * - Orders of cases past review are cancelled
+   */
+  checkForResults(now?: Date): Promise<LabResultReport>;
+}
+
+/**
+ * Factory function to create lab-order worklist domain service
+ */
+export function createLabOrders(deps: LabOrderDependencies): LabOrders {
+  const orderLabs = async (
+    onboardingCase: OnboardingCase,
+    tests: readonly RequiredLabTest[],
+    orderedBy: string,
+    now: Date = new Date()
+  ): Promise<LabOrder> => {
+    const requested = tests.length > 0 ? tests : DEFAULT_LAB_TESTS;
+    const open = await deps.findOpenOrder(onboardingCase.caseId);
+
+    if (open) {
+      const added = requested.filter(
+        ({ test }) => !open.tests.some((existing) => existing.test === test)
+      );
+      return added.length > 0
+        ? await deps.saveOrder({ ...open, tests: [...open.tests, ...added] })
+        : open;
+    }
+
+    return await deps.saveOrder({
+      orderId: randomUUID(),
+      caseId: onboardingCase.caseId,
+      orgUuid: onboardingCase.orgUuid,
+      patientId: onboardingCase.patientId,
+      facilityId: onboardingCase.facilityId,
+      tests: requested,
+      status: 'OPEN',
+      orderedBy,
+      orderedAt: now,
+      resultedAt: null,
+      results: [],
+    });
+  };
+
+  const listWorklist = async (filter: LabOrderFilter): Promise<LabOrder[]> => {
+    return await deps.findOrders(filter);
+  };
+
+  const resolveOrder = async (
+    order: LabOrder,
+    onboardingCase: OnboardingCase,
+    results: LabOrder['results'],
+    now: Date
+  ): Promise<void> => {
+    const assessment = await deps.assessQualification(
+      onboardingCase.orgUuid,
+      onboardingCase.patientId
+    );
+    const snapshot = toQualificationSnapshot(assessment, now);
+    if (!assessment.success || !snapshot) {
+      throw new Error(
+        assessment.error ??
+          `Patient ${onboardingCase.patientId} could not be re-assessed`
+      );
+    }
+
+    const refreshed = await deps.saveCase(
+      withQualification(onboardingCase, snapshot, now)
+    );
+
+    // Workflow: new lab results → CHANGED → re-review
+    const recordChange = CASE_TRANSITIONS.recordChange;
+    const changed = (recordChange.from as readonly OnboardingStatus[]).includes(
+      refreshed.status
+    )
+      ? await deps.saveTransition(
+          applyTransition(
+            refreshed,
+            'recordChange',
+            LAB_RESULTS_ACTOR,
+            `New lab results: ${describeLabResults(results)}`,
+            now
+          )
+        )
+      : refreshed;
+
+    await deps.saveOrder({
+      ...order,
+      status: 'RESULTED',
+      resultedAt: now,
+      results,
+    });
+
+    if (snapshot.labsRequired && snapshot.labsRequired.length > 0) {
+      await orderLabs(changed, snapshot.labsRequired, LAB_RESULTS_ACTOR, now);
+    }
+  };
+
+  const checkForResults = async (
+    now: Date = new Date()
+  ): Promise<LabResultReport> => {
+    const orders = await deps.findOrders({ status: 'OPEN' });
+    let resulted = 0;
+    let cancelled = 0;
+    let failed = 0;
+
+    for (const order of orders) {
+      try {
+        const onboardingCase = await deps.findCase(order.caseId);
+
+        if (
+          !onboardingCase ||
+          !LAB_ORDER_CASE_STATUSES.includes(onboardingCase.status)
+        ) {
+          await deps.saveOrder({ ...order, status: 'CANCELLED' });
+          cancelled++;
+          continue;
+        }
+
+        const results = findNewLabResults(
+          order,
+          await deps.getPatientObservations(
+            order.orgUuid,
+            order.patientId,
+            order.orderedAt
+          )
+        );
+        if (results.length === 0) {
+          continue;
+        }
+
+        await resolveOrder(order, onboardingCase, results, now);
+        resulted++;
+      } catch (error) {
+        // One bad order never blocks the rest; it is checked again next run
+        console.error(`Lab result check failed for ${order.orderId}:`, error);
+        failed++;
+      }
+    }
+
+    return { checked: orders.length, resulted, cancelled, failed };
+  };
+
+  return {
+    orderLabs,
+    listWorklist,
+    checkForResults,
+  };
+}
@@ -0,0 +1,62 @@
+// apps/backend/niv/src/app/onboarding/notification-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for resolving who to notify, sending messages over a
+ * channel and keeping delivery records. Implemented by
+ * notification-repository.ts and the channels in ../messaging.
+ */
+
+import type { ChannelName, OutboundMessage } from '../messaging';
+import type {
+  InAppNotification,
+  NotificationDelivery,
+  NotificationRecipient,
+  NotificationRole,
+} from './notification';
+import type { OnboardingCase } from './onboarding-case';
+
+/**
+ * Contract for finding the people in each role for a case's facility
+ *
+ * Business operation: "Who is the RT, nurse, DON... for this patient?"
+ */
+export type ResolveCaseRecipients = (
+  onboardingCase: OnboardingCase,
+  roles: readonly NotificationRole[]
+) => Promise<NotificationRecipient[]>;
+
+/**
+ * Contract for handing a message to a delivery channel
+ *
+ * Business operation: "Send this message by email / webhook / in-app"
+ */
+export type DeliverMessage = (
+  channel: ChannelName,
+  message: OutboundMessage
+) => Promise<void>;
+
+/**
+ * Contract for storing new or updated delivery records
+ */
+export type SaveNotificationDeliveries = (
+  deliveries: NotificationDelivery[]
+) => Promise<void>;
+
+/**
+ * Contract for finding failed deliveries whose retry time has come
+ */
+export type FindDueDeliveries = (
+  now: Date,
+  limit: number
+) => Promise<NotificationDelivery[]>;
+
+/**
+ * Contract for reading a user's in-app notifications, newest first
+ */
+export type FindInAppNotifications = (
+  recipientId: string,
+  unreadOnly: boolean
+) => Promise<InAppNotification[]>;
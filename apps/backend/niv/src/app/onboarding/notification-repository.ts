@@ -0,0 +1,228 @@
+// apps/backend/niv/src/app/onboarding/notification-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements notification recipient resolution and delivery records using
+ * Postgres (staff directory, notification_deliveries and
+ * in_app_notifications tables).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import type { ChannelName } from '../messaging';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+import type {
+  DeliveryStatus,
+  NotificationDelivery,
+  NotificationRole,
+} from './notification';
+import type {
+  FindDueDeliveries,
+  FindInAppNotifications,
+  ResolveCaseRecipients,
+  SaveNotificationDeliveries,
+} from './notification-operations';
+
+/**
+ * Row shape of the recipient resolution query
+ */
+type RecipientRow = {
+  recipient_id: string;
+  role: NotificationRole;
+  name: string;
+  email: string | null;
+  webhook_url: string | null;
+};
+
+/**
+ * Row shape of the notification_deliveries table
+ */
+type DeliveryRow = {
+  delivery_id: string;
+  case_id: string;
+  event_type: NotificationDelivery['eventType'];
+  recipient_id: string;
+  role: NotificationRole;
+  channel: ChannelName;
+  address: string;
+  subject: string;
+  body: string;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: Date | null;
+  created_at: Date;
+  sent_at: Date | null;
+};
+
+/**
+ * Row shape of the in_app_notifications table
+ */
+type InAppNotificationRow = {
+  message_id: string;
+  recipient_id: string;
+  subject: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  created_at: Date;
+  read_at: Date | null;
+};
+
+/**
+ * Create notification repository using Postgres as the implementation
+ */
+export function createPostgresNotificationRepository(client: PostgresClient) {
+  const resolveRecipients: ResolveCaseRecipients = async (
+    onboardingCase,
+    roles
+  ) => {
+    try {
+      // The RT is the one assigned to the case; other roles are the
+      // active staff assigned to the case's facility in that role
+      const rows = await client.query<RecipientRow>(
+        `SELECT s.staff_id AS recipient_id, 'RT' AS role,
+                s.first_name || ' ' || s.last_name AS name,
+                s.email, s.webhook_url
+         FROM staff_members s
+         WHERE s.staff_id = $3 AND 'RT' = ANY($4::text[])
+         UNION ALL
+         SELECT s.staff_id, r.role, s.first_name || ' ' || s.last_name,
+                s.email, s.webhook_url
+         FROM staff_members s
+         JOIN staff_roles r ON r.staff_id = s.staff_id
+         JOIN staff_facilities sf ON sf.staff_id = s.staff_id
+         WHERE sf.org_uuid = $1 AND sf.facility_id = $2 AND s.active
+           AND r.role = ANY($4::text[]) AND r.role <> 'RT'`,
+        [
+          onboardingCase.orgUuid,
+          onboardingCase.facilityId,
+          onboardingCase.assignedRtId,
+          roles,
+        ]
+      );
+
+      return rows.map((row) => ({
+        recipientId: row.recipient_id,
+        role: row.role,
+        name: row.name,
+        email: row.email,
+        webhookUrl: row.webhook_url,
+      }));
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'notification_recipients');
+    }
+  };
+
+  const saveDeliveries: SaveNotificationDeliveries = async (deliveries) => {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    try {
+      await client.transaction(async (tx) => {
+        for (const delivery of deliveries) {
+          await tx(
+            `INSERT INTO notification_deliveries (
+               delivery_id, case_id, event_type, recipient_id, role, channel,
+               address, subject, body, status, attempts, last_error,
+               next_attempt_at, created_at, sent_at
+             )
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+             ON CONFLICT (delivery_id) DO UPDATE SET
+               status = EXCLUDED.status,
+               attempts = EXCLUDED.attempts,
+               last_error = EXCLUDED.last_error,
+               next_attempt_at = EXCLUDED.next_attempt_at,
+               sent_at = EXCLUDED.sent_at`,
+            [
+              delivery.deliveryId,
+              delivery.caseId,
+              delivery.eventType,
+              delivery.recipientId,
+              delivery.role,
+              delivery.channel,
+              delivery.address,
+              delivery.subject,
+              delivery.body,
+              delivery.status,
+              delivery.attempts,
+              delivery.lastError,
+              delivery.nextAttemptAt,
+              delivery.createdAt,
+              delivery.sentAt,
+            ]
+          );
+        }
+      });
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'notification_delivery_save');
+    }
+  };
+
+  const findDueDeliveries: FindDueDeliveries = async (now, limit) => {
+    try {
+      const rows = await client.query<DeliveryRow>(
+        `SELECT * FROM notification_deliveries
+         WHERE status = 'FAILED' AND next_attempt_at <= $1
+         ORDER BY next_attempt_at ASC
+         LIMIT $2`,
+        [now, limit]
+      );
+
+      return rows.map((row) => ({
+        deliveryId: row.delivery_id,
+        caseId: row.case_id,
+        eventType: row.event_type,
+        recipientId: row.recipient_id,
+        role: row.role,
+        channel: row.channel,
+        address: row.address,
+        subject: row.subject,
+        body: row.body,
+        status: row.status,
+        attempts: row.attempts,
+        lastError: row.last_error,
+        nextAttemptAt: row.next_attempt_at,
+        createdAt: row.created_at,
+        sentAt: row.sent_at,
+      }));
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'notification_due_lookup');
+    }
+  };
+
+  const findInAppNotifications: FindInAppNotifications = async (
+    recipientId,
+    unreadOnly
+  ) => {
+    try {
+      const rows = await client.query<InAppNotificationRow>(
+        `SELECT * FROM in_app_notifications
+         WHERE recipient_id = $1 AND ($2::boolean = false OR read_at IS NULL)
+         ORDER BY created_at DESC
+         LIMIT 200`,
+        [recipientId, unreadOnly]
+      );
+
+      return rows.map((row) => ({
+        messageId: row.message_id,
+        recipientId: row.recipient_id,
+        subject: row.subject,
+        body: row.body,
+        data: row.data,
+        createdAt: row.created_at,
+        readAt: row.read_at,
+      }));
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'in_app_notification_list');
+    }
+  };
+
+  return {
+    resolveRecipients,
+    saveDeliveries,
+    findDueDeliveries,
+    findInAppNotifications,
+  };
+}
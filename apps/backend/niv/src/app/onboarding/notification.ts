@@ -0,0 +1,78 @@
+// apps/backend/niv/src/app/onboarding/notification.ts
+
+/**
+ * Value Objects (DDD)
+ *
+ * Who gets told about what in the onboarding workflow, and the record of
+ * each delivery attempt. Recipients come from the staff directory.
+ */
+
+import type { ChannelName } from '../messaging';
+import type { OnboardingCase } from './onboarding-case';
+import { STAFF_ROLES, type StaffRole } from './staff-member';
+
+// Every staff role can be notified
+export const NOTIFICATION_ROLES = STAFF_ROLES;
+
+export type NotificationRole = StaffRole;
+
+// A person to notify, with the addresses they can be reached at
+export type NotificationRecipient = {
+  readonly recipientId: string;
+  readonly role: NotificationRole;
+  readonly name: string;
+  readonly email: string | null;
+  readonly webhookUrl: string | null;
+};
+
+// Workflow events that trigger notifications
+export type CaseNotificationEvent =
+  | {
+      readonly type: 'CASE_SAVED';
+      readonly onboardingCase: OnboardingCase;
+    }
+  | {
+      // ACTIVE patient not seen by an RT within the weekly visit window
+      readonly type: 'VISIT_OVERDUE';
+      readonly onboardingCase: OnboardingCase;
+      readonly dueAt: Date;
+      readonly lastVisitAt: Date | null;
+    }
+  | {
+      // Patient discharged, readmitted or moved to another facility
+      readonly type: 'CENSUS_CHANGED';
+      readonly onboardingCase: OnboardingCase;
+      readonly change: string;
+    };
+
+export type DeliveryStatus = 'PENDING' | 'SENT' | 'FAILED';
+
+// One message to one recipient over one channel, with retry bookkeeping
+export type NotificationDelivery = {
+  readonly deliveryId: string;
+  readonly caseId: string;
+  readonly eventType: CaseNotificationEvent['type'];
+  readonly recipientId: string;
+  readonly role: NotificationRole;
+  readonly channel: ChannelName;
+  readonly address: string;
+  readonly subject: string;
+  readonly body: string;
+  readonly status: DeliveryStatus;
+  readonly attempts: number;
+  readonly lastError: string | null;
+  readonly nextAttemptAt: Date | null;
+  readonly createdAt: Date;
+  readonly sentAt: Date | null;
+};
+
+// Message shown in a user's in-app inbox
+export type InAppNotification = {
+  readonly messageId: string;
+  readonly recipientId: string;
+  readonly subject: string;
+  readonly body: string;
+  readonly data: Record<string, unknown> | null;
+  readonly createdAt: Date;
+  readonly readAt: Date | null;
+};
@@ -0,0 +1,98 @@
+// Physiologic measurements that NIV criteria depend on
+export type MeasurementKind = 'SPO2' | 'PACO2' | 'PH' | 'FEV1_FVC';
+
+// Unit every measurement of a kind is normalized to
+export const MEASUREMENT_UNITS: Record<MeasurementKind, string> = {
+  SPO2: '%',
+  PACO2: 'mmHg',
+  PH: '',
+  FEV1_FVC: '%',
+};
+
+// LOINC codes of the laboratory results we read, by measurement
+const LOINC_MEASUREMENTS: Record<string, MeasurementKind> = {
+  '2019-8': 'PACO2', // Carbon dioxide [Partial pressure] in Arterial blood
+  '2744-1': 'PH', // pH of Arterial blood
+  '19926-5': 'FEV1_FVC', // FEV1/FVC
+};
+
+const KPA_TO_MMHG = 7.50062;
+
+// Domain data structure - designed to map from PCC observations (vitals)
+// and diagnostic reports (labs)
+export type Observation = {
+  readonly observationId: string;
+  readonly kind: MeasurementKind;
+  readonly value: number; // in MEASUREMENT_UNITS[kind]
+  readonly unit: string;
+  readonly recordedAt: Date;
+  readonly source: 'vitals' | 'lab';
+  readonly name: string;
+};
+
+export function getMeasurementKindForLoinc(
+  code: string | undefined
+): MeasurementKind | null {
+  return (code && LOINC_MEASUREMENTS[code.trim()]) || null;
+}
+
+// Convert a reading to the kind's unit; null when the unit is not one we
+// understand, so a misread value never reaches the criteria
+export function normalizeMeasurement(
+  kind: MeasurementKind,
+  value: number,
+  unit: string
+): number | null {
+  if (!Number.isFinite(value)) {
+    return null;
+  }
+
+  const normalizedUnit = unit.trim().toLowerCase().replace(/\s+/g, '');
+  switch (kind) {
+    case 'PACO2':
+      if (normalizedUnit === 'mmhg' || normalizedUnit === 'mm[hg]') {
+        return value;
+      }
+      return normalizedUnit === 'kpa' ? value * KPA_TO_MMHG : null;
+    case 'PH':
+      return normalizedUnit === '' || normalizedUnit === '[ph]' ? value : null;
+    case 'SPO2':
+      return normalizedUnit === '%' ? value : null;
+    case 'FEV1_FVC':
+      // Reported either as a percentage or as a ratio
+      if (normalizedUnit === '%') {
+        return value;
+      }
+      return normalizedUnit === '' || normalizedUnit === 'ratio'
+        ? value <= 1
+          ? value * 100
+          : value
+        : null;
+  }
+}
+
+// Factory function - returns null for readings that cannot be normalized
+export function createObservation(
+  observationId: string,
+  kind: MeasurementKind,
+  value: number,
+  unit: string,
+  recordedAt: Date,
+  source: Observation['source'],
+  name: string
+): Observation | null {
+  const normalized = normalizeMeasurement(kind, value, unit);
+  if (normalized === null || isNaN(recordedAt.getTime())) {
+    return null;
+  }
+
+  return {
+    observationId,
+    kind,
+    value: normalized,
+    unit: MEASUREMENT_UNITS[kind],
+    recordedAt,
+    source,
+    name,
+  };
+}
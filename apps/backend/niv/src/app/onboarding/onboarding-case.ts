@@ -0,0 +1,120 @@
+// apps/backend/niv/src/app/onboarding/onboarding-case.ts
+
+/**
+ * Aggregate Root (DDD)
+ *
+ * An onboarding case records that a patient was enrolled in the NIV
+ * onboarding workflow: who the patient is, where they are, where they
+ * sit in the workflow (docs/wf-onboarding.d2) and what the most recent
+ * qualification assessment concluded.
+ */
+
+import type {
+  ClinicalQualifications,
+  ConditionClinicalStatus,
+} from './diagnosis';
+import type { Patient } from './patient';
+import type { RequiredLabTest } from './physiologic-criteria';
+
+/**
+ * Workflow statuses from docs/wf-onboarding.d2, plus SUSPENDED and CLOSED
+ * for patients who leave the facility (see adt-record.ts)
+ */
+export const ONBOARDING_STATUSES = [
+  'NEW',
+  'WATCHLIST',
+  'PENDING',
+  'ACTIVE',
+  'REVIEWED',
+  'CHANGED',
+  'SUSPENDED',
+  'CLOSED',
+] as const;
+
+export type OnboardingStatus = (typeof ONBOARDING_STATUSES)[number];
+
+// Snapshot of the latest qualification assessment for the case
+export type QualificationSnapshot = {
+  readonly clinicalQualifications: ClinicalQualifications;
+  readonly isNivEligible: boolean;
+  readonly diagnoses: ReadonlyArray<{
+    readonly code: string;
+    readonly description: string;
+    readonly isPrimary: boolean;
+    // Absent on cases assessed before condition status was read
+    readonly clinicalStatus?: ConditionClinicalStatus;
+  }>;
+  readonly assessedAt: Date;
+  // Rule set version used; absent on cases assessed before rule sets
+  readonly ruleSetVersion?: string;
+  // Tests still needed; absent on cases assessed before lab detection
+  readonly labsRequired?: readonly RequiredLabTest[];
+  // Why the patient is excluded despite qualifying codes, if they are
+  readonly exclusionReason?: string | null;
+};
+
+// Aggregate data structure
+export type OnboardingCase = {
+  readonly caseId: string;
+  readonly orgUuid: string;
+  readonly patientId: number;
+  readonly facilityId: number;
+  readonly firstName: string;
+  readonly lastName: string;
+  readonly dateOfBirth: Date | null;
+  readonly status: OnboardingStatus;
+  readonly assignedRtId: string | null;
+  readonly qualification: QualificationSnapshot | null;
+  readonly deviceFittedAt: Date | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+};
+
+// Factory function - a newly enrolled patient always starts as NEW
+export function openOnboardingCase(
+  caseId: string,
+  orgUuid: string,
+  patient: Patient,
+  qualification: QualificationSnapshot | null,
+  now: Date = new Date()
+): OnboardingCase {
+  return {
+    caseId,
+    orgUuid,
+    patientId: patient.patientId,
+    facilityId: patient.facilityId,
+    firstName: patient.firstName,
+    lastName: patient.lastName,
+    dateOfBirth: patient.dateOfBirth,
+    status: 'NEW',
+    assignedRtId: null,
+    qualification,
+    deviceFittedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Domain functions
+export function withQualification(
+  onboardingCase: OnboardingCase,
+  qualification: QualificationSnapshot,
+  now: Date = new Date()
+): OnboardingCase {
+  return { ...onboardingCase, qualification, updatedAt: now };
+}
+
+// The patient moved to another facility of the organization; PCC gives
+// them a new patient ID for the stay there
+export function withPatientStay(
+  onboardingCase: OnboardingCase,
+  patientId: number,
+  facilityId: number,
+  now: Date = new Date()
+): OnboardingCase {
+  return { ...onboardingCase, patientId, facilityId, updatedAt: now };
+}
+
+export function isOnboardingStatus(value: string): value is OnboardingStatus {
+  return (ONBOARDING_STATUSES as readonly string[]).includes(value);
+}
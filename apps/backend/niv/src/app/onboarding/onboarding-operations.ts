@@ -13,11 +13,73 @@
  * Functional DDD: Type aliases for function signatures, not classes/interfaces
  */
 
+import type { AdtSyncReport } from './adt-tracking';
+import type { CaseDocument, CaseDocumentUpload } from './case-document';
+import type { OnboardingCaseFilter } from './case-operations';
+import type { RetryReport } from './case-notifications';
+import type { CaseTransition, CaseTransitionRecord } from './case-workflow';
+import type { Facility, FacilityGroup } from './facility';
+import type {
+  FacilitySyncReport,
+  FacilitySyncSweep,
+} from './facility-directory';
+import type { FacilityFilter } from './facility-operations';
+import type { LabOrder } from './lab-order';
+import type { LabOrderFilter } from './lab-order-operations';
+import type { LabResultReport } from './lab-orders';
+import type { InAppNotification } from './notification';
+import type { OnboardingCase } from './onboarding-case';
+import type {
+  PatientImportPreview,
+  PatientImportReport,
+} from './patient-import';
+import type { PccEventNotice } from './pcc-event';
+import type { ProgressNoteWriteBack } from './progress-note';
+import type { PccEventReceipt } from './pcc-events';
 import type {
   AssessmentResult,
   ConnectionTestResult,
   MockTestResult,
+  ReEvaluationResult,
 } from './qualifications';
+import type {
+  ReReviewJob,
+  ReReviewReport,
+  ReReviewSettings,
+} from './re-review';
+import type { RuleSetStamp } from './rule-set';
+import type {
+  ScreeningJob,
+  ScreeningResult,
+  ScreeningResultOutcome,
+} from './screening-job';
+import type {
+  ExportFormat,
+  ScreeningExport,
+  ScreeningExportFilter,
+} from './screening-export';
+import type { ScreeningJobFilter } from './screening-operations';
+import type { OverdueVisit, RtVisit } from './rt-visit';
+import type {
+  ReviewClaim,
+  ReviewOutcome,
+  ReviewQueueEntry,
+} from './review-queue';
+import type { StaffSyncReport, StaffSyncSweep } from './staff-directory';
+import type { StaffChanges, StaffDetails, StaffMember } from './staff-member';
+import type { StaffFilter } from './staff-operations';
+import type { ActiveCaseFilter } from './visit-operations';
+import type { OverdueAlertReport, RtVisitInput } from './visit-tracking';
+import type {
+  WebhookSubscription,
+  WebhookSubscriptionSettings,
+  WebhookSubscriptionStatus,
+} from './webhook-subscription';
+import type {
+  FacilityDeliveryErrors,
+  WebhookReconciliation,
+  WebhookSubscriptionReceipt,
+} from './webhook-subscriptions';
 
 /**
  * Contract for getting patient with NIV qualifications
@@ -31,6 +93,26 @@ export type GetPatientWithQualifications = (
   patientId: number
 ) => Promise<AssessmentResult>;
 
+/**
+ * Contract for listing qualification rule sets
+ *
+ * Business operation: "Which criteria versions exist, and which is live?"
+ */
+export type ListRuleSets = () => Promise<
+  Array<RuleSetStamp & { isActive: boolean }>
+>;
+
+/**
+ * Contract for re-evaluating a patient under a chosen rule set
+ *
+ * Business operation: "What would this rule change do to this patient?"
+ */
+export type ReEvaluatePatient = (
+  orgUuid: string,
+  patientId: number,
+  ruleSetVersion: string
+) => Promise<ReEvaluationResult>;
+
 /**
  * Contract for testing EHR connectivity
  *
@@ -48,3 +130,432 @@ export type TestPccConnection = () => Promise<ConnectionTestResult>;
  * Exactly matches onboarding.service.testMockData()
  */
 export type TestMockData = () => Promise<MockTestResult>;
+
+/**
+ * Contract for enrolling a patient in NIV onboarding
+ *
+ * Business operation: "Add this patient to NIV onboarding"
+ */
+export type CreateOnboardingCase = (
+  orgUuid: string,
+  patientId: number
+) => Promise<OnboardingCase>;
+
+/**
+ * Contract for getting a single onboarding case
+ *
+ * Business operation: "Open this patient's onboarding case"
+ */
+export type GetOnboardingCase = (caseId: string) => Promise<OnboardingCase>;
+
+/**
+ * Contract for listing onboarding cases
+ *
+ * Business operation: "Show the patients currently in onboarding"
+ */
+export type ListOnboardingCases = (
+  filter: OnboardingCaseFilter
+) => Promise<OnboardingCase[]>;
+
+/**
+ * Contract for moving an onboarding case through the workflow
+ *
+ * Business operation: "Mark this patient qualified / refused / fitted ..."
+ */
+export type TransitionOnboardingCase = (
+  caseId: string,
+  transition: CaseTransition,
+  actor: string,
+  reason?: string
+) => Promise<OnboardingCase>;
+
+/**
+ * Contract for reading the transition history of a case
+ *
+ * Business operation: "Who moved this patient, when and why?"
+ */
+export type GetOnboardingCaseHistory = (
+  caseId: string
+) => Promise<CaseTransitionRecord[]>;
+
+/**
+ * Contract for assigning a respiratory therapist to a case
+ *
+ * Business operation: "Give this patient an RT" / "Hand this patient to another RT"
+ */
+export type AssignCaseRt = (
+  caseId: string,
+  assignedBy: string,
+  rtId?: string,
+  reason?: string
+) => Promise<OnboardingCase>;
+
+/**
+ * Contract for re-sending failed notification deliveries
+ *
+ * Business operation: "Try again to reach staff we could not notify"
+ */
+export type RetryNotifications = () => Promise<RetryReport>;
+
+/**
+ * Contract for reading a user's in-app notifications
+ *
+ * Business operation: "Show my notification inbox"
+ */
+export type ListInAppNotifications = (
+  recipientId: string,
+  unreadOnly: boolean
+) => Promise<InAppNotification[]>;
+
+/**
+ * Contract for listing cases waiting for RT review
+ *
+ * Business operation: "What should I review next?"
+ */
+export type ListReviewQueue = (rtId: string) => Promise<ReviewQueueEntry[]>;
+
+/**
+ * Contract for claiming a case for review
+ *
+ * Business operation: "I'm reviewing this patient"
+ */
+export type ClaimReview = (
+  caseId: string,
+  rtId: string,
+  leaseMinutes?: number
+) => Promise<ReviewClaim>;
+
+/**
+ * Contract for releasing a claimed case back to the queue
+ *
+ * Business operation: "Someone else can review this patient"
+ */
+export type ReleaseReview = (caseId: string, rtId: string) => Promise<void>;
+
+/**
+ * Contract for completing a review with a decision
+ *
+ * Business operation: "This patient qualifies / refused / needs labs ..."
+ */
+export type CompleteReview = (
+  caseId: string,
+  rtId: string,
+  outcome: ReviewOutcome,
+  reason?: string
+) => Promise<OnboardingCase>;
+
+/**
+ * Contract for re-reviewing REVIEWED cases whose re-review is due
+ *
+ * Business operation: "Put refused / not qualified patients back in front of an RT"
+ */
+export type RunDueReReviews = () => Promise<ReReviewReport>;
+
+/**
+ * Contract for reading a case's scheduled re-review
+ *
+ * Business operation: "When will this patient be looked at again?"
+ */
+export type GetReReviewSchedule = (
+  caseId: string
+) => Promise<ReReviewJob | null>;
+
+/**
+ * Contract for reading the organization's re-review interval
+ */
+export type GetReReviewSettings = (
+  orgUuid: string
+) => Promise<ReReviewSettings>;
+
+/**
+ * Contract for setting the organization's re-review interval
+ *
+ * Business operation: "Re-review our closed patients every N days"
+ */
+export type UpdateReReviewSettings = (
+  orgUuid: string,
+  intervalDays: number
+) => Promise<ReReviewSettings>;
+
+/**
+ * Contract for recording a weekly RT visit
+ *
+ * Business operation: "I saw this patient today - here is what I found"
+ */
+export type RecordRtVisit = (
+  caseId: string,
+  input: RtVisitInput
+) => Promise<RtVisit>;
+
+/**
+ * Contract for reading a case's RT visits
+ */
+export type ListCaseVisits = (caseId: string) => Promise<RtVisit[]>;
+
+/**
+ * Contract for listing overdue weekly visits
+ *
+ * Business operation: "Which active patients haven't been seen this week?"
+ */
+export type ListOverdueVisits = (
+  filter: ActiveCaseFilter
+) => Promise<OverdueVisit[]>;
+
+/**
+ * Contract for alerting staff about missed visits
+ */
+export type AlertOverdueVisits = () => Promise<OverdueAlertReport>;
+
+/**
+ * Contract for listing the lab-order worklist
+ *
+ * Business operation: "Which patients need labs drawn?"
+ */
+export type ListLabOrders = (filter: LabOrderFilter) => Promise<LabOrder[]>;
+
+/**
+ * Contract for checking the EHR for results of open lab orders
+ *
+ * Business operation: "Labs are back - put the patient in front of an RT"
+ */
+export type CheckLabResults = () => Promise<LabResultReport>;
+
+/**
+ * Contract for starting a facility-wide (or organization-wide) screening
+ *
+ * Business operation: "Find NIV candidates across the building"
+ */
+export type StartScreening = (
+  orgUuid: string,
+  facilityId: number | null,
+  requestedBy: string
+) => Promise<ScreeningJob>;
+
+/**
+ * Contract for following a screening job's progress
+ */
+export type GetScreeningJob = (jobId: string) => Promise<ScreeningJob>;
+
+/**
+ * Contract for listing screening jobs, newest first
+ */
+export type ListScreeningJobs = (
+  filter: ScreeningJobFilter
+) => Promise<ScreeningJob[]>;
+
+/**
+ * Contract for listing a screening job's per-patient results
+ */
+export type ListScreeningResults = (
+  jobId: string,
+  outcome?: ScreeningResultOutcome
+) => Promise<ScreeningResult[]>;
+
+/**
+ * Contract for listing a screening job's results grouped by facility
+ *
+ * Business operation: "Which patients qualified in each building?"
+ */
+export type ListScreeningResultsByFacility = (
+  jobId: string,
+  outcome?: ScreeningResultOutcome
+) => Promise<FacilityGroup<ScreeningResult>[]>;
+
+/**
+ * Contract for exporting the latest screening result of each patient
+ *
+ * Business operation: "Send the DON a spreadsheet of every screened patient"
+ */
+export type ExportScreeningResults = (
+  filter: ScreeningExportFilter,
+  format: ExportFormat
+) => Promise<ScreeningExport>;
+
+/**
+ * Contract for checking a CSV of patients against the EHR before import
+ *
+ * Business operation: "Show me who this list matches before we enroll them"
+ */
+export type PreviewPatientImport = (
+  orgUuid: string,
+  csv: string
+) => Promise<PatientImportPreview>;
+
+/**
+ * Contract for enrolling every matched patient of a CSV in one batch
+ */
+export type CommitPatientImport = (
+  orgUuid: string,
+  csv: string
+) => Promise<PatientImportReport>;
+
+/**
+ * Contract for accepting a webhook event delivered by PCC
+ *
+ * Business operation: "A patient was admitted or their conditions changed"
+ */
+export type ReceivePccEvent = (
+  notice: PccEventNotice
+) => Promise<PccEventReceipt>;
+
+/**
+ * Contract for retrying PCC webhook events that failed or stalled
+ */
+export type RetryPccEvents = () => Promise<RetryReport>;
+
+/**
+ * Contract for listing the application's PCC webhook subscriptions
+ *
+ * Business operation: "Which events is PCC sending us, and for which orgs?"
+ */
+export type ListWebhookSubscriptions = (
+  orgUuid?: string,
+  status?: WebhookSubscriptionStatus
+) => Promise<WebhookSubscription[]>;
+
+/**
+ * Contract for requesting a new PCC webhook subscription
+ */
+export type CreateWebhookSubscription = (
+  settings: WebhookSubscriptionSettings
+) => Promise<WebhookSubscriptionReceipt>;
+
+/**
+ * Contract for requesting a change to a PCC webhook subscription
+ */
+export type UpdateWebhookSubscription = (
+  subscriptionId: number,
+  changes: Partial<WebhookSubscriptionSettings>
+) => Promise<WebhookSubscriptionReceipt>;
+
+/**
+ * Contract for bringing PCC in line with the configured subscription
+ *
+ * Business operation: "Make sure PCC sends us what this deployment expects"
+ */
+export type ReconcileWebhookSubscriptions = (
+  dryRun: boolean
+) => Promise<WebhookReconciliation>;
+
+/**
+ * Contract for listing webhook deliveries PCC could not make
+ *
+ * Business operation: "Which events did we drop at these facilities?"
+ */
+export type ListWebhookDeliveryErrors = (
+  orgUuid: string,
+  facilityIds: number[]
+) => Promise<FacilityDeliveryErrors[]>;
+
+/**
+ * Contract for syncing tracked cases with their patients' ADT records
+ *
+ * Business operation: "Catch up on discharges, transfers and readmissions
+ * the webhooks missed"
+ */
+export type SyncAdtRecords = () => Promise<AdtSyncReport>;
+
+/**
+ * Contract for listing facilities from the local directory
+ *
+ * Business operation: "Which facilities can this person see?"
+ */
+export type ListFacilities = (filter: FacilityFilter) => Promise<Facility[]>;
+
+/**
+ * Contract for getting one facility with its address, time zone and beds
+ */
+export type GetFacility = (
+  orgUuid: string,
+  facilityId: number
+) => Promise<Facility>;
+
+/**
+ * Contract for refreshing an organization's facilities from the EHR
+ *
+ * Business operation: "Pick up facilities opened, renamed or closed in PCC"
+ */
+export type SyncFacilities = (orgUuid: string) => Promise<FacilitySyncReport>;
+
+/**
+ * Contract for refreshing every organization in the facility directory
+ */
+export type SyncAllFacilities = () => Promise<FacilitySyncSweep>;
+
+/**
+ * Contract for listing the staff directory
+ *
+ * Business operation: "Who works at this facility, and in what role?"
+ */
+export type ListStaff = (filter: StaffFilter) => Promise<StaffMember[]>;
+
+/**
+ * Contract for getting one staff member
+ */
+export type GetStaffMember = (staffId: string) => Promise<StaffMember>;
+
+/**
+ * Contract for adding a staff member PCC does not list
+ *
+ * Business operation: "Add the contract RT who covers our east wing"
+ */
+export type AddStaffMember = (
+  orgUuid: string,
+  details: StaffDetails
+) => Promise<StaffMember>;
+
+/**
+ * Contract for changing a staff member's roles, facilities or contacts
+ */
+export type UpdateStaffMember = (
+  staffId: string,
+  changes: StaffChanges
+) => Promise<StaffMember>;
+
+/**
+ * Contract for importing an organization's practitioners from the EHR
+ *
+ * Business operation: "Pick up staff hired or gone in PCC"
+ */
+export type SyncPractitioners = (orgUuid: string) => Promise<StaffSyncReport>;
+
+/**
+ * Contract for importing the practitioners of every organization
+ */
+export type SyncAllPractitioners = () => Promise<StaffSyncSweep>;
+
+/**
+ * Contract for reading the progress notes written back for a case
+ *
+ * Business operation: "Did the decision make it into the PCC chart?"
+ */
+export type ListCaseProgressNotes = (
+  caseId: string
+) => Promise<ProgressNoteWriteBack[]>;
+
+/**
+ * Contract for retrying progress notes the EHR did not accept
+ */
+export type RetryProgressNotes = () => Promise<RetryReport>;
+
+/**
+ * Contract for recording a document about to be uploaded for a case
+ *
+ * Business operation: "I am adding this sleep study to the patient's case"
+ */
+export type RegisterCaseDocument = (
+  caseId: string,
+  upload: CaseDocumentUpload
+) => Promise<CaseDocument>;
+
+/**
+ * Contract for filing an uploaded case document in the EHR chart
+ *
+ * Business operation: "The file is up - put it in the patient's chart"
+ */
+export type AttachCaseDocument = (documentId: string) => Promise<CaseDocument>;
+
+/**
+ * Contract for reading a case's documents
+ */
+export type ListCaseDocuments = (caseId: string) => Promise<CaseDocument[]>;
@@ -1,5 +1,6 @@
 // apps/backend/niv/src/app/onboarding/onboarding.controller.ts
 import {
+  Body,
   Controller,
   Get,
   HttpException,
@@ -7,10 +8,32 @@ import {
   Logger,
   Param,
   ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+  Put,
   Query,
+  StreamableFile,
 } from '@nestjs/common';
+import { Readable } from 'stream';
+import { CASE_TRANSITIONS, isCaseTransition } from './case-workflow';
 import { NIV_ERRORS, OnboardingError } from './errors';
+import { isLabOrderStatus } from './lab-order';
+import { isOnboardingStatus } from './onboarding-case';
 import { OnboardingService } from './onboarding.service';
+import { isReviewOutcome, REVIEW_OUTCOMES } from './review-queue';
+import {
+  EXPORT_FORMATS,
+  isExportCaseStatus,
+  isExportFormat,
+  isQualificationCategory,
+} from './screening-export';
+import {
+  isScreeningJobStatus,
+  isScreeningResultOutcome,
+} from './screening-job';
+
+// Largest page of cases one request can ask for
+const MAX_CASE_PAGE_SIZE = 500;
 
 /**
  * Controller for NIV Patient Onboarding endpoints
@@ -120,72 +143,1142 @@ export class OnboardingController {
   }
 
   /**
-   * Maps domain errors to appropriate HTTP responses
-   * This is where we translate business errors into HTTP status codes
+   * List qualification rule sets, with the one in effect marked
    */
-  private mapDomainErrorToHttp(
-    error: unknown,
-    operation: string,
-    context?: Record<string, unknown>
-  ): HttpException {
-    if (error instanceof OnboardingError) {
-      const httpStatus = this.getHttpStatusForDomainError(error);
-      const responseBody = this.buildErrorResponse(error, operation, context);
+  @Get('rule-sets')
+  async listRuleSets() {
+    const ruleSets = await this.onboardingService.listRuleSets();
 
-      return new HttpException(responseBody, httpStatus);
+    return {
+      success: true,
+      data: ruleSets,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Re-evaluate a patient under a historical or draft rule set, alongside
+   * the active one, to preview the impact of a rule change
+   */
+  @Post('patient/:patientId/re-evaluate')
+  async reEvaluatePatient(
+    @Param('patientId', ParseIntPipe) patientId: number,
+    @Body() body: { orgUuid?: string; ruleSetVersion?: string }
+  ) {
+    const orgUuid = body?.orgUuid?.trim();
+    const ruleSetVersion = body?.ruleSetVersion?.trim();
+
+    if (!orgUuid) {
+      throw this.invalidInput(
+        NIV_ERRORS.INVALID_ORG_UUID,
+        'Organization UUID is required'
+      );
+    }
+    if (!ruleSetVersion) {
+      throw this.invalidInput(
+        'INVALID_RULE_SET_VERSION',
+        'ruleSetVersion is required'
+      );
     }
 
-    // Fallback for unexpected errors
-    this.logger.error(`Unexpected error in ${operation}:`, error);
+    try {
+      const result = await this.onboardingService.reEvaluatePatient(
+        orgUuid,
+        patientId,
+        ruleSetVersion
+      );
 
-    return new HttpException(
-      {
-        error: 'INTERNAL_SERVER_ERROR',
-        message: 'An unexpected error occurred',
-        operation,
+      return {
+        success: true,
+        data: result,
         timestamp: new Date().toISOString(),
-        ...(context && { context }),
-      },
-      HttpStatus.INTERNAL_SERVER_ERROR
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'patient_re_evaluation', {
+        patientId,
+        orgUuid,
+        ruleSetVersion,
+      });
+    }
+  }
+
+  /**
+   * Enroll a patient in NIV onboarding - creates a persistent onboarding case
+   */
+  @Post('cases')
+  async createCase(@Body() body: { orgUuid?: string; patientId?: unknown }) {
+    const orgUuid = body?.orgUuid?.trim();
+    const patientId = Number(body?.patientId);
+
+    if (!orgUuid) {
+      throw this.invalidInput(
+        NIV_ERRORS.INVALID_ORG_UUID,
+        'Organization UUID is required'
+      );
+    }
+    if (!Number.isInteger(patientId) || patientId <= 0) {
+      throw this.invalidInput(
+        NIV_ERRORS.INVALID_PATIENT_ID,
+        'patientId must be a positive integer'
+      );
+    }
+
+    this.logger.log(`Onboarding case create: ${patientId} in org ${orgUuid}`);
+
+    try {
+      const onboardingCase = await this.onboardingService.createCase(
+        orgUuid,
+        patientId
+      );
+
+      return {
+        success: true,
+        data: onboardingCase,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'case_create', {
+        patientId,
+        orgUuid,
+      });
+    }
+  }
+
+  /**
+   * List onboarding cases - feeds the patients list in the frontend
+   *
+   * limit defaults to 100 and is capped at 500
+   */
+  @Get('cases')
+  async listCases(
+    @Query('orgUuid') orgUuid?: string,
+    @Query('facilityId') facilityId?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string
+  ) {
+    if (status && !isOnboardingStatus(status)) {
+      throw this.invalidInput('INVALID_STATUS', `Unknown status: ${status}`);
+    }
+    const parsedFacilityId = this.parseFacilityIdQuery(facilityId);
+    const parsedLimit = this.parseWholeNumberQuery(
+      limit,
+      1,
+      'INVALID_LIMIT',
+      'limit must be a positive whole number'
+    );
+    const parsedOffset = this.parseWholeNumberQuery(
+      offset,
+      0,
+      'INVALID_OFFSET',
+      'offset must be zero or a positive whole number'
     );
+
+    try {
+      const cases = await this.onboardingService.listCases({
+        orgUuid: orgUuid?.trim() || undefined,
+        facilityId: parsedFacilityId,
+        status: status && isOnboardingStatus(status) ? status : undefined,
+        limit:
+          parsedLimit === undefined
+            ? undefined
+            : Math.min(parsedLimit, MAX_CASE_PAGE_SIZE),
+        offset: parsedOffset,
+      });
+
+      return {
+        success: true,
+        data: cases,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'case_list');
+    }
   }
 
   /**
-   * Maps domain error actions to HTTP status codes
-   * This implements the cross-boundary error handling strategy
+   * Get a single onboarding case
    */
-  private getHttpStatusForDomainError(error: OnboardingError): HttpStatus {
-    // Map based on the error's action guidance
-    switch (error.action) {
-      case 'stop':
-        // Fatal errors that should stop processing
-        switch (error.code) {
-          case NIV_ERRORS.PATIENT_NOT_FOUND:
-            return HttpStatus.NOT_FOUND;
-          case NIV_ERRORS.PCC_UNAUTHORIZED:
-            return HttpStatus.UNAUTHORIZED;
-          case NIV_ERRORS.QUALIFICATION_FAILED:
-            return HttpStatus.UNPROCESSABLE_ENTITY; // 422 - business rule violation
-          default:
-            return HttpStatus.BAD_REQUEST;
-        }
+  @Get('cases/:caseId')
+  async getCase(@Param('caseId', ParseUUIDPipe) caseId: string) {
+    try {
+      const onboardingCase = await this.onboardingService.getCase(caseId);
 
-      case 'retry':
-        // Temporary failures that can be retried
-        switch (error.code) {
-          case NIV_ERRORS.PCC_UNAVAILABLE:
-          case NIV_ERRORS.PCC_TIMEOUT:
-            return HttpStatus.SERVICE_UNAVAILABLE; // 503 - retry later
-          default:
-            return HttpStatus.SERVICE_UNAVAILABLE;
-        }
+      return {
+        success: true,
+        data: onboardingCase,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'case_lookup', { caseId });
+    }
+  }
 
-      case 'user-input':
-        // Errors requiring user action
-        switch (error.code) {
-          case NIV_ERRORS.MISSING_CLINICAL_DATA:
-          case NIV_ERRORS.RT_ASSIGNMENT_FAILED:
-            return HttpStatus.UNPROCESSABLE_ENTITY; // 422 - user action needed
+  /**
+   * Move an onboarding case through the workflow
+   *
+   * Records who moved the case (actor) and why (reason)
+   */
+  @Post('cases/:caseId/transitions')
+  async transitionCase(
+    @Param('caseId', ParseUUIDPipe) caseId: string,
+    @Body() body: { transition?: string; actor?: string; reason?: string }
+  ) {
+    const transition = body?.transition;
+    const actor = body?.actor?.trim();
+
+    if (!transition || !isCaseTransition(transition)) {
+      throw this.invalidInput(
+        'INVALID_TRANSITION',
+        `transition must be one of: ${Object.keys(CASE_TRANSITIONS).join(', ')}`
+      );
+    }
+    if (!actor) {
+      throw this.invalidInput('INVALID_ACTOR', 'actor is required');
+    }
+
+    try {
+      const onboardingCase = await this.onboardingService.transitionCase(
+        caseId,
+        transition,
+        actor,
+        body.reason
+      );
+
+      return {
+        success: true,
+        data: onboardingCase,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'case_transition', {
+        caseId,
+        transition,
+      });
+    }
+  }
+
+  /**
+   * Get the transition history of an onboarding case
+   */
+  @Get('cases/:caseId/transitions')
+  async getCaseHistory(@Param('caseId', ParseUUIDPipe) caseId: string) {
+    try {
+      const history = await this.onboardingService.getCaseHistory(caseId);
+
+      return {
+        success: true,
+        data: history,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'case_transition_history', {
+        caseId,
+      });
+    }
+  }
+
+  /**
+   * Assign a respiratory therapist to a case
+   *
+   * With rtId staff reassign manually; without it the configured
+   * assignment strategy picks an RT covering the patient's facility
+   */
+  @Post('cases/:caseId/assignment')
+  async assignCaseRt(
+    @Param('caseId', ParseUUIDPipe) caseId: string,
+    @Body() body: { rtId?: string; assignedBy?: string; reason?: string }
+  ) {
+    const assignedBy = body?.assignedBy?.trim();
+    if (!assignedBy) {
+      throw this.invalidInput('INVALID_ACTOR', 'assignedBy is required');
+    }
+
+    try {
+      const onboardingCase = await this.onboardingService.assignCaseRt(
+        caseId,
+        assignedBy,
+        body.rtId?.trim() || undefined,
+        body.reason
+      );
+
+      return {
+        success: true,
+        data: onboardingCase,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'rt_assignment', { caseId });
+    }
+  }
+
+  /**
+   * In-app notification inbox for a staff member
+   */
+  @Get('notifications')
+  async listNotifications(
+    @Query('recipientId') recipientId?: string,
+    @Query('unreadOnly') unreadOnly?: string
+  ) {
+    if (!recipientId?.trim()) {
+      throw this.invalidInput('INVALID_RECIPIENT', 'recipientId is required');
+    }
+
+    try {
+      const notifications = await this.onboardingService.listInAppNotifications(
+        recipientId.trim(),
+        unreadOnly === 'true'
+      );
+
+      return {
+        success: true,
+        data: notifications,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'in_app_notification_list', {
+        recipientId,
+      });
+    }
+  }
+
+  /**
+   * Record a weekly RT visit for an ACTIVE case
+   */
+  @Post('cases/:caseId/visits')
+  async recordRtVisit(
+    @Param('caseId', ParseUUIDPipe) caseId: string,
+    @Body()
+    body: {
+      rtId?: string;
+      visitedAt?: string;
+      findings?: string;
+      deviceSettings?: Record<string, unknown>;
+    }
+  ) {
+    const rtId = body?.rtId?.trim();
+    const findings = body?.findings?.trim();
+    const visitedAt = body?.visitedAt ? new Date(body.visitedAt) : new Date();
+
+    if (!rtId) {
+      throw this.invalidInput('INVALID_RT', 'rtId is required');
+    }
+    if (!findings) {
+      throw this.invalidInput('INVALID_FINDINGS', 'findings are required');
+    }
+    if (isNaN(visitedAt.getTime())) {
+      throw this.invalidInput(
+        'INVALID_VISIT_DATE',
+        'visitedAt must be an ISO date-time'
+      );
+    }
+
+    const settings = body.deviceSettings ?? {};
+    const numberOrNull = (value: unknown): number | null =>
+      typeof value === 'number' && isFinite(value) ? value : null;
+
+    try {
+      const visit = await this.onboardingService.recordRtVisit(caseId, {
+        rtId,
+        visitedAt,
+        findings,
+        deviceSettings: {
+          mode: typeof settings.mode === 'string' ? settings.mode : null,
+          ipapCmH2O: numberOrNull(settings.ipapCmH2O),
+          epapCmH2O: numberOrNull(settings.epapCmH2O),
+          backupRate: numberOrNull(settings.backupRate),
+          oxygenLpm: numberOrNull(settings.oxygenLpm),
+        },
+      });
+
+      return {
+        success: true,
+        data: visit,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'rt_visit_save', { caseId });
+    }
+  }
+
+  /**
+   * RT visits for a case, most recent first
+   */
+  @Get('cases/:caseId/visits')
+  async listCaseVisits(@Param('caseId', ParseUUIDPipe) caseId: string) {
+    try {
+      const visits = await this.onboardingService.listCaseVisits(caseId);
+
+      return {
+        success: true,
+        data: visits,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'rt_visit_lookup', { caseId });
+    }
+  }
+
+  /**
+   * Documents uploaded for a case, most recent first, with their PCC
+   * document IDs once filed in the chart
+   */
+  @Get('cases/:caseId/documents')
+  async listCaseDocuments(@Param('caseId', ParseUUIDPipe) caseId: string) {
+    try {
+      const documents = await this.onboardingService.listCaseDocuments(caseId);
+
+      return {
+        success: true,
+        data: documents,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'case_document_lookup', {
+        caseId,
+      });
+    }
+  }
+
+  /**
+   * Review decisions written back to the PCC chart, most recent first,
+   * with their delivery status
+   */
+  @Get('cases/:caseId/progress-notes')
+  async listCaseProgressNotes(@Param('caseId', ParseUUIDPipe) caseId: string) {
+    try {
+      const writeBacks =
+        await this.onboardingService.listCaseProgressNotes(caseId);
+
+      return {
+        success: true,
+        data: writeBacks,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'progress_note_lookup', {
+        caseId,
+      });
+    }
+  }
+
+  /**
+   * ACTIVE patients past their weekly RT visit, most overdue first
+   */
+  @Get('visits/overdue')
+  async listOverdueVisits(
+    @Query('orgUuid') orgUuid?: string,
+    @Query('facilityId') facilityId?: string
+  ) {
+    const parsedFacilityId = this.parseFacilityIdQuery(facilityId);
+
+    const filter = {
+      orgUuid: orgUuid?.trim() || undefined,
+      facilityId: parsedFacilityId,
+    };
+
+    try {
+      const overdue = await this.onboardingService.listOverdueVisits(filter);
+
+      return {
+        success: true,
+        data: overdue,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'overdue_visit_lookup', filter);
+    }
+  }
+
+  /**
+   * Lab-order worklist - cases waiting on blood gases, oximetry or
+   * spirometry, oldest order first (OPEN orders unless status is given)
+   */
+  @Get('lab-orders')
+  async listLabOrders(
+    @Query('orgUuid') orgUuid?: string,
+    @Query('facilityId') facilityId?: string,
+    @Query('caseId') caseId?: string,
+    @Query('status') status?: string
+  ) {
+    const parsedFacilityId = this.parseFacilityIdQuery(facilityId);
+    if (status !== undefined && !isLabOrderStatus(status)) {
+      throw this.invalidInput(
+        'INVALID_STATUS',
+        `Unknown lab order status: ${status}`
+      );
+    }
+
+    const filter = {
+      orgUuid: orgUuid?.trim() || undefined,
+      facilityId: parsedFacilityId,
+      caseId: caseId?.trim() || undefined,
+      status: status ?? 'OPEN',
+    };
+
+    try {
+      const orders = await this.onboardingService.listLabOrders(filter);
+
+      return {
+        success: true,
+        data: orders,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'lab_order_list', filter);
+    }
+  }
+
+  /**
+   * Start screening every patient in a facility (or, without facilityId,
+   * the organization) - returns the RUNNING job to follow for progress
+   */
+  @Post('screenings')
+  async startScreening(
+    @Body()
+    body: {
+      orgUuid?: string;
+      facilityId?: unknown;
+      requestedBy?: string;
+    }
+  ) {
+    const orgUuid = body?.orgUuid?.trim();
+    const requestedBy = body?.requestedBy?.trim();
+    const facilityId =
+      body?.facilityId === undefined || body?.facilityId === null
+        ? null
+        : Number(body.facilityId);
+
+    if (!orgUuid) {
+      throw this.invalidInput(
+        NIV_ERRORS.INVALID_ORG_UUID,
+        'Organization UUID is required'
+      );
+    }
+    if (facilityId !== null && !Number.isInteger(facilityId)) {
+      throw this.invalidInput(
+        'INVALID_FACILITY_ID',
+        'facilityId must be a number'
+      );
+    }
+    if (!requestedBy) {
+      throw this.invalidInput(
+        'INVALID_REQUESTED_BY',
+        'requestedBy is required'
+      );
+    }
+
+    try {
+      const job = await this.onboardingService.startScreening(
+        orgUuid,
+        facilityId,
+        requestedBy
+      );
+
+      return {
+        success: true,
+        data: job,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'screening_start', {
+        orgUuid,
+        facilityId,
+      });
+    }
+  }
+
+  /**
+   * Screening jobs, newest first
+   */
+  @Get('screenings')
+  async listScreeningJobs(
+    @Query('orgUuid') orgUuid?: string,
+    @Query('facilityId') facilityId?: string,
+    @Query('status') status?: string
+  ) {
+    const parsedFacilityId = this.parseFacilityIdQuery(facilityId);
+    if (status !== undefined && !isScreeningJobStatus(status)) {
+      throw this.invalidInput(
+        'INVALID_STATUS',
+        `Unknown screening job status: ${status}`
+      );
+    }
+
+    const filter = {
+      orgUuid: orgUuid?.trim() || undefined,
+      facilityId: parsedFacilityId,
+      status,
+    };
+
+    try {
+      const jobs = await this.onboardingService.listScreeningJobs(filter);
+
+      return {
+        success: true,
+        data: jobs,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'screening_list', filter);
+    }
+  }
+
+  /**
+   * Spreadsheet of the latest screening result of each patient, streamed
+   * as CSV (default) or XLSX. from and to are ISO dates; a date-only to
+   * includes that whole day. status is a case status or NOT_ENROLLED.
+   *
+   * Declared before screenings/:jobId so "export" is not read as a job id
+   */
+  @Get('screenings/export')
+  async exportScreeningResults(
+    @Query('orgUuid') orgUuid?: string,
+    @Query('facilityId') facilityId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('category') category?: string,
+    @Query('status') status?: string,
+    @Query('outcome') outcome?: string,
+    @Query('format') format = 'csv'
+  ) {
+    const org = orgUuid?.trim();
+    const parsedFacilityId = this.parseFacilityIdQuery(facilityId);
+    const parsedFrom = from === undefined ? undefined : new Date(from);
+    const parsedTo = to === undefined ? undefined : new Date(to);
+
+    if (!org) {
+      throw this.invalidInput('INVALID_ORG', 'orgUuid is required');
+    }
+    if (
+      (parsedFrom && isNaN(parsedFrom.getTime())) ||
+      (parsedTo && isNaN(parsedTo.getTime()))
+    ) {
+      throw this.invalidInput(
+        'INVALID_DATE_RANGE',
+        'from and to must be ISO dates'
+      );
+    }
+    if (parsedTo && /^\d{4}-\d{2}-\d{2}$/.test(to ?? '')) {
+      parsedTo.setUTCDate(parsedTo.getUTCDate() + 1);
+    }
+    if (category !== undefined && !isQualificationCategory(category)) {
+      throw this.invalidInput(
+        'INVALID_CATEGORY',
+        `Unknown qualification category: ${category}`
+      );
+    }
+    if (status !== undefined && !isExportCaseStatus(status)) {
+      throw this.invalidInput(
+        'INVALID_STATUS',
+        `Unknown case status: ${status}`
+      );
+    }
+    if (outcome !== undefined && !isScreeningResultOutcome(outcome)) {
+      throw this.invalidInput(
+        'INVALID_OUTCOME',
+        `Unknown screening outcome: ${outcome}`
+      );
+    }
+    if (!isExportFormat(format)) {
+      throw this.invalidInput(
+        'INVALID_FORMAT',
+        `format must be one of: ${EXPORT_FORMATS.join(', ')}`
+      );
+    }
+
+    const filter = {
+      orgUuid: org,
+      facilityId: parsedFacilityId,
+      from: parsedFrom,
+      to: parsedTo,
+      category,
+      status,
+      outcome,
+    };
+
+    try {
+      const file = await this.onboardingService.exportScreeningResults(
+        filter,
+        format
+      );
+
+      return new StreamableFile(Readable.from(file.body), {
+        type: file.contentType,
+        disposition: `attachment; filename="${file.filename}"`,
+      });
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'screening_export', filter);
+    }
+  }
+
+  /**
+   * Screening job progress
+   */
+  @Get('screenings/:jobId')
+  async getScreeningJob(@Param('jobId', ParseUUIDPipe) jobId: string) {
+    try {
+      const job = await this.onboardingService.getScreeningJob(jobId);
+
+      return {
+        success: true,
+        data: job,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'screening_lookup', { jobId });
+    }
+  }
+
+  /**
+   * Per-patient screening results, by patient name (optionally one outcome,
+   * e.g. ELIGIBLE for the candidate list or FAILED to retry);
+   * groupBy=facility groups them by facility name
+   */
+  @Get('screenings/:jobId/results')
+  async listScreeningResults(
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @Query('outcome') outcome?: string,
+    @Query('groupBy') groupBy?: string
+  ) {
+    if (outcome !== undefined && !isScreeningResultOutcome(outcome)) {
+      throw this.invalidInput(
+        'INVALID_OUTCOME',
+        `Unknown screening outcome: ${outcome}`
+      );
+    }
+    if (groupBy !== undefined && groupBy !== 'facility') {
+      throw this.invalidInput('INVALID_GROUP_BY', 'groupBy must be facility');
+    }
+
+    try {
+      const results =
+        groupBy === 'facility'
+          ? await this.onboardingService.listScreeningResultsByFacility(
+              jobId,
+              outcome
+            )
+          : await this.onboardingService.listScreeningResults(jobId, outcome);
+
+      return {
+        success: true,
+        data: results,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'screening_result_list', {
+        jobId,
+        outcome,
+      });
+    }
+  }
+
+  /**
+   * Check a CSV of patients against the EHR before importing it; nothing
+   * is saved. Rows name a patientId, or firstName, lastName, dateOfBirth
+   * and facilityId.
+   */
+  @Post('imports/preview')
+  async previewPatientImport(
+    @Body() body: { orgUuid?: string; csv?: unknown }
+  ) {
+    const { orgUuid, csv } = this.readImportBody(body);
+
+    try {
+      const preview = await this.onboardingService.previewPatientImport(
+        orgUuid,
+        csv
+      );
+
+      return {
+        success: true,
+        data: preview,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'patient_import_preview', {
+        orgUuid,
+      });
+    }
+  }
+
+  /**
+   * Import a CSV of patients: every matched row becomes an onboarding
+   * case, with an outcome reported for each row
+   */
+  @Post('imports')
+  async commitPatientImport(@Body() body: { orgUuid?: string; csv?: unknown }) {
+    const { orgUuid, csv } = this.readImportBody(body);
+
+    this.logger.log(`Patient import requested for org ${orgUuid}`);
+
+    try {
+      const report = await this.onboardingService.commitPatientImport(
+        orgUuid,
+        csv
+      );
+
+      return {
+        success: true,
+        data: report,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'patient_import', { orgUuid });
+    }
+  }
+
+  /**
+   * Re-review scheduled for a case after it was closed as REVIEWED
+   */
+  @Get('cases/:caseId/re-review')
+  async getReReviewSchedule(@Param('caseId', ParseUUIDPipe) caseId: string) {
+    try {
+      const schedule = await this.onboardingService.getReReviewSchedule(caseId);
+
+      return {
+        success: true,
+        data: schedule,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 're_review_lookup', { caseId });
+    }
+  }
+
+  /**
+   * Organization's re-review interval
+   */
+  @Get('re-review/settings/:orgUuid')
+  async getReReviewSettings(@Param('orgUuid') orgUuid: string) {
+    try {
+      const settings =
+        await this.onboardingService.getReReviewSettings(orgUuid);
+
+      return {
+        success: true,
+        data: settings,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 're_review_settings_lookup', {
+        orgUuid,
+      });
+    }
+  }
+
+  /**
+   * Set the organization's re-review interval
+   */
+  @Put('re-review/settings/:orgUuid')
+  async updateReReviewSettings(
+    @Param('orgUuid') orgUuid: string,
+    @Body() body: { intervalDays?: unknown }
+  ) {
+    const intervalDays = Number(body?.intervalDays);
+    if (!Number.isInteger(intervalDays) || intervalDays <= 0) {
+      throw this.invalidInput(
+        'INVALID_INTERVAL',
+        'intervalDays must be a positive integer'
+      );
+    }
+
+    try {
+      const settings = await this.onboardingService.updateReReviewSettings(
+        orgUuid,
+        intervalDays
+      );
+
+      return {
+        success: true,
+        data: settings,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 're_review_settings_save', {
+        orgUuid,
+      });
+    }
+  }
+
+  /**
+   * RT review queue - cases awaiting review at the RT's facilities,
+   * highest priority and oldest first, with any current claim
+   */
+  @Get('queue')
+  async listReviewQueue(@Query('rtId') rtId?: string) {
+    if (!rtId?.trim()) {
+      throw this.invalidInput('INVALID_RT', 'rtId is required');
+    }
+
+    try {
+      const queue = await this.onboardingService.listReviewQueue(rtId.trim());
+
+      return {
+        success: true,
+        data: queue,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'review_queue_lookup', { rtId });
+    }
+  }
+
+  /**
+   * Claim a case for review; claiming again renews the RT's lease
+   */
+  @Post('queue/:caseId/claim')
+  async claimReview(
+    @Param('caseId', ParseUUIDPipe) caseId: string,
+    @Body() body: { rtId?: string; leaseMinutes?: unknown }
+  ) {
+    const rtId = body?.rtId?.trim();
+    if (!rtId) {
+      throw this.invalidInput('INVALID_RT', 'rtId is required');
+    }
+
+    const leaseMinutes =
+      body.leaseMinutes === undefined ? undefined : Number(body.leaseMinutes);
+    if (
+      leaseMinutes !== undefined &&
+      (!Number.isInteger(leaseMinutes) || leaseMinutes <= 0)
+    ) {
+      throw this.invalidInput(
+        'INVALID_LEASE',
+        'leaseMinutes must be a positive integer'
+      );
+    }
+
+    try {
+      const claim = await this.onboardingService.claimReview(
+        caseId,
+        rtId,
+        leaseMinutes
+      );
+
+      return {
+        success: true,
+        data: claim,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'review_claim', { caseId, rtId });
+    }
+  }
+
+  /**
+   * Release a claimed case back to the queue without a decision
+   */
+  @Post('queue/:caseId/release')
+  async releaseReview(
+    @Param('caseId', ParseUUIDPipe) caseId: string,
+    @Body() body: { rtId?: string }
+  ) {
+    const rtId = body?.rtId?.trim();
+    if (!rtId) {
+      throw this.invalidInput('INVALID_RT', 'rtId is required');
+    }
+
+    try {
+      await this.onboardingService.releaseReview(caseId, rtId);
+
+      return {
+        success: true,
+        data: { caseId, rtId },
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'review_release', {
+        caseId,
+        rtId,
+      });
+    }
+  }
+
+  /**
+   * Complete a claimed review; the outcome is applied as a case transition
+   */
+  @Post('queue/:caseId/complete')
+  async completeReview(
+    @Param('caseId', ParseUUIDPipe) caseId: string,
+    @Body() body: { rtId?: string; outcome?: string; reason?: string }
+  ) {
+    const rtId = body?.rtId?.trim();
+    const outcome = body?.outcome;
+
+    if (!rtId) {
+      throw this.invalidInput('INVALID_RT', 'rtId is required');
+    }
+    if (!outcome || !isReviewOutcome(outcome)) {
+      throw this.invalidInput(
+        'INVALID_OUTCOME',
+        `outcome must be one of: ${REVIEW_OUTCOMES.join(', ')}`
+      );
+    }
+
+    try {
+      const onboardingCase = await this.onboardingService.completeReview(
+        caseId,
+        rtId,
+        outcome,
+        body.reason
+      );
+
+      return {
+        success: true,
+        data: onboardingCase,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'review_complete', {
+        caseId,
+        outcome,
+      });
+    }
+  }
+
+  /**
+   * Validates the body shared by import preview and commit
+   */
+  private readImportBody(body: { orgUuid?: string; csv?: unknown }): {
+    orgUuid: string;
+    csv: string;
+  } {
+    const orgUuid = body?.orgUuid?.trim();
+    if (!orgUuid) {
+      throw this.invalidInput(
+        NIV_ERRORS.INVALID_ORG_UUID,
+        'Organization UUID is required'
+      );
+    }
+    if (typeof body.csv !== 'string' || body.csv.trim() === '') {
+      throw this.invalidInput('INVALID_CSV', 'csv must be the file contents');
+    }
+    return { orgUuid, csv: body.csv };
+  }
+
+  /**
+   * Builds a 400 response for request validation failures
+   */
+  /**
+   * Parses an optional whole-number query parameter. Number, unlike
+   * parseInt, rejects "1abc" and "2.5" instead of truncating them
+   */
+  private parseWholeNumberQuery(
+    value: string | undefined,
+    min: number,
+    error: string,
+    message: string
+  ): number | undefined {
+    if (value === undefined) return undefined;
+
+    const parsed = value.trim() === '' ? NaN : Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+      throw this.invalidInput(error, message);
+    }
+    return parsed;
+  }
+
+  private parseFacilityIdQuery(facilityId?: string): number | undefined {
+    return this.parseWholeNumberQuery(
+      facilityId,
+      1,
+      'INVALID_FACILITY_ID',
+      'facilityId must be a positive whole number'
+    );
+  }
+
+  private invalidInput(error: string, message: string): HttpException {
+    return new HttpException(
+      {
+        error,
+        message,
+        timestamp: new Date().toISOString(),
+      },
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  /**
+   * Maps domain errors to appropriate HTTP responses
+   * This is where we translate business errors into HTTP status codes
+   */
+  private mapDomainErrorToHttp(
+    error: unknown,
+    operation: string,
+    context?: Record<string, unknown>
+  ): HttpException {
+    if (error instanceof OnboardingError) {
+      const httpStatus = this.getHttpStatusForDomainError(error);
+      const responseBody = this.buildErrorResponse(error, operation, context);
+
+      return new HttpException(responseBody, httpStatus);
+    }
+
+    // Fallback for unexpected errors
+    this.logger.error(`Unexpected error in ${operation}:`, error);
+
+    return new HttpException(
+      {
+        error: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+        operation,
+        timestamp: new Date().toISOString(),
+        ...(context && { context }),
+      },
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+
+  /**
+   * Maps domain error actions to HTTP status codes
+   * This implements the cross-boundary error handling strategy
+   */
+  private getHttpStatusForDomainError(error: OnboardingError): HttpStatus {
+    // Map based on the error's action guidance
+    switch (error.action) {
+      case 'stop':
+        // Fatal errors that should stop processing
+        switch (error.code) {
+          case NIV_ERRORS.PATIENT_NOT_FOUND:
+          case NIV_ERRORS.FACILITY_NOT_FOUND:
+          case NIV_ERRORS.CASE_NOT_FOUND:
+          case NIV_ERRORS.SCREENING_JOB_NOT_FOUND:
+          case NIV_ERRORS.CASE_DOCUMENT_NOT_FOUND:
+            return HttpStatus.NOT_FOUND;
+          case NIV_ERRORS.CASE_ALREADY_EXISTS:
+          case NIV_ERRORS.ILLEGAL_STATUS_TRANSITION:
+          case NIV_ERRORS.REVIEW_CLAIM_REJECTED:
+          case NIV_ERRORS.VISIT_REJECTED:
+          case NIV_ERRORS.SCREENING_ALREADY_RUNNING:
+            return HttpStatus.CONFLICT;
+          case NIV_ERRORS.PCC_UNAUTHORIZED:
+            return HttpStatus.UNAUTHORIZED;
+          case NIV_ERRORS.QUALIFICATION_FAILED:
+            return HttpStatus.UNPROCESSABLE_ENTITY; // 422 - business rule violation
+          default:
+            return HttpStatus.BAD_REQUEST;
+        }
+
+      case 'retry':
+        // Temporary failures that can be retried
+        switch (error.code) {
+          case NIV_ERRORS.PCC_UNAVAILABLE:
+          case NIV_ERRORS.PCC_TIMEOUT:
+          case NIV_ERRORS.CASE_STORE_UNAVAILABLE:
+            return HttpStatus.SERVICE_UNAVAILABLE; // 503 - retry later
+          default:
+            return HttpStatus.SERVICE_UNAVAILABLE;
+        }
+
+      case 'user-input':
+        // Errors requiring user action
+        switch (error.code) {
+          case NIV_ERRORS.MISSING_CLINICAL_DATA:
+          case NIV_ERRORS.RT_ASSIGNMENT_FAILED:
+            return HttpStatus.UNPROCESSABLE_ENTITY; // 422 - user action needed
+          case NIV_ERRORS.RULE_SET_NOT_FOUND:
+            return HttpStatus.NOT_FOUND;
           default:
             return HttpStatus.BAD_REQUEST;
         }
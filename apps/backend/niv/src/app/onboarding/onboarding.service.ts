@@ -16,21 +16,87 @@
  * All business logic has been moved to onboarding.ts for clean separation.
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import type { CaseDocument, CaseDocumentUpload } from './case-document';
+import type { OnboardingCaseFilter } from './case-operations';
+import type { CaseTransition, CaseTransitionRecord } from './case-workflow';
 import {
   createOnboardingOperations,
   type OnboardingOperations,
 } from './onboarding';
+import type { Facility, FacilityGroup } from './facility';
+import type { FacilitySyncReport } from './facility-directory';
+import type { FacilityFilter } from './facility-operations';
+import type { LabOrder } from './lab-order';
+import type { LabOrderFilter } from './lab-order-operations';
+import type { InAppNotification } from './notification';
+import type { OnboardingCase } from './onboarding-case';
+import type {
+  PatientImportPreview,
+  PatientImportReport,
+} from './patient-import';
+import type { PccEventNotice } from './pcc-event';
+import type { PccEventReceipt } from './pcc-events';
+import type { ProgressNoteWriteBack } from './progress-note';
+import type { ReReviewJob, ReReviewSettings } from './re-review';
+import type { RuleSetStamp } from './rule-set';
+import type {
+  ExportFormat,
+  ScreeningExport,
+  ScreeningExportFilter,
+} from './screening-export';
+import type {
+  ScreeningJob,
+  ScreeningResult,
+  ScreeningResultOutcome,
+} from './screening-job';
+import type { ScreeningJobFilter } from './screening-operations';
+import type { OverdueVisit, RtVisit } from './rt-visit';
+import type { StaffSyncReport } from './staff-directory';
+import type { StaffChanges, StaffDetails, StaffMember } from './staff-member';
+import type { StaffFilter } from './staff-operations';
+import type { ActiveCaseFilter } from './visit-operations';
+import type { RtVisitInput } from './visit-tracking';
+import type {
+  WebhookSubscription,
+  WebhookSubscriptionSettings,
+  WebhookSubscriptionStatus,
+} from './webhook-subscription';
+import type {
+  FacilityDeliveryErrors,
+  WebhookReconciliation,
+  WebhookSubscriptionReceipt,
+} from './webhook-subscriptions';
 import type {
   AssessmentResult,
   ConnectionTestResult,
   MockTestResult,
+  ReEvaluationResult,
 } from './qualifications';
+import type {
+  ReviewClaim,
+  ReviewOutcome,
+  ReviewQueueEntry,
+} from './review-queue';
 
 @Injectable()
-export class OnboardingService {
+export class OnboardingService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(OnboardingService.name);
   private readonly onboardingOperations: OnboardingOperations;
+  private notificationRetryTimer: NodeJS.Timeout | null = null;
+  private reReviewTimer: NodeJS.Timeout | null = null;
+  private overdueVisitTimer: NodeJS.Timeout | null = null;
+  private labResultTimer: NodeJS.Timeout | null = null;
+  private adtSyncTimer: NodeJS.Timeout | null = null;
+  private facilitySyncTimer: NodeJS.Timeout | null = null;
+  private staffSyncTimer: NodeJS.Timeout | null = null;
+  private progressNoteRetryTimer: NodeJS.Timeout | null = null;
+  private pccEventRetryTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     // Create framework-agnostic onboarding operations
@@ -38,6 +104,125 @@ export class OnboardingService {
     this.onboardingOperations = createOnboardingOperations();
   }
 
+  /**
+   * Start the background sweeps, each on its own interval:
+   *
+   * - NOTIFICATION_RETRY_INTERVAL_MS: notification retry (default 60s)
+   * - RE_REVIEW_SWEEP_INTERVAL_MS: due re-reviews (default 5 min)
+   * - VISIT_OVERDUE_SWEEP_INTERVAL_MS: overdue RT visits (default 1h)
+   * - LAB_RESULT_SWEEP_INTERVAL_MS: results for ordered labs (default 30 min)
+   * - ADT_SYNC_INTERVAL_MS: census sync with PCC ADT records (default 1h)
+   * - FACILITY_SYNC_INTERVAL_MS: facility directory refresh (default 24h)
+   * - STAFF_SYNC_INTERVAL_MS: practitioner import from PCC (default 24h)
+   * - PROGRESS_NOTE_RETRY_INTERVAL_MS: chart write-backs PCC did not
+   *   accept (default 5 min)
+   * - PCC_EVENT_RETRY_INTERVAL_MS: webhook events that failed or stalled
+   *   (default 1 min)
+   */
+  onModuleInit(): void {
+    const intervalMs = parseInt(
+      process.env.NOTIFICATION_RETRY_INTERVAL_MS || '60000',
+      10
+    );
+
+    this.notificationRetryTimer = setInterval(
+      () => void this.retryNotifications(),
+      intervalMs
+    );
+    // Never keep the process alive just for retries
+    this.notificationRetryTimer.unref();
+
+    // The schedule lives in Postgres, so due re-reviews survive restarts
+    this.reReviewTimer = setInterval(
+      () => void this.runDueReReviews(),
+      parseInt(process.env.RE_REVIEW_SWEEP_INTERVAL_MS || '300000', 10)
+    );
+    this.reReviewTimer.unref();
+
+    this.overdueVisitTimer = setInterval(
+      () => void this.alertOverdueVisits(),
+      parseInt(process.env.VISIT_OVERDUE_SWEEP_INTERVAL_MS || '3600000', 10)
+    );
+    this.overdueVisitTimer.unref();
+
+    this.labResultTimer = setInterval(
+      () => void this.checkLabResults(),
+      parseInt(process.env.LAB_RESULT_SWEEP_INTERVAL_MS || '1800000', 10)
+    );
+    this.labResultTimer.unref();
+
+    // Webhooks cover most census changes; the sweep catches missed ones
+    this.adtSyncTimer = setInterval(
+      () => void this.syncAdtRecords(),
+      parseInt(process.env.ADT_SYNC_INTERVAL_MS || '3600000', 10)
+    );
+    this.adtSyncTimer.unref();
+
+    this.facilitySyncTimer = setInterval(
+      () => void this.syncAllFacilities(),
+      parseInt(process.env.FACILITY_SYNC_INTERVAL_MS || '86400000', 10)
+    );
+    this.facilitySyncTimer.unref();
+
+    this.staffSyncTimer = setInterval(
+      () => void this.syncAllPractitioners(),
+      parseInt(process.env.STAFF_SYNC_INTERVAL_MS || '86400000', 10)
+    );
+    this.staffSyncTimer.unref();
+
+    this.progressNoteRetryTimer = setInterval(
+      () => void this.retryProgressNotes(),
+      parseInt(process.env.PROGRESS_NOTE_RETRY_INTERVAL_MS || '300000', 10)
+    );
+    this.progressNoteRetryTimer.unref();
+
+    // PCC does not redeliver acknowledged events, so failures retry here
+    this.pccEventRetryTimer = setInterval(
+      () => void this.retryPccEvents(),
+      parseInt(process.env.PCC_EVENT_RETRY_INTERVAL_MS || '60000', 10)
+    );
+    this.pccEventRetryTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.notificationRetryTimer) {
+      clearInterval(this.notificationRetryTimer);
+      this.notificationRetryTimer = null;
+    }
+    if (this.reReviewTimer) {
+      clearInterval(this.reReviewTimer);
+      this.reReviewTimer = null;
+    }
+    if (this.overdueVisitTimer) {
+      clearInterval(this.overdueVisitTimer);
+      this.overdueVisitTimer = null;
+    }
+    if (this.labResultTimer) {
+      clearInterval(this.labResultTimer);
+      this.labResultTimer = null;
+    }
+    if (this.adtSyncTimer) {
+      clearInterval(this.adtSyncTimer);
+      this.adtSyncTimer = null;
+    }
+    if (this.facilitySyncTimer) {
+      clearInterval(this.facilitySyncTimer);
+      this.facilitySyncTimer = null;
+    }
+    if (this.staffSyncTimer) {
+      clearInterval(this.staffSyncTimer);
+      this.staffSyncTimer = null;
+    }
+    if (this.progressNoteRetryTimer) {
+      clearInterval(this.progressNoteRetryTimer);
+      this.progressNoteRetryTimer = null;
+    }
+    if (this.pccEventRetryTimer) {
+      clearInterval(this.pccEventRetryTimer);
+      this.pccEventRetryTimer = null;
+    }
+  }
+
   /**
    * Get patient NIV qualifications - core business operation
    *
@@ -162,4 +347,1333 @@ export class OnboardingService {
       throw error; // Re-throw for controller to handle
     }
   }
+
+  /**
+   * List qualification rule sets
+   */
+  async listRuleSets(): Promise<Array<RuleSetStamp & { isActive: boolean }>> {
+    return await this.onboardingOperations.listRuleSets();
+  }
+
+  /**
+   * Re-evaluate a patient under a chosen rule set version
+   *
+   * Logged for audit - shows who previewed which criteria change
+   */
+  async reEvaluatePatient(
+    orgUuid: string,
+    patientId: number,
+    ruleSetVersion: string
+  ): Promise<ReEvaluationResult> {
+    this.logger.log(
+      `Re-evaluation of patient ${patientId} in org ${orgUuid} under rule set ${ruleSetVersion} requested`
+    );
+
+    try {
+      const result = await this.onboardingOperations.reEvaluatePatient(
+        orgUuid,
+        patientId,
+        ruleSetVersion
+      );
+
+      this.logger.log(
+        `Patient ${patientId} re-evaluated under rule set ${ruleSetVersion}: ${
+          result.data?.impact.eligibilityChanged
+            ? 'ELIGIBILITY_CHANGED'
+            : 'NO_ELIGIBILITY_CHANGE'
+        }`
+      );
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Re-evaluation failed for patient ${patientId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        patientId,
+        orgUuid,
+        ruleSetVersion,
+        operation: 'patient_re_evaluation',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Enroll a patient in NIV onboarding - core business operation
+   *
+   * NestJS Adapter Responsibilities:
+   * - Request logging for healthcare audit trails
+   * - Error handling and context for monitoring
+   * - Delegating to framework-agnostic business operations
+   */
+  async createCase(
+    orgUuid: string,
+    patientId: number
+  ): Promise<OnboardingCase> {
+    this.logger.log(
+      `Onboarding case requested for patient ${patientId} in org ${orgUuid}`
+    );
+
+    try {
+      const onboardingCase = await this.onboardingOperations.createCase(
+        orgUuid,
+        patientId
+      );
+
+      // Log result for healthcare audit trails
+      this.logger.log(
+        `Onboarding case ${onboardingCase.caseId} opened for patient ${patientId}: ${
+          onboardingCase.qualification?.isNivEligible
+            ? 'ELIGIBLE'
+            : 'NOT_ELIGIBLE'
+        }`
+      );
+
+      return onboardingCase;
+    } catch (error) {
+      this.logger.error(
+        `Onboarding case creation failed for patient ${patientId}:`,
+        {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+          patientId,
+          orgUuid,
+          operation: 'case_create',
+        }
+      );
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Get a single onboarding case
+   */
+  async getCase(caseId: string): Promise<OnboardingCase> {
+    this.logger.log(`Onboarding case ${caseId} requested`);
+
+    try {
+      return await this.onboardingOperations.getCase(caseId);
+    } catch (error) {
+      this.logger.error(`Onboarding case lookup failed for ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        operation: 'case_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * List onboarding cases
+   */
+  async listCases(filter: OnboardingCaseFilter): Promise<OnboardingCase[]> {
+    this.logger.log(
+      `Onboarding case list requested: ${JSON.stringify(filter)}`
+    );
+
+    try {
+      return await this.onboardingOperations.listCases(filter);
+    } catch (error) {
+      this.logger.error('Onboarding case list failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filter,
+        operation: 'case_list',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Move an onboarding case through the workflow
+   *
+   * Logs actor and reason for healthcare audit trails
+   */
+  async transitionCase(
+    caseId: string,
+    transition: CaseTransition,
+    actor: string,
+    reason?: string
+  ): Promise<OnboardingCase> {
+    this.logger.log(
+      `Onboarding case ${caseId} transition ${transition} requested by ${actor}`
+    );
+
+    try {
+      const onboardingCase = await this.onboardingOperations.transitionCase(
+        caseId,
+        transition,
+        actor,
+        reason
+      );
+
+      this.logger.log(
+        `Onboarding case ${caseId} is now ${onboardingCase.status} (${transition} by ${actor})`
+      );
+
+      return onboardingCase;
+    } catch (error) {
+      this.logger.error(`Onboarding case transition failed for ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        transition,
+        actor,
+        operation: 'case_transition',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Get the transition history of an onboarding case
+   */
+  async getCaseHistory(caseId: string): Promise<CaseTransitionRecord[]> {
+    this.logger.log(`Onboarding case ${caseId} history requested`);
+
+    try {
+      return await this.onboardingOperations.getCaseHistory(caseId);
+    } catch (error) {
+      this.logger.error(`Onboarding case history failed for ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        operation: 'case_transition_history',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Assign or reassign the respiratory therapist for a case
+   */
+  async assignCaseRt(
+    caseId: string,
+    assignedBy: string,
+    rtId?: string,
+    reason?: string
+  ): Promise<OnboardingCase> {
+    this.logger.log(
+      `RT assignment for case ${caseId} requested by ${assignedBy}${
+        rtId ? ` (manual: ${rtId})` : ''
+      }`
+    );
+
+    try {
+      const onboardingCase = await this.onboardingOperations.assignCaseRt(
+        caseId,
+        assignedBy,
+        rtId,
+        reason
+      );
+
+      this.logger.log(
+        `Case ${caseId} assigned to RT ${onboardingCase.assignedRtId}`
+      );
+
+      return onboardingCase;
+    } catch (error) {
+      this.logger.error(`RT assignment failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        rtId,
+        assignedBy,
+        operation: 'rt_assignment',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Re-send failed notification deliveries that are due
+   *
+   * Runs on a timer - logs instead of throwing
+   */
+  async retryNotifications(): Promise<void> {
+    try {
+      const report = await this.onboardingOperations.retryNotifications();
+
+      if (report.attempted > 0) {
+        this.logger.log(
+          `Notification retry: ${report.sent}/${report.attempted} delivered, ${report.failed} still failing`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Notification retry sweep failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        operation: 'notification_retry',
+      });
+    }
+  }
+
+  /**
+   * List in-app notifications for a user
+   */
+  async listInAppNotifications(
+    recipientId: string,
+    unreadOnly: boolean
+  ): Promise<InAppNotification[]> {
+    try {
+      return await this.onboardingOperations.listInAppNotifications(
+        recipientId,
+        unreadOnly
+      );
+    } catch (error) {
+      this.logger.error(`In-app notification list failed for ${recipientId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        recipientId,
+        operation: 'in_app_notification_list',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * List cases waiting for review at the RT's facilities
+   */
+  async listReviewQueue(rtId: string): Promise<ReviewQueueEntry[]> {
+    this.logger.log(`Review queue requested by RT ${rtId}`);
+
+    try {
+      return await this.onboardingOperations.listReviewQueue(rtId);
+    } catch (error) {
+      this.logger.error(`Review queue lookup failed for RT ${rtId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        rtId,
+        operation: 'review_queue_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Claim a case for review under a lease
+   */
+  async claimReview(
+    caseId: string,
+    rtId: string,
+    leaseMinutes?: number
+  ): Promise<ReviewClaim> {
+    this.logger.log(`Review claim on case ${caseId} requested by RT ${rtId}`);
+
+    try {
+      const claim = await this.onboardingOperations.claimReview(
+        caseId,
+        rtId,
+        leaseMinutes
+      );
+
+      this.logger.log(
+        `Case ${caseId} claimed by RT ${rtId} until ${claim.leaseExpiresAt.toISOString()}`
+      );
+
+      return claim;
+    } catch (error) {
+      this.logger.error(`Review claim failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        rtId,
+        operation: 'review_claim',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Release a claimed case back to the queue
+   */
+  async releaseReview(caseId: string, rtId: string): Promise<void> {
+    this.logger.log(`Review release on case ${caseId} requested by RT ${rtId}`);
+
+    try {
+      await this.onboardingOperations.releaseReview(caseId, rtId);
+    } catch (error) {
+      this.logger.error(`Review release failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        rtId,
+        operation: 'review_release',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Complete a review - logs the RT decision for healthcare audit trails
+   */
+  async completeReview(
+    caseId: string,
+    rtId: string,
+    outcome: ReviewOutcome,
+    reason?: string
+  ): Promise<OnboardingCase> {
+    this.logger.log(
+      `Review of case ${caseId} completed by RT ${rtId}: ${outcome}`
+    );
+
+    try {
+      const onboardingCase = await this.onboardingOperations.completeReview(
+        caseId,
+        rtId,
+        outcome,
+        reason
+      );
+
+      this.logger.log(
+        `Onboarding case ${caseId} is now ${onboardingCase.status} (${outcome} by ${rtId})`
+      );
+
+      return onboardingCase;
+    } catch (error) {
+      this.logger.error(`Review completion failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        rtId,
+        outcome,
+        operation: 'review_complete',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Re-review REVIEWED cases whose re-review is due
+   *
+   * Runs on a timer - logs instead of throwing
+   */
+  async runDueReReviews(): Promise<void> {
+    try {
+      const report = await this.onboardingOperations.runDueReReviews();
+
+      if (report.due > 0) {
+        this.logger.log(
+          `Re-review sweep: ${report.reopened}/${report.due} reopened, ${report.cancelled} cancelled, ${report.failed} failed`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Re-review sweep failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        operation: 're_review_sweep',
+      });
+    }
+  }
+
+  /**
+   * Get the re-review scheduled for a case
+   */
+  async getReReviewSchedule(caseId: string): Promise<ReReviewJob | null> {
+    try {
+      return await this.onboardingOperations.getReReviewSchedule(caseId);
+    } catch (error) {
+      this.logger.error(`Re-review lookup failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        operation: 're_review_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Get the organization's re-review interval
+   */
+  async getReReviewSettings(orgUuid: string): Promise<ReReviewSettings> {
+    try {
+      return await this.onboardingOperations.getReReviewSettings(orgUuid);
+    } catch (error) {
+      this.logger.error(`Re-review settings lookup failed for ${orgUuid}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        operation: 're_review_settings_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Set the organization's re-review interval
+   */
+  async updateReReviewSettings(
+    orgUuid: string,
+    intervalDays: number
+  ): Promise<ReReviewSettings> {
+    this.logger.log(
+      `Re-review interval for org ${orgUuid} set to ${intervalDays} days`
+    );
+
+    try {
+      return await this.onboardingOperations.updateReReviewSettings(
+        orgUuid,
+        intervalDays
+      );
+    } catch (error) {
+      this.logger.error(`Re-review settings update failed for ${orgUuid}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        intervalDays,
+        operation: 're_review_settings_save',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Record a weekly RT visit
+   */
+  async recordRtVisit(caseId: string, input: RtVisitInput): Promise<RtVisit> {
+    this.logger.log(`RT visit for case ${caseId} recorded by RT ${input.rtId}`);
+
+    try {
+      return await this.onboardingOperations.recordRtVisit(caseId, input);
+    } catch (error) {
+      this.logger.error(`RT visit recording failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        rtId: input.rtId,
+        operation: 'rt_visit_save',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * List a case's RT visits
+   */
+  async listCaseVisits(caseId: string): Promise<RtVisit[]> {
+    try {
+      return await this.onboardingOperations.listCaseVisits(caseId);
+    } catch (error) {
+      this.logger.error(`RT visit lookup failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        operation: 'rt_visit_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * List overdue weekly visits
+   */
+  async listOverdueVisits(filter: ActiveCaseFilter): Promise<OverdueVisit[]> {
+    this.logger.log(`Overdue visits requested: ${JSON.stringify(filter)}`);
+
+    try {
+      return await this.onboardingOperations.listOverdueVisits(filter);
+    } catch (error) {
+      this.logger.error('Overdue visit lookup failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filter,
+        operation: 'overdue_visit_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Alert staff about missed visits
+   *
+   * Runs on a timer - logs instead of throwing
+   */
+  async alertOverdueVisits(): Promise<void> {
+    try {
+      const report = await this.onboardingOperations.alertOverdueVisits();
+
+      if (report.alerted > 0) {
+        this.logger.log(
+          `Overdue visit sweep: ${report.alerted} new alerts, ${report.overdue} visits overdue`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Overdue visit sweep failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        operation: 'overdue_visit_sweep',
+      });
+    }
+  }
+
+  /**
+   * List the lab-order worklist
+   */
+  async listLabOrders(filter: LabOrderFilter): Promise<LabOrder[]> {
+    this.logger.log(`Lab-order worklist requested: ${JSON.stringify(filter)}`);
+
+    try {
+      return await this.onboardingOperations.listLabOrders(filter);
+    } catch (error) {
+      this.logger.error('Lab-order worklist lookup failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filter,
+        operation: 'lab_order_list',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Check the EHR for results of open lab orders
+   *
+   * Runs on a timer - logs instead of throwing
+   */
+  async checkLabResults(): Promise<void> {
+    try {
+      const report = await this.onboardingOperations.checkLabResults();
+
+      if (report.resulted > 0 || report.failed > 0) {
+        this.logger.log(
+          `Lab result sweep: ${report.resulted}/${report.checked} resulted, ${report.cancelled} cancelled, ${report.failed} failed`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Lab result sweep failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        operation: 'lab_result_sweep',
+      });
+    }
+  }
+
+  /**
+   * Start a facility-wide (or organization-wide) screening job
+   */
+  async startScreening(
+    orgUuid: string,
+    facilityId: number | null,
+    requestedBy: string
+  ): Promise<ScreeningJob> {
+    this.logger.log(
+      `Screening requested by ${requestedBy} for org ${orgUuid}${
+        facilityId === null ? '' : `, facility ${facilityId}`
+      }`
+    );
+
+    try {
+      const job = await this.onboardingOperations.startScreening(
+        orgUuid,
+        facilityId,
+        requestedBy
+      );
+
+      this.logger.log(`Screening job ${job.jobId} started`);
+      return job;
+    } catch (error) {
+      this.logger.error('Screening start failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        facilityId,
+        operation: 'screening_start',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Get a screening job and its progress
+   */
+  async getScreeningJob(jobId: string): Promise<ScreeningJob> {
+    try {
+      return await this.onboardingOperations.getScreeningJob(jobId);
+    } catch (error) {
+      this.logger.error(`Screening job lookup failed for ${jobId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        jobId,
+        operation: 'screening_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * List screening jobs
+   */
+  async listScreeningJobs(filter: ScreeningJobFilter): Promise<ScreeningJob[]> {
+    try {
+      return await this.onboardingOperations.listScreeningJobs(filter);
+    } catch (error) {
+      this.logger.error('Screening job list failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filter,
+        operation: 'screening_list',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * List a screening job's per-patient results
+   */
+  async listScreeningResults(
+    jobId: string,
+    outcome?: ScreeningResultOutcome
+  ): Promise<ScreeningResult[]> {
+    try {
+      return await this.onboardingOperations.listScreeningResults(
+        jobId,
+        outcome
+      );
+    } catch (error) {
+      this.logger.error(`Screening results lookup failed for ${jobId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        jobId,
+        outcome,
+        operation: 'screening_result_list',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * List a screening job's per-patient results grouped by facility
+   */
+  async listScreeningResultsByFacility(
+    jobId: string,
+    outcome?: ScreeningResultOutcome
+  ): Promise<FacilityGroup<ScreeningResult>[]> {
+    try {
+      return await this.onboardingOperations.listScreeningResultsByFacility(
+        jobId,
+        outcome
+      );
+    } catch (error) {
+      this.logger.error(`Screening results lookup failed for ${jobId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        jobId,
+        outcome,
+        operation: 'screening_result_list',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Export the latest screening result of each patient
+   */
+  async exportScreeningResults(
+    filter: ScreeningExportFilter,
+    format: ExportFormat
+  ): Promise<ScreeningExport> {
+    try {
+      return await this.onboardingOperations.exportScreeningResults(
+        filter,
+        format
+      );
+    } catch (error) {
+      this.logger.error('Screening export failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filter,
+        format,
+        operation: 'screening_export',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Resolve a patient import file without saving
+   */
+  async previewPatientImport(
+    orgUuid: string,
+    csv: string
+  ): Promise<PatientImportPreview> {
+    try {
+      return await this.onboardingOperations.previewPatientImport(orgUuid, csv);
+    } catch (error) {
+      this.logger.error('Patient import preview failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        operation: 'patient_import_preview',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Open onboarding cases for a patient import file
+   */
+  async commitPatientImport(
+    orgUuid: string,
+    csv: string
+  ): Promise<PatientImportReport> {
+    try {
+      const report = await this.onboardingOperations.commitPatientImport(
+        orgUuid,
+        csv
+      );
+
+      // Log result for healthcare audit trails
+      this.logger.log(
+        `Patient import for org ${orgUuid} completed: ${report.summary.created} created, ${report.summary.skipped} skipped, ${report.summary.failed} failed`
+      );
+
+      return report;
+    } catch (error) {
+      this.logger.error('Patient import failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        operation: 'patient_import',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Accept a PCC webhook event
+   */
+  async receivePccEvent(notice: PccEventNotice): Promise<PccEventReceipt> {
+    try {
+      const receipt = await this.onboardingOperations.receivePccEvent(notice);
+
+      // Log receipt for healthcare audit trails
+      this.logger.log(
+        `PCC event ${notice.messageId} (${notice.eventType}) ${
+          receipt.duplicate ? 'already recorded' : 'accepted'
+        }`
+      );
+
+      return receipt;
+    } catch (error) {
+      this.logger.error(`PCC event ${notice.messageId} not recorded:`, {
+        error: error instanceof Error ? error.message : String(error),
+        messageId: notice.messageId,
+        eventType: notice.eventType,
+        orgUuid: notice.orgUuid,
+        operation: 'pcc_event_receive',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Run again PCC webhook events that failed or stalled (timer-driven)
+   */
+  async retryPccEvents(): Promise<void> {
+    try {
+      const report = await this.onboardingOperations.retryPccEvents();
+
+      if (report.attempted > 0) {
+        this.logger.log(
+          `PCC event retry: ${report.sent}/${report.attempted} processed, ${report.failed} still failing`
+        );
+      }
+    } catch (error) {
+      this.logger.error('PCC event retry sweep failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        operation: 'pcc_event_retry',
+      });
+    }
+  }
+
+  /**
+   * List the application's PCC webhook subscriptions
+   */
+  async listWebhookSubscriptions(
+    orgUuid?: string,
+    status?: WebhookSubscriptionStatus
+  ): Promise<WebhookSubscription[]> {
+    try {
+      return await this.onboardingOperations.listWebhookSubscriptions(
+        orgUuid,
+        status
+      );
+    } catch (error) {
+      this.logger.error('Webhook subscription lookup failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        status,
+        operation: 'webhook_subscriptions_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Request a new PCC webhook subscription
+   */
+  async createWebhookSubscription(
+    settings: WebhookSubscriptionSettings
+  ): Promise<WebhookSubscriptionReceipt> {
+    try {
+      const receipt =
+        await this.onboardingOperations.createWebhookSubscription(settings);
+
+      // Log request for audit trails
+      this.logger.log(
+        `Webhook subscription ${receipt.subscriptionId} requested for ${settings.endUrl}`
+      );
+
+      return receipt;
+    } catch (error) {
+      this.logger.error('Webhook subscription request failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        endUrl: settings.endUrl,
+        operation: 'webhook_subscription_save',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Request a change to a PCC webhook subscription
+   */
+  async updateWebhookSubscription(
+    subscriptionId: number,
+    changes: Partial<WebhookSubscriptionSettings>
+  ): Promise<WebhookSubscriptionReceipt> {
+    try {
+      const receipt = await this.onboardingOperations.updateWebhookSubscription(
+        subscriptionId,
+        changes
+      );
+
+      // Log request for audit trails
+      this.logger.log(
+        `Webhook subscription ${receipt.subscriptionId} requested to replace ${subscriptionId}`
+      );
+
+      return receipt;
+    } catch (error) {
+      this.logger.error(
+        `Webhook subscription ${subscriptionId} change failed:`,
+        {
+          error: error instanceof Error ? error.message : String(error),
+          subscriptionId,
+          operation: 'webhook_subscription_save',
+        }
+      );
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Reconcile PCC with the configured webhook subscription
+   */
+  async reconcileWebhookSubscriptions(
+    dryRun: boolean
+  ): Promise<WebhookReconciliation> {
+    try {
+      const result =
+        await this.onboardingOperations.reconcileWebhookSubscriptions(dryRun);
+
+      this.logger.log(
+        `Webhook subscription reconcile${dryRun ? ' (dry run)' : ''}: ${
+          result.action
+        }${
+          result.differences.length > 0
+            ? ` - ${result.differences.join('; ')}`
+            : ''
+        }`
+      );
+
+      return result;
+    } catch (error) {
+      this.logger.error('Webhook subscription reconcile failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        dryRun,
+        operation: 'webhook_subscription_reconcile',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * List webhook deliveries PCC could not make to the facilities
+   */
+  async listWebhookDeliveryErrors(
+    orgUuid: string,
+    facilityIds: number[]
+  ): Promise<FacilityDeliveryErrors[]> {
+    try {
+      return await this.onboardingOperations.listWebhookDeliveryErrors(
+        orgUuid,
+        facilityIds
+      );
+    } catch (error) {
+      this.logger.error('Webhook delivery error lookup failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        facilityIds,
+        operation: 'webhook_errors_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Sync tracked cases with their patients' ADT records
+   *
+   * Runs on a timer - logs instead of throwing
+   */
+  async syncAdtRecords(): Promise<void> {
+    try {
+      const report = await this.onboardingOperations.syncAdtRecords();
+
+      if (report.changed.length > 0 || report.failed.length > 0) {
+        this.logger.log(
+          `ADT sync: ${report.changed.length}/${report.checked} cases changed, ${report.failed.length} failed`
+        );
+      }
+      for (const failure of report.failed) {
+        this.logger.warn(
+          `ADT sync failed for case ${failure.caseId}: ${failure.error}`
+        );
+      }
+    } catch (error) {
+      this.logger.error('ADT sync failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        operation: 'adt_sync',
+      });
+    }
+  }
+
+  /**
+   * List facilities from the local directory
+   */
+  async listFacilities(filter: FacilityFilter): Promise<Facility[]> {
+    try {
+      return await this.onboardingOperations.listFacilities(filter);
+    } catch (error) {
+      this.logger.error('Facility list failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filter,
+        operation: 'facility_list',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Get one facility
+   */
+  async getFacility(orgUuid: string, facilityId: number): Promise<Facility> {
+    try {
+      return await this.onboardingOperations.getFacility(orgUuid, facilityId);
+    } catch (error) {
+      this.logger.error(`Facility lookup failed for ${facilityId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        facilityId,
+        operation: 'facility_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Refresh an organization's facilities from PCC
+   */
+  async syncFacilities(orgUuid: string): Promise<FacilitySyncReport> {
+    this.logger.log(`Facility sync requested for ${orgUuid}`);
+
+    try {
+      return await this.onboardingOperations.syncFacilities(orgUuid);
+    } catch (error) {
+      this.logger.error(`Facility sync failed for ${orgUuid}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        operation: 'facility_sync',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Refresh every organization in the facility directory
+   *
+   * Runs on a timer - logs instead of throwing
+   */
+  async syncAllFacilities(): Promise<void> {
+    try {
+      const sweep = await this.onboardingOperations.syncAllFacilities();
+
+      for (const report of sweep.reports) {
+        if (report.deactivated > 0 || report.failed.length > 0) {
+          this.logger.log(
+            `Facility sync for ${report.orgUuid}: ${report.synced} synced, ${report.deactivated} deactivated, ${report.failed.length} without details`
+          );
+        }
+      }
+      for (const failure of sweep.failed) {
+        this.logger.warn(
+          `Facility sync failed for ${failure.orgUuid}: ${failure.error}`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Facility sync sweep failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        operation: 'facility_sync_sweep',
+      });
+    }
+  }
+
+  /**
+   * List the staff directory
+   */
+  async listStaff(filter: StaffFilter): Promise<StaffMember[]> {
+    try {
+      return await this.onboardingOperations.listStaff(filter);
+    } catch (error) {
+      this.logger.error('Staff list failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        filter,
+        operation: 'staff_list',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Get one staff member
+   */
+  async getStaffMember(staffId: string): Promise<StaffMember> {
+    try {
+      return await this.onboardingOperations.getStaffMember(staffId);
+    } catch (error) {
+      this.logger.error(`Staff lookup failed for ${staffId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        staffId,
+        operation: 'staff_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Add a staff member PCC does not list
+   */
+  async addStaffMember(
+    orgUuid: string,
+    details: StaffDetails
+  ): Promise<StaffMember> {
+    this.logger.log(
+      `Adding staff member ${details.firstName} ${details.lastName} to ${orgUuid}`
+    );
+
+    try {
+      return await this.onboardingOperations.addStaffMember(orgUuid, details);
+    } catch (error) {
+      this.logger.error(`Adding staff member to ${orgUuid} failed:`, {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        operation: 'staff_add',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Change a staff member's roles, facilities or contacts
+   */
+  async updateStaffMember(
+    staffId: string,
+    changes: StaffChanges
+  ): Promise<StaffMember> {
+    this.logger.log(`Updating staff member ${staffId}`);
+
+    try {
+      return await this.onboardingOperations.updateStaffMember(
+        staffId,
+        changes
+      );
+    } catch (error) {
+      this.logger.error(`Updating staff member ${staffId} failed:`, {
+        error: error instanceof Error ? error.message : String(error),
+        staffId,
+        operation: 'staff_update',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Import an organization's practitioners from PCC
+   */
+  async syncPractitioners(orgUuid: string): Promise<StaffSyncReport> {
+    this.logger.log(`Practitioner sync requested for ${orgUuid}`);
+
+    try {
+      return await this.onboardingOperations.syncPractitioners(orgUuid);
+    } catch (error) {
+      this.logger.error(`Practitioner sync failed for ${orgUuid}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        orgUuid,
+        operation: 'staff_sync',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Import the practitioners of every organization in the directory
+   *
+   * Runs on a timer - logs instead of throwing
+   */
+  async syncAllPractitioners(): Promise<void> {
+    try {
+      const sweep = await this.onboardingOperations.syncAllPractitioners();
+
+      for (const report of sweep.reports) {
+        if (report.imported > 0 || report.failed.length > 0) {
+          this.logger.log(
+            `Practitioner sync for ${report.orgUuid}: ${report.imported} imported, ${report.updated} updated, ${report.failed.length} patients failed`
+          );
+        }
+      }
+      for (const failure of sweep.failed) {
+        this.logger.warn(
+          `Practitioner sync failed for ${failure.orgUuid}: ${failure.error}`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Practitioner sync sweep failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        operation: 'staff_sync_sweep',
+      });
+    }
+  }
+
+  /**
+   * List the progress notes written back to PCC for a case
+   */
+  async listCaseProgressNotes(
+    caseId: string
+  ): Promise<ProgressNoteWriteBack[]> {
+    try {
+      return await this.onboardingOperations.listCaseProgressNotes(caseId);
+    } catch (error) {
+      this.logger.error(`Progress note lookup failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        operation: 'progress_note_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * Re-send progress notes PCC did not accept that are due
+   *
+   * Runs on a timer - logs instead of throwing
+   */
+  async retryProgressNotes(): Promise<void> {
+    try {
+      const report = await this.onboardingOperations.retryProgressNotes();
+
+      if (report.attempted > 0) {
+        this.logger.log(
+          `Progress note retry: ${report.sent}/${report.attempted} written, ${report.failed} still failing`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Progress note retry sweep failed:', {
+        error: error instanceof Error ? error.message : String(error),
+        operation: 'progress_note_retry',
+      });
+    }
+  }
+
+  /**
+   * Record a document about to be uploaded for a case
+   */
+  async registerCaseDocument(
+    caseId: string,
+    upload: CaseDocumentUpload
+  ): Promise<CaseDocument> {
+    this.logger.log(
+      `Case document upload for case ${caseId}: ${upload.storageKey}`
+    );
+
+    try {
+      return await this.onboardingOperations.registerCaseDocument(
+        caseId,
+        upload
+      );
+    } catch (error) {
+      this.logger.error(`Case document upload failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        operation: 'case_document_register',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * File an uploaded case document in the patient's PCC chart
+   */
+  async attachCaseDocument(documentId: string): Promise<CaseDocument> {
+    this.logger.log(`Case document ${documentId} confirmed`);
+
+    try {
+      const document =
+        await this.onboardingOperations.attachCaseDocument(documentId);
+
+      this.logger.log(
+        `Case document ${documentId} attached to the chart of patient ${document.patientId} as PCC document ${document.pccDocumentId}`
+      );
+      return document;
+    } catch (error) {
+      this.logger.error(`Case document ${documentId} not attached:`, {
+        error: error instanceof Error ? error.message : String(error),
+        documentId,
+        operation: 'case_document_attach',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
+
+  /**
+   * List a case's documents
+   */
+  async listCaseDocuments(caseId: string): Promise<CaseDocument[]> {
+    try {
+      return await this.onboardingOperations.listCaseDocuments(caseId);
+    } catch (error) {
+      this.logger.error(`Case document lookup failed for case ${caseId}:`, {
+        error: error instanceof Error ? error.message : String(error),
+        caseId,
+        operation: 'case_document_lookup',
+      });
+
+      throw error; // Re-throw for controller to handle
+    }
+  }
 }
@@ -11,7 +11,27 @@
  * Functional DDD: Factory function returns object with operation implementations
  */
 
+import {
+  createPostgresClient,
+  createPostgresConfigFromEnv,
+} from '../db/postgres';
+import { createS3DocumentStoreFromEnv } from '../aws/s3-document-store';
+import { createMessageChannelsFromEnv } from '../messaging';
+import { createPostgresAdtRecordRepository } from './adt-record-repository';
+import { createAdtTracking } from './adt-tracking';
+import { createCaseManagement, type CaseManagement } from './case-management';
+import { createCaseNotifications } from './case-notifications';
+import { createPostgresCaseDocumentRepository } from './case-document-repository';
+import { createCaseDocuments } from './case-documents';
+import { createPostgresCaseRepository } from './case-repository';
 import { createEhrAdapter, createMockEhrAdapter } from './ehr';
+import { createFacilityDirectory } from './facility-directory';
+import { createPostgresFacilityRepository } from './facility-repository';
+import { createFacilityScreening } from './facility-screening';
+import { createPostgresLabOrderRepository } from './lab-order-repository';
+import { createLabOrders } from './lab-orders';
+import type { DeliverMessage } from './notification-operations';
+import { createPostgresNotificationRepository } from './notification-repository';
 import {
   createQualifications,
   type AssessmentResult,
@@ -19,11 +39,87 @@ import {
   type MockTestResult,
   type Qualifications,
 } from './qualifications';
+import { createReReviewScheduler } from './re-review';
+import { createPostgresReReviewRepository } from './re-review-repository';
+import { createProgressNoteWriteBack } from './progress-note-write-back';
+import { createPostgresProgressNoteRepository } from './progress-note-repository';
+import { createReviewQueue } from './review-queue';
+import { createPostgresReviewQueueRepository } from './review-queue-repository';
+import { toRuleSetStamp } from './rule-set';
+import { loadRuleSetsFromEnv } from './rule-set-file';
+import { createRtAssignment, isRtAssignmentStrategy } from './rt-assignment';
+import { createPostgresRtRepository } from './rt-repository';
+import { createPatientImport } from './patient-import';
+import { createPccEventHandling } from './pcc-events';
+import { createPostgresPccEventRepository } from './pcc-event-repository';
+import { createScreeningExport } from './screening-export';
+import { createPostgresScreeningRepository } from './screening-repository';
+import { createStaffDirectory } from './staff-directory';
+import { createPostgresStaffRepository } from './staff-repository';
+import { createPostgresVisitRepository } from './visit-repository';
+import { createVisitTracking } from './visit-tracking';
+import { loadWebhookSubscriptionConfigFromEnv } from './webhook-subscription';
+import { createWebhookSubscriptions } from './webhook-subscriptions';
 
 import type {
+  AlertOverdueVisits,
+  CheckLabResults,
+  CommitPatientImport,
+  AssignCaseRt,
+  ClaimReview,
+  CompleteReview,
+  CreateOnboardingCase,
+  GetOnboardingCase,
+  GetOnboardingCaseHistory,
+  GetReReviewSchedule,
+  GetReReviewSettings,
   GetPatientWithQualifications,
+  ListCaseVisits,
+  ListCaseProgressNotes,
+  RetryProgressNotes,
+  RegisterCaseDocument,
+  AttachCaseDocument,
+  ListCaseDocuments,
+  CreateWebhookSubscription,
+  GetFacility,
+  ListFacilities,
+  ListScreeningResultsByFacility,
+  SyncAllFacilities,
+  SyncFacilities,
+  ListStaff,
+  GetStaffMember,
+  AddStaffMember,
+  UpdateStaffMember,
+  SyncPractitioners,
+  SyncAllPractitioners,
+  ListInAppNotifications,
+  ListOnboardingCases,
+  ListLabOrders,
+  ListOverdueVisits,
+  ListReviewQueue,
+  ListRuleSets,
+  ExportScreeningResults,
+  ListScreeningJobs,
+  ListScreeningResults,
+  ListWebhookDeliveryErrors,
+  ListWebhookSubscriptions,
+  GetScreeningJob,
+  PreviewPatientImport,
+  ReceivePccEvent,
+  ReconcileWebhookSubscriptions,
+  RetryPccEvents,
+  ReEvaluatePatient,
+  RecordRtVisit,
+  ReleaseReview,
+  RetryNotifications,
+  RunDueReReviews,
+  StartScreening,
+  SyncAdtRecords,
   TestMockData,
   TestPccConnection,
+  TransitionOnboardingCase,
+  UpdateReReviewSettings,
+  UpdateWebhookSubscription,
 } from './onboarding-operations';
 
 /**
@@ -34,6 +130,61 @@ export type OnboardingOperations = {
   readonly qualifyPatient: GetPatientWithQualifications;
   readonly testPccConnection: TestPccConnection;
   readonly testWithMockData: TestMockData;
+  readonly listRuleSets: ListRuleSets;
+  readonly reEvaluatePatient: ReEvaluatePatient;
+  readonly createCase: CreateOnboardingCase;
+  readonly getCase: GetOnboardingCase;
+  readonly listCases: ListOnboardingCases;
+  readonly transitionCase: TransitionOnboardingCase;
+  readonly getCaseHistory: GetOnboardingCaseHistory;
+  readonly assignCaseRt: AssignCaseRt;
+  readonly retryNotifications: RetryNotifications;
+  readonly listInAppNotifications: ListInAppNotifications;
+  readonly listReviewQueue: ListReviewQueue;
+  readonly claimReview: ClaimReview;
+  readonly releaseReview: ReleaseReview;
+  readonly completeReview: CompleteReview;
+  readonly runDueReReviews: RunDueReReviews;
+  readonly getReReviewSchedule: GetReReviewSchedule;
+  readonly getReReviewSettings: GetReReviewSettings;
+  readonly updateReReviewSettings: UpdateReReviewSettings;
+  readonly recordRtVisit: RecordRtVisit;
+  readonly listCaseVisits: ListCaseVisits;
+  readonly listOverdueVisits: ListOverdueVisits;
+  readonly alertOverdueVisits: AlertOverdueVisits;
+  readonly listLabOrders: ListLabOrders;
+  readonly checkLabResults: CheckLabResults;
+  readonly startScreening: StartScreening;
+  readonly getScreeningJob: GetScreeningJob;
+  readonly listScreeningJobs: ListScreeningJobs;
+  readonly listScreeningResults: ListScreeningResults;
+  readonly listScreeningResultsByFacility: ListScreeningResultsByFacility;
+  readonly exportScreeningResults: ExportScreeningResults;
+  readonly previewPatientImport: PreviewPatientImport;
+  readonly commitPatientImport: CommitPatientImport;
+  readonly receivePccEvent: ReceivePccEvent;
+  readonly retryPccEvents: RetryPccEvents;
+  readonly listWebhookSubscriptions: ListWebhookSubscriptions;
+  readonly createWebhookSubscription: CreateWebhookSubscription;
+  readonly updateWebhookSubscription: UpdateWebhookSubscription;
+  readonly reconcileWebhookSubscriptions: ReconcileWebhookSubscriptions;
+  readonly listWebhookDeliveryErrors: ListWebhookDeliveryErrors;
+  readonly syncAdtRecords: SyncAdtRecords;
+  readonly listFacilities: ListFacilities;
+  readonly getFacility: GetFacility;
+  readonly syncFacilities: SyncFacilities;
+  readonly syncAllFacilities: SyncAllFacilities;
+  readonly listStaff: ListStaff;
+  readonly getStaffMember: GetStaffMember;
+  readonly addStaffMember: AddStaffMember;
+  readonly updateStaffMember: UpdateStaffMember;
+  readonly syncPractitioners: SyncPractitioners;
+  readonly syncAllPractitioners: SyncAllPractitioners;
+  readonly listCaseProgressNotes: ListCaseProgressNotes;
+  readonly retryProgressNotes: RetryProgressNotes;
+  readonly registerCaseDocument: RegisterCaseDocument;
+  readonly attachCaseDocument: AttachCaseDocument;
+  readonly listCaseDocuments: ListCaseDocuments;
 };
 
 /**
@@ -48,23 +199,287 @@ export function createOnboardingOperations(): OnboardingOperations {
   const ehrAdapter = createEhrAdapter();
   const mockEhrAdapter = createMockEhrAdapter();
 
+  // Versioned rule sets and their ICD-10 catalogs - validated here so bad
+  // criteria stop startup
+  const ruleSets = loadRuleSetsFromEnv();
+
   // Create domain service with dependency injection
   // Domain service is framework-agnostic and contains all business logic
   // Exactly the same as current onboarding.service.ts
   const qualifications: Qualifications = createQualifications(
     {
       getPatientWithDiagnoses: ehrAdapter.getPatientWithDiagnoses,
+      getPatientObservations: ehrAdapter.getPatientObservations,
+      getPatientAdvanceDirectives: ehrAdapter.getPatientAdvanceDirectives,
       testConnection: ehrAdapter.testConnection,
       getPatient: ehrAdapter.getPatient,
       getPatientDiagnoses: ehrAdapter.getPatientDiagnoses,
     },
     {
       getPatientWithDiagnoses: mockEhrAdapter.getPatientWithDiagnoses,
+      getPatientObservations: mockEhrAdapter.getPatientObservations,
+      getPatientAdvanceDirectives: mockEhrAdapter.getPatientAdvanceDirectives,
       testConnection: mockEhrAdapter.testConnection,
       getPatient: mockEhrAdapter.getPatient,
       getPatientDiagnoses: mockEhrAdapter.getPatientDiagnoses,
+    },
+    () => ruleSets.active()
+  );
+
+  // Case persistence uses the postgres service from docker-compose.yaml
+  const postgresClient = createPostgresClient(createPostgresConfigFromEnv());
+  const caseRepository = createPostgresCaseRepository(postgresClient);
+  const rtRepository = createPostgresRtRepository(postgresClient);
+
+  // RT_ASSIGNMENT_STRATEGY: round-robin | least-loaded | facility-owner
+  const strategyName = process.env.RT_ASSIGNMENT_STRATEGY || 'least-loaded';
+  const rtAssignment = createRtAssignment(
+    {
+      findFacilityTherapists: rtRepository.findFacilityTherapists,
+      saveAssignment: rtRepository.saveAssignment,
+    },
+    isRtAssignmentStrategy(strategyName) ? strategyName : 'least-loaded'
+  );
+
+  // Notification channels: in-app, email (SMTP or file sink), webhook
+  const notificationRepository =
+    createPostgresNotificationRepository(postgresClient);
+  const channels = createMessageChannelsFromEnv(postgresClient);
+  const deliver: DeliverMessage = async (channelName, message) => {
+    const channel = channels.get(channelName);
+    if (!channel) {
+      throw new Error(`Notification channel ${channelName} is not enabled`);
     }
+    await channel.send(message);
+  };
+
+  const caseNotifications = createCaseNotifications({
+    resolveRecipients: notificationRepository.resolveRecipients,
+    deliver,
+    saveDeliveries: notificationRepository.saveDeliveries,
+    findDueDeliveries: notificationRepository.findDueDeliveries,
+    enabledChannels: [...channels.keys()],
+  });
+
+  // Re-review of REVIEWED cases; RE_REVIEW_INTERVAL_DAYS is the default
+  // for organizations without their own interval
+  const reReviewRepository = createPostgresReReviewRepository(postgresClient);
+  const reReview = createReReviewScheduler({
+    assessQualification: qualifications.assessQualification,
+    findCase: caseRepository.findCase,
+    saveCase: caseRepository.saveCase,
+    saveTransition: caseRepository.saveTransition,
+    saveJob: reReviewRepository.saveJob,
+    claimDueJobs: reReviewRepository.claimDueJobs,
+    updateJob: reReviewRepository.updateJob,
+    findJob: reReviewRepository.findJob,
+    findInterval: reReviewRepository.findInterval,
+    saveInterval: reReviewRepository.saveInterval,
+    defaultIntervalDays: parseInt(
+      process.env.RE_REVIEW_INTERVAL_DAYS || '90',
+      10
+    ),
+  });
+
+  // Lab-order worklist; results found in the EHR send cases to re-review
+  const labOrderRepository = createPostgresLabOrderRepository(postgresClient);
+  const labOrders = createLabOrders({
+    assessQualification: qualifications.assessQualification,
+    getPatientObservations: ehrAdapter.getPatientObservations,
+    findCase: caseRepository.findCase,
+    saveCase: caseRepository.saveCase,
+    saveTransition: caseRepository.saveTransition,
+    saveOrder: labOrderRepository.saveOrder,
+    findOpenOrder: labOrderRepository.findOpenOrder,
+    findOrders: labOrderRepository.findOrders,
+  });
+
+  // Facility directory from PCC /facs, labelling patients and results
+  const facilityRepository = createPostgresFacilityRepository(postgresClient);
+  const facilityDirectory = createFacilityDirectory({
+    getFacilities: ehrAdapter.getFacilities,
+    getFacility: ehrAdapter.getFacility,
+    saveFacilities: facilityRepository.saveFacilities,
+    findFacilities: facilityRepository.findFacilities,
+    findFacility: facilityRepository.findFacility,
+    findFacilityOrgs: facilityRepository.findFacilityOrgs,
+  });
+
+  // Staff directory from the PCC care teams of patients with cases plus
+  // locally added staff; RT assignment and notifications find their
+  // people in its tables
+  const staffRepository = createPostgresStaffRepository(postgresClient);
+  const staffDirectory = createStaffDirectory({
+    getPractitioners: ehrAdapter.getPractitioners,
+    findCases: caseRepository.findCases,
+    findFacilityOrgs: facilityRepository.findFacilityOrgs,
+    saveMembers: staffRepository.saveMembers,
+    findMembers: staffRepository.findMembers,
+    findMember: staffRepository.findMember,
+  });
+
+  // Facility-wide screening; SCREENING_CONCURRENCY bounds the patients
+  // assessed at once so a building-sized job does not flood PCC
+  const screeningRepository = createPostgresScreeningRepository(postgresClient);
+  const screening = createFacilityScreening({
+    assessQualification: qualifications.assessQualification,
+    getPatients: ehrAdapter.getPatients,
+    findCaseByPatient: caseRepository.findCaseByPatient,
+    saveJob: screeningRepository.saveJob,
+    findJob: screeningRepository.findJob,
+    findJobs: screeningRepository.findJobs,
+    saveResult: screeningRepository.saveResult,
+    findResults: screeningRepository.findResults,
+    findFacilities: facilityRepository.findFacilities,
+    listFacilities: facilityDirectory.listFacilities,
+    concurrency: parseInt(process.env.SCREENING_CONCURRENCY || '4', 10) || 4,
+    onJobFailure: (jobId, error) =>
+      console.error(`Screening job ${jobId} stopped:`, error),
+  });
+  const screeningExport = createScreeningExport({
+    streamRows: screeningRepository.streamExportRows,
+  });
+
+  const caseManagement: CaseManagement = createCaseManagement({
+    assessQualification: qualifications.assessQualification,
+    saveCase: caseRepository.saveCase,
+    findCase: caseRepository.findCase,
+    findCaseByPatient: caseRepository.findCaseByPatient,
+    findCases: caseRepository.findCases,
+    saveTransition: caseRepository.saveTransition,
+    findTransitions: caseRepository.findTransitions,
+    assignRt: rtAssignment.assignCase,
+    reassignRt: rtAssignment.reassignCase,
+    notify: caseNotifications.notify,
+    scheduleReReview: reReview.scheduleReReview,
+    orderLabs: labOrders.orderLabs,
+    // Surface NOTIFICATION_FAILED without blocking the onboarding step
+    onNotificationFailure: (error) =>
+      console.error('Case notification failed:', error),
+  });
+
+  // Bulk enrollment from CSV; each matched row opens a case as above
+  const patientImport = createPatientImport({
+    getPatient: ehrAdapter.getPatient,
+    getPatients: ehrAdapter.getPatients,
+    findCaseByPatient: caseRepository.findCaseByPatient,
+    openCase: caseManagement.openCase,
+  });
+
+  // Census from PCC ADT records; ADT_READMISSION_WINDOW_DAYS is how long
+  // a CLOSED case is kept for the patient's readmission
+  const adtRecordRepository = createPostgresAdtRecordRepository(postgresClient);
+  const adtTracking = createAdtTracking({
+    getPatient: ehrAdapter.getPatient,
+    getAdtRecords: ehrAdapter.getPatientAdtRecords,
+    assessQualification: qualifications.assessQualification,
+    findInactiveCasesByPerson: caseRepository.findInactiveCasesByPerson,
+    findTrackedCases: caseRepository.findAdtTrackedCases,
+    saveCase: caseRepository.saveCase,
+    saveTransition: caseRepository.saveTransition,
+    findAppliedRecords: adtRecordRepository.findAppliedRecords,
+    saveAppliedRecord: adtRecordRepository.saveAppliedRecord,
+    assignRt: rtAssignment.assignCase,
+    notify: caseNotifications.notify,
+    onNotificationFailure: (error) =>
+      console.error('Census change notification failed:', error),
+    readmissionWindowDays:
+      parseInt(process.env.ADT_READMISSION_WINDOW_DAYS || '30', 10) || 30,
+  });
+
+  // PCC webhooks: admissions, condition changes and census changes, once
+  // per message ID
+  const pccEventRepository = createPostgresPccEventRepository(postgresClient);
+  const pccEvents = createPccEventHandling({
+    assessQualification: qualifications.assessQualification,
+    findCaseByPatient: caseRepository.findCaseByPatient,
+    openCase: caseManagement.openCase,
+    syncAdt: adtTracking.syncCase,
+    followTransfer: adtTracking.followTransfer,
+    saveCase: caseRepository.saveCase,
+    saveTransition: caseRepository.saveTransition,
+    claimEvent: pccEventRepository.claimEvent,
+    claimDueEvents: pccEventRepository.claimDueEvents,
+    saveEvent: pccEventRepository.saveEvent,
+    onEventFailure: (messageId, error) =>
+      console.error(`PCC event ${messageId} outcome not recorded:`, error),
+  });
+
+  // The application's PCC webhook subscription (PCC_APPLICATION_NAME),
+  // reconciled against PCC_WEBHOOK_URL / PCC_WEBHOOK_EVENT_GROUPS
+  const webhookSubscriptions = createWebhookSubscriptions({
+    getSubscriptions: ehrAdapter.getWebhookSubscriptions,
+    submitSubscription: ehrAdapter.submitWebhookSubscription,
+    getDeliveryErrors: ehrAdapter.getWebhookDeliveryErrors,
+    config: loadWebhookSubscriptionConfigFromEnv(),
+  });
+
+  // Weekly RT visits for ACTIVE cases; missed visits alert staff
+  const visitRepository = createPostgresVisitRepository(postgresClient);
+  const visitTracking = createVisitTracking({
+    findCase: caseRepository.findCase,
+    saveVisit: visitRepository.saveVisit,
+    findVisits: visitRepository.findVisits,
+    findActiveCaseVisits: visitRepository.findActiveCaseVisits,
+    saveOverdueAlert: visitRepository.saveOverdueAlert,
+    notify: caseNotifications.notify,
+    onNotificationFailure: (error) =>
+      console.error('Overdue visit notification failed:', error),
+  });
+
+  // Review decisions are written to the PCC chart as progress notes, kept
+  // in an outbox until PCC accepts them
+  const progressNoteRepository =
+    createPostgresProgressNoteRepository(postgresClient);
+  const progressNoteWriteBack = createProgressNoteWriteBack({
+    getProgressNoteTypes: ehrAdapter.getProgressNoteTypes,
+    createProgressNote: ehrAdapter.createProgressNote,
+    saveWriteBack: progressNoteRepository.saveWriteBack,
+    findDueWriteBacks: progressNoteRepository.findDueWriteBacks,
+    findCaseWriteBacks: progressNoteRepository.findCaseWriteBacks,
+    findStaffMember: staffRepository.findMember,
+    // A case assessed under a rule set no longer loaded uses the active one
+    categorizeCode: (ruleSetVersion, code) =>
+      (
+        ruleSets.list().find((ruleSet) => ruleSet.version === ruleSetVersion) ??
+        ruleSets.active()
+      ).catalog.match(code)?.entry.category ?? null,
+    noteType: process.env.PCC_PROGRESS_NOTE_TYPE || 'Respiratory Therapy',
+  });
+
+  // Case documents are uploaded to S3 and then filed in the PCC chart
+  const caseDocumentRepository =
+    createPostgresCaseDocumentRepository(postgresClient);
+  const documentStore = createS3DocumentStoreFromEnv();
+  const documentCategoryId = parseInt(
+    process.env.PCC_DOCUMENT_CATEGORY_ID || '',
+    10
   );
+  const caseDocuments = createCaseDocuments({
+    getCase: caseManagement.getCase,
+    saveDocument: caseDocumentRepository.saveDocument,
+    findDocument: caseDocumentRepository.findDocument,
+    findCaseDocuments: caseDocumentRepository.findCaseDocuments,
+    readStoredDocument: documentStore.readDocument,
+    attachPatientDocument: ehrAdapter.attachPatientDocument,
+    documentCategoryId: isNaN(documentCategoryId) ? null : documentCategoryId,
+  });
+
+  // Review decisions go through the case workflow
+  const reviewQueueRepository =
+    createPostgresReviewQueueRepository(postgresClient);
+  const reviewQueue = createReviewQueue({
+    findQueue: reviewQueueRepository.findQueue,
+    saveClaim: reviewQueueRepository.saveClaim,
+    deleteClaim: reviewQueueRepository.deleteClaim,
+    findClaim: reviewQueueRepository.findClaim,
+    findFacilityTherapists: rtRepository.findFacilityTherapists,
+    getCase: caseManagement.getCase,
+    transitionCase: caseManagement.transitionCase,
+    writeBackDecision: progressNoteWriteBack.writeBackDecision,
+    onWriteBackFailure: (error) =>
+      console.error('Progress note write-back not recorded:', error),
+  });
 
   /**
    * Get patient with NIV qualifications
@@ -106,9 +521,517 @@ export function createOnboardingOperations(): OnboardingOperations {
     return await qualifications.testWithMockData();
   };
 
+  /**
+   * List qualification rule sets, marking the one in effect
+   */
+  const listRuleSets: ListRuleSets = async () => {
+    const active = ruleSets.active();
+    return ruleSets.list().map((ruleSet) => ({
+      ...toRuleSetStamp(ruleSet),
+      isActive: ruleSet.version === active.version,
+    }));
+  };
+
+  /**
+   * Re-evaluate a patient under a chosen rule set version
+   */
+  const reEvaluatePatient: ReEvaluatePatient = async (
+    orgUuid,
+    patientId,
+    ruleSetVersion
+  ) => {
+    return await qualifications.reEvaluate(
+      orgUuid,
+      patientId,
+      ruleSets.find(ruleSetVersion)
+    );
+  };
+
+  /**
+   * Enroll a patient in NIV onboarding and record the case
+   */
+  const createCase: CreateOnboardingCase = async (orgUuid, patientId) => {
+    // Delegate to domain service - no business logic in adapter
+    return await caseManagement.openCase(orgUuid, patientId);
+  };
+
+  /**
+   * Get a single onboarding case
+   */
+  const getCase: GetOnboardingCase = async (caseId) => {
+    return await caseManagement.getCase(caseId);
+  };
+
+  /**
+   * List onboarding cases matching the filter
+   */
+  const listCases: ListOnboardingCases = async (filter) => {
+    return await caseManagement.listCases(filter);
+  };
+
+  /**
+   * Move an onboarding case through the workflow
+   */
+  const transitionCase: TransitionOnboardingCase = async (
+    caseId,
+    transition,
+    actor,
+    reason
+  ) => {
+    return await caseManagement.transitionCase(
+      caseId,
+      transition,
+      actor,
+      reason
+    );
+  };
+
+  /**
+   * Get the transition history of an onboarding case
+   */
+  const getCaseHistory: GetOnboardingCaseHistory = async (caseId) => {
+    return await caseManagement.getCaseHistory(caseId);
+  };
+
+  /**
+   * Assign or reassign the respiratory therapist for a case
+   */
+  const assignCaseRt: AssignCaseRt = async (
+    caseId,
+    assignedBy,
+    rtId,
+    reason
+  ) => {
+    return await caseManagement.assignRt(caseId, assignedBy, rtId, reason);
+  };
+
+  /**
+   * Re-send failed notification deliveries that are due
+   */
+  const retryNotifications: RetryNotifications = async () => {
+    return await caseNotifications.retryDueDeliveries();
+  };
+
+  /**
+   * List in-app notifications for a user
+   */
+  const listInAppNotifications: ListInAppNotifications = async (
+    recipientId,
+    unreadOnly
+  ) => {
+    return await notificationRepository.findInAppNotifications(
+      recipientId,
+      unreadOnly
+    );
+  };
+
+  /**
+   * List cases waiting for review at the RT's facilities
+   */
+  const listReviewQueue: ListReviewQueue = async (rtId) => {
+    return await reviewQueue.listQueue(rtId);
+  };
+
+  /**
+   * Claim a case for review under a lease
+   */
+  const claimReview: ClaimReview = async (caseId, rtId, leaseMinutes) => {
+    return await reviewQueue.claim(caseId, rtId, leaseMinutes);
+  };
+
+  /**
+   * Release a claimed case back to the queue
+   */
+  const releaseReview: ReleaseReview = async (caseId, rtId) => {
+    await reviewQueue.release(caseId, rtId);
+  };
+
+  /**
+   * Complete a review and move the case through the workflow
+   */
+  const completeReview: CompleteReview = async (
+    caseId,
+    rtId,
+    outcome,
+    reason
+  ) => {
+    return await reviewQueue.complete(caseId, rtId, outcome, reason);
+  };
+
+  /**
+   * Re-review REVIEWED cases whose re-review is due
+   */
+  const runDueReReviews: RunDueReReviews = async () => {
+    return await reReview.runDueReReviews();
+  };
+
+  /**
+   * Get the re-review scheduled for a case
+   */
+  const getReReviewSchedule: GetReReviewSchedule = async (caseId) => {
+    return await reReview.getSchedule(caseId);
+  };
+
+  /**
+   * Get the organization's re-review interval
+   */
+  const getReReviewSettings: GetReReviewSettings = async (orgUuid) => {
+    return await reReview.getSettings(orgUuid);
+  };
+
+  /**
+   * Set the organization's re-review interval
+   */
+  const updateReReviewSettings: UpdateReReviewSettings = async (
+    orgUuid,
+    intervalDays
+  ) => {
+    return await reReview.updateSettings(orgUuid, intervalDays);
+  };
+
+  /**
+   * Record a weekly RT visit
+   */
+  const recordRtVisit: RecordRtVisit = async (caseId, input) => {
+    return await visitTracking.recordVisit(caseId, input);
+  };
+
+  /**
+   * List a case's RT visits
+   */
+  const listCaseVisits: ListCaseVisits = async (caseId) => {
+    return await visitTracking.listVisits(caseId);
+  };
+
+  /**
+   * List overdue weekly visits
+   */
+  const listOverdueVisits: ListOverdueVisits = async (filter) => {
+    return await visitTracking.listOverdue(filter);
+  };
+
+  /**
+   * Alert staff about missed visits
+   */
+  const alertOverdueVisits: AlertOverdueVisits = async () => {
+    return await visitTracking.alertOverdueVisits();
+  };
+
+  /**
+   * List the lab-order worklist
+   */
+  const listLabOrders: ListLabOrders = async (filter) => {
+    return await labOrders.listWorklist(filter);
+  };
+
+  /**
+   * Check the EHR for results of open lab orders
+   */
+  const checkLabResults: CheckLabResults = async () => {
+    return await labOrders.checkForResults();
+  };
+
+  /**
+   * Start screening every patient in a facility or organization
+   */
+  const startScreening: StartScreening = async (
+    orgUuid,
+    facilityId,
+    requestedBy
+  ) => {
+    return await screening.startScreening(orgUuid, facilityId, requestedBy);
+  };
+
+  /**
+   * Get a screening job and its progress
+   */
+  const getScreeningJob: GetScreeningJob = async (jobId) => {
+    return await screening.getJob(jobId);
+  };
+
+  /**
+   * List screening jobs
+   */
+  const listScreeningJobs: ListScreeningJobs = async (filter) => {
+    return await screening.listJobs(filter);
+  };
+
+  /**
+   * List a screening job's per-patient results
+   */
+  const listScreeningResults: ListScreeningResults = async (jobId, outcome) => {
+    return await screening.listResults(jobId, outcome);
+  };
+
+  /**
+   * List a screening job's per-patient results grouped by facility
+   */
+  const listScreeningResultsByFacility: ListScreeningResultsByFacility = async (
+    jobId,
+    outcome
+  ) => {
+    return await screening.listResultsByFacility(jobId, outcome);
+  };
+
+  /**
+   * Export the latest screening result of each patient as CSV or XLSX
+   */
+  const exportScreeningResults: ExportScreeningResults = async (
+    filter,
+    format
+  ) => {
+    return await screeningExport.exportResults(filter, format);
+  };
+
+  /**
+   * Resolve a patient import file against the EHR without saving
+   */
+  const previewPatientImport: PreviewPatientImport = async (orgUuid, csv) => {
+    return await patientImport.previewImport(orgUuid, csv);
+  };
+
+  /**
+   * Open onboarding cases for the matched rows of a patient import file
+   */
+  const commitPatientImport: CommitPatientImport = async (orgUuid, csv) => {
+    return await patientImport.commitImport(orgUuid, csv);
+  };
+
+  /**
+   * Record a PCC webhook event and act on it in the background
+   */
+  const receivePccEvent: ReceivePccEvent = async (notice) => {
+    return await pccEvents.receiveEvent(notice);
+  };
+
+  /**
+   * Run again PCC webhook events that failed or stalled
+   */
+  const retryPccEvents: RetryPccEvents = async () => {
+    return await pccEvents.retryDueEvents();
+  };
+
+  /**
+   * List the application's PCC webhook subscriptions
+   */
+  const listWebhookSubscriptions: ListWebhookSubscriptions = async (
+    orgUuid,
+    status
+  ) => {
+    return await webhookSubscriptions.listSubscriptions(orgUuid, status);
+  };
+
+  /**
+   * Request a new PCC webhook subscription
+   */
+  const createWebhookSubscription: CreateWebhookSubscription = async (
+    settings
+  ) => {
+    return await webhookSubscriptions.createSubscription(settings);
+  };
+
+  /**
+   * Request a change to a PCC webhook subscription
+   */
+  const updateWebhookSubscription: UpdateWebhookSubscription = async (
+    subscriptionId,
+    changes
+  ) => {
+    return await webhookSubscriptions.updateSubscription(
+      subscriptionId,
+      changes
+    );
+  };
+
+  /**
+   * Reconcile PCC with the configured webhook subscription
+   */
+  const reconcileWebhookSubscriptions: ReconcileWebhookSubscriptions = async (
+    dryRun
+  ) => {
+    return await webhookSubscriptions.reconcile(dryRun);
+  };
+
+  /**
+   * List webhook deliveries PCC could not make to the facilities
+   */
+  const listWebhookDeliveryErrors: ListWebhookDeliveryErrors = async (
+    orgUuid,
+    facilityIds
+  ) => {
+    return await webhookSubscriptions.listDeliveryErrors(orgUuid, facilityIds);
+  };
+
+  /**
+   * Sync tracked cases with their patients' ADT records
+   */
+  const syncAdtRecords: SyncAdtRecords = async () => {
+    return await adtTracking.syncTrackedCases();
+  };
+
+  /**
+   * List facilities from the local directory
+   */
+  const listFacilities: ListFacilities = async (filter) => {
+    return await facilityDirectory.listFacilities(filter);
+  };
+
+  /**
+   * Get one facility from the directory, reading it from PCC if new
+   */
+  const getFacility: GetFacility = async (orgUuid, facilityId) => {
+    return await facilityDirectory.getFacility(orgUuid, facilityId);
+  };
+
+  /**
+   * Refresh an organization's facilities from PCC
+   */
+  const syncFacilities: SyncFacilities = async (orgUuid) => {
+    return await facilityDirectory.syncFacilities(orgUuid);
+  };
+
+  /**
+   * Refresh every organization in the facility directory
+   */
+  const syncAllFacilities: SyncAllFacilities = async () => {
+    return await facilityDirectory.syncAllFacilities();
+  };
+
+  /**
+   * List the staff directory
+   */
+  const listStaff: ListStaff = async (filter) => {
+    return await staffDirectory.listStaff(filter);
+  };
+
+  /**
+   * Get one staff member
+   */
+  const getStaffMember: GetStaffMember = async (staffId) => {
+    return await staffDirectory.getStaffMember(staffId);
+  };
+
+  /**
+   * Add a staff member PCC does not list
+   */
+  const addStaffMember: AddStaffMember = async (orgUuid, details) => {
+    return await staffDirectory.addStaffMember(orgUuid, details);
+  };
+
+  /**
+   * Change a staff member's roles, facilities or contacts
+   */
+  const updateStaffMember: UpdateStaffMember = async (staffId, changes) => {
+    return await staffDirectory.updateStaffMember(staffId, changes);
+  };
+
+  /**
+   * Import an organization's practitioners from PCC
+   */
+  const syncPractitioners: SyncPractitioners = async (orgUuid) => {
+    return await staffDirectory.syncPractitioners(orgUuid);
+  };
+
+  /**
+   * Import the practitioners of every organization in the directory
+   */
+  const syncAllPractitioners: SyncAllPractitioners = async () => {
+    return await staffDirectory.syncAllPractitioners();
+  };
+
+  /**
+   * List the progress notes written back for a case
+   */
+  const listCaseProgressNotes: ListCaseProgressNotes = async (caseId) => {
+    return await progressNoteWriteBack.listCaseWriteBacks(caseId);
+  };
+
+  /**
+   * Retry progress notes PCC did not accept
+   */
+  const retryProgressNotes: RetryProgressNotes = async () => {
+    return await progressNoteWriteBack.retryDueWriteBacks();
+  };
+
+  /**
+   * Record a document about to be uploaded for a case
+   */
+  const registerCaseDocument: RegisterCaseDocument = async (caseId, upload) => {
+    return await caseDocuments.registerUpload(caseId, upload);
+  };
+
+  /**
+   * File an uploaded case document in the patient's PCC chart
+   */
+  const attachCaseDocument: AttachCaseDocument = async (documentId) => {
+    return await caseDocuments.attachDocument(documentId);
+  };
+
+  /**
+   * List a case's documents
+   */
+  const listCaseDocuments: ListCaseDocuments = async (caseId) => {
+    return await caseDocuments.listCaseDocuments(caseId);
+  };
+
   return {
     qualifyPatient,
     testPccConnection,
     testWithMockData,
+    listRuleSets,
+    reEvaluatePatient,
+    createCase,
+    getCase,
+    listCases,
+    transitionCase,
+    getCaseHistory,
+    assignCaseRt,
+    retryNotifications,
+    listInAppNotifications,
+    listReviewQueue,
+    claimReview,
+    releaseReview,
+    completeReview,
+    runDueReReviews,
+    getReReviewSchedule,
+    getReReviewSettings,
+    updateReReviewSettings,
+    recordRtVisit,
+    listCaseVisits,
+    listOverdueVisits,
+    alertOverdueVisits,
+    listLabOrders,
+    checkLabResults,
+    startScreening,
+    getScreeningJob,
+    listScreeningJobs,
+    listScreeningResults,
+    listScreeningResultsByFacility,
+    exportScreeningResults,
+    previewPatientImport,
+    commitPatientImport,
+    receivePccEvent,
+    retryPccEvents,
+    listWebhookSubscriptions,
+    createWebhookSubscription,
+    updateWebhookSubscription,
+    reconcileWebhookSubscriptions,
+    listWebhookDeliveryErrors,
+    syncAdtRecords,
+    listFacilities,
+    getFacility,
+    syncFacilities,
+    syncAllFacilities,
+    listStaff,
+    getStaffMember,
+    addStaffMember,
+    updateStaffMember,
+    syncPractitioners,
+    syncAllPractitioners,
+    listCaseProgressNotes,
+    retryProgressNotes,
+    registerCaseDocument,
+    attachCaseDocument,
+    listCaseDocuments,
   };
 }
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { NIV_ERRORS, OnboardingError } from './errors';
+import { MAX_IMPORT_ROWS, parsePatientImport } from './patient-import';
+
+function problemsOf(text: string): string[] {
+  try {
+    parsePatientImport(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(OnboardingError);
+    expect((error as OnboardingError).code).toBe(
+      NIV_ERRORS.PATIENT_IMPORT_INVALID
+    );
+    const { context } = (error as OnboardingError).context as {
+      context: { problems: string[] };
+    };
+    return context.problems;
+  }
+  throw new Error('import file was accepted');
+}
+
+describe('parsePatientImport', () => {
+  it('reads patient IDs, numbering rows from the header', () => {
+    expect(parsePatientImport('patientId\r\n101\r\n 202 \r\n')).toEqual([
+      {
+        rowNumber: 2,
+        patientId: 101,
+        firstName: '',
+        lastName: '',
+        dateOfBirth: null,
+        facilityId: null,
+        problem: null,
+      },
+      {
+        rowNumber: 3,
+        patientId: 202,
+        firstName: '',
+        lastName: '',
+        dateOfBirth: null,
+        facilityId: null,
+        problem: null,
+      },
+    ]);
+  });
+
+  it('accepts header aliases and US or ISO dates of birth', () => {
+    const rows = parsePatientImport(
+      [
+        'First Name,LAST,DOB,facId',
+        'Ada,Lovelace,12/10/1915,7',
+        'Alan,Turing,1912-6-23,7',
+      ].join('\n')
+    );
+
+    expect(rows.map(({ dateOfBirth }) => dateOfBirth)).toEqual([
+      '1915-12-10',
+      '1912-06-23',
+    ]);
+    expect(rows[0]).toMatchObject({
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      facilityId: 7,
+      problem: null,
+    });
+  });
+
+  it('reports a problem on each row that cannot be used', () => {
+    const rows = parsePatientImport(
+      [
+        'patientId,firstName,lastName,dateOfBirth,facilityId',
+        '12a,,,,',
+        ',Ada,Lovelace,,7',
+        ',Ada,Lovelace,02/30/1915,7',
+        ',Ada,Lovelace,1915-12-10,0',
+        ',Ada,Lovelace,1915-12-10,7',
+      ].join('\n')
+    );
+
+    expect(rows.map(({ problem }) => problem)).toEqual([
+      'patientId "12a" is not a PCC patient ID',
+      'needs a patientId, or firstName, lastName, dateOfBirth, facilityId',
+      'dateOfBirth "02/30/1915" is not a date (YYYY-MM-DD or MM/DD/YYYY)',
+      'facilityId "0" is not a facility ID',
+      null,
+    ]);
+  });
+
+  it('rejects a file without data rows', () => {
+    expect(problemsOf('patientId\n')).toEqual(['the file has no data rows']);
+    expect(problemsOf('')).toEqual(['the file has no data rows']);
+  });
+
+  it('rejects a file without columns to identify patients', () => {
+    expect(problemsOf('firstName,lastName\nAda,Lovelace\n')).toEqual([
+      'missing column patientId, or dateOfBirth, facilityId',
+    ]);
+  });
+
+  it('rejects a file over the row limit', () => {
+    const rows = Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, i) => i + 1);
+
+    expect(problemsOf(['patientId', ...rows].join('\n'))).toEqual([
+      `${MAX_IMPORT_ROWS + 1} rows exceeds the limit of ${MAX_IMPORT_ROWS}`,
+    ]);
+  });
+});
@@ -0,0 +1,514 @@
+// apps/backend/niv/src/app/onboarding/patient-import.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Bulk enrollment from a CSV file. Each row names a patient by PCC patient
+ * ID, or by name, date of birth and facility, and is resolved against the
+ * EHR. A preview shows every row's match or problem before anything is
+ * saved; committing re-reads the same file and opens a case for each
+ * matched row, reporting the outcome row by row.
+ */
+
+import { parseCsv } from '../csv';
+import type { CaseManagement } from './case-management';
+import type { FindOnboardingCaseByPatient } from './case-operations';
+import type { GetPatient, GetPatients } from './ehr-operations';
+import { NIV_ERRORS, OnboardingError } from './errors';
+import { forEachWithLimit } from './facility-screening';
+import type { Patient } from './patient';
+
+// Largest file accepted in one import
+export const MAX_IMPORT_ROWS = 500;
+// EHR lookups in flight while resolving rows
+const IMPORT_CONCURRENCY = 4;
+// Largest page the PCC patient list returns
+const ROSTER_PAGE_SIZE = 200;
+
+export const IMPORT_ROW_STATUSES = [
+  'MATCHED',
+  'ALREADY_ENROLLED',
+  'DUPLICATE',
+  'NOT_FOUND',
+  'AMBIGUOUS',
+  'INVALID',
+] as const;
+
+export type ImportRowStatus = (typeof IMPORT_ROW_STATUSES)[number];
+
+export const IMPORT_ROW_OUTCOMES = ['CREATED', 'SKIPPED', 'FAILED'] as const;
+
+export type ImportRowOutcome = (typeof IMPORT_ROW_OUTCOMES)[number];
+
+// A data row of the file; rowNumber counts the header as row 1
+export type PatientImportRow = {
+  readonly rowNumber: number;
+  readonly patientId: number | null;
+  readonly firstName: string;
+  readonly lastName: string;
+  // YYYY-MM-DD
+  readonly dateOfBirth: string | null;
+  readonly facilityId: number | null;
+  // Why the row cannot be resolved as written
+  readonly problem: string | null;
+};
+
+export type ImportRowPreview = {
+  readonly rowNumber: number;
+  readonly status: ImportRowStatus;
+  // The EHR patient the row resolved to
+  readonly patient: Patient | null;
+  // Existing case (ALREADY_ENROLLED only)
+  readonly caseId: string | null;
+  readonly message: string | null;
+};
+
+export type PatientImportPreview = {
+  readonly orgUuid: string;
+  readonly rows: readonly ImportRowPreview[];
+  readonly summary: {
+    readonly total: number;
+    readonly matched: number;
+    readonly problems: number;
+  };
+};
+
+export type ImportRowResult = {
+  readonly rowNumber: number;
+  readonly patientId: number | null;
+  readonly outcome: ImportRowOutcome;
+  readonly caseId: string | null;
+  readonly message: string | null;
+};
+
+export type PatientImportReport = {
+  readonly orgUuid: string;
+  readonly rows: readonly ImportRowResult[];
+  readonly summary: {
+    readonly total: number;
+    readonly created: number;
+    readonly skipped: number;
+    readonly failed: number;
+  };
+};
+
+type ImportColumn =
+  | 'patientId'
+  | 'firstName'
+  | 'lastName'
+  | 'dateOfBirth'
+  | 'facilityId';
+
+// Header names accepted for each column, compared without case or spacing
+const COLUMN_ALIASES: Record<ImportColumn, readonly string[]> = {
+  patientId: ['patientid', 'pccpatientid'],
+  firstName: ['firstname', 'first'],
+  lastName: ['lastname', 'last'],
+  dateOfBirth: ['dateofbirth', 'dob', 'birthdate'],
+  facilityId: ['facilityid', 'facid'],
+};
+
+const NAME_COLUMNS: readonly ImportColumn[] = [
+  'firstName',
+  'lastName',
+  'dateOfBirth',
+  'facilityId',
+];
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Date of birth as YYYY-MM-DD, from YYYY-MM-DD or US MM/DD/YYYY
+ */
+function parseDateOfBirth(value: string): string | null {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  const parts = iso
+    ? { year: +iso[1], month: +iso[2], day: +iso[3] }
+    : us
+      ? { year: +us[3], month: +us[1], day: +us[2] }
+      : null;
+  if (!parts) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+  return date.getUTCMonth() === parts.month - 1 &&
+    date.getUTCDate() === parts.day
+    ? toIsoDate(date)
+    : null;
+}
+
+function parsePositiveInteger(value: string): number | null {
+  return /^\d+$/.test(value) && +value > 0 ? +value : null;
+}
+
+/**
+ * Read an import file into rows
+ *
+ * Fails with PATIENT_IMPORT_INVALID when the file as a whole is unusable
+ * (no rows, too many rows, columns to identify patients missing); a row
+ * that cannot be used carries its problem instead.
+ */
+export function parsePatientImport(text: string): PatientImportRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header || records.length === 0) {
+    throw OnboardingError.patientImportInvalid(['the file has no data rows']);
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw OnboardingError.patientImportInvalid([
+      `${records.length} rows exceeds the limit of ${MAX_IMPORT_ROWS}`,
+    ]);
+  }
+
+  const headers = header.map(normalizeHeader);
+  const indexes = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([column, aliases]) => [
+      column,
+      headers.findIndex((name) => aliases.includes(name)),
+    ])
+  ) as Record<ImportColumn, number>;
+
+  const missingNameColumns = NAME_COLUMNS.filter(
+    (column) => indexes[column] < 0
+  );
+  if (indexes.patientId < 0 && missingNameColumns.length > 0) {
+    throw OnboardingError.patientImportInvalid([
+      `missing column patientId, or ${missingNameColumns.join(', ')}`,
+    ]);
+  }
+
+  return records.map((cells, index): PatientImportRow => {
+    const cell = (column: ImportColumn) =>
+      indexes[column] < 0 ? '' : (cells[indexes[column]] ?? '').trim();
+
+    const row = {
+      rowNumber: index + 2,
+      patientId: parsePositiveInteger(cell('patientId')),
+      firstName: cell('firstName'),
+      lastName: cell('lastName'),
+      dateOfBirth: parseDateOfBirth(cell('dateOfBirth')),
+      facilityId: parsePositiveInteger(cell('facilityId')),
+    };
+
+    let problem: string | null = null;
+    if (cell('patientId') !== '') {
+      if (row.patientId === null) {
+        problem = `patientId "${cell('patientId')}" is not a PCC patient ID`;
+      }
+    } else if (NAME_COLUMNS.some((column) => cell(column) === '')) {
+      problem = `needs a patientId, or ${NAME_COLUMNS.join(', ')}`;
+    } else if (row.dateOfBirth === null) {
+      problem = `dateOfBirth "${cell('dateOfBirth')}" is not a date (YYYY-MM-DD or MM/DD/YYYY)`;
+    } else if (row.facilityId === null) {
+      problem = `facilityId "${cell('facilityId')}" is not a facility ID`;
+    }
+
+    return { ...row, problem };
+  });
+}
+
+function summarizePreview(
+  rows: readonly ImportRowPreview[]
+): PatientImportPreview['summary'] {
+  const matched = rows.filter((row) => row.status === 'MATCHED').length;
+  return { total: rows.length, matched, problems: rows.length - matched };
+}
+
+function summarizeReport(
+  rows: readonly ImportRowResult[]
+): PatientImportReport['summary'] {
+  const count = (outcome: ImportRowOutcome) =>
+    rows.filter((row) => row.outcome === outcome).length;
+  return {
+    total: rows.length,
+    created: count('CREATED'),
+    skipped: count('SKIPPED'),
+    failed: count('FAILED'),
+  };
+}
+
+/**
+ * Dependencies that patient import needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type PatientImportDependencies = {
+  getPatient: GetPatient;
+  getPatients: GetPatients;
+  findCaseByPatient: FindOnboardingCaseByPatient;
+  openCase: CaseManagement['openCase'];
+};
+
+/**
+ * Patient import domain service interface
+ */
+export interface PatientImport {
+  /**
+   * Resolve every row of an import file without saving anything
+   *
+   * Business rules:
+   * - A patientId row must exist in the EHR and agree with any name or
+   *   facility also given
+   * - A name row must match exactly one patient with that date of birth
+   *   in the facility
+   * - A patient already enrolled, or named twice in the file, is not
+   *   imported again
+   */
+  previewImport(orgUuid: string, csv: string): Promise<PatientImportPreview>;
+
+  /**
+   * Open an onboarding case for every MATCHED row of an import file
+   *
+   * Business rules:
+   * - The file is resolved again, so the report reflects the EHR and the
+   *   cases at commit time rather than when the preview was taken
+   * - Rows that did not match are SKIPPED; a case that cannot be opened is
+   *   FAILED without stopping the rest of the import
+   */
+  commitImport(orgUuid: string, csv: string): Promise<PatientImportReport>;
+}
+
+/**
+ * Factory function to create patient import domain service
+ */
+export function createPatientImport(
+  deps: PatientImportDependencies
+): PatientImport {
+  const lookupById = async (
+    orgUuid: string,
+    patientId: number
+  ): Promise<Patient | null> => {
+    try {
+      return await deps.getPatient(orgUuid, patientId);
+    } catch (error) {
+      if (
+        error instanceof OnboardingError &&
+        error.code === NIV_ERRORS.PATIENT_NOT_FOUND
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  // Every patient the EHR lists for a facility, read once per import
+  const readRoster = async (
+    orgUuid: string,
+    facilityId: number
+  ): Promise<Patient[]> => {
+    const roster: Patient[] = [];
+    for (let page = 1; ; page++) {
+      const patients = await deps.getPatients(
+        orgUuid,
+        facilityId,
+        page,
+        ROSTER_PAGE_SIZE
+      );
+      roster.push(...patients);
+      if (patients.length < ROSTER_PAGE_SIZE) {
+        return roster;
+      }
+    }
+  };
+
+  const resolveRow = async (
+    orgUuid: string,
+    row: PatientImportRow,
+    roster: (facilityId: number) => Promise<Patient[]>
+  ): Promise<ImportRowPreview> => {
+    const result = (
+      status: ImportRowStatus,
+      message: string | null,
+      patient: Patient | null = null
+    ): ImportRowPreview => ({
+      rowNumber: row.rowNumber,
+      status,
+      patient,
+      caseId: null,
+      message,
+    });
+
+    if (row.problem) {
+      return result('INVALID', row.problem);
+    }
+
+    if (row.patientId !== null) {
+      const patient = await lookupById(orgUuid, row.patientId);
+      if (!patient) {
+        return result(
+          'NOT_FOUND',
+          `No patient ${row.patientId} in the EHR for this organization`
+        );
+      }
+      const mismatch = [
+        row.lastName && !sameName(row.lastName, patient.lastName)
+          ? `last name is ${patient.lastName}`
+          : null,
+        row.firstName && !sameName(row.firstName, patient.firstName)
+          ? `first name is ${patient.firstName}`
+          : null,
+        row.facilityId !== null && row.facilityId !== patient.facilityId
+          ? `facility is ${patient.facilityId}`
+          : null,
+      ].filter((problem) => problem !== null);
+      return mismatch.length > 0
+        ? result(
+            'INVALID',
+            `Patient ${row.patientId} does not match the row: ${mismatch.join(', ')}`,
+            patient
+          )
+        : result('MATCHED', null, patient);
+    }
+
+    const matches = (await roster(row.facilityId as number)).filter(
+      (patient) =>
+        sameName(patient.lastName, row.lastName) &&
+        sameName(patient.firstName, row.firstName) &&
+        patient.dateOfBirth !== null &&
+        toIsoDate(patient.dateOfBirth) === row.dateOfBirth
+    );
+    if (matches.length === 0) {
+      return result(
+        'NOT_FOUND',
+        `No ${row.firstName} ${row.lastName} born ${row.dateOfBirth} in facility ${row.facilityId}`
+      );
+    }
+    if (matches.length > 1) {
+      return result(
+        'AMBIGUOUS',
+        `${matches.length} patients match; use their patientIds (${matches
+          .map((patient) => patient.patientId)
+          .join(', ')})`
+      );
+    }
+    return result('MATCHED', null, matches[0]);
+  };
+
+  const previewImport = async (
+    orgUuid: string,
+    csv: string
+  ): Promise<PatientImportPreview> => {
+    const rows = parsePatientImport(csv);
+
+    const rosters = new Map<number, Promise<Patient[]>>();
+    const roster = (facilityId: number) => {
+      if (!rosters.has(facilityId)) {
+        rosters.set(facilityId, readRoster(orgUuid, facilityId));
+      }
+      return rosters.get(facilityId) as Promise<Patient[]>;
+    };
+
+    const resolved = new Map<number, ImportRowPreview>();
+    await forEachWithLimit(rows, IMPORT_CONCURRENCY, async (row) => {
+      resolved.set(row.rowNumber, await resolveRow(orgUuid, row, roster));
+    });
+
+    // Business rule: in file order, a patient is imported once and only
+    // when not already enrolled
+    const seen = new Map<number, number>();
+    const previews: ImportRowPreview[] = [];
+    for (const row of rows) {
+      const preview = resolved.get(row.rowNumber) as ImportRowPreview;
+      const patientId = preview.patient?.patientId;
+      if (preview.status !== 'MATCHED' || patientId === undefined) {
+        previews.push(preview);
+        continue;
+      }
+
+      const firstRow = seen.get(patientId);
+      if (firstRow !== undefined) {
+        previews.push({
+          ...preview,
+          status: 'DUPLICATE',
+          message: `Patient ${patientId} is already on row ${firstRow}`,
+        });
+        continue;
+      }
+      seen.set(patientId, row.rowNumber);
+
+      const existing = await deps.findCaseByPatient(orgUuid, patientId);
+      previews.push(
+        existing
+          ? {
+              ...preview,
+              status: 'ALREADY_ENROLLED',
+              caseId: existing.caseId,
+              message: `Patient ${patientId} already has case ${existing.caseId}`,
+            }
+          : preview
+      );
+    }
+
+    return { orgUuid, rows: previews, summary: summarizePreview(previews) };
+  };
+
+  const commitImport = async (
+    orgUuid: string,
+    csv: string
+  ): Promise<PatientImportReport> => {
+    const preview = await previewImport(orgUuid, csv);
+    const results: ImportRowResult[] = [];
+
+    // One at a time, so each assignment sees the RT caseloads before it
+    for (const row of preview.rows) {
+      const patientId = row.patient?.patientId ?? null;
+      if (row.status !== 'MATCHED' || patientId === null) {
+        results.push({
+          rowNumber: row.rowNumber,
+          patientId,
+          outcome: 'SKIPPED',
+          caseId: row.caseId,
+          message: row.message ?? row.status,
+        });
+        continue;
+      }
+
+      try {
+        const opened = await deps.openCase(orgUuid, patientId);
+        results.push({
+          rowNumber: row.rowNumber,
+          patientId,
+          outcome: 'CREATED',
+          caseId: opened.caseId,
+          message: null,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // A case saved before a later step failed (e.g. RT assignment)
+        // still counts as created
+        const saved =
+          error instanceof OnboardingError &&
+          error.code === NIV_ERRORS.CASE_ALREADY_EXISTS
+            ? null
+            : await deps
+                .findCaseByPatient(orgUuid, patientId)
+                .catch(() => null);
+        results.push({
+          rowNumber: row.rowNumber,
+          patientId,
+          outcome: saved ? 'CREATED' : 'FAILED',
+          caseId: saved?.caseId ?? null,
+          message,
+        });
+      }
+    }
+
+    return { orgUuid, rows: results, summary: summarizeReport(results) };
+  };
+
+  return {
+    previewImport,
+    commitImport,
+  };
+}
@@ -0,0 +1,42 @@
+// apps/backend/niv/src/app/onboarding/pcc-event-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for recording PCC webhook events. Implemented by
+ * pcc-event-repository.ts.
+ */
+
+import type { PccEvent, PccEventNotice } from './pcc-event';
+
+/**
+ * Contract for recording a delivered event before it is processed
+ *
+ * Returns the RECEIVED event, or null when the message ID was already
+ * recorded and is processed, ignored or still within its lease. A FAILED
+ * event, or one whose lease ran out in RECEIVED, is claimed again so a
+ * redelivery can retry it. The claimed run is leased until leaseUntil.
+ */
+export type ClaimPccEvent = (
+  notice: PccEventNotice,
+  receivedAt: Date,
+  leaseUntil: Date
+) => Promise<PccEvent | null>;
+
+/**
+ * Contract for taking events due another run
+ *
+ * Claims FAILED events whose backoff has passed and RECEIVED events whose
+ * lease ran out, hiding them from other sweeps until leaseUntil
+ */
+export type ClaimDuePccEvents = (
+  now: Date,
+  leaseUntil: Date,
+  limit: number
+) => Promise<PccEvent[]>;
+
+/**
+ * Contract for storing the result of processing an event
+ */
+export type SavePccEvent = (event: PccEvent) => Promise<PccEvent>;
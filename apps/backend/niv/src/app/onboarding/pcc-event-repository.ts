@@ -0,0 +1,165 @@
+// apps/backend/niv/src/app/onboarding/pcc-event-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements PCC webhook event persistence using Postgres
+ * (pcc_webhook_events table).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+import type { PccEvent, PccEventStatus } from './pcc-event';
+import type {
+  ClaimDuePccEvents,
+  ClaimPccEvent,
+  SavePccEvent,
+} from './pcc-event-operations';
+
+/**
+ * Row shape of the pcc_webhook_events table
+ */
+type PccEventRow = {
+  message_id: string;
+  event_type: string;
+  org_uuid: string;
+  facility_id: number | null;
+  patient_id: number | null;
+  event_date: Date | null;
+  status: PccEventStatus;
+  outcome: string | null;
+  case_id: string | null;
+  error: string | null;
+  attempts: number;
+  next_attempt_at: Date | null;
+  received_at: Date;
+  processed_at: Date | null;
+};
+
+function rowToPccEvent(row: PccEventRow): PccEvent {
+  return {
+    messageId: row.message_id,
+    eventType: row.event_type,
+    orgUuid: row.org_uuid,
+    facilityId: row.facility_id,
+    patientId: row.patient_id,
+    eventDate: row.event_date,
+    status: row.status,
+    outcome: row.outcome,
+    caseId: row.case_id,
+    error: row.error,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    receivedAt: row.received_at,
+    processedAt: row.processed_at,
+  };
+}
+
+/**
+ * Create PCC event repository using Postgres as the implementation
+ */
+export function createPostgresPccEventRepository(client: PostgresClient) {
+  const claimEvent: ClaimPccEvent = async (notice, receivedAt, leaseUntil) => {
+    try {
+      // The conditional update leaves processed events alone, so a
+      // redelivery of one returns no row
+      const rows = await client.query<PccEventRow>(
+        `INSERT INTO pcc_webhook_events (
+           message_id, event_type, org_uuid, facility_id, patient_id,
+           event_date, status, attempts, next_attempt_at, received_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, 'RECEIVED', 1, $8, $7)
+         ON CONFLICT (message_id) DO UPDATE SET
+           status = 'RECEIVED',
+           outcome = NULL,
+           case_id = NULL,
+           error = NULL,
+           attempts = pcc_webhook_events.attempts + 1,
+           next_attempt_at = EXCLUDED.next_attempt_at,
+           received_at = EXCLUDED.received_at,
+           processed_at = NULL
+         WHERE pcc_webhook_events.status = 'FAILED'
+            OR (pcc_webhook_events.status = 'RECEIVED'
+                AND pcc_webhook_events.next_attempt_at <= $7)
+         RETURNING *`,
+        [
+          notice.messageId,
+          notice.eventType,
+          notice.orgUuid,
+          notice.facilityId,
+          notice.patientId,
+          notice.eventDate,
+          receivedAt,
+          leaseUntil,
+        ]
+      );
+
+      return rows.length > 0 ? rowToPccEvent(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'pcc_event_claim');
+    }
+  };
+
+  const claimDueEvents: ClaimDuePccEvents = async (now, leaseUntil, limit) => {
+    try {
+      // SKIP LOCKED keeps concurrent sweeps from claiming the same event
+      const rows = await client.query<PccEventRow>(
+        `UPDATE pcc_webhook_events e SET
+           status = 'RECEIVED',
+           outcome = NULL,
+           case_id = NULL,
+           error = NULL,
+           attempts = e.attempts + 1,
+           next_attempt_at = $2,
+           processed_at = NULL
+         FROM (
+           SELECT message_id FROM pcc_webhook_events
+           WHERE status IN ('RECEIVED', 'FAILED') AND next_attempt_at <= $1
+           ORDER BY next_attempt_at
+           LIMIT $3
+           FOR UPDATE SKIP LOCKED
+         ) due
+         WHERE e.message_id = due.message_id
+         RETURNING e.*`,
+        [now, leaseUntil, limit]
+      );
+
+      return rows.map(rowToPccEvent);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'pcc_event_claim');
+    }
+  };
+
+  const saveEvent: SavePccEvent = async (event) => {
+    try {
+      const rows = await client.query<PccEventRow>(
+        `UPDATE pcc_webhook_events
+         SET status = $2, outcome = $3, case_id = $4, error = $5,
+             attempts = $6, next_attempt_at = $7, processed_at = $8
+         WHERE message_id = $1
+         RETURNING *`,
+        [
+          event.messageId,
+          event.status,
+          event.outcome,
+          event.caseId,
+          event.error,
+          event.attempts,
+          event.nextAttemptAt,
+          event.processedAt,
+        ]
+      );
+
+      return rows.length > 0 ? rowToPccEvent(rows[0]) : event;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'pcc_event_save');
+    }
+  };
+
+  return {
+    claimEvent,
+    claimDueEvents,
+    saveEvent,
+  };
+}
@@ -0,0 +1,122 @@
+// apps/backend/niv/src/app/onboarding/pcc-event.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * Webhook events sent by PointClickCare. Every event is recorded by its
+ * PCC message ID before it is acted on, so a redelivered event is
+ * recognised and not processed twice; PCC does not redeliver an event it
+ * had acknowledged, so one that fails is retried here. The event type
+ * decides what the event means for onboarding: an admission or a new
+ * condition may make a patient eligible, a condition change on an open
+ * case calls for another RT review, and a discharge, leave or transfer is
+ * checked against the patient's ADT records (adt-record.ts).
+ */
+
+export const PCC_EVENT_STATUSES = [
+  'RECEIVED',
+  'PROCESSED',
+  'IGNORED',
+  'FAILED',
+] as const;
+
+export type PccEventStatus = (typeof PCC_EVENT_STATUSES)[number];
+
+export type PccEventRoute = 'ADMISSION' | 'CONDITION' | 'ADT';
+
+// PCC event types onboarding acts on; any other type is recorded as IGNORED
+export const PCC_EVENT_ROUTES: Readonly<Record<string, PccEventRoute>> = {
+  'patient.admit': 'ADMISSION',
+  'patient.readmit': 'ADMISSION',
+  'patient.condition.add': 'CONDITION',
+  'patient.condition.update': 'CONDITION',
+  'patient.condition.resolve': 'CONDITION',
+  'patient.discharge': 'ADT',
+  'patient.leave': 'ADT',
+  'patient.returnFromLeave': 'ADT',
+  'patient.transfer': 'ADT',
+};
+
+// An event as delivered, before it is recorded
+export type PccEventNotice = {
+  readonly messageId: string;
+  readonly eventType: string;
+  readonly orgUuid: string;
+  readonly facilityId: number | null;
+  readonly patientId: number | null;
+  readonly eventDate: Date | null;
+};
+
+export type PccEvent = PccEventNotice & {
+  readonly status: PccEventStatus;
+  // What processing did, e.g. "case created" or why it was ignored
+  readonly outcome: string | null;
+  // Case the event created or changed
+  readonly caseId: string | null;
+  // Why processing failed (FAILED only)
+  readonly error: string | null;
+  // Processing runs started, including one in progress
+  readonly attempts: number;
+  // When the event may be run again: the end of the current run's lease
+  // while RECEIVED, the backoff once FAILED; null when done or given up
+  readonly nextAttemptAt: Date | null;
+  readonly receivedAt: Date;
+  readonly processedAt: Date | null;
+};
+
+export function routePccEvent(eventType: string): PccEventRoute | null {
+  return Object.prototype.hasOwnProperty.call(PCC_EVENT_ROUTES, eventType)
+    ? PCC_EVENT_ROUTES[eventType]
+    : null;
+}
+
+/**
+ * Read a webhook body into an event notice
+ *
+ * Returns the problems found instead when the body is not a PCC event
+ */
+export function parsePccEventNotice(body: unknown): PccEventNotice | string[] {
+  const payload = (
+    body !== null && typeof body === 'object' ? body : {}
+  ) as Record<string, unknown>;
+  const text = (key: string) =>
+    typeof payload[key] === 'string' ? (payload[key] as string).trim() : '';
+  const id = (key: string) => {
+    const value = Number(payload[key]);
+    return payload[key] !== undefined &&
+      payload[key] !== null &&
+      Number.isInteger(value) &&
+      value > 0
+      ? value
+      : null;
+  };
+
+  const problems: string[] = [];
+  if (!text('messageId')) {
+    problems.push('messageId is required');
+  }
+  if (!text('eventType')) {
+    problems.push('eventType is required');
+  }
+  if (!text('orgUuid')) {
+    problems.push('orgUuid is required');
+  }
+
+  const eventDate = text('eventDate') ? new Date(text('eventDate')) : null;
+  if (eventDate && isNaN(eventDate.getTime())) {
+    problems.push('eventDate must be an ISO date-time');
+  }
+
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  return {
+    messageId: text('messageId'),
+    eventType: text('eventType'),
+    orgUuid: text('orgUuid'),
+    facilityId: id('facId'),
+    patientId: id('patientId'),
+    eventDate,
+  };
+}
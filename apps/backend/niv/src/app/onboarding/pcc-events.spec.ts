@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PccEvent } from './pcc-event';
+import {
+  createPccEventHandling,
+  type PccEventDependencies,
+} from './pcc-events';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const MINUTE = 60_000;
+
+function makeEvent(attempts: number): PccEvent {
+  return {
+    messageId: `message-${attempts}`,
+    eventType: 'patient.admit',
+    orgUuid: 'org-1',
+    facilityId: 7,
+    patientId: 42,
+    eventDate: null,
+    status: 'FAILED',
+    outcome: 'processing failed',
+    caseId: null,
+    error: 'PCC timed out',
+    attempts,
+    nextAttemptAt: NOW,
+    receivedAt: new Date('2026-10-19T09:00:00Z'),
+    processedAt: null,
+  };
+}
+
+function makeHandling(due: PccEvent[], assessmentError?: string) {
+  const saved: PccEvent[] = [];
+  const deps = {
+    assessQualification: vi.fn(async () =>
+      assessmentError
+        ? { success: false, error: assessmentError }
+        : {
+            success: true,
+            data: { isNivEligible: false, outcome: 'NOT_ELIGIBLE' },
+          }
+    ),
+    findCaseByPatient: vi.fn(async () => null),
+    followTransfer: vi.fn(async () => null),
+    claimDueEvents: vi.fn(async () => due),
+    saveEvent: vi.fn(async (event: PccEvent) => {
+      saved.push(event);
+      return event;
+    }),
+    onEventFailure: vi.fn(),
+  } as unknown as PccEventDependencies;
+
+  return { handling: createPccEventHandling(deps), deps, saved };
+}
+
+describe('retryDueEvents', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('claims a batch leased past the stalled-run window', async () => {
+    const { handling, deps } = makeHandling([]);
+
+    await handling.retryDueEvents(NOW);
+
+    expect(deps.claimDueEvents).toHaveBeenCalledWith(
+      NOW,
+      new Date(NOW.getTime() + 15 * MINUTE),
+      20
+    );
+  });
+
+  it('doubles the delay from five minutes after each failed run', async () => {
+    const { handling, saved } = makeHandling(
+      [1, 2, 3, 4, 5].map(makeEvent),
+      'PCC timed out'
+    );
+
+    const report = await handling.retryDueEvents(NOW);
+
+    expect(report).toEqual({ attempted: 5, sent: 0, failed: 5 });
+    expect(
+      saved.map(
+        (event) =>
+          ((event.nextAttemptAt?.getTime() ?? 0) - NOW.getTime()) / MINUTE
+      )
+    ).toEqual([5, 10, 20, 40, 80]);
+    expect(saved.every((event) => event.status === 'FAILED')).toBe(true);
+    expect(saved[0].error).toBe('PCC timed out');
+  });
+
+  it('stops retrying after the sixth run fails', async () => {
+    const { handling, saved } = makeHandling([makeEvent(6)], 'PCC timed out');
+
+    await handling.retryDueEvents(NOW);
+
+    expect(saved[0]).toMatchObject({ status: 'FAILED', nextAttemptAt: null });
+  });
+
+  it('gives up without running an event past its attempts', async () => {
+    const { handling, deps, saved } = makeHandling([makeEvent(7)]);
+
+    const report = await handling.retryDueEvents(NOW);
+
+    expect(deps.assessQualification).not.toHaveBeenCalled();
+    expect(saved[0]).toMatchObject({
+      status: 'FAILED',
+      error: 'gave up after 6 attempts',
+      attempts: 6,
+      nextAttemptAt: null,
+      processedAt: NOW,
+    });
+    expect(report).toEqual({ attempted: 1, sent: 0, failed: 1 });
+  });
+
+  it('clears the backoff once a retry succeeds', async () => {
+    const { handling, saved } = makeHandling([makeEvent(3)]);
+
+    const report = await handling.retryDueEvents(NOW);
+
+    expect(saved[0]).toMatchObject({
+      status: 'PROCESSED',
+      outcome: 'not eligible (NOT_ELIGIBLE)',
+      error: null,
+      nextAttemptAt: null,
+    });
+    expect(report).toEqual({ attempted: 1, sent: 1, failed: 0 });
+  });
+});
@@ -0,0 +1,367 @@
+// apps/backend/niv/src/app/onboarding/pcc-events.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Acts on PCC webhook events. An event is recorded and acknowledged
+ * straight away, then processed in the background; PCC never redelivers
+ * an acknowledged event, so one that fails is retried here with backoff.
+ * An admission or a new condition runs the qualification assessment and
+ * opens a case when the patient is eligible, and a condition change on an
+ * existing case refreshes its assessment and moves it to CHANGED for
+ * another RT review.
+ * Admissions, discharges, leaves and transfers sync the case with the
+ * patient's ADT records; an admission may also be a patient enrolled at
+ * another facility of the organization, whose case then follows them.
+ */
+
+import type { AdtSyncResult, AdtTracking } from './adt-tracking';
+import {
+  toQualificationSnapshot,
+  type CaseManagement,
+} from './case-management';
+import type {
+  FindOnboardingCaseByPatient,
+  SaveCaseTransition,
+  SaveOnboardingCase,
+} from './case-operations';
+import type { RetryReport } from './case-notifications';
+import { applyTransition, CASE_TRANSITIONS } from './case-workflow';
+import {
+  withQualification,
+  type OnboardingCase,
+  type OnboardingStatus,
+} from './onboarding-case';
+import {
+  routePccEvent,
+  type PccEvent,
+  type PccEventNotice,
+  type PccEventStatus,
+} from './pcc-event';
+import type {
+  ClaimDuePccEvents,
+  ClaimPccEvent,
+  SavePccEvent,
+} from './pcc-event-operations';
+import type { AssessmentResult } from './qualifications';
+import { describeQualificationChanges } from './re-review';
+
+export const PCC_WEBHOOK_ACTOR = 'system:pcc-webhook';
+// An event still RECEIVED after this long died with its process
+const STALLED_AFTER_MS = 15 * 60_000;
+// Give up after this many runs; backoff doubles from five minutes
+const MAX_PROCESSING_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 5 * 60_000;
+const RETRY_BATCH_SIZE = 20;
+
+/**
+ * Reply to a webhook delivery
+ */
+export type PccEventReceipt = {
+  readonly messageId: string;
+  // Already recorded - acknowledged without processing again
+  readonly duplicate: boolean;
+};
+
+type ProcessingResult = {
+  status: PccEventStatus;
+  outcome: string;
+  caseId: string | null;
+};
+
+/**
+ * Dependencies that PCC event handling needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type PccEventDependencies = {
+  assessQualification: (
+    orgUuid: string,
+    patientId: number
+  ) => Promise<AssessmentResult>;
+  findCaseByPatient: FindOnboardingCaseByPatient;
+  openCase: CaseManagement['openCase'];
+  syncAdt: AdtTracking['syncCase'];
+  followTransfer: AdtTracking['followTransfer'];
+  saveCase: SaveOnboardingCase;
+  saveTransition: SaveCaseTransition;
+  claimEvent: ClaimPccEvent;
+  claimDueEvents: ClaimDuePccEvents;
+  saveEvent: SavePccEvent;
+  // Called when an event's outcome cannot be recorded
+  onEventFailure: (messageId: string, error: unknown) => void;
+};
+
+/**
+ * PCC event handling domain service interface
+ */
+export interface PccEventHandling {
+  /**
+   * Record a delivered event and process it in the background
+   *
+   * Business rules:
+   * - An event is processed once per message ID
+   * - Event types onboarding does not act on are recorded as IGNORED
+   * - PCC only redelivers an event it got no 2xx for, and the reply goes
+   *   out before processing, so a FAILED event waits for the retry sweep
+   */
+  receiveEvent(notice: PccEventNotice, now?: Date): Promise<PccEventReceipt>;
+
+  /**
+   * Run again events that failed, once their backoff has passed, and
+   * events whose process died while running them
+   *
+   * Business rule: an event is given up on after six runs
+   */
+  retryDueEvents(now?: Date): Promise<RetryReport>;
+}
+
+/**
+ * Factory function to create PCC event handling domain service
+ */
+export function createPccEventHandling(
+  deps: PccEventDependencies
+): PccEventHandling {
+  // Business rule: a patient found eligible is enrolled without waiting
+  // for staff to add them
+  const openIfEligible = async (
+    orgUuid: string,
+    patientId: number
+  ): Promise<ProcessingResult> => {
+    const assessment = await deps.assessQualification(orgUuid, patientId);
+    if (!assessment.success || !assessment.data) {
+      throw new Error(
+        assessment.error ?? `Patient ${patientId} could not be assessed`
+      );
+    }
+    if (!assessment.data.isNivEligible) {
+      return {
+        status: 'PROCESSED',
+        outcome: `not eligible (${assessment.data.outcome})`,
+        caseId: null,
+      };
+    }
+
+    const opened = await deps.openCase(orgUuid, patientId);
+    return {
+      status: 'PROCESSED',
+      outcome: 'case created',
+      caseId: opened.caseId,
+    };
+  };
+
+  // Business rule: a condition change sends an open case back to the RT
+  const recordConditionChange = async (
+    onboardingCase: OnboardingCase,
+    eventType: string,
+    now: Date
+  ): Promise<ProcessingResult> => {
+    const assessment = await deps.assessQualification(
+      onboardingCase.orgUuid,
+      onboardingCase.patientId
+    );
+    const snapshot = toQualificationSnapshot(assessment, now);
+    if (!assessment.success || !snapshot) {
+      throw new Error(
+        assessment.error ??
+          `Patient ${onboardingCase.patientId} could not be re-assessed`
+      );
+    }
+
+    const changes = describeQualificationChanges(
+      onboardingCase.qualification,
+      snapshot
+    );
+    const refreshed = await deps.saveCase(
+      withQualification(onboardingCase, snapshot, now)
+    );
+
+    const recordChange = CASE_TRANSITIONS.recordChange;
+    if (
+      !(recordChange.from as readonly OnboardingStatus[]).includes(
+        refreshed.status
+      )
+    ) {
+      return {
+        status: 'PROCESSED',
+        outcome: `qualification refreshed; case stays ${refreshed.status}`,
+        caseId: refreshed.caseId,
+      };
+    }
+
+    await deps.saveTransition(
+      applyTransition(
+        refreshed,
+        'recordChange',
+        PCC_WEBHOOK_ACTOR,
+        `Condition changed in PCC (${eventType}): ${
+          changes.length > 0 ? changes.join('; ') : 'no change to qualification'
+        }`,
+        now
+      )
+    );
+    return {
+      status: 'PROCESSED',
+      outcome: 'case marked CHANGED',
+      caseId: refreshed.caseId,
+    };
+  };
+
+  const describeAdtSync = (result: AdtSyncResult): ProcessingResult => {
+    const applied = result.changes
+      .filter((change) => change.outcome !== 'NO_CHANGE')
+      .map((change) => `${change.standardActionType} → ${change.outcome}`);
+    const moved =
+      result.movedFromFacilityId !== null
+        ? [`moved from facility ${result.movedFromFacilityId}`]
+        : [];
+    const done = [...moved, ...applied];
+    return {
+      status: 'PROCESSED',
+      outcome:
+        done.length > 0
+          ? `census synced: ${done.join('; ')}`
+          : `census unchanged; case stays ${result.status}`,
+      caseId: result.caseId,
+    };
+  };
+
+  const processEvent = async (event: PccEvent): Promise<ProcessingResult> => {
+    const route = routePccEvent(event.eventType);
+    if (!route) {
+      return {
+        status: 'IGNORED',
+        outcome: `event type ${event.eventType} is not handled`,
+        caseId: null,
+      };
+    }
+    if (event.patientId === null) {
+      return {
+        status: 'IGNORED',
+        outcome: 'event names no patient',
+        caseId: null,
+      };
+    }
+
+    const existing = await deps.findCaseByPatient(
+      event.orgUuid,
+      event.patientId
+    );
+    if (!existing) {
+      if (route === 'ADT') {
+        return {
+          status: 'PROCESSED',
+          outcome: 'patient has no case',
+          caseId: null,
+        };
+      }
+      if (route === 'ADMISSION') {
+        const transferred = await deps.followTransfer(
+          event.orgUuid,
+          event.patientId
+        );
+        if (transferred) {
+          return describeAdtSync(transferred);
+        }
+      }
+      return await openIfEligible(event.orgUuid, event.patientId);
+    }
+    if (route === 'CONDITION') {
+      return await recordConditionChange(existing, event.eventType, new Date());
+    }
+    return describeAdtSync(await deps.syncAdt(existing));
+  };
+
+  const runEvent = async (event: PccEvent): Promise<PccEvent> => {
+    let result: ProcessingResult;
+    let error: string | null = null;
+    try {
+      result = await processEvent(event);
+    } catch (cause) {
+      error = cause instanceof Error ? cause.message : String(cause);
+      result = { status: 'FAILED', outcome: 'processing failed', caseId: null };
+    }
+
+    const processedAt = new Date();
+    return await deps.saveEvent({
+      ...event,
+      ...result,
+      error,
+      nextAttemptAt:
+        result.status === 'FAILED' && event.attempts < MAX_PROCESSING_ATTEMPTS
+          ? new Date(
+              processedAt.getTime() +
+                BASE_RETRY_DELAY_MS * 2 ** (event.attempts - 1)
+            )
+          : null,
+      processedAt,
+    });
+  };
+
+  const receiveEvent = async (
+    notice: PccEventNotice,
+    now: Date = new Date()
+  ): Promise<PccEventReceipt> => {
+    const event = await deps.claimEvent(
+      notice,
+      now,
+      new Date(now.getTime() + STALLED_AFTER_MS)
+    );
+    if (!event) {
+      return { messageId: notice.messageId, duplicate: true };
+    }
+
+    // Runs after PCC has its acknowledgement; the outcome is read from the store
+    void runEvent(event).catch((error) =>
+      deps.onEventFailure(event.messageId, error)
+    );
+
+    return { messageId: notice.messageId, duplicate: false };
+  };
+
+  const retryDueEvents = async (
+    now: Date = new Date()
+  ): Promise<RetryReport> => {
+    const due = await deps.claimDueEvents(
+      now,
+      new Date(now.getTime() + STALLED_AFTER_MS),
+      RETRY_BATCH_SIZE
+    );
+
+    // One at a time; an event can mean several PCC calls
+    let processed = 0;
+    for (const event of due) {
+      try {
+        // A run that died with its process has used up its attempts too
+        const done =
+          event.attempts > MAX_PROCESSING_ATTEMPTS
+            ? await deps.saveEvent({
+                ...event,
+                status: 'FAILED',
+                outcome: 'processing failed',
+                error: `gave up after ${MAX_PROCESSING_ATTEMPTS} attempts`,
+                attempts: event.attempts - 1,
+                nextAttemptAt: null,
+                processedAt: now,
+              })
+            : await runEvent(event);
+        if (done.status !== 'FAILED') {
+          processed++;
+        }
+      } catch (error) {
+        deps.onEventFailure(event.messageId, error);
+      }
+    }
+
+    return {
+      attempted: due.length,
+      sent: processed,
+      failed: due.length - processed,
+    };
+  };
+
+  return {
+    receiveEvent,
+    retryDueEvents,
+  };
+}
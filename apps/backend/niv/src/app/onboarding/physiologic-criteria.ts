@@ -0,0 +1,366 @@
+// apps/backend/niv/src/app/onboarding/physiologic-criteria.ts
+
+/**
+ * Domain Logic (DDD)
+ *
+ * Home NIV qualification needs measured evidence as well as a qualifying
+ * diagnosis - hypercapnia, nocturnal desaturation, a restrictive pattern on
+ * spirometry. Each category lists requirements that must all be met; a
+ * requirement is met by any one of its criteria, using a measurement recent
+ * enough to count. The result says which part is missing instead of
+ * collapsing everything into one boolean.
+ */
+
+import type { ClinicalQualifications } from './diagnosis';
+import {
+  QUALIFICATION_CATEGORIES,
+  type QualificationCategory,
+} from './diagnosis-catalog';
+import type { MeasurementKind, Observation } from './observation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back to read measurements - beyond the longest window, so
+// out-of-date evidence is reported as STALE rather than MISSING
+export const OBSERVATION_LOOKBACK_DAYS = 730;
+
+export type PhysiologicCriterion = {
+  readonly id: string;
+  readonly kind: MeasurementKind;
+  readonly comparator: 'atLeast' | 'atMost';
+  readonly threshold: number;
+  // Measurements older than this do not count
+  readonly maxAgeDays: number;
+  readonly description: string;
+};
+
+const PACO2_HYPERCAPNIA: PhysiologicCriterion = {
+  id: 'paco2-45',
+  kind: 'PACO2',
+  comparator: 'atLeast',
+  threshold: 45,
+  maxAgeDays: 90,
+  description: 'PaCO2 ≥ 45 mmHg',
+};
+
+const NOCTURNAL_DESATURATION: PhysiologicCriterion = {
+  id: 'spo2-88',
+  kind: 'SPO2',
+  comparator: 'atMost',
+  threshold: 88,
+  maxAgeDays: 90,
+  description: 'SpO2 ≤ 88% (nocturnal desaturation)',
+};
+
+/**
+ * Requirements per category: every group must be met, by any criterion in it
+ */
+export const PHYSIOLOGIC_CRITERIA: Record<
+  QualificationCategory,
+  readonly (readonly PhysiologicCriterion[])[]
+> = {
+  COPD: [
+    [
+      {
+        id: 'paco2-52',
+        kind: 'PACO2',
+        comparator: 'atLeast',
+        threshold: 52,
+        maxAgeDays: 90,
+        description: 'PaCO2 ≥ 52 mmHg',
+      },
+    ],
+    [NOCTURNAL_DESATURATION],
+  ],
+  CRF: [
+    [PACO2_HYPERCAPNIA],
+    [
+      {
+        id: 'ph-compensated',
+        kind: 'PH',
+        comparator: 'atLeast',
+        threshold: 7.35,
+        maxAgeDays: 90,
+        description: 'Arterial pH ≥ 7.35 (compensated)',
+      },
+    ],
+  ],
+  NMD: [[PACO2_HYPERCAPNIA, NOCTURNAL_DESATURATION]],
+  RTD: [
+    [
+      {
+        id: 'fev1-fvc-70',
+        kind: 'FEV1_FVC',
+        comparator: 'atLeast',
+        threshold: 70,
+        maxAgeDays: 365,
+        description: 'FEV1/FVC ≥ 70% (restrictive pattern)',
+      },
+    ],
+    [PACO2_HYPERCAPNIA, NOCTURNAL_DESATURATION],
+  ],
+};
+
+// MET / NOT_MET use a measurement within maxAgeDays; STALE means only older
+// measurements exist; MISSING means none at all
+export type CriterionStatus = 'MET' | 'NOT_MET' | 'STALE' | 'MISSING';
+
+export type CriterionResult = {
+  readonly criterion: PhysiologicCriterion;
+  readonly status: CriterionStatus;
+  // Measurement the status is based on
+  readonly observation: Observation | null;
+};
+
+export type CategoryCriteriaStatus =
+  | 'QUALIFIES'
+  | 'LAB_EVIDENCE_MISSING'
+  | 'LAB_EVIDENCE_NOT_MET'
+  | 'DIAGNOSIS_NOT_MET';
+
+export type CategoryCriteriaResult = {
+  readonly diagnosisQualifies: boolean;
+  readonly status: CategoryCriteriaStatus;
+  // e.g. "diagnosis qualifies, lab evidence missing: PaCO2 ≥ 52 mmHg"
+  readonly summary: string;
+  readonly requirements: readonly (readonly CriterionResult[])[];
+};
+
+export type PhysiologicEvaluation = {
+  readonly evaluatedAt: Date;
+  readonly categories: Record<QualificationCategory, CategoryCriteriaResult>;
+  // Some category has both a qualifying diagnosis and the measurements
+  readonly meetsCriteria: boolean;
+};
+
+function isSatisfied(criterion: PhysiologicCriterion, value: number): boolean {
+  return criterion.comparator === 'atLeast'
+    ? value >= criterion.threshold
+    : value <= criterion.threshold;
+}
+
+function evaluateCriterion(
+  criterion: PhysiologicCriterion,
+  observations: readonly Observation[],
+  now: Date
+): CriterionResult {
+  // Most recent first
+  const measurements = observations
+    .filter((observation) => observation.kind === criterion.kind)
+    .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime());
+  const cutoff = now.getTime() - criterion.maxAgeDays * DAY_MS;
+  const current = measurements.filter(
+    (observation) => observation.recordedAt.getTime() >= cutoff
+  );
+
+  const qualifying = current.find((observation) =>
+    isSatisfied(criterion, observation.value)
+  );
+  if (qualifying) {
+    return { criterion, status: 'MET', observation: qualifying };
+  }
+  if (current.length > 0) {
+    return { criterion, status: 'NOT_MET', observation: current[0] };
+  }
+  if (measurements.length > 0) {
+    return { criterion, status: 'STALE', observation: measurements[0] };
+  }
+  return { criterion, status: 'MISSING', observation: null };
+}
+
+function describeRequirement(requirement: readonly CriterionResult[]): string {
+  return requirement.map((result) => result.criterion.description).join(' or ');
+}
+
+function evaluateCategory(
+  diagnosisQualifies: boolean,
+  criteria: readonly (readonly PhysiologicCriterion[])[],
+  observations: readonly Observation[],
+  now: Date
+): CategoryCriteriaResult {
+  const requirements = criteria.map((requirement) =>
+    requirement.map((criterion) =>
+      evaluateCriterion(criterion, observations, now)
+    )
+  );
+  const unmet = requirements.filter(
+    (requirement) => !requirement.some((result) => result.status === 'MET')
+  );
+  // A requirement fails outright when every alternative has a current,
+  // non-qualifying measurement - more labs would not change that
+  const failed = unmet.filter((requirement) =>
+    requirement.every((result) => result.status === 'NOT_MET')
+  );
+
+  if (!diagnosisQualifies) {
+    return {
+      diagnosisQualifies,
+      status: 'DIAGNOSIS_NOT_MET',
+      summary: 'no qualifying diagnosis',
+      requirements,
+    };
+  }
+  if (unmet.length === 0) {
+    return {
+      diagnosisQualifies,
+      status: 'QUALIFIES',
+      summary: 'diagnosis qualifies, lab evidence meets criteria',
+      requirements,
+    };
+  }
+  if (failed.length > 0) {
+    return {
+      diagnosisQualifies,
+      status: 'LAB_EVIDENCE_NOT_MET',
+      summary: `diagnosis qualifies, lab evidence does not meet: ${failed
+        .map(describeRequirement)
+        .join('; ')}`,
+      requirements,
+    };
+  }
+  return {
+    diagnosisQualifies,
+    status: 'LAB_EVIDENCE_MISSING',
+    summary: `diagnosis qualifies, lab evidence missing: ${unmet
+      .map(describeRequirement)
+      .join('; ')}`,
+    requirements,
+  };
+}
+
+/**
+ * Combine diagnosis categories with measured values and their dates
+ */
+export function evaluatePhysiologicCriteria(
+  qualifications: ClinicalQualifications,
+  observations: readonly Observation[],
+  now: Date = new Date()
+): PhysiologicEvaluation {
+  const categories = {
+    COPD: evaluateCategory(
+      qualifications.COPD,
+      PHYSIOLOGIC_CRITERIA.COPD,
+      observations,
+      now
+    ),
+    CRF: evaluateCategory(
+      qualifications.CRF,
+      PHYSIOLOGIC_CRITERIA.CRF,
+      observations,
+      now
+    ),
+    NMD: evaluateCategory(
+      qualifications.NMD,
+      PHYSIOLOGIC_CRITERIA.NMD,
+      observations,
+      now
+    ),
+    RTD: evaluateCategory(
+      qualifications.RTD,
+      PHYSIOLOGIC_CRITERIA.RTD,
+      observations,
+      now
+    ),
+  };
+
+  return {
+    evaluatedAt: now,
+    categories,
+    meetsCriteria: QUALIFICATION_CATEGORIES.some(
+      (category) => categories[category].status === 'QUALIFIES'
+    ),
+  };
+}
+
+// Orderable tests that produce each measurement
+export type LabTest =
+  | 'ARTERIAL_BLOOD_GAS'
+  | 'OVERNIGHT_OXIMETRY'
+  | 'SPIROMETRY';
+
+export const LAB_TEST_MEASUREMENTS: Record<
+  LabTest,
+  readonly MeasurementKind[]
+> = {
+  ARTERIAL_BLOOD_GAS: ['PACO2', 'PH'],
+  OVERNIGHT_OXIMETRY: ['SPO2'],
+  SPIROMETRY: ['FEV1_FVC'],
+};
+
+const MEASUREMENT_TESTS: Record<MeasurementKind, LabTest> = {
+  PACO2: 'ARTERIAL_BLOOD_GAS',
+  PH: 'ARTERIAL_BLOOD_GAS',
+  SPO2: 'OVERNIGHT_OXIMETRY',
+  FEV1_FVC: 'SPIROMETRY',
+};
+
+// A test to order, how recent its result must be, and what it would settle
+export type RequiredLabTest = {
+  readonly test: LabTest;
+  // Result must be no older than this when the case is reviewed
+  readonly withinDays: number;
+  readonly categories: readonly QualificationCategory[];
+  readonly criteria: readonly string[];
+  // MISSING: never measured; STALE: only measured too long ago
+  readonly reason: 'MISSING' | 'STALE';
+};
+
+/**
+ * Tests to order where a diagnosis qualifies but measurements are missing
+ * or out of date
+ *
+ * Business rules:
+ * - Only categories in LAB_EVIDENCE_MISSING need labs - NOT_MET has current
+ *   results that do not qualify
+ * - A requirement met by any one of several criteria orders the first
+ *   missing one (criteria are listed in order of preference, blood gases
+ *   first)
+ */
+export function getRequiredLabs(
+  evaluation: PhysiologicEvaluation
+): RequiredLabTest[] {
+  const byTest = new Map<LabTest, RequiredLabTest>();
+
+  for (const category of QUALIFICATION_CATEGORIES) {
+    const result = evaluation.categories[category];
+    if (result.status !== 'LAB_EVIDENCE_MISSING') {
+      continue;
+    }
+
+    for (const requirement of result.requirements) {
+      if (requirement.some((criterion) => criterion.status === 'MET')) {
+        continue;
+      }
+      const needed = requirement.find(
+        (criterion) =>
+          criterion.status === 'MISSING' || criterion.status === 'STALE'
+      );
+      if (!needed) {
+        continue;
+      }
+
+      const test = MEASUREMENT_TESTS[needed.criterion.kind];
+      const existing = byTest.get(test);
+      byTest.set(test, {
+        test,
+        withinDays: Math.min(
+          existing?.withinDays ?? Infinity,
+          needed.criterion.maxAgeDays
+        ),
+        categories: [...new Set([...(existing?.categories ?? []), category])],
+        criteria: [
+          ...new Set([
+            ...(existing?.criteria ?? []),
+            needed.criterion.description,
+          ]),
+        ],
+        reason:
+          existing?.reason === 'MISSING' || needed.status === 'MISSING'
+            ? 'MISSING'
+            : 'STALE',
+      });
+    }
+  }
+
+  return [...byTest.values()];
+}
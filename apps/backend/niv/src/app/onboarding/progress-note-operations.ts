@@ -0,0 +1,35 @@
+// apps/backend/niv/src/app/onboarding/progress-note-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for the progress note write-back outbox. Implemented
+ * by progress-note-repository.ts.
+ */
+
+import type { ProgressNoteWriteBack } from './progress-note';
+
+/**
+ * Contract for storing a new or updated write-back
+ */
+export type SaveProgressNoteWriteBack = (
+  writeBack: ProgressNoteWriteBack
+) => Promise<void>;
+
+/**
+ * Contract for finding failed write-backs whose retry time has come
+ */
+export type FindDueWriteBacks = (
+  now: Date,
+  limit: number
+) => Promise<ProgressNoteWriteBack[]>;
+
+/**
+ * Contract for reading a case's write-backs, newest first
+ *
+ * Business operation: "Did the decision reach the PCC chart?"
+ */
+export type FindCaseWriteBacks = (
+  caseId: string
+) => Promise<ProgressNoteWriteBack[]>;
@@ -0,0 +1,135 @@
+// apps/backend/niv/src/app/onboarding/progress-note-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements the progress note write-back outbox using Postgres
+ * (progress_note_write_backs table).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+import type {
+  ProgressNote,
+  ProgressNoteWriteBack,
+  WriteBackStatus,
+} from './progress-note';
+import type {
+  FindCaseWriteBacks,
+  FindDueWriteBacks,
+  SaveProgressNoteWriteBack,
+} from './progress-note-operations';
+import type { ReviewOutcome } from './review-queue';
+
+/**
+ * Row shape of the progress_note_write_backs table
+ */
+type WriteBackRow = {
+  write_back_id: string;
+  case_id: string;
+  outcome: ReviewOutcome;
+  // JSONB comes back with dates as ISO strings
+  note: Omit<ProgressNote, 'effectiveAt'> & { effectiveAt: string };
+  status: WriteBackStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: Date | null;
+  pcc_progress_note_id: number | null;
+  created_at: Date;
+  sent_at: Date | null;
+};
+
+function rowToWriteBack(row: WriteBackRow): ProgressNoteWriteBack {
+  return {
+    writeBackId: row.write_back_id,
+    caseId: row.case_id,
+    outcome: row.outcome,
+    note: { ...row.note, effectiveAt: new Date(row.note.effectiveAt) },
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at,
+    pccProgressNoteId: row.pcc_progress_note_id,
+    createdAt: row.created_at,
+    sentAt: row.sent_at,
+  };
+}
+
+/**
+ * Create progress note repository using Postgres as the implementation
+ */
+export function createPostgresProgressNoteRepository(client: PostgresClient) {
+  const saveWriteBack: SaveProgressNoteWriteBack = async (writeBack) => {
+    try {
+      await client.query(
+        `INSERT INTO progress_note_write_backs (
+           write_back_id, case_id, outcome, note, status, attempts,
+           last_error, next_attempt_at, pcc_progress_note_id, created_at,
+           sent_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (write_back_id) DO UPDATE SET
+           note = EXCLUDED.note,
+           status = EXCLUDED.status,
+           attempts = EXCLUDED.attempts,
+           last_error = EXCLUDED.last_error,
+           next_attempt_at = EXCLUDED.next_attempt_at,
+           pcc_progress_note_id = EXCLUDED.pcc_progress_note_id,
+           sent_at = EXCLUDED.sent_at`,
+        [
+          writeBack.writeBackId,
+          writeBack.caseId,
+          writeBack.outcome,
+          JSON.stringify(writeBack.note),
+          writeBack.status,
+          writeBack.attempts,
+          writeBack.lastError,
+          writeBack.nextAttemptAt,
+          writeBack.pccProgressNoteId,
+          writeBack.createdAt,
+          writeBack.sentAt,
+        ]
+      );
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'progress_note_save');
+    }
+  };
+
+  const findDueWriteBacks: FindDueWriteBacks = async (now, limit) => {
+    try {
+      const rows = await client.query<WriteBackRow>(
+        `SELECT * FROM progress_note_write_backs
+         WHERE status = 'FAILED' AND next_attempt_at <= $1
+         ORDER BY next_attempt_at ASC
+         LIMIT $2`,
+        [now, limit]
+      );
+
+      return rows.map(rowToWriteBack);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'progress_note_due_lookup');
+    }
+  };
+
+  const findCaseWriteBacks: FindCaseWriteBacks = async (caseId) => {
+    try {
+      const rows = await client.query<WriteBackRow>(
+        `SELECT * FROM progress_note_write_backs
+         WHERE case_id = $1
+         ORDER BY created_at DESC`,
+        [caseId]
+      );
+
+      return rows.map(rowToWriteBack);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'progress_note_lookup');
+    }
+  };
+
+  return {
+    saveWriteBack,
+    findDueWriteBacks,
+    findCaseWriteBacks,
+  };
+}
@@ -0,0 +1,241 @@
+// apps/backend/niv/src/app/onboarding/progress-note-write-back.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Writes each completed review to the patient's PCC chart as an NIV
+ * assessment progress note. The note is recorded in an outbox before it
+ * is sent; a write PCC refuses or never answers is retried with backoff
+ * and never undoes the review.
+ */
+
+import { randomUUID } from 'crypto';
+import type { RetryReport } from './case-notifications';
+import type { QualificationCategory } from './diagnosis-catalog';
+import type {
+  CreateProgressNote,
+  GetProgressNoteTypes,
+} from './ehr-operations';
+import { OnboardingError } from './errors';
+import type { OnboardingCase } from './onboarding-case';
+import {
+  buildAssessmentNote,
+  findProgressNoteType,
+  fitNoteToType,
+  type ProgressNoteWriteBack,
+  type QualifyingDiagnosis,
+} from './progress-note';
+import type {
+  FindCaseWriteBacks,
+  FindDueWriteBacks,
+  SaveProgressNoteWriteBack,
+} from './progress-note-operations';
+import type { ReviewOutcome } from './review-queue';
+import { getStaffName } from './staff-member';
+import type { FindStaffMember } from './staff-operations';
+
+// Give up after this many attempts; backoff doubles from five minutes
+const MAX_WRITE_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 5 * 60_000;
+
+/**
+ * Dependencies that progress note write-back needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type ProgressNoteWriteBackDependencies = {
+  getProgressNoteTypes: GetProgressNoteTypes;
+  createProgressNote: CreateProgressNote;
+  saveWriteBack: SaveProgressNoteWriteBack;
+  findDueWriteBacks: FindDueWriteBacks;
+  findCaseWriteBacks: FindCaseWriteBacks;
+  findStaffMember: FindStaffMember;
+  // Category a code qualifies for under the case's rule set, if any
+  categorizeCode: (
+    ruleSetVersion: string | undefined,
+    code: string
+  ) => QualificationCategory | null;
+  // Description of the PCC progress note type to write
+  noteType: string;
+};
+
+/**
+ * Progress note write-back domain service interface
+ */
+export interface ProgressNoteWriteBackService {
+  /**
+   * Write the review decision to the patient's chart
+   *
+   * Business rules:
+   * - The note lists the diagnoses that count towards a qualifying
+   *   category, the decision with the RT's reason, and next steps
+   * - A failed write is kept and retried; it does not throw
+   */
+  writeBackDecision(
+    onboardingCase: OnboardingCase,
+    outcome: ReviewOutcome,
+    rtId: string,
+    reason?: string,
+    now?: Date
+  ): Promise<ProgressNoteWriteBack>;
+
+  /**
+   * Retry failed write-backs whose retry time has come
+   */
+  retryDueWriteBacks(now?: Date): Promise<RetryReport>;
+
+  /**
+   * A case's write-backs, newest first
+   */
+  listCaseWriteBacks(caseId: string): Promise<ProgressNoteWriteBack[]>;
+}
+
+/**
+ * Factory function to create progress note write-back domain service
+ */
+export function createProgressNoteWriteBack(
+  deps: ProgressNoteWriteBackDependencies
+): ProgressNoteWriteBackService {
+  const attempt = async (
+    writeBack: ProgressNoteWriteBack,
+    now: Date
+  ): Promise<ProgressNoteWriteBack> => {
+    const attempts = writeBack.attempts + 1;
+
+    try {
+      // Looked up on every attempt so a corrected note type takes effect
+      const types = await deps.getProgressNoteTypes(
+        writeBack.note.orgUuid,
+        writeBack.note.facilityId
+      );
+      const noteType = findProgressNoteType(types, deps.noteType);
+      if (!noteType) {
+        throw OnboardingError.progressNoteTypeNotFound(
+          deps.noteType,
+          writeBack.note.facilityId
+        );
+      }
+
+      const note = fitNoteToType(writeBack.note, noteType);
+      // The write-back ID lets PCC turn away a repeat of a write that
+      // went through
+      const pccProgressNoteId = await deps.createProgressNote(
+        note,
+        writeBack.writeBackId
+      );
+
+      return {
+        ...writeBack,
+        note,
+        status: 'SENT',
+        attempts,
+        lastError: null,
+        nextAttemptAt: null,
+        pccProgressNoteId,
+        sentAt: now,
+      };
+    } catch (error) {
+      return {
+        ...writeBack,
+        status: 'FAILED',
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt:
+          attempts < MAX_WRITE_ATTEMPTS
+            ? new Date(
+                now.getTime() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)
+              )
+            : null,
+      };
+    }
+  };
+
+  const findQualifyingDiagnoses = (
+    onboardingCase: OnboardingCase
+  ): QualifyingDiagnosis[] => {
+    const qualification = onboardingCase.qualification;
+    if (!qualification) {
+      return [];
+    }
+
+    return qualification.diagnoses
+      .flatMap((diagnosis) => {
+        const category = deps.categorizeCode(
+          qualification.ruleSetVersion,
+          diagnosis.code
+        );
+        return category && qualification.clinicalQualifications[category]
+          ? [{ ...diagnosis, category }]
+          : [];
+      })
+      .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+      .map(({ code, description, category }) => ({
+        code,
+        description,
+        category,
+      }));
+  };
+
+  const writeBackDecision = async (
+    onboardingCase: OnboardingCase,
+    outcome: ReviewOutcome,
+    rtId: string,
+    reason?: string,
+    now: Date = new Date()
+  ): Promise<ProgressNoteWriteBack> => {
+    const reviewer = await deps.findStaffMember(rtId);
+    const note = buildAssessmentNote(
+      onboardingCase,
+      outcome,
+      reviewer ? `${getStaffName(reviewer)}, RT` : rtId,
+      reason,
+      findQualifyingDiagnoses(onboardingCase),
+      deps.noteType,
+      now
+    );
+
+    const pending: ProgressNoteWriteBack = {
+      writeBackId: randomUUID(),
+      caseId: onboardingCase.caseId,
+      outcome,
+      note,
+      status: 'PENDING',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: null,
+      pccProgressNoteId: null,
+      createdAt: now,
+      sentAt: null,
+    };
+
+    // Record before sending so nothing is lost if the process dies mid-way
+    await deps.saveWriteBack(pending);
+    const attempted = await attempt(pending, now);
+    await deps.saveWriteBack(attempted);
+    return attempted;
+  };
+
+  const retryDueWriteBacks = async (
+    now: Date = new Date()
+  ): Promise<RetryReport> => {
+    const due = await deps.findDueWriteBacks(now, 50);
+
+    // One at a time; each write is two PCC calls
+    let sent = 0;
+    for (const writeBack of due) {
+      const attempted = await attempt(writeBack, now);
+      await deps.saveWriteBack(attempted);
+      if (attempted.status === 'SENT') {
+        sent++;
+      }
+    }
+
+    return { attempted: due.length, sent, failed: due.length - sent };
+  };
+
+  return {
+    writeBackDecision,
+    retryDueWriteBacks,
+    listCaseWriteBacks: deps.findCaseWriteBacks,
+  };
+}
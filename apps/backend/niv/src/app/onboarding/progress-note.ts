@@ -0,0 +1,225 @@
+// apps/backend/niv/src/app/onboarding/progress-note.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * The NIV assessment note written to the patient's PCC chart when an RT
+ * completes a review, so facility staff working in PCC see the decision.
+ * The note names the qualifying diagnoses, the decision and what happens
+ * next. Each write-back is kept as an outbox entry and retried with
+ * backoff until PCC accepts it.
+ */
+
+import type { QualificationCategory } from './diagnosis-catalog';
+import type { OnboardingCase } from './onboarding-case';
+import type { ReviewOutcome } from './review-queue';
+
+export type ProgressNoteSection = {
+  readonly name: string;
+  readonly text: string;
+};
+
+/**
+ * A progress note as PCC stores it on the chart
+ */
+export type ProgressNote = {
+  readonly orgUuid: string;
+  readonly patientId: number;
+  readonly facilityId: number;
+  // Description of the PCC progress note type, e.g. "Respiratory Therapy"
+  readonly noteType: string;
+  // Clinician the note is written for, e.g. "Rita Lung, RT"
+  readonly provider: string;
+  readonly effectiveAt: Date;
+  readonly sections: readonly ProgressNoteSection[];
+};
+
+/**
+ * A progress note type configured in PCC, with the sections it accepts
+ */
+export type ProgressNoteType = {
+  readonly description: string;
+  readonly sections: readonly string[];
+};
+
+/**
+ * A diagnosis on the case that counts towards an NIV category
+ */
+export type QualifyingDiagnosis = {
+  readonly code: string;
+  readonly description: string;
+  readonly category: QualificationCategory;
+};
+
+export type WriteBackStatus = 'PENDING' | 'SENT' | 'FAILED';
+
+/**
+ * A review decision on its way to the PCC chart, with retry bookkeeping
+ */
+export type ProgressNoteWriteBack = {
+  readonly writeBackId: string;
+  readonly caseId: string;
+  readonly outcome: ReviewOutcome;
+  readonly note: ProgressNote;
+  readonly status: WriteBackStatus;
+  readonly attempts: number;
+  readonly lastError: string | null;
+  readonly nextAttemptAt: Date | null;
+  // ID PCC gave the note once written; stays null when a retry found the
+  // note already written
+  readonly pccProgressNoteId: number | null;
+  readonly createdAt: Date;
+  readonly sentAt: Date | null;
+};
+
+const DECISIONS: Record<ReviewOutcome, string> = {
+  markQualified: 'Qualifies for NIV; patient agrees to therapy.',
+  recordRefusal: 'Qualifies for NIV; patient declined therapy.',
+  markNotQualified: 'Does not qualify for NIV at this time.',
+  requestLabs: 'Decision deferred pending further testing.',
+};
+
+const NEXT_STEPS: Record<ReviewOutcome, string> = {
+  markQualified:
+    'Respiratory therapy to arrange NIV device setup and fitting. Weekly RT visits follow once therapy starts.',
+  recordRefusal:
+    'No device will be set up. The patient will be offered NIV again at the next scheduled re-review.',
+  markNotQualified:
+    'No NIV therapy. The patient will be re-reviewed on schedule or when new diagnoses or results are recorded.',
+  requestLabs:
+    'Tests ordered as listed. The RT will review again when results are recorded in PCC.',
+};
+
+const LAB_TEST_NAMES: Record<string, string> = {
+  ARTERIAL_BLOOD_GAS: 'Arterial blood gas',
+  OVERNIGHT_OXIMETRY: 'Overnight oximetry',
+  SPIROMETRY: 'Spirometry',
+};
+
+/**
+ * Build the NIV assessment note for a completed review
+ *
+ * Sections: assessment summary, qualifying diagnoses, decision and next
+ * steps; the RT's reason is included with the decision and the RT is the
+ * note's provider
+ */
+export function buildAssessmentNote(
+  onboardingCase: OnboardingCase,
+  outcome: ReviewOutcome,
+  reviewer: string,
+  reason: string | undefined,
+  qualifying: readonly QualifyingDiagnosis[],
+  noteType: string,
+  now: Date
+): ProgressNote {
+  const qualification = onboardingCase.qualification;
+  const categories = qualification
+    ? Object.entries(qualification.clinicalQualifications)
+        .filter(([, qualifies]) => qualifies)
+        .map(([category]) => category)
+    : [];
+
+  const assessment = [
+    `NIV qualification review completed by ${reviewer}.`,
+    qualification
+      ? `Assessed ${qualification.assessedAt.toISOString().slice(0, 10)}${
+          qualification.ruleSetVersion
+            ? ` under rule set ${qualification.ruleSetVersion}`
+            : ''
+        }: ${
+          qualification.isNivEligible ? 'NIV eligible' : 'not NIV eligible'
+        }${categories.length > 0 ? ` (${categories.join(', ')})` : ''}.`
+      : 'No qualification assessment was available from PCC.',
+    ...(qualification?.exclusionReason
+      ? [`Exclusion: ${qualification.exclusionReason}.`]
+      : []),
+  ];
+
+  const diagnoses =
+    qualifying.length > 0
+      ? qualifying.map(
+          (diagnosis) =>
+            `${diagnosis.code} ${diagnosis.description} (${diagnosis.category})`
+        )
+      : ['None recorded.'];
+
+  const labs = qualification?.labsRequired ?? [];
+  const nextSteps = [
+    NEXT_STEPS[outcome],
+    ...(outcome === 'requestLabs' && labs.length > 0
+      ? [
+          `Tests: ${labs
+            .map((lab) => LAB_TEST_NAMES[lab.test] ?? lab.test)
+            .join(', ')}.`,
+        ]
+      : []),
+  ];
+
+  return {
+    orgUuid: onboardingCase.orgUuid,
+    patientId: onboardingCase.patientId,
+    facilityId: onboardingCase.facilityId,
+    noteType,
+    provider: reviewer,
+    effectiveAt: now,
+    sections: [
+      { name: 'Assessment', text: assessment.join('\n') },
+      { name: 'Qualifying Diagnoses', text: diagnoses.join('\n') },
+      {
+        name: 'Decision',
+        text: [
+          DECISIONS[outcome],
+          ...(reason ? [`Reason: ${reason}`] : []),
+        ].join('\n'),
+      },
+      { name: 'Next Steps', text: nextSteps.join('\n') },
+    ],
+  };
+}
+
+/**
+ * Fit the note to the sections its PCC note type accepts: kept as they
+ * are when the type has them all, otherwise written as headed paragraphs
+ * in the type's first section
+ */
+export function fitNoteToType(
+  note: ProgressNote,
+  noteType: ProgressNoteType
+): ProgressNote {
+  const accepted = new Set(
+    noteType.sections.map((section) => section.toLowerCase())
+  );
+  if (
+    noteType.sections.length === 0 ||
+    note.sections.every((section) => accepted.has(section.name.toLowerCase()))
+  ) {
+    return { ...note, noteType: noteType.description };
+  }
+
+  return {
+    ...note,
+    noteType: noteType.description,
+    sections: [
+      {
+        name: noteType.sections[0],
+        text: note.sections
+          .map((section) => `${section.name}:\n${section.text}`)
+          .join('\n\n'),
+      },
+    ],
+  };
+}
+
+/**
+ * Find the configured note type among those PCC offers, ignoring case
+ */
+export function findProgressNoteType(
+  types: readonly ProgressNoteType[],
+  description: string
+): ProgressNoteType | null {
+  const wanted = description.trim().toLowerCase();
+  return (
+    types.find((type) => type.description.trim().toLowerCase() === wanted) ??
+    null
+  );
+}
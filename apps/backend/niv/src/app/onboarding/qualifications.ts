@@ -13,8 +13,40 @@
  * without any infrastructure dependencies.
  */
 
-import { getClinicalQualifications } from './diagnosis';
-import { GetPatient, GetPatientWithDiagnoses } from './ehr-operations';
+import { screenDiagnoses } from './condition-criteria';
+import {
+  explainClinicalQualifications,
+  getClinicalQualifications,
+  type ClinicalQualifications,
+  type ConditionClinicalStatus,
+  type Diagnosis,
+  type QualificationEvidence,
+} from './diagnosis';
+import {
+  GetPatient,
+  GetPatientAdvanceDirectives,
+  GetPatientObservations,
+  GetPatientWithDiagnoses,
+} from './ehr-operations';
+import {
+  evaluateExclusions,
+  type AdvanceDirective,
+  type ExclusionOutcome,
+} from './exclusion';
+import type { Observation } from './observation';
+import type { Patient } from './patient';
+import {
+  evaluatePhysiologicCriteria,
+  getRequiredLabs,
+  OBSERVATION_LOOKBACK_DAYS,
+  type PhysiologicEvaluation,
+  type RequiredLabTest,
+} from './physiologic-criteria';
+import {
+  toRuleSetStamp,
+  type QualificationRuleSet,
+  type RuleSetStamp,
+} from './rule-set';
 
 /**
  * Assessment result for patient NIV qualification
@@ -31,10 +63,15 @@ export type AssessmentResult = {
       dateOfBirth: Date | null;
       facilityId: number;
     };
+    // Every recorded condition, resolved and historical ones included
     diagnoses: Array<{
       code: string;
       description: string;
       isPrimary: boolean;
+      clinicalStatus: ConditionClinicalStatus;
+      onsetDate: Date;
+      resolvedDate: Date | null;
+      rank: string | null;
     }>;
     clinicalQualifications: {
       COPD: boolean;
@@ -42,7 +79,42 @@ export type AssessmentResult = {
       NMD: boolean;
       RTD: boolean;
     };
+    // Some category qualifies and no exclusion applies
     isNivEligible: boolean;
+    // ELIGIBLE, NOT_ELIGIBLE (no category qualifies) or EXCLUDED
+    outcome: QualificationOutcome;
+    // Contraindications checked alongside the inclusion categories
+    exclusion: ExclusionOutcome;
+    // Which diagnoses made each category true, and why
+    evidence: QualificationEvidence;
+    // Rule set the assessment was made under
+    ruleSet: RuleSetStamp;
+    // Measured evidence per category - diagnosis alone may not be enough
+    physiologic: PhysiologicEvaluation;
+    // Tests to order before the case can be reviewed on evidence
+    labsRequired: {
+      required: boolean;
+      tests: RequiredLabTest[];
+    };
+  };
+  error?: string;
+};
+
+export type QualificationOutcome = 'ELIGIBLE' | 'NOT_ELIGIBLE' | 'EXCLUDED';
+
+/**
+ * Same patient assessed under the active rule set and a chosen one
+ */
+export type ReEvaluationResult = {
+  success: boolean;
+  data?: {
+    active: AssessmentResult;
+    candidate: AssessmentResult;
+    impact: {
+      eligibilityChanged: boolean;
+      gainedCategories: Array<keyof ClinicalQualifications>;
+      lostCategories: Array<keyof ClinicalQualifications>;
+    };
   };
   error?: string;
 };
@@ -82,11 +154,20 @@ export type MockTestResult = {
  */
 export type QualificationsDependencies = {
   getPatientWithDiagnoses: GetPatientWithDiagnoses;
+  getPatientObservations: GetPatientObservations;
+  getPatientAdvanceDirectives: GetPatientAdvanceDirectives;
   testConnection: () => Promise<boolean>;
   getPatient: GetPatient; // For mock testing
   getPatientDiagnoses: (orgUuid: string, patientId: number) => Promise<any[]>; // For mock testing
 };
 
+// What an assessment reads from the EHR besides the patient
+type PatientRecord = {
+  diagnoses: Diagnosis[];
+  observations: Observation[];
+  advanceDirectives: AdvanceDirective[];
+};
+
 /**
  * Qualifications domain service interface
  * These are the core business operations for NIV clinical qualification assessment
@@ -101,6 +182,7 @@ export interface Qualifications {
    * Business rules:
    * - Patient must exist in EHR
    * - Clinical qualifications are based on ICD-10 diagnosis codes
+   * - Only conditions meeting the rule set's criteria count (e.g. active)
    * - Eligible if patient has any qualifying condition (COPD, CRF, NMD, RTD)
    */
   assessQualification(
@@ -123,6 +205,18 @@ export interface Qualifications {
    * when EHR system is not available.
    */
   testWithMockData(): Promise<MockTestResult>;
+
+  /**
+   * Re-evaluate a patient under a chosen (historical or draft) rule set
+   *
+   * Shows the impact of a rule change before it goes live: the same EHR
+   * data assessed under the active rule set and under the candidate.
+   */
+  reEvaluate(
+    orgUuid: string,
+    patientId: number,
+    candidate: QualificationRuleSet
+  ): Promise<ReEvaluationResult>;
 }
 
 /**
@@ -134,21 +228,106 @@ export interface Qualifications {
  *
  * @param ehrOps - EHR operations for data access (dependency injection)
  * @param mockEhrOps - Mock EHR operations for development testing
+ * @param activeRuleSet - Resolves the rule set currently in effect
  */
 export function createQualifications(
   ehrOps: QualificationsDependencies,
-  mockEhrOps: QualificationsDependencies
+  mockEhrOps: QualificationsDependencies,
+  activeRuleSet: () => QualificationRuleSet
 ): Qualifications {
+  // Core business logic: Assess clinical qualifications based on diagnoses
+  const assessUnder = (
+    ruleSet: QualificationRuleSet,
+    patient: Patient,
+    { diagnoses, observations, advanceDirectives }: PatientRecord
+  ): AssessmentResult => {
+    // Business rule: resolved or out-of-window conditions do not qualify
+    const { counted, disregarded } = screenDiagnoses(
+      diagnoses,
+      ruleSet.catalog,
+      ruleSet.conditions
+    );
+    const qualifications = getClinicalQualifications(counted, ruleSet.catalog);
+    const exclusion = evaluateExclusions(
+      diagnoses,
+      advanceDirectives,
+      ruleSet.exclusions
+    );
+    const qualifies = Object.values(qualifications).some(Boolean);
+    const physiologic = evaluatePhysiologicCriteria(
+      qualifications,
+      observations
+    );
+    // Business rule: no labs are ordered for excluded patients
+    const labTests = exclusion.excluded ? [] : getRequiredLabs(physiologic);
+
+    // Business logic: Format response with all clinical data
+    return {
+      success: true,
+      data: {
+        patient: {
+          ...patient,
+          fullName: `${patient.firstName} ${patient.lastName}`,
+        },
+        diagnoses: diagnoses.map((d) => ({
+          code: d.icd10Code,
+          description: d.description,
+          isPrimary: d.isPrimary,
+          clinicalStatus: d.clinicalStatus,
+          onsetDate: d.onsetDate,
+          resolvedDate: d.resolvedDate,
+          rank: d.rank,
+        })),
+        clinicalQualifications: qualifications,
+        // Business rule: Eligible if any qualification category is true
+        // and no exclusion applies
+        isNivEligible: qualifies && !exclusion.excluded,
+        outcome: exclusion.excluded
+          ? 'EXCLUDED'
+          : qualifies
+            ? 'ELIGIBLE'
+            : 'NOT_ELIGIBLE',
+        exclusion,
+        evidence: explainClinicalQualifications(
+          counted,
+          ruleSet.catalog,
+          disregarded
+        ),
+        ruleSet: toRuleSetStamp(ruleSet),
+        physiologic,
+        // Business rule: qualifying diagnosis without recent evidence
+        labsRequired: { required: labTests.length > 0, tests: labTests },
+      },
+    };
+  };
+
+  // Patient, diagnoses, measurements and advance directives read together
+  // from the EHR
+  const readPatientRecord = async (orgUuid: string, patientId: number) => {
+    const since = new Date(
+      Date.now() - OBSERVATION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000
+    );
+    const [{ patient, diagnoses }, observations, advanceDirectives] =
+      await Promise.all([
+        ehrOps.getPatientWithDiagnoses(orgUuid, patientId),
+        ehrOps.getPatientObservations(orgUuid, patientId, since),
+        ehrOps.getPatientAdvanceDirectives(orgUuid, patientId),
+      ]);
+    const record: PatientRecord = {
+      diagnoses,
+      observations,
+      advanceDirectives,
+    };
+    return { patient, record };
+  };
+
   const assessQualification = async (
     orgUuid: string,
     patientId: number
   ): Promise<AssessmentResult> => {
     try {
-      // Core business logic: Get patient and diagnoses from EHR
-      const { patient, diagnoses } = await ehrOps.getPatientWithDiagnoses(
-        orgUuid,
-        patientId
-      );
+      // Core business logic: Get patient and clinical record from EHR
+      const { patient, record } = await readPatientRecord(orgUuid, patientId);
 
       // Business rule: Patient must exist
       if (!patient) {
@@ -158,27 +337,7 @@ export function createQualifications(
         };
       }
 
-      // Core business logic: Assess clinical qualifications based on diagnoses
-      const qualifications = getClinicalQualifications(diagnoses);
-
-      // Business logic: Format response with all clinical data
-      return {
-        success: true,
-        data: {
-          patient: {
-            ...patient,
-            fullName: `${patient.firstName} ${patient.lastName}`,
-          },
-          diagnoses: diagnoses.map((d) => ({
-            code: d.icd10Code,
-            description: d.description,
-            isPrimary: d.isPrimary,
-          })),
-          clinicalQualifications: qualifications,
-          // Business rule: Eligible if any qualification category is true
-          isNivEligible: Object.values(qualifications).some(Boolean),
-        },
-      };
+      return assessUnder(activeRuleSet(), patient, record);
     } catch (error) {
       // Domain errors bubble up (OnboardingError instances)
       // Infrastructure errors are already mapped by EHR adapter layer
@@ -229,7 +388,16 @@ export function createQualifications(
       );
 
       // Apply same business logic as real assessment
-      const qualifications = getClinicalQualifications(diagnoses);
+      const ruleSet = activeRuleSet();
+      const { counted } = screenDiagnoses(
+        diagnoses,
+        ruleSet.catalog,
+        ruleSet.conditions
+      );
+      const qualifications = getClinicalQualifications(
+        counted,
+        ruleSet.catalog
+      );
 
       return {
         success: true,
@@ -247,9 +415,52 @@ export function createQualifications(
     }
   };
 
+  const reEvaluate = async (
+    orgUuid: string,
+    patientId: number,
+    candidate: QualificationRuleSet
+  ): Promise<ReEvaluationResult> => {
+    // One EHR read, so both assessments see the same data
+    const { patient, record } = await readPatientRecord(orgUuid, patientId);
+
+    if (!patient) {
+      return {
+        success: false,
+        error: 'Patient not found',
+      };
+    }
+
+    const active = assessUnder(activeRuleSet(), patient, record);
+    const proposed = assessUnder(candidate, patient, record);
+    const before = active.data?.clinicalQualifications;
+    const after = proposed.data?.clinicalQualifications;
+    const categories = Object.keys(after ?? {}) as Array<
+      keyof ClinicalQualifications
+    >;
+
+    return {
+      success: true,
+      data: {
+        active,
+        candidate: proposed,
+        impact: {
+          eligibilityChanged:
+            active.data?.isNivEligible !== proposed.data?.isNivEligible,
+          gainedCategories: categories.filter(
+            (category) => after?.[category] && !before?.[category]
+          ),
+          lostCategories: categories.filter(
+            (category) => !after?.[category] && before?.[category]
+          ),
+        },
+      },
+    };
+  };
+
   return {
     assessQualification,
     testConnection,
     testWithMockData,
+    reEvaluate,
   };
 }
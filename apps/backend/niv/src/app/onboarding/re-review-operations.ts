@@ -0,0 +1,64 @@
+// apps/backend/niv/src/app/onboarding/re-review-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for the durable re-review schedule and the per-org
+ * re-review interval. Implemented by re-review-repository.ts.
+ */
+
+import type { ReReviewJob, ReReviewJobStatus } from './re-review';
+
+/**
+ * Contract for scheduling (or rescheduling) a case's re-review
+ *
+ * A case has at most one scheduled re-review; saving replaces it
+ */
+export type SaveReReviewJob = (job: ReReviewJob) => Promise<ReReviewJob>;
+
+/**
+ * Contract for taking due re-reviews off the schedule
+ *
+ * Claimed jobs are hidden from other sweeps until leaseUntil, so a crash
+ * mid-run only delays the re-review
+ */
+export type ClaimDueReReviewJobs = (
+  now: Date,
+  leaseUntil: Date,
+  limit: number
+) => Promise<ReReviewJob[]>;
+
+/**
+ * Contract for recording the result of a re-review run
+ */
+export type UpdateReReviewJob = (
+  caseId: string,
+  update: {
+    status: ReReviewJobStatus;
+    attempts: number;
+    dueAt: Date;
+    lastError: string | null;
+    completedAt: Date | null;
+  }
+) => Promise<void>;
+
+/**
+ * Contract for reading a case's scheduled re-review
+ */
+export type FindReReviewJob = (caseId: string) => Promise<ReReviewJob | null>;
+
+/**
+ * Contract for reading the organization's re-review interval
+ *
+ * Resolves null when the organization uses the default
+ */
+export type FindReReviewInterval = (orgUuid: string) => Promise<number | null>;
+
+/**
+ * Contract for setting the organization's re-review interval
+ */
+export type SaveReReviewInterval = (
+  orgUuid: string,
+  intervalDays: number
+) => Promise<void>;
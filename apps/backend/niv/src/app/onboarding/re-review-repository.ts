@@ -0,0 +1,192 @@
+// apps/backend/niv/src/app/onboarding/re-review-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements the re-review schedule and per-org re-review interval using
+ * Postgres (re_review_jobs and org_re_review_settings tables).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+import type { CaseTransition } from './case-workflow';
+import type { ReReviewJob, ReReviewJobStatus } from './re-review';
+import type {
+  ClaimDueReReviewJobs,
+  FindReReviewInterval,
+  FindReReviewJob,
+  SaveReReviewInterval,
+  SaveReReviewJob,
+  UpdateReReviewJob,
+} from './re-review-operations';
+
+/**
+ * Row shape of the re_review_jobs table
+ */
+type ReReviewJobRow = {
+  case_id: string;
+  org_uuid: string;
+  trigger: string;
+  due_at: Date;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  scheduled_at: Date;
+  completed_at: Date | null;
+};
+
+function rowToReReviewJob(row: ReReviewJobRow): ReReviewJob {
+  return {
+    caseId: row.case_id,
+    orgUuid: row.org_uuid,
+    trigger: row.trigger as CaseTransition,
+    dueAt: row.due_at,
+    status: row.status as ReReviewJobStatus,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    scheduledAt: row.scheduled_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/**
+ * Create re-review repository using Postgres as the implementation
+ */
+export function createPostgresReReviewRepository(client: PostgresClient) {
+  const saveJob: SaveReReviewJob = async (job) => {
+    try {
+      const rows = await client.query<ReReviewJobRow>(
+        `INSERT INTO re_review_jobs (
+           case_id, org_uuid, trigger, due_at, status, attempts, last_error,
+           scheduled_at, completed_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (case_id) DO UPDATE SET
+           org_uuid = EXCLUDED.org_uuid,
+           trigger = EXCLUDED.trigger,
+           due_at = EXCLUDED.due_at,
+           status = EXCLUDED.status,
+           attempts = EXCLUDED.attempts,
+           last_error = EXCLUDED.last_error,
+           scheduled_at = EXCLUDED.scheduled_at,
+           completed_at = EXCLUDED.completed_at
+         RETURNING *`,
+        [
+          job.caseId,
+          job.orgUuid,
+          job.trigger,
+          job.dueAt,
+          job.status,
+          job.attempts,
+          job.lastError,
+          job.scheduledAt,
+          job.completedAt,
+        ]
+      );
+
+      return rowToReReviewJob(rows[0]);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 're_review_schedule');
+    }
+  };
+
+  const claimDueJobs: ClaimDueReReviewJobs = async (now, leaseUntil, limit) => {
+    try {
+      // SKIP LOCKED keeps concurrent sweeps from claiming the same job
+      const rows = await client.query<
+        ReReviewJobRow & { claimed_due_at: Date }
+      >(
+        `UPDATE re_review_jobs j SET due_at = $2
+         FROM (
+           SELECT case_id, due_at FROM re_review_jobs
+           WHERE status = 'SCHEDULED' AND due_at <= $1
+           ORDER BY due_at
+           LIMIT $3
+           FOR UPDATE SKIP LOCKED
+         ) due
+         WHERE j.case_id = due.case_id
+         RETURNING j.*, due.due_at AS claimed_due_at`,
+        [now, leaseUntil, limit]
+      );
+
+      // Report the original due time rather than the claim lease
+      return rows.map((row) =>
+        rowToReReviewJob({ ...row, due_at: row.claimed_due_at })
+      );
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 're_review_claim');
+    }
+  };
+
+  const updateJob: UpdateReReviewJob = async (caseId, update) => {
+    try {
+      await client.query(
+        `UPDATE re_review_jobs
+         SET status = $2, attempts = $3, due_at = $4, last_error = $5,
+             completed_at = $6
+         WHERE case_id = $1`,
+        [
+          caseId,
+          update.status,
+          update.attempts,
+          update.dueAt,
+          update.lastError,
+          update.completedAt,
+        ]
+      );
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 're_review_update');
+    }
+  };
+
+  const findJob: FindReReviewJob = async (caseId) => {
+    try {
+      const rows = await client.query<ReReviewJobRow>(
+        'SELECT * FROM re_review_jobs WHERE case_id = $1',
+        [caseId]
+      );
+
+      return rows.length > 0 ? rowToReReviewJob(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 're_review_lookup');
+    }
+  };
+
+  const findInterval: FindReReviewInterval = async (orgUuid) => {
+    try {
+      const rows = await client.query<{ interval_days: number }>(
+        'SELECT interval_days FROM org_re_review_settings WHERE org_uuid = $1',
+        [orgUuid]
+      );
+
+      return rows.length > 0 ? rows[0].interval_days : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 're_review_settings_lookup');
+    }
+  };
+
+  const saveInterval: SaveReReviewInterval = async (orgUuid, intervalDays) => {
+    try {
+      await client.query(
+        `INSERT INTO org_re_review_settings (org_uuid, interval_days, updated_at)
+         VALUES ($1, $2, now())
+         ON CONFLICT (org_uuid) DO UPDATE SET
+           interval_days = EXCLUDED.interval_days,
+           updated_at = EXCLUDED.updated_at`,
+        [orgUuid, intervalDays]
+      );
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 're_review_settings_save');
+    }
+  };
+
+  return {
+    saveJob,
+    claimDueJobs,
+    updateJob,
+    findJob,
+    findInterval,
+    saveInterval,
+  };
+}
@@ -0,0 +1,388 @@
+// apps/backend/niv/src/app/onboarding/re-review.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Scheduled re-review of REVIEWED cases ("close and initiate re-review
+ * after specified period of time" and "add to queue to Re-Review" in
+ * docs/wf-onboarding.d2). When a case is closed as refused or not
+ * qualified, a re-review is scheduled after the organization's interval.
+ * When it falls due the qualification is re-assessed from fresh EHR
+ * diagnoses and the case goes back on the review queue with a note of
+ * what changed.
+ */
+
+import { toQualificationSnapshot } from './case-management';
+import type {
+  FindOnboardingCase,
+  SaveCaseTransition,
+  SaveOnboardingCase,
+} from './case-operations';
+import { applyTransition, type CaseTransition } from './case-workflow';
+import type { ClinicalQualifications } from './diagnosis';
+import { OnboardingError } from './errors';
+import {
+  withQualification,
+  type OnboardingCase,
+  type QualificationSnapshot,
+} from './onboarding-case';
+import type { AssessmentResult } from './qualifications';
+import type {
+  ClaimDueReReviewJobs,
+  FindReReviewInterval,
+  FindReReviewJob,
+  SaveReReviewInterval,
+  SaveReReviewJob,
+  UpdateReReviewJob,
+} from './re-review-operations';
+
+export const RE_REVIEW_ACTOR = 'system:re-review';
+
+// Failed runs retry with backoff doubling from an hour, then give up
+const MAX_RE_REVIEW_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 60_000;
+// How long a sweep may hold due jobs before another sweep may take them
+const CLAIM_LEASE_MS = 10 * 60_000;
+const SWEEP_BATCH_SIZE = 50;
+const DAY_MS = 24 * 60 * 60_000;
+
+export type ReReviewJobStatus = 'SCHEDULED' | 'DONE' | 'CANCELLED' | 'FAILED';
+
+export type ReReviewJob = {
+  readonly caseId: string;
+  readonly orgUuid: string;
+  // Transition that closed the case (recordRefusal, markNotQualified, ...)
+  readonly trigger: CaseTransition;
+  readonly dueAt: Date;
+  readonly status: ReReviewJobStatus;
+  readonly attempts: number;
+  readonly lastError: string | null;
+  readonly scheduledAt: Date;
+  readonly completedAt: Date | null;
+};
+
+export type ReReviewSettings = {
+  readonly orgUuid: string;
+  readonly intervalDays: number;
+  // True when the organization has no interval of its own
+  readonly isDefault: boolean;
+};
+
+export type ReReviewReport = {
+  readonly due: number;
+  readonly reopened: number;
+  readonly cancelled: number;
+  readonly failed: number;
+};
+
+/**
+ * Dependencies that the re-review scheduler needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type ReReviewDependencies = {
+  assessQualification: (
+    orgUuid: string,
+    patientId: number
+  ) => Promise<AssessmentResult>;
+  findCase: FindOnboardingCase;
+  saveCase: SaveOnboardingCase;
+  saveTransition: SaveCaseTransition;
+  saveJob: SaveReReviewJob;
+  claimDueJobs: ClaimDueReReviewJobs;
+  updateJob: UpdateReReviewJob;
+  findJob: FindReReviewJob;
+  findInterval: FindReReviewInterval;
+  saveInterval: SaveReReviewInterval;
+  // Used when the organization has no interval of its own
+  defaultIntervalDays: number;
+};
+
+/**
+ * Re-review scheduler domain service interface
+ */
+export interface ReReviewScheduler {
+  /**
+   * Schedule a re-review for a case that was just closed as REVIEWED
+   *
+   * Business rule: due after the organization's re-review interval
+   */
+  scheduleReReview(
+    onboardingCase: OnboardingCase,
+    trigger: CaseTransition,
+    now?: Date
+  ): Promise<ReReviewJob>;
+
+  /**
+   * Re-assess due cases and put them back on the review queue
+   *
+   * Business rules:
+   * - Cases no longer REVIEWED were re-opened by staff; the job is cancelled
+   * - Diagnoses are re-fetched from the EHR and qualifications re-run
+   * - The reopen transition reason lists what changed for the RT
+   */
+  runDueReReviews(now?: Date): Promise<ReReviewReport>;
+
+  /**
+   * Get the re-review scheduled for a case, if any
+   *
+   * Fails with CASE_NOT_FOUND for an unknown case
+   */
+  getSchedule(caseId: string): Promise<ReReviewJob | null>;
+
+  /**
+   * Get the organization's re-review interval
+   */
+  getSettings(orgUuid: string): Promise<ReReviewSettings>;
+
+  /**
+   * Set the organization's re-review interval
+   *
+   * Applies to re-reviews scheduled from now on
+   */
+  updateSettings(
+    orgUuid: string,
+    intervalDays: number
+  ): Promise<ReReviewSettings>;
+}
+
+/**
+ * Factory function to create re-review scheduler domain service
+ */
+export function createReReviewScheduler(
+  deps: ReReviewDependencies
+): ReReviewScheduler {
+  const scheduleReReview = async (
+    onboardingCase: OnboardingCase,
+    trigger: CaseTransition,
+    now: Date = new Date()
+  ): Promise<ReReviewJob> => {
+    const intervalDays =
+      (await deps.findInterval(onboardingCase.orgUuid)) ??
+      deps.defaultIntervalDays;
+
+    return await deps.saveJob({
+      caseId: onboardingCase.caseId,
+      orgUuid: onboardingCase.orgUuid,
+      trigger,
+      dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+      status: 'SCHEDULED',
+      attempts: 0,
+      lastError: null,
+      scheduledAt: now,
+      completedAt: null,
+    });
+  };
+
+  const reopenCase = async (
+    onboardingCase: OnboardingCase,
+    now: Date
+  ): Promise<void> => {
+    const assessment = await deps.assessQualification(
+      onboardingCase.orgUuid,
+      onboardingCase.patientId
+    );
+    const snapshot = toQualificationSnapshot(assessment, now);
+    if (!assessment.success || !snapshot) {
+      throw new Error(
+        assessment.error ??
+          `Patient ${onboardingCase.patientId} could not be re-assessed`
+      );
+    }
+
+    const changes = describeQualificationChanges(
+      onboardingCase.qualification,
+      snapshot
+    );
+    const refreshed = await deps.saveCase(
+      withQualification(onboardingCase, snapshot, now)
+    );
+
+    await deps.saveTransition(
+      applyTransition(
+        refreshed,
+        'reopenForReview',
+        RE_REVIEW_ACTOR,
+        `Scheduled re-review: ${
+          changes.length > 0 ? changes.join('; ') : 'no clinical changes'
+        }`,
+        now
+      )
+    );
+  };
+
+  const runDueReReviews = async (
+    now: Date = new Date()
+  ): Promise<ReReviewReport> => {
+    const jobs = await deps.claimDueJobs(
+      now,
+      new Date(now.getTime() + CLAIM_LEASE_MS),
+      SWEEP_BATCH_SIZE
+    );
+    let reopened = 0;
+    let cancelled = 0;
+    let failed = 0;
+
+    for (const job of jobs) {
+      const attempts = job.attempts + 1;
+
+      try {
+        const onboardingCase = await deps.findCase(job.caseId);
+
+        if (!onboardingCase || onboardingCase.status !== 'REVIEWED') {
+          await deps.updateJob(job.caseId, {
+            status: 'CANCELLED',
+            attempts,
+            dueAt: job.dueAt,
+            lastError: null,
+            completedAt: now,
+          });
+          cancelled++;
+          continue;
+        }
+
+        await reopenCase(onboardingCase, now);
+        await deps.updateJob(job.caseId, {
+          status: 'DONE',
+          attempts,
+          dueAt: job.dueAt,
+          lastError: null,
+          completedAt: now,
+        });
+        reopened++;
+      } catch (error) {
+        const exhausted = attempts >= MAX_RE_REVIEW_ATTEMPTS;
+        await deps.updateJob(job.caseId, {
+          status: exhausted ? 'FAILED' : 'SCHEDULED',
+          attempts,
+          dueAt: exhausted
+            ? job.dueAt
+            : new Date(
+                now.getTime() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)
+              ),
+          lastError: error instanceof Error ? error.message : String(error),
+          completedAt: exhausted ? now : null,
+        });
+        failed++;
+      }
+    }
+
+    return { due: jobs.length, reopened, cancelled, failed };
+  };
+
+  const getSchedule = async (caseId: string): Promise<ReReviewJob | null> => {
+    // Business rule: schedule of an unknown case is an error, not null
+    if (!(await deps.findCase(caseId))) {
+      throw OnboardingError.caseNotFound(caseId);
+    }
+    return await deps.findJob(caseId);
+  };
+
+  const getSettings = async (orgUuid: string): Promise<ReReviewSettings> => {
+    const intervalDays = await deps.findInterval(orgUuid);
+    return {
+      orgUuid,
+      intervalDays: intervalDays ?? deps.defaultIntervalDays,
+      isDefault: intervalDays === null,
+    };
+  };
+
+  const updateSettings = async (
+    orgUuid: string,
+    intervalDays: number
+  ): Promise<ReReviewSettings> => {
+    await deps.saveInterval(orgUuid, intervalDays);
+    return { orgUuid, intervalDays, isDefault: false };
+  };
+
+  return {
+    scheduleReReview,
+    runDueReReviews,
+    getSchedule,
+    getSettings,
+    updateSettings,
+  };
+}
+
+/**
+ * Human-readable differences between two qualification assessments
+ */
+export function describeQualificationChanges(
+  previous: QualificationSnapshot | null,
+  next: QualificationSnapshot
+): string[] {
+  const changes: string[] = [];
+
+  if (!previous) {
+    return ['first qualification assessment on record'];
+  }
+
+  for (const [category, qualifies] of Object.entries(
+    next.clinicalQualifications
+  )) {
+    const before =
+      previous.clinicalQualifications[category as keyof ClinicalQualifications];
+    if (before !== qualifies) {
+      changes.push(
+        qualifies
+          ? `${category} now qualifies`
+          : `${category} no longer qualifies`
+      );
+    }
+  }
+
+  if (
+    next.ruleSetVersion &&
+    previous.ruleSetVersion &&
+    previous.ruleSetVersion !== next.ruleSetVersion
+  ) {
+    changes.push(
+      `assessed under rule set ${next.ruleSetVersion} (was ${previous.ruleSetVersion})`
+    );
+  }
+
+  if ((previous.exclusionReason ?? null) !== (next.exclusionReason ?? null)) {
+    changes.push(
+      next.exclusionReason
+        ? `now excluded (${next.exclusionReason})`
+        : 'no longer excluded'
+    );
+  }
+
+  if (previous.isNivEligible !== next.isNivEligible) {
+    changes.push(
+      next.isNivEligible ? 'now NIV eligible' : 'no longer NIV eligible'
+    );
+  }
+
+  const previousCodes = new Set(previous.diagnoses.map((d) => d.code));
+  const nextCodes = new Set(next.diagnoses.map((d) => d.code));
+  const added = [...nextCodes].filter((code) => !previousCodes.has(code));
+  const removed = [...previousCodes].filter((code) => !nextCodes.has(code));
+
+  if (added.length > 0) {
+    changes.push(`new diagnoses: ${added.join(', ')}`);
+  }
+  if (removed.length > 0) {
+    changes.push(`diagnoses no longer listed: ${removed.join(', ')}`);
+  }
+
+  // Older snapshots have no status; their conditions were all active
+  const activeBefore = new Set(
+    previous.diagnoses
+      .filter((d) => (d.clinicalStatus ?? 'ACTIVE') === 'ACTIVE')
+      .map((d) => d.code)
+  );
+  const resolved = next.diagnoses
+    .filter(
+      (d) =>
+        (d.clinicalStatus ?? 'ACTIVE') !== 'ACTIVE' && activeBefore.has(d.code)
+    )
+    .map((d) => d.code);
+
+  if (resolved.length > 0) {
+    changes.push(`diagnoses resolved: ${resolved.join(', ')}`);
+  }
+
+  return changes;
+}
@@ -0,0 +1,57 @@
+// apps/backend/niv/src/app/onboarding/review-queue-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for the RT review queue and review claims (leases that
+ * stop two RTs reviewing the same patient). Implemented by
+ * review-queue-repository.ts.
+ */
+
+import type { OnboardingCase } from './onboarding-case';
+import type { ReviewClaim } from './review-queue';
+
+/**
+ * A case awaiting review together with any current claim on it
+ */
+export type ReviewQueueRow = {
+  readonly onboardingCase: OnboardingCase;
+  readonly claim: ReviewClaim | null;
+  // When the case last moved into its current status, if recorded
+  readonly queuedAt: Date | null;
+};
+
+/**
+ * Contract for listing cases awaiting review at the RT's facilities
+ *
+ * Business operation: "What is waiting for me to review?"
+ * Empty unless rtId is an active staff member with the RT role
+ */
+export type FindReviewQueue = (rtId: string) => Promise<ReviewQueueRow[]>;
+
+/**
+ * Contract for taking or renewing a review lease
+ *
+ * Business operation: "I'm reviewing this patient"
+ * Resolves null when another RT holds an unexpired lease
+ */
+export type SaveReviewClaim = (
+  claim: ReviewClaim,
+  now: Date
+) => Promise<ReviewClaim | null>;
+
+/**
+ * Contract for dropping a review lease held by the RT
+ *
+ * Resolves false when the RT held no lease on the case
+ */
+export type DeleteReviewClaim = (
+  caseId: string,
+  rtId: string
+) => Promise<boolean>;
+
+/**
+ * Contract for reading the current lease on a case
+ */
+export type FindReviewClaim = (caseId: string) => Promise<ReviewClaim | null>;
@@ -0,0 +1,150 @@
+// apps/backend/niv/src/app/onboarding/review-queue-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements the RT review queue and review leases using Postgres
+ * (onboarding_cases, staff directory and review_claims tables).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import {
+  mapStoreErrorToOnboardingError,
+  rowToOnboardingCase,
+  type OnboardingCaseRow,
+} from './case-repository';
+import { REVIEW_QUEUE_STATUSES, type ReviewClaim } from './review-queue';
+import type {
+  DeleteReviewClaim,
+  FindReviewClaim,
+  FindReviewQueue,
+  SaveReviewClaim,
+} from './review-queue-operations';
+
+/**
+ * Row shape of the review_claims table
+ */
+type ReviewClaimRow = {
+  case_id: string;
+  rt_id: string;
+  claimed_at: Date;
+  lease_expires_at: Date;
+};
+
+/**
+ * Queue rows carry the case columns plus the (optional) claim
+ */
+type ReviewQueueDbRow = OnboardingCaseRow & {
+  claim_rt_id: string | null;
+  claimed_at: Date | null;
+  lease_expires_at: Date | null;
+  queued_at: Date | null;
+};
+
+function rowToReviewClaim(row: ReviewClaimRow): ReviewClaim {
+  return {
+    caseId: row.case_id,
+    rtId: row.rt_id,
+    claimedAt: row.claimed_at,
+    leaseExpiresAt: row.lease_expires_at,
+  };
+}
+
+/**
+ * Create review queue repository using Postgres as the implementation
+ */
+export function createPostgresReviewQueueRepository(client: PostgresClient) {
+  const findQueue: FindReviewQueue = async (rtId: string) => {
+    try {
+      const rows = await client.query<ReviewQueueDbRow>(
+        `SELECT c.*, rc.rt_id AS claim_rt_id, rc.claimed_at, rc.lease_expires_at,
+                (SELECT MAX(t.occurred_at)
+                 FROM onboarding_case_transitions t
+                 WHERE t.case_id = c.case_id
+                   AND t.to_status = c.status
+                   AND t.from_status <> t.to_status) AS queued_at
+         FROM onboarding_cases c
+         JOIN staff_facilities sf
+           ON sf.org_uuid = c.org_uuid AND sf.facility_id = c.facility_id
+         JOIN staff_members sm ON sm.staff_id = sf.staff_id AND sm.active
+         JOIN staff_roles sr ON sr.staff_id = sf.staff_id AND sr.role = 'RT'
+         LEFT JOIN review_claims rc ON rc.case_id = c.case_id
+         WHERE sf.staff_id = $1 AND c.status = ANY($2)`,
+        [rtId, REVIEW_QUEUE_STATUSES]
+      );
+
+      return rows.map((row) => ({
+        onboardingCase: rowToOnboardingCase(row),
+        claim:
+          row.claim_rt_id && row.claimed_at && row.lease_expires_at
+            ? {
+                caseId: row.case_id,
+                rtId: row.claim_rt_id,
+                claimedAt: row.claimed_at,
+                leaseExpiresAt: row.lease_expires_at,
+              }
+            : null,
+        queuedAt: row.queued_at,
+      }));
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'review_queue_lookup');
+    }
+  };
+
+  const saveClaim: SaveReviewClaim = async (claim, now) => {
+    try {
+      // Take the lease if free, expired, or already ours (renewal)
+      const rows = await client.query<ReviewClaimRow>(
+        `INSERT INTO review_claims (case_id, rt_id, claimed_at, lease_expires_at)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (case_id) DO UPDATE SET
+           rt_id = EXCLUDED.rt_id,
+           claimed_at = EXCLUDED.claimed_at,
+           lease_expires_at = EXCLUDED.lease_expires_at
+         WHERE review_claims.rt_id = EXCLUDED.rt_id
+            OR review_claims.lease_expires_at <= $5
+         RETURNING *`,
+        [claim.caseId, claim.rtId, claim.claimedAt, claim.leaseExpiresAt, now]
+      );
+
+      return rows.length > 0 ? rowToReviewClaim(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'review_claim_save');
+    }
+  };
+
+  const deleteClaim: DeleteReviewClaim = async (caseId, rtId) => {
+    try {
+      const rows = await client.query<{ case_id: string }>(
+        `DELETE FROM review_claims WHERE case_id = $1 AND rt_id = $2
+         RETURNING case_id`,
+        [caseId, rtId]
+      );
+
+      return rows.length > 0;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'review_claim_delete');
+    }
+  };
+
+  const findClaim: FindReviewClaim = async (caseId) => {
+    try {
+      const rows = await client.query<ReviewClaimRow>(
+        'SELECT * FROM review_claims WHERE case_id = $1',
+        [caseId]
+      );
+
+      return rows.length > 0 ? rowToReviewClaim(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'review_claim_lookup');
+    }
+  };
+
+  return {
+    findQueue,
+    saveClaim,
+    deleteClaim,
+    findClaim,
+  };
+}
@@ -0,0 +1,273 @@
+// apps/backend/niv/src/app/onboarding/review-queue.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * The RT review queue ("Assign patient to RT review queue" and "RT Reviews
+ * and determines if Patient qualifies" in docs/wf-onboarding.d2). Cases
+ * waiting for review are ordered by priority then age; an RT claims a case
+ * with a time-limited lease, then releases it or completes the review,
+ * which moves the case through the workflow and writes the decision to
+ * the patient's PCC chart.
+ */
+
+import type { CaseManagement } from './case-management';
+import type { CaseTransition } from './case-workflow';
+import { OnboardingError } from './errors';
+import type { OnboardingCase, OnboardingStatus } from './onboarding-case';
+import type { ProgressNoteWriteBackService } from './progress-note-write-back';
+import type {
+  DeleteReviewClaim,
+  FindReviewClaim,
+  FindReviewQueue,
+  SaveReviewClaim,
+} from './review-queue-operations';
+import type { FindFacilityTherapists } from './rt-operations';
+
+// Statuses that put a case on the queue - CHANGED cases need re-review
+export const REVIEW_QUEUE_STATUSES: readonly OnboardingStatus[] = [
+  'WATCHLIST',
+  'CHANGED',
+];
+
+// Review decisions and the workflow transition each one applies
+export const REVIEW_OUTCOMES = [
+  'markQualified',
+  'recordRefusal',
+  'markNotQualified',
+  'requestLabs',
+] as const satisfies readonly CaseTransition[];
+
+export type ReviewOutcome = (typeof REVIEW_OUTCOMES)[number];
+
+const DEFAULT_LEASE_MINUTES = 30;
+const MAX_LEASE_MINUTES = 240;
+
+// Lease an RT holds while reviewing a case
+export type ReviewClaim = {
+  readonly caseId: string;
+  readonly rtId: string;
+  readonly claimedAt: Date;
+  readonly leaseExpiresAt: Date;
+};
+
+export type ReviewPriority = 'HIGH' | 'NORMAL' | 'LOW';
+
+export type ReviewQueueEntry = {
+  readonly onboardingCase: OnboardingCase;
+  readonly priority: ReviewPriority;
+  readonly waitingSince: Date;
+  readonly claim: ReviewClaim | null;
+};
+
+/**
+ * Review priority: changed clinical data first, then eligible patients
+ */
+export function getReviewPriority(
+  onboardingCase: OnboardingCase
+): ReviewPriority {
+  if (onboardingCase.status === 'CHANGED') {
+    return 'HIGH';
+  }
+  return onboardingCase.qualification?.isNivEligible ? 'NORMAL' : 'LOW';
+}
+
+const PRIORITY_ORDER: Record<ReviewPriority, number> = {
+  HIGH: 0,
+  NORMAL: 1,
+  LOW: 2,
+};
+
+export function isReviewOutcome(value: string): value is ReviewOutcome {
+  return (REVIEW_OUTCOMES as readonly string[]).includes(value);
+}
+
+/**
+ * Dependencies that the review queue needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type ReviewQueueDependencies = {
+  findQueue: FindReviewQueue;
+  saveClaim: SaveReviewClaim;
+  deleteClaim: DeleteReviewClaim;
+  findClaim: FindReviewClaim;
+  findFacilityTherapists: FindFacilityTherapists;
+  getCase: CaseManagement['getCase'];
+  transitionCase: CaseManagement['transitionCase'];
+  writeBackDecision: ProgressNoteWriteBackService['writeBackDecision'];
+  // Called when the write-back could not even be recorded; the review stands
+  onWriteBackFailure: (error: unknown) => void;
+};
+
+/**
+ * Review queue domain service interface
+ */
+export interface ReviewQueue {
+  /**
+   * Cases awaiting review at the RT's facilities, by priority then age
+   */
+  listQueue(rtId: string, now?: Date): Promise<ReviewQueueEntry[]>;
+
+  /**
+   * Claim a case for review, or renew the RT's own lease
+   *
+   * Business rules:
+   * - Case must be awaiting review
+   * - RT must cover the patient's facility
+   * - Only one RT may hold an unexpired lease
+   */
+  claim(
+    caseId: string,
+    rtId: string,
+    leaseMinutes?: number
+  ): Promise<ReviewClaim>;
+
+  /**
+   * Give the case back to the queue without a decision
+   */
+  release(caseId: string, rtId: string): Promise<void>;
+
+  /**
+   * Record the review decision and move the case through the workflow
+   *
+   * Business rules:
+   * - The RT must hold an unexpired lease on the case
+   * - The decision is written to the PCC chart in the background; a
+   *   failed write is retried and does not undo the review
+   */
+  complete(
+    caseId: string,
+    rtId: string,
+    outcome: ReviewOutcome,
+    reason?: string
+  ): Promise<OnboardingCase>;
+}
+
+/**
+ * Factory function to create review queue domain service
+ */
+export function createReviewQueue(deps: ReviewQueueDependencies): ReviewQueue {
+  const listQueue = async (
+    rtId: string,
+    now: Date = new Date()
+  ): Promise<ReviewQueueEntry[]> => {
+    const rows = await deps.findQueue(rtId);
+
+    return rows
+      .map(({ onboardingCase, claim, queuedAt }) => ({
+        onboardingCase,
+        priority: getReviewPriority(onboardingCase),
+        // Time in the queue, not since enrollment - CHANGED and readmitted
+        // cases join at the back
+        waitingSince: queuedAt ?? onboardingCase.createdAt,
+        // Expired leases no longer block anyone
+        claim: claim && claim.leaseExpiresAt > now ? claim : null,
+      }))
+      .sort(
+        (a, b) =>
+          PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+          a.waitingSince.getTime() - b.waitingSince.getTime()
+      );
+  };
+
+  const claim = async (
+    caseId: string,
+    rtId: string,
+    leaseMinutes: number = DEFAULT_LEASE_MINUTES
+  ): Promise<ReviewClaim> => {
+    const onboardingCase = await deps.getCase(caseId);
+
+    if (!REVIEW_QUEUE_STATUSES.includes(onboardingCase.status)) {
+      throw OnboardingError.reviewClaimRejected(
+        caseId,
+        rtId,
+        `case is ${onboardingCase.status}, not awaiting review`
+      );
+    }
+
+    const therapists = await deps.findFacilityTherapists(
+      onboardingCase.orgUuid,
+      onboardingCase.facilityId
+    );
+    if (!therapists.some((therapist) => therapist.rtId === rtId)) {
+      throw OnboardingError.reviewClaimRejected(
+        caseId,
+        rtId,
+        `respiratory therapist does not cover facility ${onboardingCase.facilityId}`
+      );
+    }
+
+    const now = new Date();
+    const minutes = Math.min(Math.max(leaseMinutes, 1), MAX_LEASE_MINUTES);
+    const saved = await deps.saveClaim(
+      {
+        caseId,
+        rtId,
+        claimedAt: now,
+        leaseExpiresAt: new Date(now.getTime() + minutes * 60_000),
+      },
+      now
+    );
+
+    if (!saved) {
+      const current = await deps.findClaim(caseId);
+      throw OnboardingError.reviewClaimRejected(
+        caseId,
+        rtId,
+        `already claimed by ${current?.rtId ?? 'another RT'} until ${
+          current?.leaseExpiresAt.toISOString() ?? 'lease expiry'
+        }`
+      );
+    }
+
+    return saved;
+  };
+
+  const release = async (caseId: string, rtId: string): Promise<void> => {
+    const released = await deps.deleteClaim(caseId, rtId);
+    if (!released) {
+      throw OnboardingError.reviewClaimRejected(
+        caseId,
+        rtId,
+        'no review claim held by this RT'
+      );
+    }
+  };
+
+  const complete = async (
+    caseId: string,
+    rtId: string,
+    outcome: ReviewOutcome,
+    reason?: string
+  ): Promise<OnboardingCase> => {
+    const current = await deps.findClaim(caseId);
+    if (
+      !current ||
+      current.rtId !== rtId ||
+      current.leaseExpiresAt <= new Date()
+    ) {
+      throw OnboardingError.reviewClaimRejected(
+        caseId,
+        rtId,
+        'claim the case before completing its review'
+      );
+    }
+
+    // Workflow transition records the RT as actor
+    const moved = await deps.transitionCase(caseId, outcome, rtId, reason);
+    await deps.deleteClaim(caseId, rtId);
+
+    void deps
+      .writeBackDecision(moved, outcome, rtId, reason)
+      .catch(deps.onWriteBackFailure);
+    return moved;
+  };
+
+  return {
+    listQueue,
+    claim,
+    release,
+    complete,
+  };
+}
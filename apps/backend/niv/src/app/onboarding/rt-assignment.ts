@@ -0,0 +1,192 @@
+// apps/backend/niv/src/app/onboarding/rt-assignment.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Assigns a respiratory therapist to an onboarding case ("Assign
+ * Respiratory Therapist RT" in docs/wf-onboarding.d2). The RT is picked
+ * from the therapists covering the patient's facility by a pluggable
+ * strategy; staff can also reassign a case manually.
+ */
+
+import { OnboardingError } from './errors';
+import type { OnboardingCase } from './onboarding-case';
+import type { FindFacilityTherapists, SaveRtAssignment } from './rt-operations';
+import type { TherapistCandidate } from './therapist';
+
+/**
+ * Strategy contract - picks one candidate or null when none is suitable
+ * Candidates are never empty when a strategy is called
+ */
+export type RtAssignmentStrategy = (
+  candidates: TherapistCandidate[]
+) => TherapistCandidate | null;
+
+// Least recently assigned at this facility first; never-assigned RTs lead
+const byRotation = (a: TherapistCandidate, b: TherapistCandidate) => {
+  const aTime = a.lastAssignedAt ? a.lastAssignedAt.getTime() : 0;
+  const bTime = b.lastAssignedAt ? b.lastAssignedAt.getTime() : 0;
+  return aTime - bTime || a.rtId.localeCompare(b.rtId);
+};
+
+/**
+ * Available assignment strategies
+ */
+export const RT_ASSIGNMENT_STRATEGIES = {
+  // Rotate through the facility's RTs in turn
+  'round-robin': (candidates) => [...candidates].sort(byRotation)[0],
+  // Fewest open cases; ties broken by rotation
+  'least-loaded': (candidates) =>
+    [...candidates].sort(
+      (a, b) => a.openCaseCount - b.openCaseCount || byRotation(a, b)
+    )[0],
+  // The RT designated as the facility owner, if any
+  'facility-owner': (candidates) =>
+    candidates.find((candidate) => candidate.isFacilityOwner) ?? null,
+} satisfies Record<string, RtAssignmentStrategy>;
+
+export type RtAssignmentStrategyName = keyof typeof RT_ASSIGNMENT_STRATEGIES;
+
+export function isRtAssignmentStrategy(
+  value: string
+): value is RtAssignmentStrategyName {
+  return Object.prototype.hasOwnProperty.call(RT_ASSIGNMENT_STRATEGIES, value);
+}
+
+/**
+ * Record of an RT being made responsible for a case
+ */
+export type RtAssignment = {
+  readonly caseId: string;
+  readonly orgUuid: string;
+  readonly facilityId: number;
+  readonly rtId: string;
+  readonly previousRtId: string | null;
+  readonly strategy: RtAssignmentStrategyName | 'manual';
+  readonly assignedBy: string;
+  readonly reason: string | null;
+  readonly assignedAt: Date;
+};
+
+/**
+ * Dependencies that RT assignment needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type RtAssignmentDependencies = {
+  findFacilityTherapists: FindFacilityTherapists;
+  saveAssignment: SaveRtAssignment;
+};
+
+/**
+ * RT assignment domain service interface
+ */
+export interface RtAssignmentService {
+  /**
+   * Pick an RT for the case with the configured strategy
+   *
+   * Fails with RT_ASSIGNMENT_FAILED when no RT covers the facility
+   */
+  assignCase(
+    onboardingCase: OnboardingCase,
+    assignedBy: string
+  ): Promise<OnboardingCase>;
+
+  /**
+   * Manually assign a specific RT to the case
+   *
+   * Business rule: the RT must cover the patient's facility
+   */
+  reassignCase(
+    onboardingCase: OnboardingCase,
+    rtId: string,
+    assignedBy: string,
+    reason?: string
+  ): Promise<OnboardingCase>;
+}
+
+/**
+ * Factory function to create RT assignment domain service
+ *
+ * @param deps - Therapist roster and assignment persistence
+ * @param strategyName - Strategy used for automatic assignment
+ */
+export function createRtAssignment(
+  deps: RtAssignmentDependencies,
+  strategyName: RtAssignmentStrategyName
+): RtAssignmentService {
+  const strategy: RtAssignmentStrategy = RT_ASSIGNMENT_STRATEGIES[strategyName];
+
+  const assignCase = async (
+    onboardingCase: OnboardingCase,
+    assignedBy: string
+  ): Promise<OnboardingCase> => {
+    const candidates = await deps.findFacilityTherapists(
+      onboardingCase.orgUuid,
+      onboardingCase.facilityId
+    );
+
+    const chosen = candidates.length > 0 ? strategy(candidates) : null;
+    if (!chosen) {
+      throw OnboardingError.rtAssignmentFailed(
+        onboardingCase.orgUuid,
+        onboardingCase.facilityId,
+        candidates.length === 0
+          ? 'no respiratory therapist covers the facility'
+          : `strategy ${strategyName} found no suitable respiratory therapist`,
+        onboardingCase.caseId
+      );
+    }
+
+    return await deps.saveAssignment({
+      caseId: onboardingCase.caseId,
+      orgUuid: onboardingCase.orgUuid,
+      facilityId: onboardingCase.facilityId,
+      rtId: chosen.rtId,
+      previousRtId: onboardingCase.assignedRtId,
+      strategy: strategyName,
+      assignedBy,
+      reason: null,
+      assignedAt: new Date(),
+    });
+  };
+
+  const reassignCase = async (
+    onboardingCase: OnboardingCase,
+    rtId: string,
+    assignedBy: string,
+    reason?: string
+  ): Promise<OnboardingCase> => {
+    const candidates = await deps.findFacilityTherapists(
+      onboardingCase.orgUuid,
+      onboardingCase.facilityId
+    );
+
+    // Business rule: the RT must cover the patient's facility
+    if (!candidates.some((candidate) => candidate.rtId === rtId)) {
+      throw OnboardingError.rtAssignmentFailed(
+        onboardingCase.orgUuid,
+        onboardingCase.facilityId,
+        `respiratory therapist ${rtId} does not cover the facility`,
+        onboardingCase.caseId
+      );
+    }
+
+    return await deps.saveAssignment({
+      caseId: onboardingCase.caseId,
+      orgUuid: onboardingCase.orgUuid,
+      facilityId: onboardingCase.facilityId,
+      rtId,
+      previousRtId: onboardingCase.assignedRtId,
+      strategy: 'manual',
+      assignedBy,
+      reason: reason?.trim() || null,
+      assignedAt: new Date(),
+    });
+  };
+
+  return {
+    assignCase,
+    reassignCase,
+  };
+}
@@ -0,0 +1,33 @@
+// apps/backend/niv/src/app/onboarding/rt-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for the respiratory therapist roster and for recording
+ * RT assignments. Implemented by rt-repository.ts.
+ */
+
+import type { OnboardingCase } from './onboarding-case';
+import type { RtAssignment } from './rt-assignment';
+import type { TherapistCandidate } from './therapist';
+
+/**
+ * Contract for listing the RTs who cover a facility
+ *
+ * Business operation: "Which respiratory therapists work this building?"
+ * Includes current workload and last assignment so strategies can choose
+ */
+export type FindFacilityTherapists = (
+  orgUuid: string,
+  facilityId: number
+) => Promise<TherapistCandidate[]>;
+
+/**
+ * Contract for storing an RT assignment on a case
+ *
+ * Business operation: "Make this RT responsible for this patient"
+ */
+export type SaveRtAssignment = (
+  assignment: RtAssignment
+) => Promise<OnboardingCase>;
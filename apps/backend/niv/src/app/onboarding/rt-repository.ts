@@ -0,0 +1,127 @@
+// apps/backend/niv/src/app/onboarding/rt-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements RT candidate lookup and RT assignment storage using Postgres
+ * (staff directory tables for the RTs covering a facility, and
+ * rt_assignments).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import {
+  mapStoreErrorToOnboardingError,
+  rowToOnboardingCase,
+  type OnboardingCaseRow,
+} from './case-repository';
+import { OnboardingError } from './errors';
+import type { FindFacilityTherapists, SaveRtAssignment } from './rt-operations';
+
+/**
+ * Row shape of the facility therapist query
+ */
+type TherapistCandidateRow = {
+  rt_id: string;
+  first_name: string;
+  last_name: string;
+  email: string | null;
+  is_owner: boolean;
+  open_case_count: number;
+  last_assigned_at: Date | null;
+};
+
+/**
+ * Create RT repository using Postgres as the implementation
+ */
+export function createPostgresRtRepository(client: PostgresClient) {
+  const findFacilityTherapists: FindFacilityTherapists = async (
+    orgUuid: string,
+    facilityId: number
+  ) => {
+    try {
+      // Candidates are active RTs assigned to the facility in the staff
+      // directory. Workload counts every assigned case still needing RT
+      // attention; suspended and closed cases need none.
+      const rows = await client.query<TherapistCandidateRow>(
+        `SELECT s.staff_id AS rt_id, s.first_name, s.last_name, s.email,
+           sf.is_owner,
+           (SELECT count(*) FROM onboarding_cases c
+             WHERE c.assigned_rt_id = s.staff_id
+               AND c.status NOT IN ('REVIEWED', 'SUSPENDED', 'CLOSED')
+           )::int AS open_case_count,
+           (SELECT max(a.assigned_at) FROM rt_assignments a
+             WHERE a.rt_id = s.staff_id
+               AND a.org_uuid = sf.org_uuid
+               AND a.facility_id = sf.facility_id) AS last_assigned_at
+         FROM staff_facilities sf
+         JOIN staff_members s ON s.staff_id = sf.staff_id
+         JOIN staff_roles r ON r.staff_id = s.staff_id AND r.role = 'RT'
+         WHERE sf.org_uuid = $1 AND sf.facility_id = $2 AND s.active
+         ORDER BY s.staff_id`,
+        [orgUuid, facilityId]
+      );
+
+      return rows.map((row) => ({
+        rtId: row.rt_id,
+        firstName: row.first_name,
+        lastName: row.last_name,
+        email: row.email,
+        isFacilityOwner: row.is_owner,
+        openCaseCount: row.open_case_count,
+        lastAssignedAt: row.last_assigned_at,
+      }));
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'facility_therapists_lookup');
+    }
+  };
+
+  const saveAssignment: SaveRtAssignment = async (assignment) => {
+    try {
+      return await client.transaction(async (tx) => {
+        const rows = await tx<OnboardingCaseRow>(
+          `UPDATE onboarding_cases
+           SET assigned_rt_id = $2, updated_at = $3
+           WHERE case_id = $1
+           RETURNING *`,
+          [assignment.caseId, assignment.rtId, assignment.assignedAt]
+        );
+
+        if (rows.length === 0) {
+          throw OnboardingError.caseNotFound(assignment.caseId);
+        }
+
+        await tx(
+          `INSERT INTO rt_assignments (
+             case_id, org_uuid, facility_id, rt_id, previous_rt_id,
+             strategy, assigned_by, reason, assigned_at
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            assignment.caseId,
+            assignment.orgUuid,
+            assignment.facilityId,
+            assignment.rtId,
+            assignment.previousRtId,
+            assignment.strategy,
+            assignment.assignedBy,
+            assignment.reason,
+            assignment.assignedAt,
+          ]
+        );
+
+        return rowToOnboardingCase(rows[0]);
+      });
+    } catch (error) {
+      if (error instanceof OnboardingError) {
+        throw error;
+      }
+      throw mapStoreErrorToOnboardingError(error, 'rt_assignment_save');
+    }
+  };
+
+  return {
+    findFacilityTherapists,
+    saveAssignment,
+  };
+}
@@ -0,0 +1,82 @@
+// apps/backend/niv/src/app/onboarding/rt-visit.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * Weekly RT visits for ACTIVE patients ("must be seen by RT every 7 days"
+ * in docs/wf-onboarding.d2). Pure functions only - the overdue calculator
+ * works from the case and its latest visit.
+ */
+
+import type { OnboardingCase } from './onboarding-case';
+
+export const VISIT_INTERVAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+// NIV device settings observed or adjusted at the visit
+export type DeviceSettings = {
+  readonly mode: string | null;
+  readonly ipapCmH2O: number | null;
+  readonly epapCmH2O: number | null;
+  readonly backupRate: number | null;
+  readonly oxygenLpm: number | null;
+};
+
+export type RtVisit = {
+  readonly visitId: string;
+  readonly caseId: string;
+  readonly rtId: string;
+  readonly visitedAt: Date;
+  readonly findings: string;
+  readonly deviceSettings: DeviceSettings;
+  readonly recordedAt: Date;
+};
+
+// An ACTIVE case whose weekly visit window has passed
+export type OverdueVisit = {
+  readonly onboardingCase: OnboardingCase;
+  readonly lastVisitAt: Date | null;
+  readonly dueAt: Date;
+  readonly daysOverdue: number;
+};
+
+/**
+ * When the next weekly visit is due
+ *
+ * The clock starts at the latest visit, or at device fitting (the first
+ * RT contact) when no visit has been recorded yet
+ */
+export function getNextVisitDue(
+  onboardingCase: OnboardingCase,
+  lastVisitAt: Date | null
+): Date {
+  const since =
+    lastVisitAt ?? onboardingCase.deviceFittedAt ?? onboardingCase.updatedAt;
+  return new Date(since.getTime() + VISIT_INTERVAL_DAYS * DAY_MS);
+}
+
+/**
+ * Overdue visit for an ACTIVE case, or null when the visit is not yet due
+ */
+export function getOverdueVisit(
+  onboardingCase: OnboardingCase,
+  lastVisitAt: Date | null,
+  now: Date = new Date()
+): OverdueVisit | null {
+  if (onboardingCase.status !== 'ACTIVE') {
+    return null;
+  }
+
+  const dueAt = getNextVisitDue(onboardingCase, lastVisitAt);
+  if (dueAt > now) {
+    return null;
+  }
+
+  return {
+    onboardingCase,
+    lastVisitAt,
+    dueAt,
+    daysOverdue: Math.floor((now.getTime() - dueAt.getTime()) / DAY_MS),
+  };
+}
@@ -0,0 +1,97 @@
+// apps/backend/niv/src/app/onboarding/rule-set-file.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ *
+ * Loads qualification rule sets from a JSON manifest. The bundled manifest
+ * lives in src/assets (copied next to the build output);
+ * NIV_RULE_SETS_PATH points at a replacement. Each rule set names its
+ * catalog file, resolved relative to the manifest - a frozen snapshot of
+ * docs/niv-diagnosis-codes.csv, so editing the working copy never changes
+ * a published rule set.
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { loadDiagnosisCatalog } from './diagnosis-catalog-file';
+import {
+  compileConditionCriteria,
+  type ConditionCriteriaConfig,
+} from './condition-criteria';
+import { OnboardingError } from './errors';
+import { compileExclusionRules, type ExclusionRule } from './exclusion';
+import {
+  createRuleSetRegistry,
+  type QualificationRuleSet,
+  type RuleSetRegistry,
+} from './rule-set';
+
+/**
+ * Manifest shape:
+ * { ruleSets: [{ name, version, effectiveFrom, status, catalog, conditions,
+ *   exclusions }] }
+ * where conditions are { requireActive, onsetWithinDays, categories }
+ * and exclusions are [{ code, name, reason }] (both optional)
+ */
+type RuleSetManifest = {
+  ruleSets?: Array<{
+    name?: string;
+    version?: string;
+    effectiveFrom?: string;
+    status?: string;
+    catalog?: string;
+    conditions?: ConditionCriteriaConfig;
+    exclusions?: ExclusionRule[];
+  }>;
+};
+
+/**
+ * Load and validate every rule set (and its catalog) in the manifest
+ */
+export function loadRuleSets(path: string): RuleSetRegistry {
+  let manifest: RuleSetManifest;
+  try {
+    manifest = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw OnboardingError.ruleSetsInvalid(path, [
+      `cannot be read: ${error instanceof Error ? error.message : error}`,
+    ]);
+  }
+
+  if (!Array.isArray(manifest.ruleSets)) {
+    throw OnboardingError.ruleSetsInvalid(path, ['missing ruleSets array']);
+  }
+
+  const ruleSets = manifest.ruleSets.map((entry): QualificationRuleSet => {
+    if (!entry.catalog) {
+      throw OnboardingError.ruleSetsInvalid(path, [
+        `rule set ${entry.version ?? '(no version)'} names no catalog`,
+      ]);
+    }
+    if (entry.status !== 'published' && entry.status !== 'draft') {
+      throw OnboardingError.ruleSetsInvalid(path, [
+        `rule set ${entry.version ?? '(no version)'} status must be published or draft`,
+      ]);
+    }
+
+    return {
+      name: entry.name ?? '',
+      version: entry.version ?? '',
+      effectiveFrom: new Date(entry.effectiveFrom ?? ''),
+      status: entry.status,
+      catalog: loadDiagnosisCatalog(resolve(dirname(path), entry.catalog)),
+      conditions: compileConditionCriteria(path, entry.conditions),
+      exclusions: compileExclusionRules(path, entry.exclusions ?? []),
+    };
+  });
+
+  return createRuleSetRegistry(path, ruleSets);
+}
+
+// Helper function to load the rule sets named by environment variables
+export function loadRuleSetsFromEnv(): RuleSetRegistry {
+  return loadRuleSets(
+    process.env.NIV_RULE_SETS_PATH ||
+      join(__dirname, 'assets', 'niv-rule-sets.json')
+  );
+}
@@ -0,0 +1,179 @@
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { compileConditionCriteria } from './condition-criteria';
+import { createDiagnosisCatalog } from './diagnosis-catalog';
+import { NIV_ERRORS, OnboardingError } from './errors';
+import { loadRuleSets } from './rule-set-file';
+import {
+  createRuleSetRegistry,
+  type QualificationRuleSet,
+  type RuleSetStatus,
+} from './rule-set';
+
+const BUNDLED_MANIFEST = join(__dirname, '../../assets/niv-rule-sets.json');
+
+const catalog = createDiagnosisCatalog('test-1', 'test', [
+  { code: 'J44.9', name: 'COPD', diagnosisType: 'COPD', category: 'COPD' },
+  {
+    code: 'J96.12',
+    name: 'CRF',
+    diagnosisType: 'RF w/ hyper',
+    category: 'CRF',
+  },
+  {
+    code: 'G12.21',
+    name: 'ALS',
+    diagnosisType: 'Stand Alone',
+    category: 'NMD',
+  },
+  { code: 'E66.2', name: 'OHS', diagnosisType: 'Stand Alone', category: 'RTD' },
+]);
+
+function makeRuleSet(
+  version: string,
+  effectiveFrom: string,
+  status: RuleSetStatus = 'published',
+  requireActive = true
+): QualificationRuleSet {
+  return {
+    name: `Rules ${version}`,
+    version,
+    effectiveFrom: new Date(effectiveFrom),
+    status,
+    catalog,
+    conditions: compileConditionCriteria('test', { requireActive }),
+    exclusions: [],
+  };
+}
+
+function problemsOf(
+  ruleSets: QualificationRuleSet[],
+  now = new Date('2026-10-19T00:00:00Z')
+): string[] {
+  try {
+    createRuleSetRegistry('test', ruleSets, now);
+  } catch (error) {
+    expect(error).toBeInstanceOf(OnboardingError);
+    expect((error as OnboardingError).code).toBe(NIV_ERRORS.RULE_SETS_INVALID);
+    const { context } = (error as OnboardingError).context as {
+      context: { problems: string[] };
+    };
+    return context.problems;
+  }
+  throw new Error('rule sets were accepted');
+}
+
+describe('createRuleSetRegistry', () => {
+  const now = new Date('2026-10-19T00:00:00Z');
+  const registry = createRuleSetRegistry(
+    'test',
+    [
+      makeRuleSet('2026.1', '2026-01-01'),
+      makeRuleSet('2026.3', '2026-11-01'),
+      makeRuleSet('2026.2', '2026-07-01'),
+      makeRuleSet('2027.1-draft', '2026-08-01', 'draft'),
+    ],
+    now
+  );
+
+  it('makes the latest published set already in effect active', () => {
+    expect(registry.active(now).version).toBe('2026.2');
+    expect(registry.active(new Date('2026-03-15')).version).toBe('2026.1');
+  });
+
+  it('switches to a future set on its effective date', () => {
+    expect(registry.active(new Date('2026-10-31T23:59:59Z')).version).toBe(
+      '2026.2'
+    );
+    expect(registry.active(new Date('2026-11-01T00:00:00Z')).version).toBe(
+      '2026.3'
+    );
+  });
+
+  it('never makes a draft active', () => {
+    expect(registry.active(new Date('2026-08-15')).version).toBe('2026.2');
+  });
+
+  it('falls back to the set in effect at load for earlier dates', () => {
+    expect(registry.active(new Date('2025-06-01')).version).toBe('2026.2');
+  });
+
+  it('lists sets newest effective date first and finds them by version', () => {
+    expect(registry.list().map((ruleSet) => ruleSet.version)).toEqual([
+      '2026.3',
+      '2027.1-draft',
+      '2026.2',
+      '2026.1',
+    ]);
+    expect(registry.find('2027.1-draft').status).toBe('draft');
+  });
+
+  it('fails with RULE_SET_NOT_FOUND for an unknown version', () => {
+    expect(() => registry.find('1999.1')).toThrow(
+      expect.objectContaining({ code: NIV_ERRORS.RULE_SET_NOT_FOUND })
+    );
+  });
+
+  it('rejects duplicate versions and invalid dates', () => {
+    expect(
+      problemsOf([
+        makeRuleSet('2026.1', '2026-01-01'),
+        makeRuleSet('2026.1', '2026-02-01'),
+        makeRuleSet('2026.2', 'not a date'),
+      ])
+    ).toEqual([
+      'rule set 2026.1 is listed more than once',
+      'rule set 2026.2 has no valid effectiveFrom',
+    ]);
+  });
+
+  it('rejects published sets that take effect on the same date', () => {
+    expect(
+      problemsOf([
+        makeRuleSet('2026.1', '2026-01-01'),
+        makeRuleSet('2026.2', '2026-01-01'),
+        makeRuleSet('2026.3-draft', '2026-01-01', 'draft'),
+      ])
+    ).toEqual(['rule sets 2026.1 and 2026.2 both take effect on 2026-01-01']);
+  });
+
+  it('requires a published set in effect', () => {
+    expect(
+      problemsOf([
+        makeRuleSet('2026.1', '2026-11-01'),
+        makeRuleSet('2026.2-draft', '2026-01-01', 'draft'),
+      ])
+    ).toEqual(['no published rule set is in effect']);
+  });
+
+  it('requires the set in effect to screen conditions', () => {
+    expect(
+      problemsOf([
+        makeRuleSet('2026.1', '2026-01-01'),
+        makeRuleSet('2026.2', '2026-10-01', 'published', false),
+      ])
+    ).toEqual([
+      'rule set 2026.2 is in effect but counts every recorded condition; give it conditions (requireActive or onsetWithinDays)',
+    ]);
+  });
+});
+
+describe('loadRuleSets', () => {
+  it('loads the bundled manifest with a conditions policy in effect', () => {
+    const registry = loadRuleSets(BUNDLED_MANIFEST);
+    const active = registry.active();
+
+    expect(active.status).toBe('published');
+    expect(active.conditions.CRF.requireActive).toBe(true);
+  });
+
+  it('gives each rule set its own frozen catalog', () => {
+    const registry = loadRuleSets(BUNDLED_MANIFEST);
+
+    for (const ruleSet of registry.list()) {
+      expect(ruleSet.catalog.source).toMatch(
+        /niv-diagnosis-codes-\d{4}-\d{2}-\d{2}\.csv$/
+      );
+    }
+  });
+});
@@ -0,0 +1,159 @@
+// apps/backend/niv/src/app/onboarding/rule-set.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * Named, versioned qualification rule sets. Payer and clinical criteria for
+ * home NIV change over time, so each rule set has an effective-from date
+ * and assessments are stamped with the version that produced them. Draft
+ * rule sets are never active but can be evaluated to preview a change.
+ */
+
+import {
+  screensConditions,
+  type ConditionCriteriaByCategory,
+} from './condition-criteria';
+import type { DiagnosisCatalog } from './diagnosis-catalog';
+import { OnboardingError } from './errors';
+import type { CompiledExclusionRule } from './exclusion';
+
+export type RuleSetStatus = 'published' | 'draft';
+
+export type QualificationRuleSet = {
+  readonly name: string;
+  readonly version: string;
+  readonly effectiveFrom: Date;
+  readonly status: RuleSetStatus;
+  // Qualifying ICD-10 codes by category
+  readonly catalog: DiagnosisCatalog;
+  // Which recorded conditions count (active only, recent onset ...)
+  readonly conditions: ConditionCriteriaByCategory;
+  // Diagnoses that exclude a patient whatever else qualifies
+  readonly exclusions: readonly CompiledExclusionRule[];
+};
+
+// What an assessment records about the rules it used
+export type RuleSetStamp = {
+  readonly name: string;
+  readonly version: string;
+  readonly effectiveFrom: Date;
+  readonly status: RuleSetStatus;
+  readonly catalogVersion: string;
+  readonly conditions: ConditionCriteriaByCategory;
+};
+
+export type RuleSetRegistry = {
+  /**
+   * Latest published rule set already in effect (on the same effective
+   * date, the one listed first)
+   */
+  active(now?: Date): QualificationRuleSet;
+
+  /**
+   * Rule set by version, failing with RULE_SET_NOT_FOUND
+   */
+  find(version: string): QualificationRuleSet;
+
+  /**
+   * All rule sets, newest effective date first
+   */
+  list(): readonly QualificationRuleSet[];
+};
+
+export function toRuleSetStamp(ruleSet: QualificationRuleSet): RuleSetStamp {
+  return {
+    name: ruleSet.name,
+    version: ruleSet.version,
+    effectiveFrom: ruleSet.effectiveFrom,
+    status: ruleSet.status,
+    catalogVersion: ruleSet.catalog.version,
+    conditions: ruleSet.conditions,
+  };
+}
+
+/**
+ * Build the registry, failing with RULE_SETS_INVALID on bad data
+ *
+ * Business rules:
+ * - Versions are unique
+ * - No two published rule sets take effect on the same date, since only
+ *   one of them could ever be active
+ * - Some published rule set is in effect now, so assessments can run
+ * - The one in effect screens conditions, so a resolved or long-past
+ *   diagnosis cannot qualify a patient
+ */
+export function createRuleSetRegistry(
+  source: string,
+  ruleSets: readonly QualificationRuleSet[],
+  now: Date = new Date()
+): RuleSetRegistry {
+  const problems: string[] = [];
+  const byVersion = new Map<string, QualificationRuleSet>();
+
+  for (const ruleSet of ruleSets) {
+    if (!ruleSet.version.trim()) {
+      problems.push(`rule set "${ruleSet.name}" has no version`);
+    }
+    if (isNaN(ruleSet.effectiveFrom.getTime())) {
+      problems.push(`rule set ${ruleSet.version} has no valid effectiveFrom`);
+    }
+    if (byVersion.has(ruleSet.version)) {
+      problems.push(`rule set ${ruleSet.version} is listed more than once`);
+    }
+    byVersion.set(ruleSet.version, ruleSet);
+  }
+
+  const publishedByDate = new Map<number, QualificationRuleSet>();
+  for (const ruleSet of ruleSets) {
+    if (ruleSet.status !== 'published') {
+      continue;
+    }
+    const clash = publishedByDate.get(ruleSet.effectiveFrom.getTime());
+    if (clash) {
+      const date = ruleSet.effectiveFrom.toISOString().slice(0, 10);
+      problems.push(
+        `rule sets ${clash.version} and ${ruleSet.version} both take effect on ${date}`
+      );
+    }
+    publishedByDate.set(ruleSet.effectiveFrom.getTime(), ruleSet);
+  }
+
+  const sorted = [...ruleSets].sort(
+    (a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime()
+  );
+  const activeAt = (at: Date) =>
+    sorted.find(
+      (ruleSet) => ruleSet.status === 'published' && ruleSet.effectiveFrom <= at
+    );
+
+  const inEffect = activeAt(now);
+  if (problems.length === 0 && !inEffect) {
+    problems.push('no published rule set is in effect');
+  }
+  if (
+    problems.length === 0 &&
+    inEffect &&
+    !screensConditions(inEffect.conditions)
+  ) {
+    problems.push(
+      `rule set ${inEffect.version} is in effect but counts every recorded condition; give it conditions (requireActive or onsetWithinDays)`
+    );
+  }
+  if (problems.length > 0) {
+    throw OnboardingError.ruleSetsInvalid(source, problems);
+  }
+
+  return {
+    // Validation guarantees a rule set in effect from startup onwards
+    active: (at = new Date()) =>
+      activeAt(at) ?? (activeAt(now) as QualificationRuleSet),
+    find: (version) => {
+      const ruleSet = byVersion.get(version);
+      if (!ruleSet) {
+        throw OnboardingError.ruleSetNotFound(version);
+      }
+      return ruleSet;
+    },
+    list: () => sorted,
+  };
+}
@@ -0,0 +1,222 @@
+// apps/backend/niv/src/app/onboarding/screening-export.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Spreadsheet export of screening results for facility administrators and
+ * DONs: the latest result per patient with their onboarding case status
+ * and assigned RT, as CSV or XLSX. Rows are read from the store in batches
+ * and written as they arrive, so large organizations stream instead of
+ * timing out.
+ */
+
+import { formatCsvRow } from '../csv';
+import { writeXlsx, type XlsxCell } from '../xlsx';
+import {
+  QUALIFICATION_CATEGORIES,
+  type QualificationCategory,
+} from './diagnosis-catalog';
+import { ONBOARDING_STATUSES, type OnboardingStatus } from './onboarding-case';
+import type { ScreeningResultOutcome } from './screening-job';
+import type { StreamScreeningExportRows } from './screening-operations';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Case status column for patients never enrolled in onboarding
+export const NOT_ENROLLED = 'NOT_ENROLLED';
+
+export type ExportCaseStatus = OnboardingStatus | typeof NOT_ENROLLED;
+
+export type ScreeningExportFilter = {
+  readonly orgUuid: string;
+  readonly facilityId?: number;
+  // Screened at or after from, and before to
+  readonly from?: Date;
+  readonly to?: Date;
+  // Only patients qualifying in this category
+  readonly category?: QualificationCategory;
+  readonly status?: ExportCaseStatus;
+  readonly outcome?: ScreeningResultOutcome;
+};
+
+// Latest screening result of a patient, with their onboarding case
+export type ScreeningExportRow = {
+  readonly patientId: number;
+  readonly firstName: string;
+  readonly lastName: string;
+  readonly facilityId: number;
+  // Null when the facility directory does not hold the facility
+  readonly facilityName: string | null;
+  readonly outcome: ScreeningResultOutcome;
+  readonly categories: readonly QualificationCategory[];
+  readonly qualifyingCodes: readonly string[];
+  readonly exclusionReason: string | null;
+  readonly screenedAt: Date;
+  readonly caseStatus: OnboardingStatus | null;
+  readonly assignedRtId: string | null;
+  readonly assignedRtName: string | null;
+};
+
+export type ScreeningExport = {
+  readonly filename: string;
+  readonly contentType: string;
+  readonly body: AsyncIterable<Buffer>;
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const EXPORT_COLUMNS = [
+  'Patient ID',
+  'Last name',
+  'First name',
+  'Facility ID',
+  'Facility',
+  'Categories',
+  'Qualifying codes',
+  'Eligibility',
+  'Exclusion reason',
+  'Case status',
+  'Assigned RT',
+  'Screened at',
+];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function isExportCaseStatus(value: string): value is ExportCaseStatus {
+  return (
+    value === NOT_ENROLLED ||
+    (ONBOARDING_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+export function isQualificationCategory(
+  value: string
+): value is QualificationCategory {
+  return (QUALIFICATION_CATEGORIES as readonly string[]).includes(value);
+}
+
+function toExportCells(row: ScreeningExportRow): XlsxCell[] {
+  return [
+    row.patientId,
+    row.lastName,
+    row.firstName,
+    row.facilityId,
+    row.facilityName,
+    row.categories.join(', '),
+    row.qualifyingCodes.join(', '),
+    row.outcome,
+    row.exclusionReason,
+    row.caseStatus ?? NOT_ENROLLED,
+    row.assignedRtName ?? row.assignedRtId,
+    row.screenedAt.toISOString(),
+  ];
+}
+
+async function* toCsv(
+  rows: AsyncIterable<ScreeningExportRow>
+): AsyncGenerator<Buffer> {
+  // BOM so spreadsheet programs read the file as UTF-8
+  yield Buffer.from(`\uFEFF${formatCsvRow(EXPORT_COLUMNS)}`, 'utf8');
+  for await (const row of rows) {
+    yield Buffer.from(
+      formatCsvRow(toExportCells(row).map((cell) => cell ?? '')),
+      'utf8'
+    );
+  }
+}
+
+async function* toCellRows(
+  rows: AsyncIterable<ScreeningExportRow>
+): AsyncGenerator<XlsxCell[]> {
+  for await (const row of rows) {
+    yield toExportCells(row);
+  }
+}
+
+/**
+ * Read the first batch before the response starts, so a store failure is
+ * reported as an error instead of a truncated file
+ */
+async function prefetch<T>(
+  source: AsyncIterable<T>
+): Promise<AsyncIterable<T>> {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+
+  return (async function* () {
+    if (first.done) {
+      return;
+    }
+    yield first.value;
+    for (let next = await iterator.next(); !next.done; ) {
+      yield next.value;
+      next = await iterator.next();
+    }
+  })();
+}
+
+/**
+ * Dependencies that the screening export needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type ScreeningExportDependencies = {
+  streamRows: StreamScreeningExportRows;
+};
+
+/**
+ * Screening export domain service interface
+ */
+export interface ScreeningExporter {
+  /**
+   * Stream the latest screening result of every matching patient
+   *
+   * Business rules:
+   * - One row per patient: the latest result screened within the range
+   * - Filters on category, case status and outcome apply to that result
+   */
+  exportResults(
+    filter: ScreeningExportFilter,
+    format: ExportFormat,
+    now?: Date
+  ): Promise<ScreeningExport>;
+}
+
+/**
+ * Factory function to create screening export domain service
+ */
+export function createScreeningExport(
+  deps: ScreeningExportDependencies
+): ScreeningExporter {
+  const exportResults = async (
+    filter: ScreeningExportFilter,
+    format: ExportFormat,
+    now: Date = new Date()
+  ): Promise<ScreeningExport> => {
+    const rows = await prefetch(deps.streamRows(filter));
+    const scope =
+      filter.facilityId === undefined
+        ? filter.orgUuid
+        : `${filter.orgUuid}-facility-${filter.facilityId}`;
+
+    return {
+      filename: `niv-screening-${scope}-${now.toISOString().slice(0, 10)}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      body:
+        format === 'csv'
+          ? toCsv(rows)
+          : writeXlsx('NIV screening', EXPORT_COLUMNS, toCellRows(rows)),
+    };
+  };
+
+  return {
+    exportResults,
+  };
+}
@@ -0,0 +1,126 @@
+// apps/backend/niv/src/app/onboarding/screening-job.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * Facility-wide eligibility screening. A screening job pages through every
+ * patient the EHR lists for a facility (or the whole organization), runs
+ * the qualification engine on each, and keeps one result per patient so
+ * staff can find NIV candidates across a building instead of entering
+ * patient IDs one at a time. Patients that cannot be assessed are recorded
+ * as FAILED without stopping the job.
+ */
+
+import type { ClinicalQualifications } from './diagnosis';
+import type { QualificationOutcome } from './qualifications';
+
+export const SCREENING_JOB_STATUSES = [
+  'RUNNING',
+  'COMPLETED',
+  'COMPLETED_WITH_ERRORS',
+  'FAILED',
+] as const;
+
+export type ScreeningJobStatus = (typeof SCREENING_JOB_STATUSES)[number];
+
+export const SCREENING_RESULT_OUTCOMES = [
+  'ELIGIBLE',
+  'NOT_ELIGIBLE',
+  'EXCLUDED',
+  'FAILED',
+] as const;
+
+export type ScreeningResultOutcome = QualificationOutcome | 'FAILED';
+
+export type ScreeningProgress = {
+  readonly pagesRead: number;
+  // Patients listed by the EHR so far; final once listingComplete
+  readonly patientsFound: number;
+  readonly screened: number;
+  readonly eligible: number;
+  readonly notEligible: number;
+  readonly excluded: number;
+  readonly failed: number;
+  readonly listingComplete: boolean;
+};
+
+export type ScreeningJob = {
+  readonly jobId: string;
+  readonly orgUuid: string;
+  // null screens every patient in the organization
+  readonly facilityId: number | null;
+  readonly status: ScreeningJobStatus;
+  readonly requestedBy: string;
+  // Patients assessed at the same time
+  readonly concurrency: number;
+  readonly progress: ScreeningProgress;
+  // Why the job stopped early (FAILED only)
+  readonly error: string | null;
+  readonly startedAt: Date;
+  // Last progress report; a RUNNING job that stops reporting has stalled
+  readonly updatedAt: Date;
+  readonly finishedAt: Date | null;
+};
+
+export type ScreeningResult = {
+  readonly jobId: string;
+  readonly patientId: number;
+  readonly facilityId: number;
+  readonly firstName: string;
+  readonly lastName: string;
+  readonly outcome: ScreeningResultOutcome;
+  readonly clinicalQualifications: ClinicalQualifications | null;
+  // Codes that made a category qualify, as recorded in the EHR
+  readonly qualifyingCodes: readonly string[];
+  readonly exclusionReason: string | null;
+  readonly labsRequired: boolean;
+  readonly ruleSetVersion: string | null;
+  // Onboarding case the patient already has, if any
+  readonly caseId: string | null;
+  // Why the patient could not be assessed (FAILED only)
+  readonly error: string | null;
+  readonly screenedAt: Date;
+};
+
+export const EMPTY_SCREENING_PROGRESS: ScreeningProgress = {
+  pagesRead: 0,
+  patientsFound: 0,
+  screened: 0,
+  eligible: 0,
+  notEligible: 0,
+  excluded: 0,
+  failed: 0,
+  listingComplete: false,
+};
+
+export function isScreeningJobStatus(
+  value: string
+): value is ScreeningJobStatus {
+  return (SCREENING_JOB_STATUSES as readonly string[]).includes(value);
+}
+
+export function isScreeningResultOutcome(
+  value: string
+): value is ScreeningResultOutcome {
+  return (SCREENING_RESULT_OUTCOMES as readonly string[]).includes(value);
+}
+
+/**
+ * Progress after a batch of patients was screened
+ */
+export function addScreeningResults(
+  progress: ScreeningProgress,
+  results: readonly ScreeningResult[]
+): ScreeningProgress {
+  const count = (outcome: ScreeningResultOutcome) =>
+    results.filter((result) => result.outcome === outcome).length;
+
+  return {
+    ...progress,
+    screened: progress.screened + results.length,
+    eligible: progress.eligible + count('ELIGIBLE'),
+    notEligible: progress.notEligible + count('NOT_ELIGIBLE'),
+    excluded: progress.excluded + count('EXCLUDED'),
+    failed: progress.failed + count('FAILED'),
+  };
+}
@@ -0,0 +1,75 @@
+// apps/backend/niv/src/app/onboarding/screening-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for facility screening jobs and their per-patient
+ * results. Implemented by screening-repository.ts.
+ */
+
+import type {
+  ScreeningExportFilter,
+  ScreeningExportRow,
+} from './screening-export';
+import type {
+  ScreeningJob,
+  ScreeningJobStatus,
+  ScreeningResult,
+  ScreeningResultOutcome,
+} from './screening-job';
+
+/**
+ * Filter for listing screening jobs
+ */
+export type ScreeningJobFilter = {
+  readonly orgUuid?: string;
+  readonly facilityId?: number;
+  readonly status?: ScreeningJobStatus;
+};
+
+/**
+ * Contract for storing a screening job (insert or update by jobId)
+ */
+export type SaveScreeningJob = (job: ScreeningJob) => Promise<ScreeningJob>;
+
+/**
+ * Contract for reading a screening job
+ */
+export type FindScreeningJob = (jobId: string) => Promise<ScreeningJob | null>;
+
+/**
+ * Contract for listing screening jobs, newest first
+ */
+export type FindScreeningJobs = (
+  filter: ScreeningJobFilter
+) => Promise<ScreeningJob[]>;
+
+/**
+ * Contract for storing a patient's screening result
+ *
+ * A patient has one result per job; saving again replaces it
+ */
+export type SaveScreeningResult = (
+  result: ScreeningResult
+) => Promise<ScreeningResult>;
+
+/**
+ * Contract for listing a job's results, by patient name
+ *
+ * Business operation: "Who in this building might qualify for NIV?"
+ */
+export type FindScreeningResults = (
+  jobId: string,
+  outcome?: ScreeningResultOutcome
+) => Promise<ScreeningResult[]>;
+
+/**
+ * Contract for streaming the latest screening result of each patient
+ * matching the filter, with their onboarding case, by patient id
+ *
+ * Read in batches, so an organization's whole history never sits in memory
+ */
+export type StreamScreeningExportRows = (
+  filter: ScreeningExportFilter
+) => AsyncIterable<ScreeningExportRow>;
@@ -0,0 +1,378 @@
+// apps/backend/niv/src/app/onboarding/screening-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements facility screening persistence using Postgres
+ * (screening_jobs and screening_results tables).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+import type { ClinicalQualifications } from './diagnosis';
+import { QUALIFICATION_CATEGORIES } from './diagnosis-catalog';
+import type { OnboardingStatus } from './onboarding-case';
+import { NOT_ENROLLED, type ScreeningExportRow } from './screening-export';
+import type {
+  FindScreeningJob,
+  FindScreeningJobs,
+  FindScreeningResults,
+  SaveScreeningJob,
+  SaveScreeningResult,
+  StreamScreeningExportRows,
+} from './screening-operations';
+import type {
+  ScreeningJob,
+  ScreeningJobStatus,
+  ScreeningProgress,
+  ScreeningResult,
+  ScreeningResultOutcome,
+} from './screening-job';
+
+/**
+ * Row shape of the screening_jobs table
+ */
+type ScreeningJobRow = {
+  job_id: string;
+  org_uuid: string;
+  facility_id: number | null;
+  status: ScreeningJobStatus;
+  requested_by: string;
+  concurrency: number;
+  progress: ScreeningProgress;
+  error: string | null;
+  started_at: Date;
+  updated_at: Date;
+  finished_at: Date | null;
+};
+
+/**
+ * Row shape of the screening_results table
+ */
+type ScreeningResultRow = {
+  job_id: string;
+  patient_id: number;
+  facility_id: number;
+  first_name: string;
+  last_name: string;
+  outcome: ScreeningResultOutcome;
+  clinical_qualifications: ClinicalQualifications | null;
+  qualifying_codes: string[];
+  exclusion_reason: string | null;
+  labs_required: boolean;
+  rule_set_version: string | null;
+  case_id: string | null;
+  error: string | null;
+  screened_at: Date;
+};
+
+/**
+ * Row shape of the export query: a patient's latest result and their case
+ */
+type ScreeningExportQueryRow = ScreeningResultRow & {
+  case_status: OnboardingStatus | null;
+  assigned_rt_id: string | null;
+  rt_first_name: string | null;
+  rt_last_name: string | null;
+  facility_name: string | null;
+};
+
+// Patients read per export query
+const EXPORT_BATCH_SIZE = 500;
+
+function rowToScreeningJob(row: ScreeningJobRow): ScreeningJob {
+  return {
+    jobId: row.job_id,
+    orgUuid: row.org_uuid,
+    facilityId: row.facility_id,
+    status: row.status,
+    requestedBy: row.requested_by,
+    concurrency: row.concurrency,
+    progress: row.progress,
+    error: row.error,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+function rowToScreeningResult(row: ScreeningResultRow): ScreeningResult {
+  return {
+    jobId: row.job_id,
+    patientId: row.patient_id,
+    facilityId: row.facility_id,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    outcome: row.outcome,
+    clinicalQualifications: row.clinical_qualifications,
+    qualifyingCodes: row.qualifying_codes,
+    exclusionReason: row.exclusion_reason,
+    labsRequired: row.labs_required,
+    ruleSetVersion: row.rule_set_version,
+    caseId: row.case_id,
+    error: row.error,
+    screenedAt: row.screened_at,
+  };
+}
+
+function rowToScreeningExportRow(
+  row: ScreeningExportQueryRow
+): ScreeningExportRow {
+  const qualifications = row.clinical_qualifications;
+
+  return {
+    patientId: row.patient_id,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    facilityId: row.facility_id,
+    facilityName: row.facility_name,
+    outcome: row.outcome,
+    categories: qualifications
+      ? QUALIFICATION_CATEGORIES.filter((category) => qualifications[category])
+      : [],
+    qualifyingCodes: row.qualifying_codes,
+    exclusionReason: row.exclusion_reason,
+    screenedAt: row.screened_at,
+    caseStatus: row.case_status,
+    assignedRtId: row.assigned_rt_id,
+    assignedRtName:
+      row.rt_first_name !== null && row.rt_last_name !== null
+        ? `${row.rt_first_name} ${row.rt_last_name}`
+        : null,
+  };
+}
+
+/**
+ * Create screening repository using Postgres as the implementation
+ */
+export function createPostgresScreeningRepository(client: PostgresClient) {
+  const saveJob: SaveScreeningJob = async (job) => {
+    try {
+      const rows = await client.query<ScreeningJobRow>(
+        `INSERT INTO screening_jobs (
+           job_id, org_uuid, facility_id, status, requested_by, concurrency,
+           progress, error, started_at, updated_at, finished_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (job_id) DO UPDATE SET
+           status = EXCLUDED.status,
+           progress = EXCLUDED.progress,
+           error = EXCLUDED.error,
+           updated_at = EXCLUDED.updated_at,
+           finished_at = EXCLUDED.finished_at
+         RETURNING *`,
+        [
+          job.jobId,
+          job.orgUuid,
+          job.facilityId,
+          job.status,
+          job.requestedBy,
+          job.concurrency,
+          JSON.stringify(job.progress),
+          job.error,
+          job.startedAt,
+          job.updatedAt,
+          job.finishedAt,
+        ]
+      );
+
+      return rowToScreeningJob(rows[0]);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'screening_job_save');
+    }
+  };
+
+  const findJob: FindScreeningJob = async (jobId) => {
+    try {
+      const rows = await client.query<ScreeningJobRow>(
+        `SELECT * FROM screening_jobs WHERE job_id = $1`,
+        [jobId]
+      );
+
+      return rows.length > 0 ? rowToScreeningJob(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'screening_job_lookup');
+    }
+  };
+
+  const findJobs: FindScreeningJobs = async (filter) => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.orgUuid) {
+      params.push(filter.orgUuid);
+      conditions.push(`org_uuid = $${params.length}`);
+    }
+    if (filter.facilityId !== undefined) {
+      params.push(filter.facilityId);
+      conditions.push(`facility_id = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    try {
+      const rows = await client.query<ScreeningJobRow>(
+        `SELECT * FROM screening_jobs
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY started_at DESC`,
+        params
+      );
+
+      return rows.map(rowToScreeningJob);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'screening_job_list');
+    }
+  };
+
+  const saveResult: SaveScreeningResult = async (result) => {
+    try {
+      const rows = await client.query<ScreeningResultRow>(
+        `INSERT INTO screening_results (
+           job_id, patient_id, facility_id, first_name, last_name, outcome,
+           clinical_qualifications, qualifying_codes, exclusion_reason,
+           labs_required, rule_set_version, case_id, error, screened_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         ON CONFLICT (job_id, patient_id) DO UPDATE SET
+           outcome = EXCLUDED.outcome,
+           clinical_qualifications = EXCLUDED.clinical_qualifications,
+           qualifying_codes = EXCLUDED.qualifying_codes,
+           exclusion_reason = EXCLUDED.exclusion_reason,
+           labs_required = EXCLUDED.labs_required,
+           rule_set_version = EXCLUDED.rule_set_version,
+           case_id = EXCLUDED.case_id,
+           error = EXCLUDED.error,
+           screened_at = EXCLUDED.screened_at
+         RETURNING *`,
+        [
+          result.jobId,
+          result.patientId,
+          result.facilityId,
+          result.firstName,
+          result.lastName,
+          result.outcome,
+          result.clinicalQualifications
+            ? JSON.stringify(result.clinicalQualifications)
+            : null,
+          JSON.stringify(result.qualifyingCodes),
+          result.exclusionReason,
+          result.labsRequired,
+          result.ruleSetVersion,
+          result.caseId,
+          result.error,
+          result.screenedAt,
+        ]
+      );
+
+      return rowToScreeningResult(rows[0]);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'screening_result_save');
+    }
+  };
+
+  const findResults: FindScreeningResults = async (jobId, outcome) => {
+    const params: unknown[] = [jobId];
+    if (outcome) {
+      params.push(outcome);
+    }
+
+    try {
+      const rows = await client.query<ScreeningResultRow>(
+        `SELECT * FROM screening_results
+         WHERE job_id = $1 ${outcome ? 'AND outcome = $2' : ''}
+         ORDER BY last_name ASC, first_name ASC, patient_id ASC`,
+        params
+      );
+
+      return rows.map(rowToScreeningResult);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'screening_result_list');
+    }
+  };
+
+  const streamExportRows: StreamScreeningExportRows = async function* (filter) {
+    // $1 and $2 are the organization and the keyset cursor
+    const params: unknown[] = [filter.orgUuid, 0];
+    const latest: string[] = [];
+    const matching: string[] = [];
+
+    if (filter.facilityId !== undefined) {
+      params.push(filter.facilityId);
+      latest.push(`r.facility_id = $${params.length}`);
+    }
+    if (filter.from) {
+      params.push(filter.from);
+      latest.push(`r.screened_at >= $${params.length}`);
+    }
+    if (filter.to) {
+      params.push(filter.to);
+      latest.push(`r.screened_at < $${params.length}`);
+    }
+    if (filter.outcome) {
+      params.push(filter.outcome);
+      matching.push(`l.outcome = $${params.length}`);
+    }
+    if (filter.category) {
+      params.push(filter.category);
+      matching.push(
+        `(l.clinical_qualifications ->> $${params.length})::boolean`
+      );
+    }
+    if (filter.status === NOT_ENROLLED) {
+      matching.push('c.case_id IS NULL');
+    } else if (filter.status) {
+      params.push(filter.status);
+      matching.push(`c.status = $${params.length}`);
+    }
+
+    const sql = `WITH latest AS (
+         SELECT DISTINCT ON (r.patient_id) r.*
+         FROM screening_results r
+         JOIN screening_jobs j ON j.job_id = r.job_id
+         WHERE j.org_uuid = $1 AND r.patient_id > $2
+           ${latest.map((condition) => `AND ${condition}`).join(' ')}
+         ORDER BY r.patient_id, r.screened_at DESC
+       )
+       SELECT l.*, c.status AS case_status, c.assigned_rt_id,
+              rt.first_name AS rt_first_name, rt.last_name AS rt_last_name,
+              f.name AS facility_name
+       FROM latest l
+       LEFT JOIN onboarding_cases c
+         ON c.org_uuid = $1 AND c.patient_id = l.patient_id
+       LEFT JOIN staff_members rt ON rt.staff_id = c.assigned_rt_id
+       LEFT JOIN facilities f
+         ON f.org_uuid = $1 AND f.facility_id = l.facility_id
+       ${matching.length > 0 ? `WHERE ${matching.join(' AND ')}` : ''}
+       ORDER BY l.patient_id
+       LIMIT ${EXPORT_BATCH_SIZE}`;
+
+    for (;;) {
+      let rows: ScreeningExportQueryRow[];
+      try {
+        rows = await client.query<ScreeningExportQueryRow>(sql, params);
+      } catch (error) {
+        throw mapStoreErrorToOnboardingError(error, 'screening_export');
+      }
+
+      for (const row of rows) {
+        yield rowToScreeningExportRow(row);
+      }
+      if (rows.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+      params[1] = rows[rows.length - 1].patient_id;
+    }
+  };
+
+  return {
+    saveJob,
+    findJob,
+    findJobs,
+    saveResult,
+    findResults,
+    streamExportRows,
+  };
+}
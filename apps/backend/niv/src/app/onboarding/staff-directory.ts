@@ -0,0 +1,337 @@
+// apps/backend/niv/src/app/onboarding/staff-directory.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Keeps the staff directory: imports from PCC the practitioners on the
+ * care teams of the organization's patients with open cases, and lets
+ * administrators add the staff PCC does not list and decide everyone's
+ * roles, facilities and contact channels. RT assignment and case
+ * notifications find their people here.
+ */
+
+import { randomUUID } from 'crypto';
+import type { FindOnboardingCases } from './case-operations';
+import type { GetPractitioners } from './ehr-operations';
+import { OnboardingError } from './errors';
+import type { FindFacilityOrgs } from './facility-operations';
+import type { OnboardingCase } from './onboarding-case';
+import {
+  createLocalStaffMember,
+  findPccOwnedChanges,
+  fromPractitioner,
+  getStaffName,
+  toStaffDetails,
+  validateStaffDetails,
+  withStaffChanges,
+  type PractitionerProfile,
+  type StaffChanges,
+  type StaffDetails,
+  type StaffMember,
+} from './staff-member';
+import type {
+  FindStaffMember,
+  FindStaffMembers,
+  SaveStaffMembers,
+  StaffFilter,
+} from './staff-operations';
+
+/**
+ * Outcome of syncing an organization's practitioners
+ */
+export type StaffSyncReport = {
+  readonly orgUuid: string;
+  readonly imported: number;
+  readonly updated: number;
+  // Patients whose care teams could not be read
+  readonly failed: Array<{ patientId: number; error: string }>;
+};
+
+/**
+ * Outcome of syncing every organization
+ */
+export type StaffSyncSweep = {
+  readonly reports: StaffSyncReport[];
+  readonly failed: Array<{ orgUuid: string; error: string }>;
+};
+
+/**
+ * Dependencies that the staff directory needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type StaffDirectoryDependencies = {
+  getPractitioners: GetPractitioners;
+  findCases: FindOnboardingCases;
+  findFacilityOrgs: FindFacilityOrgs;
+  saveMembers: SaveStaffMembers;
+  findMembers: FindStaffMembers;
+  findMember: FindStaffMember;
+};
+
+/**
+ * Staff directory domain service interface
+ */
+export interface StaffDirectory {
+  /**
+   * List staff members by name
+   */
+  listStaff(filter: StaffFilter): Promise<StaffMember[]>;
+
+  /**
+   * Get one staff member; fails with STAFF_MEMBER_NOT_FOUND
+   */
+  getStaffMember(staffId: string): Promise<StaffMember>;
+
+  /**
+   * Add a staff member PCC does not list
+   *
+   * Business rules:
+   * - Names are required; email and webhook URL must be well formed
+   * - Only an RT can own a facility, and a facility has one owner
+   */
+  addStaffMember(
+    orgUuid: string,
+    details: StaffDetails,
+    now?: Date
+  ): Promise<StaffMember>;
+
+  /**
+   * Change a staff member's roles, facilities, contacts or details
+   *
+   * Business rules:
+   * - As for new staff
+   * - The name, profession and active flag of a PCC practitioner are
+   *   changed in PCC, not here
+   */
+  updateStaffMember(
+    staffId: string,
+    changes: StaffChanges,
+    now?: Date
+  ): Promise<StaffMember>;
+
+  /**
+   * Import the practitioners on the care teams of an organization's
+   * patients whose cases are not CLOSED
+   *
+   * Business rules:
+   * - A practitioner is one staff member however many patients they care
+   *   for, and is assigned the facilities of those patients
+   * - Nobody is deactivated for dropping off the care teams: a care team
+   *   changes with its patient, not with who is on staff
+   */
+  syncPractitioners(orgUuid: string, now?: Date): Promise<StaffSyncReport>;
+
+  /**
+   * Sync every organization in the facility directory; an organization
+   * PCC cannot list is reported and the rest carry on
+   */
+  syncAllPractitioners(now?: Date): Promise<StaffSyncSweep>;
+}
+
+// Cases read per query while collecting the patients to sync
+const CASE_PAGE_SIZE = 500;
+
+/**
+ * Staff ID of a PCC practitioner; practitioner IDs are per organization
+ */
+export function practitionerStaffId(
+  orgUuid: string,
+  practitionerId: number
+): string {
+  return `pcc-${orgUuid}-${practitionerId}`;
+}
+
+/**
+ * Factory function to create staff directory domain service
+ */
+export function createStaffDirectory(
+  deps: StaffDirectoryDependencies
+): StaffDirectory {
+  // Business rule: one owning RT per facility
+  const findOwnerConflicts = async (member: StaffMember): Promise<string[]> => {
+    const owned = member.facilities.filter((facility) => facility.isOwner);
+    if (owned.length === 0) {
+      return [];
+    }
+
+    const therapists = await deps.findMembers({
+      orgUuid: member.orgUuid,
+      role: 'RT',
+      includeInactive: true,
+    });
+    return owned.flatMap(({ facilityId }) => {
+      const owner = therapists.find(
+        (therapist) =>
+          therapist.staffId !== member.staffId &&
+          therapist.facilities.some(
+            (facility) => facility.facilityId === facilityId && facility.isOwner
+          )
+      );
+      return owner
+        ? [
+            `facility ${facilityId} is already owned by ${getStaffName(owner)} (${owner.staffId})`,
+          ]
+        : [];
+    });
+  };
+
+  const saveChecked = async (member: StaffMember): Promise<StaffMember> => {
+    const problems = [
+      ...validateStaffDetails(toStaffDetails(member)),
+      ...(await findOwnerConflicts(member)),
+    ];
+    if (problems.length > 0) {
+      throw OnboardingError.staffMemberInvalid(problems);
+    }
+
+    await deps.saveMembers([member]);
+    return member;
+  };
+
+  const getStaffMember = async (staffId: string): Promise<StaffMember> => {
+    const member = await deps.findMember(staffId);
+    if (!member) {
+      throw OnboardingError.staffMemberNotFound(staffId);
+    }
+    return member;
+  };
+
+  const addStaffMember = async (
+    orgUuid: string,
+    details: StaffDetails,
+    now: Date = new Date()
+  ): Promise<StaffMember> => {
+    return await saveChecked(
+      createLocalStaffMember(randomUUID(), orgUuid, details, now)
+    );
+  };
+
+  const updateStaffMember = async (
+    staffId: string,
+    changes: StaffChanges,
+    now: Date = new Date()
+  ): Promise<StaffMember> => {
+    const member = await getStaffMember(staffId);
+
+    const pccOwned = findPccOwnedChanges(member, changes);
+    if (pccOwned.length > 0) {
+      throw OnboardingError.staffMemberInvalid(pccOwned);
+    }
+
+    return await saveChecked(withStaffChanges(member, changes, now));
+  };
+
+  const syncPractitioners = async (
+    orgUuid: string,
+    now: Date = new Date()
+  ): Promise<StaffSyncReport> => {
+    const cases: OnboardingCase[] = [];
+    for (let offset = 0; ; offset += CASE_PAGE_SIZE) {
+      const page = await deps.findCases({
+        orgUuid,
+        limit: CASE_PAGE_SIZE,
+        offset,
+      });
+      cases.push(...page.filter((found) => found.status !== 'CLOSED'));
+      if (page.length < CASE_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    // One patient at a time; PCC lists care teams per patient only
+    const listed = new Map<
+      number,
+      { practitioner: PractitionerProfile; facilityIds: Set<number> }
+    >();
+    const failed: Array<{ patientId: number; error: string }> = [];
+    for (const onboardingCase of cases) {
+      try {
+        const practitioners = await deps.getPractitioners(
+          orgUuid,
+          onboardingCase.patientId
+        );
+        for (const practitioner of practitioners) {
+          const seen = listed.get(practitioner.practitionerId);
+          listed.set(practitioner.practitionerId, {
+            practitioner: seen
+              ? {
+                  ...practitioner,
+                  active: seen.practitioner.active || practitioner.active,
+                }
+              : practitioner,
+            facilityIds: (seen?.facilityIds ?? new Set<number>()).add(
+              onboardingCase.facilityId
+            ),
+          });
+        }
+      } catch (error) {
+        failed.push({
+          patientId: onboardingCase.patientId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const stored = await deps.findMembers({ orgUuid, includeInactive: true });
+    const storedByPractitioner = new Map(
+      stored.flatMap((member) =>
+        member.source === 'PCC' && member.practitionerId !== null
+          ? [[member.practitionerId, member] as const]
+          : []
+      )
+    );
+
+    const synced = [...listed.values()].map(({ practitioner, facilityIds }) => {
+      const existing =
+        storedByPractitioner.get(practitioner.practitionerId) ?? null;
+      return fromPractitioner(
+        existing?.staffId ??
+          practitionerStaffId(orgUuid, practitioner.practitionerId),
+        existing,
+        practitioner,
+        [...facilityIds],
+        now
+      );
+    });
+
+    await deps.saveMembers(synced);
+
+    const imported = synced.filter(
+      (member) => !storedByPractitioner.has(member.practitionerId as number)
+    ).length;
+    return {
+      orgUuid,
+      imported,
+      updated: synced.length - imported,
+      failed,
+    };
+  };
+
+  const syncAllPractitioners = async (
+    now: Date = new Date()
+  ): Promise<StaffSyncSweep> => {
+    const reports: StaffSyncReport[] = [];
+    const failed: Array<{ orgUuid: string; error: string }> = [];
+    for (const orgUuid of await deps.findFacilityOrgs()) {
+      try {
+        reports.push(await syncPractitioners(orgUuid, now));
+      } catch (error) {
+        failed.push({
+          orgUuid,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return { reports, failed };
+  };
+
+  return {
+    listStaff: deps.findMembers,
+    getStaffMember,
+    addStaffMember,
+    updateStaffMember,
+    syncPractitioners,
+    syncAllPractitioners,
+  };
+}
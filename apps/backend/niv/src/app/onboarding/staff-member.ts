@@ -0,0 +1,282 @@
+// apps/backend/niv/src/app/onboarding/staff-member.ts
+
+/**
+ * Entity + Domain Logic (DDD)
+ *
+ * A member of an organization's care staff. Practitioners are imported
+ * from PCC and kept in step with it; staff PCC does not list (contract
+ * RTs, unit managers) are added locally by administrators. Roles decide
+ * which notifications a member receives, facility assignments decide for
+ * which patients, and the contact channels how they are reached. An RT's
+ * facility assignments are the facilities they cover for case assignment,
+ * and at most one RT owns each facility.
+ */
+
+export const STAFF_ROLES = ['RT', 'NURSE', 'ADMIN', 'DON', 'MANAGER'] as const;
+
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+// PCC practitioners are synced; LOCAL staff are managed here only
+export type StaffSource = 'PCC' | 'LOCAL';
+
+export type StaffFacilityAssignment = {
+  readonly facilityId: number;
+  // Owning RT of the facility, preferred by the facility-owner strategy
+  readonly isOwner: boolean;
+};
+
+export type StaffContacts = {
+  readonly email: string | null;
+  readonly phone: string | null;
+  readonly webhookUrl: string | null;
+};
+
+/**
+ * A practitioner as read from the EHR
+ */
+export type PractitionerProfile = {
+  readonly orgUuid: string;
+  readonly practitionerId: number;
+  readonly firstName: string;
+  readonly lastName: string;
+  // e.g. "Respiratory Therapist", "Director of Nursing"
+  readonly profession: string | null;
+  readonly email: string | null;
+  readonly phone: string | null;
+  readonly active: boolean;
+};
+
+export type StaffMember = {
+  readonly staffId: string;
+  readonly orgUuid: string;
+  readonly source: StaffSource;
+  readonly practitionerId: number | null;
+  readonly firstName: string;
+  readonly lastName: string;
+  readonly profession: string | null;
+  readonly roles: readonly StaffRole[];
+  readonly facilities: readonly StaffFacilityAssignment[];
+  readonly contacts: StaffContacts;
+  readonly active: boolean;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  // Last sync that saw the practitioner in PCC; null for local staff
+  readonly syncedAt: Date | null;
+};
+
+/**
+ * What an administrator enters for a staff member
+ */
+export type StaffDetails = {
+  readonly firstName: string;
+  readonly lastName: string;
+  readonly profession: string | null;
+  readonly roles: readonly StaffRole[];
+  readonly facilities: readonly StaffFacilityAssignment[];
+  readonly contacts: StaffContacts;
+  readonly active: boolean;
+};
+
+export type StaffChanges = Partial<StaffDetails>;
+
+// Details PCC owns for an imported practitioner; the next sync would
+// overwrite a local change
+const PCC_OWNED_DETAILS = [
+  'firstName',
+  'lastName',
+  'profession',
+  'active',
+] as const;
+
+// Professions PCC reports, matched case-insensitively, and the role they
+// start with on import. Checked in order: "Director of Nursing" is a DON.
+const PROFESSION_ROLES: ReadonlyArray<[RegExp, StaffRole]> = [
+  [/respiratory|\bRRT\b|\bCRT\b/i, 'RT'],
+  [/director of nursing|\bDON\b/i, 'DON'],
+  [/administrator/i, 'ADMIN'],
+  [/unit manager|nurse manager/i, 'MANAGER'],
+  [/nurse|\bRN\b|\bLPN\b|\bLVN\b/i, 'NURSE'],
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isStaffRole(value: string): value is StaffRole {
+  return (STAFF_ROLES as readonly string[]).includes(value);
+}
+
+export function getStaffName(member: StaffMember): string {
+  return `${member.firstName} ${member.lastName}`;
+}
+
+/**
+ * Role a newly imported practitioner starts with; none for professions
+ * the workflow does not notify (physicians, therapists of other kinds)
+ */
+export function rolesForProfession(profession: string | null): StaffRole[] {
+  if (!profession) {
+    return [];
+  }
+  const match = PROFESSION_ROLES.find(([pattern]) => pattern.test(profession));
+  return match ? [match[1]] : [];
+}
+
+/**
+ * Check staff details before they are stored; returns the problems found
+ */
+export function validateStaffDetails(details: StaffDetails): string[] {
+  const problems: string[] = [];
+
+  if (!details.firstName.trim() || !details.lastName.trim()) {
+    problems.push('firstName and lastName are required');
+  }
+
+  const invalidRoles = details.roles.filter((role) => !isStaffRole(role));
+  if (invalidRoles.length > 0) {
+    problems.push(
+      `unknown roles ${invalidRoles.join(', ')}; expected ${STAFF_ROLES.join(', ')}`
+    );
+  }
+
+  const facilityIds = details.facilities.map((facility) => facility.facilityId);
+  if (facilityIds.some((id) => !Number.isInteger(id) || id <= 0)) {
+    problems.push('facility IDs must be positive integers');
+  }
+  if (new Set(facilityIds).size !== facilityIds.length) {
+    problems.push('each facility may be assigned once');
+  }
+  if (
+    details.facilities.some((facility) => facility.isOwner) &&
+    !details.roles.includes('RT')
+  ) {
+    problems.push('only an RT can own a facility');
+  }
+
+  if (details.contacts.email && !EMAIL_PATTERN.test(details.contacts.email)) {
+    problems.push('email is not a valid address');
+  }
+  if (details.contacts.webhookUrl) {
+    try {
+      const url = new URL(details.contacts.webhookUrl);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        problems.push('webhookUrl must use http or https');
+      }
+    } catch {
+      problems.push('webhookUrl must be an absolute URL');
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Create a locally managed staff member
+ */
+export function createLocalStaffMember(
+  staffId: string,
+  orgUuid: string,
+  details: StaffDetails,
+  now: Date
+): StaffMember {
+  return {
+    staffId,
+    orgUuid,
+    source: 'LOCAL',
+    practitionerId: null,
+    ...details,
+    createdAt: now,
+    updatedAt: now,
+    syncedAt: null,
+  };
+}
+
+/**
+ * Details of a staff member as an administrator would edit them
+ */
+export function toStaffDetails(member: StaffMember): StaffDetails {
+  return {
+    firstName: member.firstName,
+    lastName: member.lastName,
+    profession: member.profession,
+    roles: member.roles,
+    facilities: member.facilities,
+    contacts: member.contacts,
+    active: member.active,
+  };
+}
+
+/**
+ * The changes an administrator may not make to a staff member; PCC owns
+ * the name, profession and active flag of an imported practitioner
+ */
+export function findPccOwnedChanges(
+  member: StaffMember,
+  changes: StaffChanges
+): string[] {
+  if (member.source !== 'PCC') {
+    return [];
+  }
+  return PCC_OWNED_DETAILS.filter(
+    (field) => changes[field] !== undefined && changes[field] !== member[field]
+  ).map((field) => `${field} is managed in PCC for imported practitioners`);
+}
+
+/**
+ * Apply an administrator's changes to a staff member
+ */
+export function withStaffChanges(
+  member: StaffMember,
+  changes: StaffChanges,
+  now: Date
+): StaffMember {
+  const defined = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as StaffChanges;
+  return { ...member, ...defined, updatedAt: now };
+}
+
+/**
+ * Bring a staff member in line with what PCC lists for the practitioner
+ *
+ * Business rules:
+ * - Name, profession and active flag follow PCC
+ * - Email and phone follow PCC where PCC has them
+ * - Roles are inferred from the profession on first import only, after
+ *   which administrators manage them
+ * - Facilities where the practitioner cares for a patient are added;
+ *   facilities an administrator assigned are kept
+ */
+export function fromPractitioner(
+  staffId: string,
+  existing: StaffMember | null,
+  practitioner: PractitionerProfile,
+  facilityIds: readonly number[],
+  now: Date
+): StaffMember {
+  const facilities = [...(existing?.facilities ?? [])];
+  for (const facilityId of facilityIds) {
+    if (!facilities.some((facility) => facility.facilityId === facilityId)) {
+      facilities.push({ facilityId, isOwner: false });
+    }
+  }
+
+  return {
+    staffId,
+    orgUuid: practitioner.orgUuid,
+    source: 'PCC',
+    practitionerId: practitioner.practitionerId,
+    firstName: practitioner.firstName,
+    lastName: practitioner.lastName,
+    profession: practitioner.profession,
+    roles: existing?.roles ?? rolesForProfession(practitioner.profession),
+    facilities,
+    contacts: {
+      email: practitioner.email ?? existing?.contacts.email ?? null,
+      phone: practitioner.phone ?? existing?.contacts.phone ?? null,
+      webhookUrl: existing?.contacts.webhookUrl ?? null,
+    },
+    active: practitioner.active,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    syncedAt: now,
+  };
+}
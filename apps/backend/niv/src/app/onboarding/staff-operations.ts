@@ -0,0 +1,42 @@
+// apps/backend/niv/src/app/onboarding/staff-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for the staff directory. Implemented by
+ * staff-repository.ts.
+ */
+
+import type { StaffMember, StaffRole } from './staff-member';
+
+/**
+ * Filters for listing staff members
+ */
+export type StaffFilter = {
+  orgUuid?: string;
+  // Only staff assigned to this facility
+  facilityId?: number;
+  role?: StaffRole;
+  includeInactive?: boolean;
+};
+
+/**
+ * Contract for storing staff members, replacing their roles and facility
+ * assignments
+ */
+export type SaveStaffMembers = (
+  members: readonly StaffMember[]
+) => Promise<void>;
+
+/**
+ * Contract for listing staff members by name
+ *
+ * Business operation: "Who works at this facility, and in what role?"
+ */
+export type FindStaffMembers = (filter: StaffFilter) => Promise<StaffMember[]>;
+
+/**
+ * Contract for finding one staff member
+ */
+export type FindStaffMember = (staffId: string) => Promise<StaffMember | null>;
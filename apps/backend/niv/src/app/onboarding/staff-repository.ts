@@ -0,0 +1,218 @@
+// apps/backend/niv/src/app/onboarding/staff-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements the staff directory using Postgres (staff_members,
+ * staff_roles and staff_facilities tables).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import { mapStoreErrorToOnboardingError } from './case-repository';
+import type {
+  StaffFacilityAssignment,
+  StaffMember,
+  StaffRole,
+  StaffSource,
+} from './staff-member';
+import type {
+  FindStaffMember,
+  FindStaffMembers,
+  SaveStaffMembers,
+} from './staff-operations';
+
+/**
+ * Row shape of the staff_members table with its roles and facilities
+ */
+type StaffMemberRow = {
+  staff_id: string;
+  org_uuid: string;
+  source: StaffSource;
+  practitioner_id: number | null;
+  first_name: string;
+  last_name: string;
+  profession: string | null;
+  email: string | null;
+  phone: string | null;
+  webhook_url: string | null;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+  synced_at: Date | null;
+  roles: StaffRole[];
+  facilities: StaffFacilityAssignment[];
+};
+
+// Each member with roles and facility assignments gathered alongside
+const SELECT_STAFF = `SELECT s.*,
+    coalesce((SELECT array_agg(r.role ORDER BY r.role)
+              FROM staff_roles r WHERE r.staff_id = s.staff_id),
+             '{}') AS roles,
+    coalesce((SELECT json_agg(json_build_object(
+                       'facilityId', f.facility_id,
+                       'isOwner', f.is_owner
+                     ) ORDER BY f.facility_id)
+              FROM staff_facilities f WHERE f.staff_id = s.staff_id),
+             '[]') AS facilities
+  FROM staff_members s`;
+
+function rowToStaffMember(row: StaffMemberRow): StaffMember {
+  return {
+    staffId: row.staff_id,
+    orgUuid: row.org_uuid,
+    source: row.source,
+    practitionerId: row.practitioner_id,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    profession: row.profession,
+    roles: row.roles,
+    facilities: row.facilities,
+    contacts: {
+      email: row.email,
+      phone: row.phone,
+      webhookUrl: row.webhook_url,
+    },
+    active: row.active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    syncedAt: row.synced_at,
+  };
+}
+
+/**
+ * Create staff repository using Postgres as the implementation
+ */
+export function createPostgresStaffRepository(client: PostgresClient) {
+  const saveMembers: SaveStaffMembers = async (members) => {
+    try {
+      await client.transaction(async (tx) => {
+        for (const member of members) {
+          await tx(
+            `INSERT INTO staff_members (
+               staff_id, org_uuid, source, practitioner_id, first_name,
+               last_name, profession, email, phone, webhook_url, active,
+               created_at, updated_at, synced_at
+             )
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+             ON CONFLICT (staff_id) DO UPDATE SET
+               first_name = EXCLUDED.first_name,
+               last_name = EXCLUDED.last_name,
+               profession = EXCLUDED.profession,
+               email = EXCLUDED.email,
+               phone = EXCLUDED.phone,
+               webhook_url = EXCLUDED.webhook_url,
+               active = EXCLUDED.active,
+               updated_at = EXCLUDED.updated_at,
+               synced_at = EXCLUDED.synced_at`,
+            [
+              member.staffId,
+              member.orgUuid,
+              member.source,
+              member.practitionerId,
+              member.firstName,
+              member.lastName,
+              member.profession,
+              member.contacts.email,
+              member.contacts.phone,
+              member.contacts.webhookUrl,
+              member.active,
+              member.createdAt,
+              member.updatedAt,
+              member.syncedAt,
+            ]
+          );
+
+          await tx('DELETE FROM staff_roles WHERE staff_id = $1', [
+            member.staffId,
+          ]);
+          if (member.roles.length > 0) {
+            await tx(
+              `INSERT INTO staff_roles (staff_id, role)
+               SELECT $1, unnest($2::text[])`,
+              [member.staffId, member.roles]
+            );
+          }
+
+          await tx('DELETE FROM staff_facilities WHERE staff_id = $1', [
+            member.staffId,
+          ]);
+          if (member.facilities.length > 0) {
+            await tx(
+              `INSERT INTO staff_facilities (staff_id, org_uuid, facility_id, is_owner)
+               SELECT $1, $2, unnest($3::int[]), unnest($4::boolean[])`,
+              [
+                member.staffId,
+                member.orgUuid,
+                member.facilities.map((facility) => facility.facilityId),
+                member.facilities.map((facility) => facility.isOwner),
+              ]
+            );
+          }
+        }
+      });
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'staff_save');
+    }
+  };
+
+  const findMembers: FindStaffMembers = async (filter) => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.orgUuid) {
+      params.push(filter.orgUuid);
+      conditions.push(`s.org_uuid = $${params.length}`);
+    }
+    if (filter.facilityId !== undefined) {
+      params.push(filter.facilityId);
+      conditions.push(
+        `EXISTS (SELECT 1 FROM staff_facilities f
+                 WHERE f.staff_id = s.staff_id
+                   AND f.facility_id = $${params.length})`
+      );
+    }
+    if (filter.role) {
+      params.push(filter.role);
+      conditions.push(
+        `EXISTS (SELECT 1 FROM staff_roles r
+                 WHERE r.staff_id = s.staff_id AND r.role = $${params.length})`
+      );
+    }
+    if (!filter.includeInactive) {
+      conditions.push('s.active');
+    }
+
+    try {
+      const rows = await client.query<StaffMemberRow>(
+        `${SELECT_STAFF}
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY s.last_name, s.first_name, s.staff_id`,
+        params
+      );
+
+      return rows.map(rowToStaffMember);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'staff_list');
+    }
+  };
+
+  const findMember: FindStaffMember = async (staffId) => {
+    try {
+      const rows = await client.query<StaffMemberRow>(
+        `${SELECT_STAFF} WHERE s.staff_id = $1`,
+        [staffId]
+      );
+
+      return rows.length > 0 ? rowToStaffMember(rows[0]) : null;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'staff_lookup');
+    }
+  };
+
+  return {
+    saveMembers,
+    findMembers,
+    findMember,
+  };
+}
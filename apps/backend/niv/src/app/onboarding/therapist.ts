@@ -0,0 +1,19 @@
+// Domain data structure - a respiratory therapist who can take cases
+export type RespiratoryTherapist = {
+  readonly rtId: string;
+  readonly firstName: string;
+  readonly lastName: string;
+  readonly email: string | null;
+};
+
+// A therapist covering a facility, with what assignment strategies weigh
+export type TherapistCandidate = RespiratoryTherapist & {
+  readonly isFacilityOwner: boolean;
+  readonly openCaseCount: number;
+  readonly lastAssignedAt: Date | null; // Last assignment at this facility
+};
+
+// Domain functions
+export function getTherapistName(therapist: RespiratoryTherapist): string {
+  return `${therapist.firstName} ${therapist.lastName}`;
+}
@@ -0,0 +1,54 @@
+// apps/backend/niv/src/app/onboarding/visit-operations.ts
+
+/**
+ * Secondary Ports (Hexagonal Architecture)
+ * Repository Interfaces (DDD)
+ *
+ * Defines contracts for RT visit records and overdue visit alerts.
+ * Implemented by visit-repository.ts.
+ */
+
+import type { OnboardingCase } from './onboarding-case';
+import type { RtVisit } from './rt-visit';
+
+/**
+ * Filter for ACTIVE cases by facility
+ */
+export type ActiveCaseFilter = {
+  readonly orgUuid?: string;
+  readonly facilityId?: number;
+};
+
+/**
+ * Contract for storing an RT visit
+ */
+export type SaveRtVisit = (visit: RtVisit) => Promise<RtVisit>;
+
+/**
+ * Contract for reading a case's visits, most recent first
+ */
+export type FindCaseVisits = (caseId: string) => Promise<RtVisit[]>;
+
+/**
+ * Contract for listing ACTIVE cases with their latest visit
+ *
+ * Business operation: "When was each active patient last seen?"
+ */
+export type FindActiveCaseVisits = (filter: ActiveCaseFilter) => Promise<
+  Array<{
+    readonly onboardingCase: OnboardingCase;
+    readonly lastVisitAt: Date | null;
+  }>
+>;
+
+/**
+ * Contract for recording that a missed visit has been alerted
+ *
+ * Resolves false when this due date was already alerted, so each missed
+ * visit raises one alert
+ */
+export type SaveOverdueVisitAlert = (
+  caseId: string,
+  dueAt: Date,
+  alertedAt: Date
+) => Promise<boolean>;
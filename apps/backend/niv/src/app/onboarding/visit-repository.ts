@@ -0,0 +1,154 @@
+// apps/backend/niv/src/app/onboarding/visit-repository.ts
+
+/**
+ * Secondary Adapter (Hexagonal Architecture)
+ * Repository Implementation (DDD)
+ *
+ * Implements RT visit storage and overdue alert bookkeeping using Postgres
+ * (rt_visits and rt_visit_overdue_alerts tables).
+ */
+
+import type { PostgresClient } from '../db/postgres';
+import {
+  mapStoreErrorToOnboardingError,
+  rowToOnboardingCase,
+  type OnboardingCaseRow,
+} from './case-repository';
+import type { DeviceSettings, RtVisit } from './rt-visit';
+import type {
+  FindActiveCaseVisits,
+  FindCaseVisits,
+  SaveOverdueVisitAlert,
+  SaveRtVisit,
+} from './visit-operations';
+
+/**
+ * Row shape of the rt_visits table
+ */
+type RtVisitRow = {
+  visit_id: string;
+  case_id: string;
+  rt_id: string;
+  visited_at: Date;
+  findings: string;
+  device_settings: DeviceSettings;
+  recorded_at: Date;
+};
+
+function rowToRtVisit(row: RtVisitRow): RtVisit {
+  return {
+    visitId: row.visit_id,
+    caseId: row.case_id,
+    rtId: row.rt_id,
+    visitedAt: row.visited_at,
+    findings: row.findings,
+    deviceSettings: row.device_settings,
+    recordedAt: row.recorded_at,
+  };
+}
+
+/**
+ * Create visit repository using Postgres as the implementation
+ */
+export function createPostgresVisitRepository(client: PostgresClient) {
+  const saveVisit: SaveRtVisit = async (visit) => {
+    try {
+      const rows = await client.query<RtVisitRow>(
+        `INSERT INTO rt_visits (
+           visit_id, case_id, rt_id, visited_at, findings, device_settings,
+           recorded_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          visit.visitId,
+          visit.caseId,
+          visit.rtId,
+          visit.visitedAt,
+          visit.findings,
+          JSON.stringify(visit.deviceSettings),
+          visit.recordedAt,
+        ]
+      );
+
+      return rowToRtVisit(rows[0]);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'rt_visit_save');
+    }
+  };
+
+  const findVisits: FindCaseVisits = async (caseId) => {
+    try {
+      const rows = await client.query<RtVisitRow>(
+        `SELECT * FROM rt_visits WHERE case_id = $1
+         ORDER BY visited_at DESC`,
+        [caseId]
+      );
+
+      return rows.map(rowToRtVisit);
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'rt_visit_lookup');
+    }
+  };
+
+  const findActiveCaseVisits: FindActiveCaseVisits = async (filter) => {
+    const conditions = [`c.status = 'ACTIVE'`];
+    const params: unknown[] = [];
+
+    if (filter.orgUuid) {
+      params.push(filter.orgUuid);
+      conditions.push(`c.org_uuid = $${params.length}`);
+    }
+    if (filter.facilityId !== undefined) {
+      params.push(filter.facilityId);
+      conditions.push(`c.facility_id = $${params.length}`);
+    }
+
+    try {
+      const rows = await client.query<
+        OnboardingCaseRow & { last_visit_at: Date | null }
+      >(
+        `SELECT c.*,
+           (SELECT max(v.visited_at) FROM rt_visits v
+             WHERE v.case_id = c.case_id) AS last_visit_at
+         FROM onboarding_cases c
+         WHERE ${conditions.join(' AND ')}`,
+        params
+      );
+
+      return rows.map((row) => ({
+        onboardingCase: rowToOnboardingCase(row),
+        lastVisitAt: row.last_visit_at,
+      }));
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'active_case_visit_lookup');
+    }
+  };
+
+  const saveOverdueAlert: SaveOverdueVisitAlert = async (
+    caseId,
+    dueAt,
+    alertedAt
+  ) => {
+    try {
+      const rows = await client.query<{ case_id: string }>(
+        `INSERT INTO rt_visit_overdue_alerts (case_id, due_at, alerted_at)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (case_id, due_at) DO NOTHING
+         RETURNING case_id`,
+        [caseId, dueAt, alertedAt]
+      );
+
+      return rows.length > 0;
+    } catch (error) {
+      throw mapStoreErrorToOnboardingError(error, 'rt_visit_alert_save');
+    }
+  };
+
+  return {
+    saveVisit,
+    findVisits,
+    findActiveCaseVisits,
+    saveOverdueAlert,
+  };
+}
@@ -0,0 +1,189 @@
+// apps/backend/niv/src/app/onboarding/visit-tracking.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Tracks the weekly RT visits ACTIVE patients must have, reports which
+ * visits are overdue by facility, and raises a VISIT_OVERDUE notification
+ * once per missed visit.
+ */
+
+import { randomUUID } from 'crypto';
+import type { CaseNotifications } from './case-notifications';
+import type { FindOnboardingCase } from './case-operations';
+import { OnboardingError } from './errors';
+import {
+  getOverdueVisit,
+  type DeviceSettings,
+  type OverdueVisit,
+  type RtVisit,
+} from './rt-visit';
+import type {
+  ActiveCaseFilter,
+  FindActiveCaseVisits,
+  FindCaseVisits,
+  SaveOverdueVisitAlert,
+  SaveRtVisit,
+} from './visit-operations';
+
+/**
+ * What the RT reports about a visit
+ */
+export type RtVisitInput = {
+  readonly rtId: string;
+  readonly visitedAt: Date;
+  readonly findings: string;
+  readonly deviceSettings: DeviceSettings;
+};
+
+export type OverdueAlertReport = {
+  readonly overdue: number;
+  readonly alerted: number;
+};
+
+/**
+ * Dependencies that visit tracking needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type VisitTrackingDependencies = {
+  findCase: FindOnboardingCase;
+  saveVisit: SaveRtVisit;
+  findVisits: FindCaseVisits;
+  findActiveCaseVisits: FindActiveCaseVisits;
+  saveOverdueAlert: SaveOverdueVisitAlert;
+  notify: CaseNotifications['notify'];
+  // Receives NOTIFICATION_FAILED errors, which never stop the sweep
+  onNotificationFailure: (error: unknown) => void;
+};
+
+/**
+ * Visit tracking domain service interface
+ */
+export interface VisitTracking {
+  /**
+   * Record an RT visit
+   *
+   * Business rules:
+   * - Only ACTIVE cases receive weekly visits
+   * - A visit cannot be recorded before it happened
+   */
+  recordVisit(caseId: string, input: RtVisitInput): Promise<RtVisit>;
+
+  /**
+   * Visits for a case, most recent first
+   */
+  listVisits(caseId: string): Promise<RtVisit[]>;
+
+  /**
+   * ACTIVE cases past their weekly visit, most overdue first
+   */
+  listOverdue(filter: ActiveCaseFilter, now?: Date): Promise<OverdueVisit[]>;
+
+  /**
+   * Raise VISIT_OVERDUE for missed visits not alerted yet
+   */
+  alertOverdueVisits(now?: Date): Promise<OverdueAlertReport>;
+}
+
+/**
+ * Factory function to create visit tracking domain service
+ */
+export function createVisitTracking(
+  deps: VisitTrackingDependencies
+): VisitTracking {
+  const requireCase = async (caseId: string) => {
+    const onboardingCase = await deps.findCase(caseId);
+    if (!onboardingCase) {
+      throw OnboardingError.caseNotFound(caseId);
+    }
+    return onboardingCase;
+  };
+
+  const recordVisit = async (
+    caseId: string,
+    input: RtVisitInput
+  ): Promise<RtVisit> => {
+    const onboardingCase = await requireCase(caseId);
+    const now = new Date();
+
+    if (onboardingCase.status !== 'ACTIVE') {
+      throw OnboardingError.visitRejected(
+        caseId,
+        `case is ${onboardingCase.status}, weekly visits apply to ACTIVE cases`
+      );
+    }
+    if (input.visitedAt > now) {
+      throw OnboardingError.visitRejected(
+        caseId,
+        'visit date is in the future'
+      );
+    }
+
+    return await deps.saveVisit({
+      visitId: randomUUID(),
+      caseId,
+      rtId: input.rtId,
+      visitedAt: input.visitedAt,
+      findings: input.findings,
+      deviceSettings: input.deviceSettings,
+      recordedAt: now,
+    });
+  };
+
+  const listVisits = async (caseId: string): Promise<RtVisit[]> => {
+    await requireCase(caseId);
+    return await deps.findVisits(caseId);
+  };
+
+  const listOverdue = async (
+    filter: ActiveCaseFilter,
+    now: Date = new Date()
+  ): Promise<OverdueVisit[]> => {
+    const rows = await deps.findActiveCaseVisits(filter);
+
+    return rows
+      .map(({ onboardingCase, lastVisitAt }) =>
+        getOverdueVisit(onboardingCase, lastVisitAt, now)
+      )
+      .filter((overdue): overdue is OverdueVisit => overdue !== null)
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  };
+
+  const alertOverdueVisits = async (
+    now: Date = new Date()
+  ): Promise<OverdueAlertReport> => {
+    const overdue = await listOverdue({}, now);
+    let alerted = 0;
+
+    for (const visit of overdue) {
+      const isNew = await deps.saveOverdueAlert(
+        visit.onboardingCase.caseId,
+        visit.dueAt,
+        now
+      );
+      if (!isNew) {
+        continue;
+      }
+
+      await deps
+        .notify({
+          type: 'VISIT_OVERDUE',
+          onboardingCase: visit.onboardingCase,
+          dueAt: visit.dueAt,
+          lastVisitAt: visit.lastVisitAt,
+        })
+        .catch(deps.onNotificationFailure);
+      alerted++;
+    }
+
+    return { overdue: overdue.length, alerted };
+  };
+
+  return {
+    recordVisit,
+    listVisits,
+    listOverdue,
+    alertOverdueVisits,
+  };
+}
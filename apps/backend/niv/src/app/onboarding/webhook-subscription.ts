@@ -0,0 +1,273 @@
+// apps/backend/niv/src/app/onboarding/webhook-subscription.ts
+
+/**
+ * Value Objects + Domain Logic (DDD)
+ *
+ * PCC webhook subscriptions decide which events PCC sends to
+ * POST /webhooks/pcc. A subscription belongs to the application; PCC rolls
+ * it out to each organization that has the application enabled and
+ * reports the rollout per organization. Every change is a new
+ * subscription request that PCC reviews before it replaces the approved
+ * one. Failed deliveries are kept by PCC per facility for seven days.
+ */
+
+export const WEBHOOK_SUBSCRIPTION_STATUSES = [
+  'PENDING',
+  'APPROVED',
+  'PARTIAL_APPROVED',
+  'CANCELLED',
+  'REJECTED',
+  'RETIRED',
+] as const;
+
+export type WebhookSubscriptionStatus =
+  (typeof WEBHOOK_SUBSCRIPTION_STATUSES)[number];
+
+// Requests PCC may still deliver under, newest first wins
+const LIVE_STATUSES: readonly WebhookSubscriptionStatus[] = [
+  'PENDING',
+  'APPROVED',
+  'PARTIAL_APPROVED',
+];
+
+// PCC limits on the subscription request
+const MAX_END_URL_LENGTH = 128;
+const MAX_USERNAME_LENGTH = 40;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 55;
+
+/**
+ * What a subscription delivers and where
+ */
+export type WebhookSubscriptionSettings = {
+  readonly endUrl: string;
+  readonly eventGroups: readonly string[];
+  readonly includeDischarged: boolean;
+  readonly includeOutpatient: boolean;
+  readonly enableRoomReservationCancellation: boolean;
+  // Targets vendor-specific events; PCC supplies it when a use case needs it
+  readonly vendorExternalId: string | null;
+};
+
+// Rollout of a subscription to one organization
+export type WebhookOrgStatus = {
+  readonly orgUuid: string;
+  readonly status: 'PROCESSING' | 'SUCCESS' | 'FAILED';
+};
+
+export type WebhookSubscription = WebhookSubscriptionSettings & {
+  readonly subscriptionId: number;
+  readonly applicationName: string;
+  readonly action: 'SUBSCRIBE' | 'UNSUBSCRIBE';
+  readonly status: WebhookSubscriptionStatus;
+  readonly username: string | null;
+  readonly orgs: readonly WebhookOrgStatus[];
+  readonly createdAt: Date | null;
+  readonly revisedAt: Date | null;
+};
+
+/**
+ * A subscription request as sent to PCC. The credentials are the ones
+ * POST /webhooks/pcc accepts.
+ */
+export type WebhookSubscriptionRequest = WebhookSubscriptionSettings & {
+  readonly applicationName: string;
+  readonly username: string;
+  readonly password: string;
+};
+
+// Delivery PCC could not make to the subscription's endUrl
+export type WebhookDeliveryError = {
+  readonly occurredAt: Date | null;
+  readonly code: string;
+};
+
+/**
+ * Application and credentials from config, with the subscription the
+ * application should have and the organizations it should reach
+ */
+export type WebhookSubscriptionConfig = {
+  readonly applicationName: string;
+  readonly username: string | null;
+  readonly password: string | null;
+  readonly desired: WebhookSubscriptionSettings | null;
+  readonly orgUuids: readonly string[];
+};
+
+export function isWebhookSubscriptionStatus(
+  value: string
+): value is WebhookSubscriptionStatus {
+  return (WEBHOOK_SUBSCRIPTION_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * The subscription request PCC is delivering under, or is about to: the
+ * newest SUBSCRIBE request that is pending or approved
+ */
+export function findCurrentSubscription(
+  subscriptions: readonly WebhookSubscription[]
+): WebhookSubscription | null {
+  const live = subscriptions.filter(
+    (subscription) =>
+      subscription.action === 'SUBSCRIBE' &&
+      LIVE_STATUSES.includes(subscription.status)
+  );
+  if (live.length === 0) {
+    return null;
+  }
+
+  const createdTime = (subscription: WebhookSubscription) =>
+    subscription.createdAt?.getTime() ?? 0;
+  return live.reduce((newest, subscription) =>
+    createdTime(subscription) > createdTime(newest) ||
+    (createdTime(subscription) === createdTime(newest) &&
+      subscription.subscriptionId > newest.subscriptionId)
+      ? subscription
+      : newest
+  );
+}
+
+/**
+ * Describe how a subscription differs from the wanted settings, e.g.
+ * "endUrl https://old → https://new"; empty when they match
+ */
+export function describeSettingsDifferences(
+  current: WebhookSubscriptionSettings,
+  wanted: WebhookSubscriptionSettings
+): string[] {
+  const differences: string[] = [];
+
+  if (current.endUrl !== wanted.endUrl) {
+    differences.push(`endUrl ${current.endUrl} → ${wanted.endUrl}`);
+  }
+
+  const currentGroups = new Set(current.eventGroups);
+  const wantedGroups = new Set(wanted.eventGroups);
+  const added = [...wantedGroups].filter((group) => !currentGroups.has(group));
+  const removed = [...currentGroups].filter(
+    (group) => !wantedGroups.has(group)
+  );
+  if (added.length > 0) {
+    differences.push(`event groups added: ${added.join(', ')}`);
+  }
+  if (removed.length > 0) {
+    differences.push(`event groups removed: ${removed.join(', ')}`);
+  }
+
+  const flags = [
+    'includeDischarged',
+    'includeOutpatient',
+    'enableRoomReservationCancellation',
+  ] as const;
+  for (const flag of flags) {
+    if (current[flag] !== wanted[flag]) {
+      differences.push(`${flag} ${current[flag]} → ${wanted[flag]}`);
+    }
+  }
+
+  if (
+    (current.vendorExternalId ?? null) !== (wanted.vendorExternalId ?? null)
+  ) {
+    differences.push(
+      `vendorExternalId ${current.vendorExternalId ?? 'none'} → ${
+        wanted.vendorExternalId ?? 'none'
+      }`
+    );
+  }
+
+  return differences;
+}
+
+/**
+ * Check a subscription request against PCC's limits
+ *
+ * Returns the problems found; empty when PCC would accept the request
+ */
+export function validateSubscriptionRequest(
+  request: WebhookSubscriptionRequest
+): string[] {
+  const problems: string[] = [];
+
+  let url: URL | null = null;
+  try {
+    url = new URL(request.endUrl);
+  } catch {
+    problems.push('endUrl must be an absolute URL');
+  }
+  if (url && url.protocol !== 'https:') {
+    problems.push('endUrl must use https');
+  }
+  if (request.endUrl.length > MAX_END_URL_LENGTH) {
+    problems.push(`endUrl must be at most ${MAX_END_URL_LENGTH} characters`);
+  }
+
+  if (request.eventGroups.length === 0) {
+    problems.push('at least one event group is required');
+  }
+  if (request.eventGroups.some((group) => group.trim() === '')) {
+    problems.push('event group names must not be blank');
+  }
+
+  if (!request.username || request.username.length > MAX_USERNAME_LENGTH) {
+    problems.push(
+      `webhook username must be 1-${MAX_USERNAME_LENGTH} characters`
+    );
+  }
+  if (
+    request.password.length < MIN_PASSWORD_LENGTH ||
+    request.password.length > MAX_PASSWORD_LENGTH
+  ) {
+    problems.push(
+      `webhook password must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters`
+    );
+  }
+
+  return problems;
+}
+
+/**
+ * Read the webhook subscription config
+ *
+ * PCC_APPLICATION_NAME names the application on the PCC Developer Portal;
+ * without it subscriptions cannot be managed and null is returned. The
+ * desired subscription is set when PCC_WEBHOOK_URL and
+ * PCC_WEBHOOK_EVENT_GROUPS (comma-separated) are; PCC_WEBHOOK_ORG_UUIDS
+ * lists the organizations it should reach.
+ */
+export function loadWebhookSubscriptionConfigFromEnv(): WebhookSubscriptionConfig | null {
+  const applicationName = process.env.PCC_APPLICATION_NAME?.trim();
+  if (!applicationName) {
+    return null;
+  }
+
+  const list = (value: string | undefined) =>
+    (value ?? '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item !== '');
+  const flag = (value: string | undefined) => value?.trim() === 'true';
+
+  const endUrl = process.env.PCC_WEBHOOK_URL?.trim();
+  const eventGroups = list(process.env.PCC_WEBHOOK_EVENT_GROUPS);
+
+  return {
+    applicationName,
+    username: process.env.PCC_WEBHOOK_USERNAME || null,
+    password: process.env.PCC_WEBHOOK_PASSWORD || null,
+    desired:
+      endUrl && eventGroups.length > 0
+        ? {
+            endUrl,
+            eventGroups,
+            includeDischarged: flag(process.env.PCC_WEBHOOK_INCLUDE_DISCHARGED),
+            includeOutpatient: flag(process.env.PCC_WEBHOOK_INCLUDE_OUTPATIENT),
+            enableRoomReservationCancellation: flag(
+              process.env.PCC_WEBHOOK_ROOM_RESERVATION_CANCELLATION
+            ),
+            vendorExternalId:
+              process.env.PCC_WEBHOOK_VENDOR_EXTERNAL_ID?.trim() || null,
+          }
+        : null,
+    orgUuids: list(process.env.PCC_WEBHOOK_ORG_UUIDS),
+  };
+}
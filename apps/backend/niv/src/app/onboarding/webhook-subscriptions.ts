@@ -0,0 +1,325 @@
+// apps/backend/niv/src/app/onboarding/webhook-subscriptions.ts
+
+/**
+ * Domain Service (Hexagonal Architecture)
+ * Domain Service (DDD)
+ *
+ * Manages the application's PCC webhook subscription: lists what PCC
+ * reports, submits new or changed subscriptions, reconciles PCC against
+ * the subscription configured for this deployment, and lists the
+ * deliveries PCC could not make.
+ */
+
+import type {
+  GetWebhookDeliveryErrors,
+  GetWebhookSubscriptions,
+  SubmitWebhookSubscription,
+} from './ehr-operations';
+import { OnboardingError } from './errors';
+import {
+  describeSettingsDifferences,
+  findCurrentSubscription,
+  validateSubscriptionRequest,
+  type WebhookDeliveryError,
+  type WebhookOrgStatus,
+  type WebhookSubscription,
+  type WebhookSubscriptionConfig,
+  type WebhookSubscriptionSettings,
+  type WebhookSubscriptionStatus,
+} from './webhook-subscription';
+
+/**
+ * Reply to a submitted subscription request; PCC reviews it before it
+ * takes effect
+ */
+export type WebhookSubscriptionReceipt = {
+  readonly subscriptionId: number;
+  readonly applicationName: string;
+  // Subscription the request changes (updates only)
+  readonly replacesSubscriptionId: number | null;
+  readonly settings: WebhookSubscriptionSettings;
+};
+
+export type ReconcileAction =
+  | 'IN_SYNC'
+  | 'AWAITING_APPROVAL'
+  | 'SUBMITTED'
+  | 'WOULD_SUBMIT';
+
+/**
+ * Outcome of comparing PCC with the configured subscription
+ */
+export type WebhookReconciliation = {
+  readonly applicationName: string;
+  readonly action: ReconcileAction;
+  readonly currentSubscriptionId: number | null;
+  // New request sent to PCC (SUBMITTED only)
+  readonly submittedSubscriptionId: number | null;
+  readonly differences: string[];
+  // Configured organizations; MISSING when PCC reports no rollout there
+  readonly orgs: Array<{
+    orgUuid: string;
+    status: WebhookOrgStatus['status'] | 'MISSING';
+  }>;
+};
+
+export type FacilityDeliveryErrors = {
+  readonly facilityId: number;
+  readonly errors: WebhookDeliveryError[];
+};
+
+/**
+ * Dependencies that webhook subscription management needs
+ * Injected by the factory function to maintain dependency inversion
+ */
+export type WebhookSubscriptionDependencies = {
+  getSubscriptions: GetWebhookSubscriptions;
+  submitSubscription: SubmitWebhookSubscription;
+  getDeliveryErrors: GetWebhookDeliveryErrors;
+  // Null when PCC_APPLICATION_NAME is not set
+  config: WebhookSubscriptionConfig | null;
+};
+
+/**
+ * Webhook subscription management domain service interface
+ */
+export interface WebhookSubscriptions {
+  /**
+   * List the application's subscription requests, newest first; with an
+   * organization, only those rolled out to it
+   */
+  listSubscriptions(
+    orgUuid?: string,
+    status?: WebhookSubscriptionStatus
+  ): Promise<WebhookSubscription[]>;
+
+  /**
+   * Submit a new subscription request
+   *
+   * Business rules:
+   * - Deliveries authenticate with the credentials POST /webhooks/pcc
+   *   accepts, so they come from config and never from the caller
+   */
+  createSubscription(
+    settings: WebhookSubscriptionSettings
+  ): Promise<WebhookSubscriptionReceipt>;
+
+  /**
+   * Submit a request that changes an existing subscription; settings not
+   * given keep their current value
+   */
+  updateSubscription(
+    subscriptionId: number,
+    changes: Partial<WebhookSubscriptionSettings>
+  ): Promise<WebhookSubscriptionReceipt>;
+
+  /**
+   * Compare PCC with the configured subscription and submit a request
+   * when they differ
+   *
+   * Business rules:
+   * - A pending request that already matches is left for PCC to approve
+   * - A dry run reports what would be submitted without submitting
+   */
+  reconcile(dryRun: boolean): Promise<WebhookReconciliation>;
+
+  /**
+   * List deliveries PCC could not make to the facilities' subscriptions
+   */
+  listDeliveryErrors(
+    orgUuid: string,
+    facilityIds: number[]
+  ): Promise<FacilityDeliveryErrors[]>;
+}
+
+/**
+ * Factory function to create webhook subscription management domain service
+ */
+export function createWebhookSubscriptions(
+  deps: WebhookSubscriptionDependencies
+): WebhookSubscriptions {
+  const requireConfig = (): WebhookSubscriptionConfig => {
+    if (!deps.config) {
+      throw OnboardingError.webhookSubscriptionsNotConfigured([
+        'PCC_APPLICATION_NAME',
+      ]);
+    }
+    return deps.config;
+  };
+
+  const submit = async (
+    settings: WebhookSubscriptionSettings,
+    replacesSubscriptionId: number | null
+  ): Promise<WebhookSubscriptionReceipt> => {
+    const config = requireConfig();
+    if (!config.username || !config.password) {
+      throw OnboardingError.webhookSubscriptionsNotConfigured([
+        ...(config.username ? [] : ['PCC_WEBHOOK_USERNAME']),
+        ...(config.password ? [] : ['PCC_WEBHOOK_PASSWORD']),
+      ]);
+    }
+
+    const request = {
+      ...settings,
+      applicationName: config.applicationName,
+      username: config.username,
+      password: config.password,
+    };
+    const problems = validateSubscriptionRequest(request);
+    if (problems.length > 0) {
+      throw OnboardingError.webhookSubscriptionInvalid(problems);
+    }
+
+    const subscriptionId = await deps.submitSubscription(request);
+    return {
+      subscriptionId,
+      applicationName: config.applicationName,
+      replacesSubscriptionId,
+      settings,
+    };
+  };
+
+  const listSubscriptions = async (
+    orgUuid?: string,
+    status?: WebhookSubscriptionStatus
+  ): Promise<WebhookSubscription[]> => {
+    const config = requireConfig();
+    const subscriptions = await deps.getSubscriptions(
+      config.applicationName,
+      status
+    );
+
+    return subscriptions
+      .filter(
+        (subscription) =>
+          !orgUuid || subscription.orgs.some((org) => org.orgUuid === orgUuid)
+      )
+      .sort(
+        (a, b) =>
+          (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) ||
+          b.subscriptionId - a.subscriptionId
+      );
+  };
+
+  const createSubscription = async (
+    settings: WebhookSubscriptionSettings
+  ): Promise<WebhookSubscriptionReceipt> => {
+    return await submit(settings, null);
+  };
+
+  const updateSubscription = async (
+    subscriptionId: number,
+    changes: Partial<WebhookSubscriptionSettings>
+  ): Promise<WebhookSubscriptionReceipt> => {
+    const config = requireConfig();
+    const existing = (await deps.getSubscriptions(config.applicationName)).find(
+      (subscription) => subscription.subscriptionId === subscriptionId
+    );
+    if (!existing) {
+      throw OnboardingError.webhookSubscriptionNotFound(
+        subscriptionId,
+        config.applicationName
+      );
+    }
+
+    return await submit(
+      {
+        endUrl: changes.endUrl ?? existing.endUrl,
+        eventGroups: changes.eventGroups ?? existing.eventGroups,
+        includeDischarged:
+          changes.includeDischarged ?? existing.includeDischarged,
+        includeOutpatient:
+          changes.includeOutpatient ?? existing.includeOutpatient,
+        enableRoomReservationCancellation:
+          changes.enableRoomReservationCancellation ??
+          existing.enableRoomReservationCancellation,
+        vendorExternalId:
+          changes.vendorExternalId !== undefined
+            ? changes.vendorExternalId
+            : existing.vendorExternalId,
+      },
+      subscriptionId
+    );
+  };
+
+  const reconcile = async (dryRun: boolean): Promise<WebhookReconciliation> => {
+    const config = requireConfig();
+    if (!config.desired) {
+      throw OnboardingError.webhookSubscriptionsNotConfigured([
+        'PCC_WEBHOOK_URL',
+        'PCC_WEBHOOK_EVENT_GROUPS',
+      ]);
+    }
+    const desired = config.desired;
+
+    const current = findCurrentSubscription(
+      await deps.getSubscriptions(config.applicationName)
+    );
+    const differences = current
+      ? describeSettingsDifferences(current, desired)
+      : ['no pending or approved subscription'];
+
+    const orgs = config.orgUuids.map((orgUuid) => ({
+      orgUuid,
+      status:
+        current?.orgs.find((org) => org.orgUuid === orgUuid)?.status ??
+        ('MISSING' as const),
+    }));
+
+    const result = {
+      applicationName: config.applicationName,
+      currentSubscriptionId: current?.subscriptionId ?? null,
+      differences,
+      orgs,
+    };
+
+    if (current && differences.length === 0) {
+      return {
+        ...result,
+        action: current.status === 'PENDING' ? 'AWAITING_APPROVAL' : 'IN_SYNC',
+        submittedSubscriptionId: null,
+      };
+    }
+    if (dryRun) {
+      return {
+        ...result,
+        action: 'WOULD_SUBMIT',
+        submittedSubscriptionId: null,
+      };
+    }
+
+    const receipt = await submit(desired, current?.subscriptionId ?? null);
+    return {
+      ...result,
+      action: 'SUBMITTED',
+      submittedSubscriptionId: receipt.subscriptionId,
+    };
+  };
+
+  const listDeliveryErrors = async (
+    orgUuid: string,
+    facilityIds: number[]
+  ): Promise<FacilityDeliveryErrors[]> => {
+    const facilities: FacilityDeliveryErrors[] = [];
+    // One facility at a time; ops pages list a handful
+    for (const facilityId of facilityIds) {
+      const errors = await deps.getDeliveryErrors(orgUuid, facilityId);
+      facilities.push({
+        facilityId,
+        errors: [...errors].sort(
+          (a, b) =>
+            (b.occurredAt?.getTime() ?? 0) - (a.occurredAt?.getTime() ?? 0)
+        ),
+      });
+    }
+    return facilities;
+  };
+
+  return {
+    listSubscriptions,
+    createSubscription,
+    updateSubscription,
+    reconcile,
+    listDeliveryErrors,
+  };
+}
@@ -0,0 +1,381 @@
+// apps/backend/niv/src/app/staff/staff.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { NIV_ERRORS, OnboardingError } from '../onboarding/errors';
+import { OnboardingService } from '../onboarding/onboarding.service';
+import {
+  isStaffRole,
+  STAFF_ROLES,
+  type StaffChanges,
+  type StaffContacts,
+} from '../onboarding/staff-member';
+
+type StaffBody = {
+  orgUuid?: unknown;
+  firstName?: unknown;
+  lastName?: unknown;
+  profession?: unknown;
+  roles?: unknown;
+  facilities?: unknown;
+  contacts?: unknown;
+  active?: unknown;
+};
+
+/**
+ * Controller for the staff directory
+ *
+ * Practitioners come from the PCC care teams (/practitioners) of patients
+ * with open cases and are refreshed daily (STAFF_SYNC_INTERVAL_MS);
+ * other staff are added here. Roles, facility assignments and contact
+ * channels decide who is assigned cases and who is notified.
+ */
+@Controller('staff')
+export class StaffController {
+  private readonly logger = new Logger(StaffController.name);
+
+  constructor(private readonly onboardingService: OnboardingService) {}
+
+  /**
+   * Staff by name, optionally for one organization, facility or role
+   */
+  @Get()
+  async listStaff(
+    @Query('orgUuid') orgUuid?: string,
+    @Query('facilityId') facilityId?: string,
+    @Query('role') role?: string,
+    @Query('includeInactive') includeInactive?: string
+  ) {
+    if (role && !isStaffRole(role)) {
+      throw this.invalidInput(
+        'INVALID_ROLE',
+        `role must be one of ${STAFF_ROLES.join(', ')}`
+      );
+    }
+    const facility = facilityId ? Number(facilityId) : undefined;
+    if (
+      facility !== undefined &&
+      (!Number.isInteger(facility) || facility <= 0)
+    ) {
+      throw this.invalidInput('INVALID_FACILITY', 'facilityId must be an ID');
+    }
+
+    const filter = {
+      orgUuid: orgUuid?.trim() || undefined,
+      facilityId: facility,
+      role: role && isStaffRole(role) ? role : undefined,
+      includeInactive: includeInactive === 'true',
+    };
+
+    try {
+      const staff = await this.onboardingService.listStaff(filter);
+
+      return {
+        success: true,
+        data: staff,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'staff_list', filter);
+    }
+  }
+
+  /**
+   * Add a staff member PCC does not list
+   */
+  @Post()
+  async addStaffMember(@Body() body: StaffBody) {
+    if (typeof body?.orgUuid !== 'string' || !body.orgUuid.trim()) {
+      throw this.invalidInput('INVALID_ORG_UUID', 'orgUuid is required');
+    }
+    const orgUuid = body.orgUuid.trim();
+    const details = this.readStaffBody(body);
+    if (details.firstName === undefined || details.lastName === undefined) {
+      throw this.invalidInput(
+        'INVALID_STAFF_MEMBER',
+        'firstName and lastName are required'
+      );
+    }
+
+    try {
+      const member = await this.onboardingService.addStaffMember(orgUuid, {
+        firstName: details.firstName,
+        lastName: details.lastName,
+        profession: details.profession ?? null,
+        roles: details.roles ?? [],
+        facilities: details.facilities ?? [],
+        contacts: details.contacts ?? {
+          email: null,
+          phone: null,
+          webhookUrl: null,
+        },
+        active: details.active ?? true,
+      });
+
+      return {
+        success: true,
+        data: member,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'staff_add', { orgUuid });
+    }
+  }
+
+  /**
+   * Import an organization's practitioners from PCC
+   */
+  @Post('sync')
+  async syncPractitioners(@Body() body: { orgUuid?: unknown }) {
+    if (typeof body?.orgUuid !== 'string' || !body.orgUuid.trim()) {
+      throw this.invalidInput('INVALID_ORG_UUID', 'orgUuid is required');
+    }
+    const orgUuid = body.orgUuid.trim();
+
+    try {
+      const report = await this.onboardingService.syncPractitioners(orgUuid);
+
+      return {
+        success: true,
+        data: report,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'staff_sync', { orgUuid });
+    }
+  }
+
+  /**
+   * One staff member with roles, facilities and contact channels
+   */
+  @Get(':staffId')
+  async getStaffMember(@Param('staffId') staffId: string) {
+    try {
+      const member = await this.onboardingService.getStaffMember(staffId);
+
+      return {
+        success: true,
+        data: member,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'staff_lookup', { staffId });
+    }
+  }
+
+  /**
+   * Change a staff member; omitted fields are kept, and contacts replace
+   * the stored ones as a whole
+   */
+  @Put(':staffId')
+  async updateStaffMember(
+    @Param('staffId') staffId: string,
+    @Body() body: StaffBody
+  ) {
+    const changes = this.readStaffBody(body);
+
+    try {
+      const member = await this.onboardingService.updateStaffMember(
+        staffId,
+        changes
+      );
+
+      return {
+        success: true,
+        data: member,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'staff_update', { staffId });
+    }
+  }
+
+  /**
+   * Reads the details present in a staff body
+   */
+  private readStaffBody(body: StaffBody): StaffChanges {
+    let changes: StaffChanges = {};
+
+    for (const field of ['firstName', 'lastName'] as const) {
+      if (body?.[field] !== undefined) {
+        const value = body[field];
+        if (typeof value !== 'string' || !value.trim()) {
+          throw this.invalidInput(
+            'INVALID_STAFF_MEMBER',
+            `${field} must be a non-empty string`
+          );
+        }
+        changes = { ...changes, [field]: value.trim() };
+      }
+    }
+
+    if (body?.profession !== undefined) {
+      if (body.profession !== null && typeof body.profession !== 'string') {
+        throw this.invalidInput(
+          'INVALID_STAFF_MEMBER',
+          'profession must be a string or null'
+        );
+      }
+      changes = { ...changes, profession: body.profession?.trim() || null };
+    }
+
+    if (body?.roles !== undefined) {
+      if (
+        !Array.isArray(body.roles) ||
+        !body.roles.every(
+          (role) => typeof role === 'string' && isStaffRole(role)
+        )
+      ) {
+        throw this.invalidInput(
+          'INVALID_ROLE',
+          `roles must be a list of ${STAFF_ROLES.join(', ')}`
+        );
+      }
+      changes = { ...changes, roles: [...new Set(body.roles)] };
+    }
+
+    if (body?.facilities !== undefined) {
+      if (
+        !Array.isArray(body.facilities) ||
+        !body.facilities.every(
+          (facility) =>
+            typeof facility?.facilityId === 'number' &&
+            (facility.isOwner === undefined ||
+              typeof facility.isOwner === 'boolean')
+        )
+      ) {
+        throw this.invalidInput(
+          'INVALID_FACILITY',
+          'facilities must be a list of { facilityId, isOwner }'
+        );
+      }
+      changes = {
+        ...changes,
+        facilities: body.facilities.map(
+          (facility: { facilityId: number; isOwner?: boolean }) => ({
+            facilityId: facility.facilityId,
+            isOwner: facility.isOwner ?? false,
+          })
+        ),
+      };
+    }
+
+    if (body?.contacts !== undefined) {
+      const contacts = body.contacts as Record<string, unknown> | null;
+      const fields = ['email', 'phone', 'webhookUrl'] as const;
+      if (
+        typeof contacts !== 'object' ||
+        contacts === null ||
+        !fields.every(
+          (field) =>
+            contacts[field] === undefined ||
+            contacts[field] === null ||
+            typeof contacts[field] === 'string'
+        )
+      ) {
+        throw this.invalidInput(
+          'INVALID_CONTACTS',
+          'contacts must be { email, phone, webhookUrl } strings or null'
+        );
+      }
+      const read = (field: (typeof fields)[number]) =>
+        (contacts[field] as string | null | undefined)?.trim() || null;
+      const parsed: StaffContacts = {
+        email: read('email'),
+        phone: read('phone'),
+        webhookUrl: read('webhookUrl'),
+      };
+      changes = { ...changes, contacts: parsed };
+    }
+
+    if (body?.active !== undefined) {
+      if (typeof body.active !== 'boolean') {
+        throw this.invalidInput(
+          'INVALID_STAFF_MEMBER',
+          'active must be true or false'
+        );
+      }
+      changes = { ...changes, active: body.active };
+    }
+
+    return changes;
+  }
+
+  /**
+   * Builds a 400 response for malformed request input
+   */
+  private invalidInput(error: string, message: string): HttpException {
+    return new HttpException(
+      {
+        error,
+        message,
+        timestamp: new Date().toISOString(),
+      },
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  /**
+   * Maps domain errors to HTTP responses, as the onboarding endpoints do
+   */
+  private mapDomainErrorToHttp(
+    error: unknown,
+    operation: string,
+    context?: Record<string, unknown>
+  ): HttpException {
+    if (!(error instanceof OnboardingError)) {
+      this.logger.error(`Unexpected error in ${operation}:`, error);
+
+      return new HttpException(
+        {
+          error: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+          operation,
+          timestamp: new Date().toISOString(),
+          ...(context && { context }),
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    let status: HttpStatus;
+    switch (error.code) {
+      case NIV_ERRORS.STAFF_MEMBER_NOT_FOUND:
+        status = HttpStatus.NOT_FOUND;
+        break;
+      case NIV_ERRORS.STAFF_MEMBER_INVALID:
+        status = HttpStatus.UNPROCESSABLE_ENTITY;
+        break;
+      case NIV_ERRORS.PCC_UNAUTHORIZED:
+        status = HttpStatus.UNAUTHORIZED;
+        break;
+      default:
+        status =
+          error.action === 'retry'
+            ? HttpStatus.SERVICE_UNAVAILABLE
+            : HttpStatus.BAD_REQUEST;
+    }
+
+    return new HttpException(
+      {
+        error: error.code,
+        message: error.message,
+        action: error.action,
+        operation,
+        timestamp: new Date().toISOString(),
+        ...(error.action === 'retry' && { retryable: true, retryAfter: 30 }),
+        ...(context && { context }),
+      },
+      status
+    );
+  }
+}
@@ -0,0 +1,17 @@
+// apps/backend/niv/src/app/staff/staff.module.ts
+
+/**
+ * NestJS Module (Hexagonal Architecture)
+ *
+ * Staff directory endpoints, backed by the onboarding bounded context.
+ */
+
+import { Module } from '@nestjs/common';
+import { OnboardingModule } from '../onboarding/onboarding.module';
+import { StaffController } from './staff.controller';
+
+@Module({
+  imports: [OnboardingModule],
+  controllers: [StaffController],
+})
+export class StaffModule {}
@@ -1,5 +1,16 @@
-import { Body, Controller, Get, Logger, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
 import { S3Service } from '../aws/s3.service';
+import { NIV_ERRORS, OnboardingError } from '../onboarding/errors';
 import { UploadService } from './upload.service';
 
 @Controller('upload')
@@ -11,6 +22,10 @@ export class UploadController {
     private readonly s3Service: S3Service
   ) {}
 
+  /**
+   * Presigned S3 PUT URL; with a caseId the upload is recorded against
+   * the case and the response carries the documentId to confirm
+   */
   @Post('presigned-url')
   async createPresignedUrl(@Body() body: any) {
     try {
@@ -21,11 +36,36 @@ export class UploadController {
         contentType: body.contentType,
         category: body.category,
         metadata: body.metadata,
+        caseId: body.caseId,
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.logger.error(`Presigned URL generation failed: ${message}`);
-      throw error;
+      throw this.mapDomainErrorToHttp(error, 'case_document_register');
+    }
+  }
+
+  /**
+   * Confirm a case upload has finished; the file is attached to the
+   * patient's PCC chart and the document returned with its PCC ID.
+   * Confirming again retries a failed attach
+   */
+  @Post('documents/:documentId/confirm')
+  async confirmCaseUpload(
+    @Param('documentId', ParseUUIDPipe) documentId: string
+  ) {
+    try {
+      const document = await this.uploadService.confirmCaseUpload(documentId);
+
+      return {
+        success: true,
+        data: document,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw this.mapDomainErrorToHttp(error, 'case_document_attach', {
+        documentId,
+      });
     }
   }
 
@@ -33,4 +73,65 @@ export class UploadController {
   async testConnection() {
     return this.s3Service.testConnection();
   }
+
+  /**
+   * Maps domain errors to HTTP responses, as the onboarding endpoints do
+   */
+  private mapDomainErrorToHttp(
+    error: unknown,
+    operation: string,
+    context?: Record<string, unknown>
+  ): HttpException {
+    // Request validation has already chosen its response
+    if (error instanceof HttpException) {
+      return error;
+    }
+
+    if (!(error instanceof OnboardingError)) {
+      this.logger.error(`Unexpected error in ${operation}:`, error);
+
+      return new HttpException(
+        {
+          error: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+          operation,
+          timestamp: new Date().toISOString(),
+          ...(context && { context }),
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    let status: HttpStatus;
+    switch (error.code) {
+      case NIV_ERRORS.CASE_NOT_FOUND:
+      case NIV_ERRORS.CASE_DOCUMENT_NOT_FOUND:
+        status = HttpStatus.NOT_FOUND;
+        break;
+      case NIV_ERRORS.CASE_DOCUMENT_NOT_UPLOADED:
+        status = HttpStatus.CONFLICT;
+        break;
+      case NIV_ERRORS.PCC_UNAUTHORIZED:
+        status = HttpStatus.UNAUTHORIZED;
+        break;
+      default:
+        status =
+          error.action === 'retry'
+            ? HttpStatus.SERVICE_UNAVAILABLE
+            : HttpStatus.BAD_REQUEST;
+    }
+
+    return new HttpException(
+      {
+        error: error.code,
+        message: error.message,
+        action: error.action,
+        operation,
+        timestamp: new Date().toISOString(),
+        ...(error.action === 'retry' && { retryable: true, retryAfter: 30 }),
+        ...(context && { context }),
+      },
+      status
+    );
+  }
 }
@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { AwsModule } from '../aws/aws.module';
+import { OnboardingModule } from '../onboarding/onboarding.module';
 import { UploadController } from './upload.controller';
 import { UploadService } from './upload.service';
 
 @Module({
-  imports: [AwsModule],
+  imports: [AwsModule, OnboardingModule],
   controllers: [UploadController],
   providers: [UploadService],
   exports: [UploadService],
@@ -1,12 +1,20 @@
 import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { randomUUID } from 'crypto';
 import { S3Service } from '../aws/s3.service';
+import type { CaseDocument } from '../onboarding/case-document';
+import { OnboardingService } from '../onboarding/onboarding.service';
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export interface UploadRequest {
   fileName: string;
   contentType: string;
   category?: string;
   metadata?: Record<string, string>;
+  // Ties the upload to an onboarding case; the file is filed in the
+  // patient's PCC chart once the upload is confirmed
+  caseId?: string;
 }
 
 export interface UploadResponse {
@@ -14,6 +22,8 @@ export interface UploadResponse {
   key: string;
   bucket: string;
   expiresIn: number;
+  // Case document to confirm once uploaded, for case uploads
+  documentId?: string;
   uploadInstructions: {
     method: string;
     headers: Record<string, string>;
@@ -24,14 +34,20 @@ export interface UploadResponse {
 export class UploadService {
   private readonly logger = new Logger(UploadService.name);
 
-  constructor(private readonly s3Service: S3Service) {}
+  constructor(
+    private readonly s3Service: S3Service,
+    private readonly onboardingService: OnboardingService
+  ) {}
 
   async createPresignedUpload(request: UploadRequest): Promise<UploadResponse> {
     // Validate request
     this.validateUploadRequest(request);
 
-    // Generate unique key
-    const key = this.generateFileKey(request.fileName, request.category);
+    // Generate unique key; case uploads are kept together under the case
+    const key = this.generateFileKey(
+      request.fileName,
+      request.caseId ? `cases/${request.caseId}` : request.category
+    );
 
     // Get presigned URL from S3
     const s3Response = await this.s3Service.generatePresignedUrl({
@@ -43,8 +59,17 @@ export class UploadService {
       `Created presigned upload for: ${request.fileName} -> ${key}`
     );
 
+    const document = request.caseId
+      ? await this.onboardingService.registerCaseDocument(request.caseId, {
+          fileName: request.fileName,
+          contentType: request.contentType,
+          storageKey: key,
+        })
+      : null;
+
     return {
       ...s3Response,
+      ...(document && { documentId: document.documentId }),
       uploadInstructions: {
         method: 'PUT',
         headers: {
@@ -54,6 +79,14 @@ export class UploadService {
     };
   }
 
+  /**
+   * Confirm a case upload has finished; the file is read back from S3 and
+   * attached to the patient's PCC chart
+   */
+  async confirmCaseUpload(documentId: string): Promise<CaseDocument> {
+    return await this.onboardingService.attachCaseDocument(documentId);
+  }
+
   private validateUploadRequest(request: UploadRequest): void {
     if (!request.fileName || typeof request.fileName !== 'string') {
       throw new BadRequestException(
@@ -65,6 +98,13 @@ export class UploadService {
       throw new BadRequestException('fileName too long (max 255 characters)');
     }
 
+    if (
+      request.caseId !== undefined &&
+      (typeof request.caseId !== 'string' || !UUID_PATTERN.test(request.caseId))
+    ) {
+      throw new BadRequestException('caseId must be a UUID');
+    }
+
     if (!request.contentType || typeof request.contentType !== 'string') {
       throw new BadRequestException('contentType is required');
     }
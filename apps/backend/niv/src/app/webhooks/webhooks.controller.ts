@@ -0,0 +1,115 @@
+// apps/backend/niv/src/app/webhooks/webhooks.controller.ts
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Post,
+} from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { OnboardingError } from '../onboarding/errors';
+import { OnboardingService } from '../onboarding/onboarding.service';
+import { parsePccEventNotice } from '../onboarding/pcc-event';
+
+/**
+ * Controller for webhook deliveries
+ *
+ * PCC authenticates deliveries with HTTP Basic credentials set on the
+ * webhook subscription (PCC_WEBHOOK_USERNAME / PCC_WEBHOOK_PASSWORD).
+ * Events are acknowledged once recorded; a non-2xx reply makes PCC
+ * deliver the event again.
+ */
+@Controller('webhooks')
+export class WebhooksController {
+  private readonly logger = new Logger(WebhooksController.name);
+
+  constructor(private readonly onboardingService: OnboardingService) {}
+
+  /**
+   * PCC webhook events (admissions, condition changes)
+   */
+  @Post('pcc')
+  @HttpCode(HttpStatus.OK)
+  async receivePccEvent(
+    @Headers('authorization') authorization: string | undefined,
+    @Body() body: unknown
+  ) {
+    if (!this.isAuthenticPccDelivery(authorization)) {
+      throw new HttpException(
+        {
+          error: 'WEBHOOK_UNAUTHORIZED',
+          message: 'Webhook credentials are missing or wrong',
+          timestamp: new Date().toISOString(),
+        },
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    const notice = parsePccEventNotice(body);
+    if (Array.isArray(notice)) {
+      throw new HttpException(
+        {
+          error: 'INVALID_WEBHOOK_EVENT',
+          message: notice.join('; '),
+          timestamp: new Date().toISOString(),
+        },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    try {
+      const receipt = await this.onboardingService.receivePccEvent(notice);
+
+      return {
+        success: true,
+        data: receipt,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      // Store outages are retryable: PCC delivers the event again
+      const retryable =
+        error instanceof OnboardingError && error.isRecoverable();
+      throw new HttpException(
+        {
+          error:
+            error instanceof OnboardingError
+              ? error.code
+              : 'INTERNAL_SERVER_ERROR',
+          message: 'Webhook event could not be recorded',
+          operation: 'pcc_event_receive',
+          timestamp: new Date().toISOString(),
+        },
+        retryable
+          ? HttpStatus.SERVICE_UNAVAILABLE
+          : HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Compares Basic credentials in constant time; rejects everything when
+   * no credentials are configured
+   */
+  private isAuthenticPccDelivery(authorization: string | undefined): boolean {
+    const username = process.env.PCC_WEBHOOK_USERNAME;
+    const password = process.env.PCC_WEBHOOK_PASSWORD;
+    if (!username || !password) {
+      this.logger.warn(
+        'PCC webhook rejected: PCC_WEBHOOK_USERNAME / PCC_WEBHOOK_PASSWORD not set'
+      );
+      return false;
+    }
+
+    const [scheme, encoded] = (authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() !== 'basic' || !encoded) {
+      return false;
+    }
+
+    const given = Buffer.from(encoded, 'base64');
+    const expected = Buffer.from(`${username}:${password}`);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+}
@@ -0,0 +1,18 @@
+// apps/backend/niv/src/app/webhooks/webhooks.module.ts
+
+/**
+ * NestJS Module (Hexagonal Architecture)
+ *
+ * Receives webhook events from external systems and hands them to the
+ * onboarding bounded context.
+ */
+
+import { Module } from '@nestjs/common';
+import { OnboardingModule } from '../onboarding/onboarding.module';
+import { WebhooksController } from './webhooks.controller';
+
+@Module({
+  imports: [OnboardingModule],
+  controllers: [WebhooksController],
+})
+export class WebhooksModule {}
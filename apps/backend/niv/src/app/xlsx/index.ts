@@ -0,0 +1,3 @@
+// Clean barrel export for the streaming XLSX writer
+export { writeXlsx } from './xlsx';
+export type { XlsxCell } from './xlsx';
@@ -0,0 +1,102 @@
+import { writeZip } from './zip';
+
+// Minimal streaming XLSX (Office Open XML) writer: one worksheet with a
+// bold, frozen header row; strings are written inline so rows can be
+// emitted as they arrive instead of collected into a shared string table.
+export type XlsxCell = string | number | null;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS =
+  'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Characters XML 1.0 cannot carry at all
+const INVALID_XML_CHARS =
+  /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Excel sheet names: at most 31 characters, none of []:*?/\
+function toSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+}
+
+function formatRow(cells: readonly XlsxCell[], style?: number): string {
+  const styleAttribute = style === undefined ? '' : ` s="${style}"`;
+  return `<row>${cells
+    .map((cell) => {
+      if (cell === null || cell === '') {
+        return '<c/>';
+      }
+      if (typeof cell === 'number' && Number.isFinite(cell)) {
+        return `<c${styleAttribute}><v>${cell}</v></c>`;
+      }
+      return `<c t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(
+        String(cell)
+      )}</t></is></c>`;
+    })
+    .join('')}</row>`;
+}
+
+async function* worksheet(
+  header: readonly string[],
+  rows: AsyncIterable<readonly XlsxCell[]>
+): AsyncGenerator<string> {
+  yield `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>`;
+  yield formatRow(header, 1);
+  for await (const row of rows) {
+    yield formatRow(row);
+  }
+  yield '</sheetData></worksheet>';
+}
+
+export function writeXlsx(
+  sheetName: string,
+  header: readonly string[],
+  rows: AsyncIterable<readonly XlsxCell[]>
+): AsyncGenerator<Buffer> {
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: [
+        `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`,
+      ],
+    },
+    {
+      name: '_rels/.rels',
+      content: [
+        `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+      ],
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: [
+        `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets><sheet name="${escapeXml(
+          toSheetName(sheetName)
+        )}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      ],
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: [
+        `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/></Relationships>`,
+      ],
+    },
+    {
+      // Style 0 is the default, style 1 the bold header
+      name: 'xl/styles.xml',
+      content: [
+        `${XML_HEADER}<styleSheet xmlns="${SPREADSHEET_NS}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+      ],
+    },
+    { name: 'xl/worksheets/sheet1.xml', content: worksheet(header, rows) },
+  ]);
+}
@@ -0,0 +1,145 @@
+import { once } from 'events';
+import { createDeflateRaw } from 'zlib';
+
+// Streaming ZIP writer: each entry is deflated as its content arrives and
+// sized in a trailing data descriptor, so no entry is held in memory whole.
+// No ZIP64 - entries and archives must stay under 4 GB.
+export type ZipEntry = {
+  readonly name: string;
+  readonly content: AsyncIterable<string | Buffer> | Iterable<string | Buffer>;
+};
+
+const MAX_ZIP_SIZE = 0xffffffff;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// CRC-32 as ZIP uses it, continued from the previous chunk's value
+function crc32(data: Buffer, previous = 0): number {
+  let crc = ~previous;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+// MS-DOS time and date fields of ZIP headers (local time, 2s resolution)
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+export async function* writeZip(
+  entries: Iterable<ZipEntry>,
+  modifiedAt: Date = new Date()
+): AsyncGenerator<Buffer> {
+  const { time, date } = dosDateTime(modifiedAt);
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+  let entryCount = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const localOffset = offset;
+
+    // Local header: CRC and sizes follow the data (general purpose bit 3),
+    // names are UTF-8 (bit 11), content is deflated (method 8)
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0808, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt16LE(name.length, 26);
+    yield Buffer.concat([local, name]);
+    offset += local.length + name.length;
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+    const pending: Buffer[] = [];
+    const deflate = createDeflateRaw();
+    deflate.on('data', (chunk: Buffer) => pending.push(chunk));
+
+    const takePending = (): Buffer | null => {
+      if (pending.length === 0) {
+        return null;
+      }
+      const chunk = Buffer.concat(pending.splice(0));
+      compressedSize += chunk.length;
+      return chunk;
+    };
+
+    for await (const part of entry.content) {
+      const data = typeof part === 'string' ? Buffer.from(part, 'utf8') : part;
+      crc = crc32(data, crc);
+      size += data.length;
+      if (!deflate.write(data)) {
+        await once(deflate, 'drain');
+      }
+      const chunk = takePending();
+      if (chunk) {
+        yield chunk;
+      }
+    }
+
+    const ended = once(deflate, 'end');
+    deflate.end();
+    await ended;
+    const rest = takePending();
+    if (rest) {
+      yield rest;
+    }
+
+    if (size > MAX_ZIP_SIZE || offset + compressedSize > MAX_ZIP_SIZE) {
+      throw new Error(`ZIP entry ${entry.name} is larger than 4 GB`);
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    yield descriptor;
+    offset += compressedSize + descriptor.length;
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0808, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressedSize, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(localOffset, 42);
+    centralDirectory.push(central, name);
+    entryCount++;
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entryCount, 8);
+  end.writeUInt16LE(entryCount, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  yield Buffer.concat([directory, end]);
+}
@@ -2,6 +2,7 @@ import { Navigate, Route, Routes } from 'react-router-dom';
 import OnboardingLandingPage from './pages/OnboardingLandingPage';
 import OnboardingStepPage from './pages/OnboardingStepPage';
 import PatientDetailPage from './pages/PatientDetailPage';
+import PatientImportPage from './pages/PatientImportPage';
 import PatientsListPage from './pages/PatientsListPage';
 import Layout from './ui/site/Layout';
 
@@ -15,6 +16,12 @@ function App() {
         {/* Main onboarding landing page */}
         <Route path="/onboarding" element={<OnboardingLandingPage />} />
 
+        {/* Bulk patient import from CSV */}
+        <Route
+          path="/onboardings/patients/import"
+          element={<PatientImportPage />}
+        />
+
         {/* Patients list and detail routes */}
         <Route path="/patients" element={<PatientsListPage />} />
         <Route path="/patients/:patientId" element={<PatientDetailPage />} />
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { ApiResponse, Facility } from '../types/onboarding';
+
+interface UseFacilitiesReturn {
+  facilities: Facility[];
+  // Facility name by organization and facility ID
+  facilityName: (orgUuid: string, facilityId: number) => string;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Loads the facility directory from the backend, inactive facilities
+ * included so older cases keep their name
+ *
+ * @param query - Optional filters passed through as query parameters
+ */
+export const useFacilities = (
+  query: Record<string, string> = {}
+): UseFacilitiesReturn => {
+  const [facilities, setFacilities] = useState<Facility[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const search = new URLSearchParams({
+    includeInactive: 'true',
+    ...query,
+  }).toString();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/facilities?${search}`);
+        if (!response.ok) {
+          throw new Error(`Failed to load facilities (${response.status})`);
+        }
+        const body: ApiResponse<Facility[]> = await response.json();
+        if (!cancelled) {
+          setFacilities(body.data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    // Ignore responses that arrive after unmount or a filter change
+    return () => {
+      cancelled = true;
+    };
+  }, [search]);
+
+  const facilityName = (orgUuid: string, facilityId: number) =>
+    facilities.find(
+      (facility) =>
+        facility.orgUuid === orgUuid && facility.facilityId === facilityId
+    )?.name ?? `Facility ${facilityId}`;
+
+  return { facilities, facilityName, loading, error };
+};
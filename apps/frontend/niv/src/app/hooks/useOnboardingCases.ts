@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { ApiResponse, OnboardingCase } from '../types/onboarding';
+
+interface UseOnboardingCasesReturn {
+  cases: OnboardingCase[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Loads onboarding cases from the backend
+ *
+ * @param query - Optional filters passed through as query parameters
+ */
+export const useOnboardingCases = (
+  query: Record<string, string> = {}
+): UseOnboardingCasesReturn => {
+  const [cases, setCases] = useState<OnboardingCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const search = new URLSearchParams(query).toString();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(
+          `/api/onboarding/cases${search ? `?${search}` : ''}`
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to load patients (${response.status})`);
+        }
+        const body: ApiResponse<OnboardingCase[]> = await response.json();
+        if (!cancelled) {
+          setCases(body.data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    // Ignore responses that arrive after unmount or a filter change
+    return () => {
+      cancelled = true;
+    };
+  }, [search]);
+
+  return { cases, loading, error };
+};
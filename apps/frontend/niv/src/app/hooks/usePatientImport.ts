@@ -0,0 +1,102 @@
+import { useCallback, useState } from 'react';
+import {
+  ApiResponse,
+  PatientImportPreview,
+  PatientImportReport,
+} from '../types/onboarding';
+
+interface UsePatientImportReturn {
+  preview: PatientImportPreview | null;
+  report: PatientImportReport | null;
+  loading: boolean;
+  error: string | null;
+  previewImport: (orgUuid: string, csv: string) => Promise<void>;
+  commitImport: (orgUuid: string, csv: string) => Promise<void>;
+  reset: () => void;
+}
+
+const postImport = async <T>(
+  path: string,
+  orgUuid: string,
+  csv: string
+): Promise<T> => {
+  const response = await fetch(`/api/onboarding/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ orgUuid, csv }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(
+      body?.message ?? `Patient import failed (${response.status})`
+    );
+  }
+  const body: ApiResponse<T> = await response.json();
+  return body.data;
+};
+
+/**
+ * Previews and commits a CSV patient import
+ *
+ * The preview is checked against the EHR without saving; committing sends
+ * the same file again and returns an outcome for every row
+ */
+export const usePatientImport = (): UsePatientImportReturn => {
+  const [preview, setPreview] = useState<PatientImportPreview | null>(null);
+  const [report, setReport] = useState<PatientImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (step: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await step();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const previewImport = useCallback(
+    (orgUuid: string, csv: string) =>
+      run(async () => {
+        setReport(null);
+        setPreview(
+          await postImport<PatientImportPreview>(
+            'imports/preview',
+            orgUuid,
+            csv
+          )
+        );
+      }),
+    [run]
+  );
+
+  const commitImport = useCallback(
+    (orgUuid: string, csv: string) =>
+      run(async () => {
+        setReport(
+          await postImport<PatientImportReport>('imports', orgUuid, csv)
+        );
+      }),
+    [run]
+  );
+
+  const reset = useCallback(() => {
+    setPreview(null);
+    setReport(null);
+    setError(null);
+  }, []);
+
+  return {
+    preview,
+    report,
+    loading,
+    error,
+    previewImport,
+    commitImport,
+    reset,
+  };
+};
@@ -0,0 +1,157 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { http, HttpResponse } from 'msw';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, expect, it } from 'vitest';
+
+import { server } from '../../test-setup';
+import { ToolbarProvider } from '../contexts/ToolbarContext';
+import { PatientImportPreview, PatientImportReport } from '../types/onboarding';
+import PatientImportPage from './PatientImportPage';
+
+const CSV = 'patientId\n101\n102\n';
+
+const preview: PatientImportPreview = {
+  orgUuid: 'org-1',
+  rows: [
+    {
+      rowNumber: 2,
+      status: 'MATCHED',
+      patient: {
+        patientId: 101,
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        dateOfBirth: '1915-12-10',
+        facilityId: 7,
+      },
+      caseId: null,
+      message: null,
+    },
+    {
+      rowNumber: 3,
+      status: 'NOT_FOUND',
+      patient: null,
+      caseId: null,
+      message: 'no PCC patient 102',
+    },
+  ],
+  summary: { total: 2, matched: 1, problems: 1 },
+};
+
+const report: PatientImportReport = {
+  orgUuid: 'org-1',
+  rows: [
+    {
+      rowNumber: 2,
+      patientId: 101,
+      outcome: 'CREATED',
+      caseId: 'case-1',
+      message: null,
+    },
+    {
+      rowNumber: 3,
+      patientId: null,
+      outcome: 'SKIPPED',
+      caseId: null,
+      message: 'no PCC patient 102',
+    },
+  ],
+  summary: { total: 2, created: 1, skipped: 1, failed: 0 },
+};
+
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <ToolbarProvider>
+        <PatientImportPage />
+      </ToolbarProvider>
+    </MemoryRouter>
+  );
+
+const chooseFile = async () => {
+  fireEvent.change(screen.getByLabelText('Organization UUID'), {
+    target: { value: ' org-1 ' },
+  });
+  // jsdom files have no text(), which the page reads the upload with
+  const file = Object.assign(
+    new File([CSV], 'roster.csv', { type: 'text/csv' }),
+    { text: async () => CSV }
+  );
+  fireEvent.change(
+    document.querySelector('input[type="file"]') as HTMLInputElement,
+    { target: { files: [file] } }
+  );
+  await screen.findByText('roster.csv');
+};
+
+describe('PatientImportPage', () => {
+  it('needs an organization and a file before previewing', async () => {
+    renderPage();
+    const previewButton = screen.getByRole('button', {
+      name: 'Preview',
+    }) as HTMLButtonElement;
+
+    expect(previewButton.disabled).toBe(true);
+    await chooseFile();
+    expect(previewButton.disabled).toBe(false);
+  });
+
+  it('previews the rows, then imports the same file', async () => {
+    const requests: unknown[] = [];
+    server.use(
+      http.post('/api/onboarding/imports/preview', async ({ request }) => {
+        requests.push(await request.json());
+        return HttpResponse.json({ success: true, data: preview });
+      }),
+      http.post('/api/onboarding/imports', async ({ request }) => {
+        requests.push(await request.json());
+        return HttpResponse.json({ success: true, data: report });
+      })
+    );
+    renderPage();
+    await chooseFile();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(
+      await screen.findByText('1 of 2 rows ready to import, 1 will be skipped')
+    ).toBeTruthy();
+    expect(screen.getByText('Ada Lovelace (101)')).toBeTruthy();
+    expect(screen.getByText('NOT_FOUND')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Import 1 patients' }));
+
+    expect(
+      await screen.findByText('1 cases created, 1 rows skipped, 0 failed')
+    ).toBeTruthy();
+    expect(screen.getByText('CREATED')).toBeTruthy();
+    expect(requests).toEqual([
+      { orgUuid: 'org-1', csv: CSV },
+      { orgUuid: 'org-1', csv: CSV },
+    ]);
+  });
+
+  it('shows why the file was rejected', async () => {
+    server.use(
+      http.post('/api/onboarding/imports/preview', () =>
+        HttpResponse.json(
+          {
+            message:
+              'Patient import file is invalid: the file has no data rows',
+          },
+          { status: 400 }
+        )
+      )
+    );
+    renderPage();
+    await chooseFile();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(
+      await screen.findByText(
+        'Patient import file is invalid: the file has no data rows'
+      )
+    ).toBeTruthy();
+    expect(screen.queryByRole('button', { name: /^Import/ })).toBeNull();
+  });
+});
@@ -0,0 +1,244 @@
+import ListIcon from '@mui/icons-material/List';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { ChangeEvent, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePatientImport } from '../hooks/usePatientImport';
+import { useToolbarEffect } from '../hooks/useToolbar';
+import { ImportRowStatus } from '../types/onboarding';
+
+function PatientImportPage() {
+  const navigate = useNavigate();
+  const { setToolbar, clearToolbar } = useToolbarEffect();
+  const [orgUuid, setOrgUuid] = useState('');
+  const [file, setFile] = useState<{ name: string; csv: string } | null>(null);
+
+  const {
+    preview,
+    report,
+    loading,
+    error,
+    previewImport,
+    commitImport,
+    reset,
+  } = usePatientImport();
+
+  useEffect(() => {
+    setToolbar({
+      breadcrumb: [
+        { label: 'Home', href: '/' },
+        { label: 'NIV Onboarding', href: '/onboarding' },
+        { label: 'Import Patients' },
+      ],
+      actions: [
+        {
+          id: 'view-patients',
+          label: 'View All Patients',
+          icon: ListIcon,
+          variant: 'text',
+          onClick: () => navigate('/patients'),
+        },
+      ],
+    });
+
+    return () => clearToolbar();
+  }, [setToolbar, clearToolbar, navigate]);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    reset();
+    setFile(
+      selected ? { name: selected.name, csv: await selected.text() } : null
+    );
+  };
+
+  const getStatusColor = (status: ImportRowStatus) => {
+    switch (status) {
+      case 'MATCHED':
+        return 'success';
+      case 'ALREADY_ENROLLED':
+      case 'DUPLICATE':
+        return 'info';
+      case 'AMBIGUOUS':
+        return 'warning';
+      default:
+        return 'error';
+    }
+  };
+
+  const canPreview = orgUuid.trim() !== '' && file !== null && !loading;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Typography variant="h4" gutterBottom>
+        Import Patients
+      </Typography>
+
+      <Typography variant="body1" paragraph>
+        Upload a CSV with a patientId column (PCC patient IDs), or firstName,
+        lastName, dateOfBirth and facilityId columns. Every row is checked
+        against the EHR before any patient is enrolled.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 3 }}>
+        <TextField
+          label="Organization UUID"
+          size="small"
+          value={orgUuid}
+          onChange={(event) => {
+            setOrgUuid(event.target.value);
+            reset();
+          }}
+        />
+        <Button
+          variant="outlined"
+          component="label"
+          startIcon={<UploadFileIcon />}
+        >
+          {file ? file.name : 'Choose CSV file'}
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            hidden
+            onChange={handleFile}
+          />
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!canPreview}
+          onClick={() => file && previewImport(orgUuid.trim(), file.csv)}
+        >
+          Preview
+        </Button>
+        {loading && <CircularProgress size={24} />}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {preview && !report && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+            <Typography variant="body1">
+              {preview.summary.matched} of {preview.summary.total} rows ready to
+              import, {preview.summary.problems} will be skipped
+            </Typography>
+            <Button
+              variant="contained"
+              color="success"
+              disabled={preview.summary.matched === 0 || loading}
+              onClick={() => file && commitImport(preview.orgUuid, file.csv)}
+            >
+              Import {preview.summary.matched} patients
+            </Button>
+          </Box>
+
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Row</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Patient</TableCell>
+                  <TableCell>Facility</TableCell>
+                  <TableCell>Details</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {preview.rows.map((row) => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell>{row.rowNumber}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={row.status}
+                        color={getStatusColor(row.status)}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {row.patient &&
+                        `${row.patient.firstName} ${row.patient.lastName} (${row.patient.patientId})`}
+                    </TableCell>
+                    <TableCell>
+                      {row.patient && `Facility ${row.patient.facilityId}`}
+                    </TableCell>
+                    <TableCell>{row.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+
+      {report && (
+        <>
+          <Alert
+            severity={report.summary.failed > 0 ? 'warning' : 'success'}
+            sx={{ mb: 2 }}
+          >
+            {report.summary.created} cases created, {report.summary.skipped}{' '}
+            rows skipped, {report.summary.failed} failed
+          </Alert>
+
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Row</TableCell>
+                  <TableCell>Patient ID</TableCell>
+                  <TableCell>Outcome</TableCell>
+                  <TableCell>Case</TableCell>
+                  <TableCell>Details</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell>{row.rowNumber}</TableCell>
+                    <TableCell>{row.patientId}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={row.outcome}
+                        color={
+                          row.outcome === 'CREATED'
+                            ? 'success'
+                            : row.outcome === 'FAILED'
+                              ? 'error'
+                              : 'default'
+                        }
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>{row.caseId}</TableCell>
+                    <TableCell>{row.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  );
+}
+
+export default PatientImportPage;
@@ -1,9 +1,11 @@
 import AddIcon from '@mui/icons-material/Add';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 import {
+  Alert,
   Box,
   Button,
   Chip,
+  CircularProgress,
   Paper,
   Table,
   TableBody,
@@ -11,27 +13,22 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  Tooltip,
   Typography,
 } from '@mui/material';
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useFacilities } from '../hooks/useFacilities';
+import { useOnboardingCases } from '../hooks/useOnboardingCases';
 import { useToolbarEffect } from '../hooks/useToolbar';
 
 function PatientsListPage() {
   const navigate = useNavigate();
   const { setToolbar, clearToolbar } = useToolbarEffect();
 
-  // Mock patient data - replace with your actual data fetching
-  const patients = [
-    { id: '1', name: 'John Doe', status: 'NEW', facility: 'Facility A' },
-    {
-      id: '2',
-      name: 'Jane Smith',
-      status: 'WATCHLIST',
-      facility: 'Facility B',
-    },
-    { id: '3', name: 'Bob Johnson', status: 'ACTIVE', facility: 'Facility A' },
-  ];
+  const { cases, loading, error } = useOnboardingCases();
+  // Without the directory, facilities are shown by ID
+  const { facilityName } = useFacilities();
 
   useEffect(() => {
     setToolbar({
@@ -65,6 +62,8 @@ function PatientsListPage() {
         return 'secondary';
       case 'ACTIVE':
         return 'success';
+      case 'CHANGED':
+        return 'error';
       default:
         return 'default';
     }
@@ -76,6 +75,12 @@ function PatientsListPage() {
         Patients
       </Typography>
 
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
       <TableContainer component={Paper}>
         <Table>
           <TableHead>
@@ -87,22 +92,58 @@ function PatientsListPage() {
             </TableRow>
           </TableHead>
           <TableBody>
-            {patients.map((patient) => (
-              <TableRow key={patient.id}>
-                <TableCell>{patient.name}</TableCell>
+            {loading && (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            )}
+            {!loading && !error && cases.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  No patients in onboarding yet
+                </TableCell>
+              </TableRow>
+            )}
+            {cases.map((onboardingCase) => (
+              <TableRow key={onboardingCase.caseId}>
+                <TableCell>
+                  {onboardingCase.firstName} {onboardingCase.lastName}
+                </TableCell>
                 <TableCell>
                   <Chip
-                    label={patient.status}
-                    color={getStatusColor(patient.status) as any}
+                    label={onboardingCase.status}
+                    color={getStatusColor(onboardingCase.status) as any}
                     size="small"
                   />
+                  {onboardingCase.qualification?.exclusionReason && (
+                    <Tooltip
+                      title={onboardingCase.qualification.exclusionReason}
+                    >
+                      <Chip
+                        label="Excluded"
+                        color="default"
+                        variant="outlined"
+                        size="small"
+                        sx={{ ml: 1 }}
+                      />
+                    </Tooltip>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {facilityName(
+                    onboardingCase.orgUuid,
+                    onboardingCase.facilityId
+                  )}
                 </TableCell>
-                <TableCell>{patient.facility}</TableCell>
                 <TableCell>
                   <Button
                     size="small"
                     startIcon={<VisibilityIcon />}
-                    onClick={() => navigate(`/patients/${patient.id}`)}
+                    onClick={() =>
+                      navigate(`/patients/${onboardingCase.patientId}`)
+                    }
                   >
                     View
                   </Button>
@@ -0,0 +1,112 @@
+import { PatientStatus } from './toolbar';
+
+export interface ClinicalQualifications {
+  COPD: boolean;
+  CRF: boolean;
+  NMD: boolean;
+  RTD: boolean;
+}
+
+export interface QualificationSnapshot {
+  clinicalQualifications: ClinicalQualifications;
+  isNivEligible: boolean;
+  diagnoses: {
+    code: string;
+    description: string;
+    isPrimary: boolean;
+    clinicalStatus?: 'ACTIVE' | 'RESOLVED' | 'INACTIVE';
+  }[];
+  assessedAt: string;
+  ruleSetVersion?: string;
+  labsRequired?: {
+    test: string;
+    withinDays: number;
+    reason: 'MISSING' | 'STALE';
+  }[];
+  // Shown to staff when an exclusion overrides qualifying codes
+  exclusionReason?: string | null;
+}
+
+// Onboarding case as returned by GET /api/onboarding/cases
+export interface OnboardingCase {
+  caseId: string;
+  orgUuid: string;
+  patientId: number;
+  facilityId: number;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string | null;
+  status: PatientStatus;
+  assignedRtId: string | null;
+  qualification: QualificationSnapshot | null;
+  deviceFittedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Facility as returned by GET /api/facilities
+export interface Facility {
+  orgUuid: string;
+  facilityId: number;
+  name: string;
+  facilityCode: string | null;
+  healthType: string | null;
+  address: {
+    line1: string | null;
+    line2: string | null;
+    city: string | null;
+    region: string | null;
+    postalCode: string | null;
+    country: string | null;
+  };
+  timeZone: string | null;
+  bedCount: number | null;
+  active: boolean;
+  syncedAt: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  timestamp: string;
+}
+
+// Row check from POST /api/onboarding/imports/preview
+export type ImportRowStatus =
+  | 'MATCHED'
+  | 'ALREADY_ENROLLED'
+  | 'DUPLICATE'
+  | 'NOT_FOUND'
+  | 'AMBIGUOUS'
+  | 'INVALID';
+
+export interface PatientImportPreview {
+  orgUuid: string;
+  rows: {
+    rowNumber: number;
+    status: ImportRowStatus;
+    patient: {
+      patientId: number;
+      firstName: string;
+      lastName: string;
+      dateOfBirth: string | null;
+      facilityId: number;
+    } | null;
+    caseId: string | null;
+    message: string | null;
+  }[];
+  summary: { total: number; matched: number; problems: number };
+}
+
+// Per-row outcome from POST /api/onboarding/imports
+export interface PatientImportReport {
+  orgUuid: string;
+  rows: {
+    rowNumber: number;
+    patientId: number | null;
+    outcome: 'CREATED' | 'SKIPPED' | 'FAILED';
+    caseId: string | null;
+    message: string | null;
+  }[];
+  summary: { total: number; created: number; skipped: number; failed: number };
+}
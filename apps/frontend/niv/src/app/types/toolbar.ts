@@ -31,4 +31,8 @@ export type PatientStatus =
   | 'WATCHLIST'
   | 'PENDING'
   | 'ACTIVE'
+  | 'REVIEWED'
+  | 'CHANGED'
+  | 'SUSPENDED'
+  | 'CLOSED'
   | 'COMPLETED';
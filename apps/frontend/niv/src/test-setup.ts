@@ -14,6 +14,14 @@ const handlers = [
     });
   }),
 
+  http.get('/api/onboarding/cases', () => {
+    return HttpResponse.json({
+      success: true,
+      data: [],
+      timestamp: new Date().toISOString(),
+    });
+  }),
+
   http.post('/api/onboarding', () => {
     return HttpResponse.json({
       id: 1,
@@ -25,7 +33,8 @@ const handlers = [
   // Add more handlers as needed
 ];
 
-const server = setupServer(...handlers);
+// Exported so tests can override handlers with server.use()
+export const server = setupServer(...handlers);
 
 // Start server before all tests
 beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
@@ -8,6 +8,10 @@ export default defineConfig(() => ({
   server: {
     port: 4200,
     host: 'localhost',
+    // Forward API calls to the backend-niv dev server
+    proxy: {
+      '/api': 'http://localhost:3000',
+    },
   },
   preview: {
     port: 4200,
@@ -0,0 +1,20 @@
+-- Onboarding cases: one row per patient enrolled in NIV onboarding
+CREATE TABLE IF NOT EXISTS onboarding_cases (
+    case_id        UUID PRIMARY KEY,
+    org_uuid       TEXT NOT NULL,
+    patient_id     INTEGER NOT NULL,
+    facility_id    INTEGER NOT NULL,
+    first_name     TEXT NOT NULL,
+    last_name      TEXT NOT NULL,
+    date_of_birth  DATE,
+    status         TEXT NOT NULL,
+    qualification  JSONB,
+    created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (org_uuid, patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS onboarding_cases_facility_idx
+    ON onboarding_cases (org_uuid, facility_id);
+CREATE INDEX IF NOT EXISTS onboarding_cases_status_idx
+    ON onboarding_cases (status);
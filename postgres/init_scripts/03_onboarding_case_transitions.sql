@@ -0,0 +1,18 @@
+-- Device fitting is recorded on the case; activation requires it
+ALTER TABLE onboarding_cases
+    ADD COLUMN IF NOT EXISTS device_fitted_at TIMESTAMPTZ;
+
+-- Audit trail of workflow status transitions: who moved a case and why
+CREATE TABLE IF NOT EXISTS onboarding_case_transitions (
+    transition_id  BIGSERIAL PRIMARY KEY,
+    case_id        UUID NOT NULL REFERENCES onboarding_cases (case_id),
+    transition     TEXT NOT NULL,
+    from_status    TEXT NOT NULL,
+    to_status      TEXT NOT NULL,
+    actor          TEXT NOT NULL,
+    reason         TEXT,
+    occurred_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS onboarding_case_transitions_case_idx
+    ON onboarding_case_transitions (case_id, occurred_at);
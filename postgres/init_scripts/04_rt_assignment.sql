@@ -0,0 +1,43 @@
+-- Respiratory therapist roster and the facilities each RT covers
+CREATE TABLE IF NOT EXISTS respiratory_therapists (
+    rt_id       TEXT PRIMARY KEY,
+    first_name  TEXT NOT NULL,
+    last_name   TEXT NOT NULL,
+    email       TEXT,
+    active      BOOLEAN NOT NULL DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS rt_facility_coverage (
+    rt_id        TEXT NOT NULL REFERENCES respiratory_therapists (rt_id),
+    org_uuid     TEXT NOT NULL,
+    facility_id  INTEGER NOT NULL,
+    is_owner     BOOLEAN NOT NULL DEFAULT false,
+    PRIMARY KEY (rt_id, org_uuid, facility_id)
+);
+
+-- At most one owning RT per facility (used by the facility-owner strategy)
+CREATE UNIQUE INDEX IF NOT EXISTS rt_facility_coverage_owner_idx
+    ON rt_facility_coverage (org_uuid, facility_id) WHERE is_owner;
+
+ALTER TABLE onboarding_cases
+    ADD COLUMN IF NOT EXISTS assigned_rt_id TEXT;
+
+CREATE INDEX IF NOT EXISTS onboarding_cases_assigned_rt_idx
+    ON onboarding_cases (assigned_rt_id);
+
+-- Assignment history; strategy is 'manual' for staff reassignments
+CREATE TABLE IF NOT EXISTS rt_assignments (
+    assignment_id   BIGSERIAL PRIMARY KEY,
+    case_id         UUID NOT NULL REFERENCES onboarding_cases (case_id),
+    org_uuid        TEXT NOT NULL,
+    facility_id     INTEGER NOT NULL,
+    rt_id           TEXT NOT NULL,
+    previous_rt_id  TEXT,
+    strategy        TEXT NOT NULL,
+    assigned_by     TEXT NOT NULL,
+    reason          TEXT,
+    assigned_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS rt_assignments_facility_idx
+    ON rt_assignments (org_uuid, facility_id, assigned_at);
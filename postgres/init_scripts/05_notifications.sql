@@ -0,0 +1,48 @@
+-- People to notify per facility and role (RT recipients come from the
+-- case's assigned respiratory therapist)
+CREATE TABLE IF NOT EXISTS facility_notification_contacts (
+    recipient_id  TEXT NOT NULL,
+    org_uuid      TEXT NOT NULL,
+    facility_id   INTEGER NOT NULL,
+    role          TEXT NOT NULL CHECK (role IN ('NURSE', 'ADMIN', 'DON', 'MANAGER')),
+    name          TEXT NOT NULL,
+    email         TEXT,
+    webhook_url   TEXT,
+    PRIMARY KEY (recipient_id, org_uuid, facility_id, role)
+);
+
+-- One row per message per recipient per channel, with retry bookkeeping
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    delivery_id      UUID PRIMARY KEY,
+    case_id          UUID NOT NULL REFERENCES onboarding_cases (case_id),
+    event_type       TEXT NOT NULL,
+    recipient_id     TEXT NOT NULL,
+    role             TEXT NOT NULL,
+    channel          TEXT NOT NULL,
+    address          TEXT NOT NULL,
+    subject          TEXT NOT NULL,
+    body             TEXT NOT NULL,
+    status           TEXT NOT NULL,
+    attempts         INTEGER NOT NULL DEFAULT 0,
+    last_error       TEXT,
+    next_attempt_at  TIMESTAMPTZ,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+    sent_at          TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_retry_idx
+    ON notification_deliveries (next_attempt_at) WHERE status = 'FAILED';
+
+-- In-app inbox written by the in-app channel
+CREATE TABLE IF NOT EXISTS in_app_notifications (
+    message_id    UUID PRIMARY KEY,
+    recipient_id  TEXT NOT NULL,
+    subject       TEXT NOT NULL,
+    body          TEXT NOT NULL,
+    data          JSONB,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+    read_at       TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS in_app_notifications_recipient_idx
+    ON in_app_notifications (recipient_id, created_at);
@@ -0,0 +1,11 @@
+-- RT review leases: at most one RT reviews a case at a time. A lease past
+-- lease_expires_at may be taken over by another RT.
+CREATE TABLE IF NOT EXISTS review_claims (
+    case_id           UUID PRIMARY KEY REFERENCES onboarding_cases (case_id),
+    rt_id             TEXT NOT NULL,
+    claimed_at        TIMESTAMPTZ NOT NULL,
+    lease_expires_at  TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS review_claims_rt_idx
+    ON review_claims (rt_id);
@@ -0,0 +1,23 @@
+-- Per-organization re-review interval (RE_REVIEW_INTERVAL_DAYS otherwise)
+CREATE TABLE IF NOT EXISTS org_re_review_settings (
+    org_uuid       TEXT PRIMARY KEY,
+    interval_days  INTEGER NOT NULL CHECK (interval_days > 0),
+    updated_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Durable re-review schedule, one row per case. Sweeps claim due rows by
+-- pushing due_at forward, so a crashed sweep's jobs are picked up again.
+CREATE TABLE IF NOT EXISTS re_review_jobs (
+    case_id       UUID PRIMARY KEY REFERENCES onboarding_cases (case_id),
+    org_uuid      TEXT NOT NULL,
+    trigger       TEXT NOT NULL,
+    due_at        TIMESTAMPTZ NOT NULL,
+    status        TEXT NOT NULL CHECK (status IN ('SCHEDULED', 'DONE', 'CANCELLED', 'FAILED')),
+    attempts      INTEGER NOT NULL DEFAULT 0,
+    last_error    TEXT,
+    scheduled_at  TIMESTAMPTZ NOT NULL,
+    completed_at  TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS re_review_jobs_due_idx
+    ON re_review_jobs (due_at) WHERE status = 'SCHEDULED';
@@ -0,0 +1,21 @@
+-- Weekly RT visits for ACTIVE cases
+CREATE TABLE IF NOT EXISTS rt_visits (
+    visit_id         UUID PRIMARY KEY,
+    case_id          UUID NOT NULL REFERENCES onboarding_cases (case_id),
+    rt_id            TEXT NOT NULL,
+    visited_at       TIMESTAMPTZ NOT NULL,
+    findings         TEXT NOT NULL,
+    device_settings  JSONB NOT NULL,
+    recorded_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS rt_visits_case_idx
+    ON rt_visits (case_id, visited_at DESC);
+
+-- One alert per missed visit (case and due date)
+CREATE TABLE IF NOT EXISTS rt_visit_overdue_alerts (
+    case_id     UUID NOT NULL REFERENCES onboarding_cases (case_id),
+    due_at      TIMESTAMPTZ NOT NULL,
+    alerted_at  TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (case_id, due_at)
+);
@@ -0,0 +1,21 @@
+-- Lab-order worklist: tests a case needs before its RT review
+CREATE TABLE IF NOT EXISTS lab_orders (
+    order_id      UUID PRIMARY KEY,
+    case_id       UUID NOT NULL REFERENCES onboarding_cases (case_id),
+    org_uuid      TEXT NOT NULL,
+    patient_id    INTEGER NOT NULL,
+    facility_id   INTEGER NOT NULL,
+    tests         JSONB NOT NULL,
+    status        TEXT NOT NULL CHECK (status IN ('OPEN', 'RESULTED', 'CANCELLED')),
+    ordered_by    TEXT NOT NULL,
+    ordered_at    TIMESTAMPTZ NOT NULL,
+    resulted_at   TIMESTAMPTZ,
+    results       JSONB NOT NULL DEFAULT '[]'
+);
+
+-- At most one OPEN order per case
+CREATE UNIQUE INDEX IF NOT EXISTS lab_orders_open_case_idx
+    ON lab_orders (case_id) WHERE status = 'OPEN';
+
+CREATE INDEX IF NOT EXISTS lab_orders_worklist_idx
+    ON lab_orders (org_uuid, facility_id, status, ordered_at);
@@ -0,0 +1,39 @@
+-- Facility-wide eligibility screening jobs; progress is rewritten after
+-- every page of patients, so updated_at shows whether a job is still alive
+CREATE TABLE IF NOT EXISTS screening_jobs (
+    job_id        UUID PRIMARY KEY,
+    org_uuid      TEXT NOT NULL,
+    facility_id   INTEGER,
+    status        TEXT NOT NULL CHECK (status IN ('RUNNING', 'COMPLETED', 'COMPLETED_WITH_ERRORS', 'FAILED')),
+    requested_by  TEXT NOT NULL,
+    concurrency   INTEGER NOT NULL CHECK (concurrency > 0),
+    progress      JSONB NOT NULL,
+    error         TEXT,
+    started_at    TIMESTAMPTZ NOT NULL,
+    updated_at    TIMESTAMPTZ NOT NULL,
+    finished_at   TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS screening_jobs_scope_idx
+    ON screening_jobs (org_uuid, facility_id, started_at DESC);
+
+-- One result per patient per job
+CREATE TABLE IF NOT EXISTS screening_results (
+    job_id                   UUID NOT NULL REFERENCES screening_jobs (job_id),
+    patient_id               INTEGER NOT NULL,
+    facility_id              INTEGER NOT NULL,
+    first_name               TEXT NOT NULL,
+    last_name                TEXT NOT NULL,
+    outcome                  TEXT NOT NULL CHECK (outcome IN ('ELIGIBLE', 'NOT_ELIGIBLE', 'EXCLUDED', 'FAILED')),
+    clinical_qualifications  JSONB,
+    exclusion_reason         TEXT,
+    labs_required            BOOLEAN NOT NULL DEFAULT false,
+    rule_set_version         TEXT,
+    case_id                  UUID,
+    error                    TEXT,
+    screened_at              TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (job_id, patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS screening_results_outcome_idx
+    ON screening_results (job_id, outcome);
@@ -0,0 +1,7 @@
+-- Qualifying codes kept with each screening result for spreadsheet exports
+ALTER TABLE screening_results
+    ADD COLUMN IF NOT EXISTS qualifying_codes JSONB NOT NULL DEFAULT '[]';
+
+-- Exports read the latest result per patient within a date range
+CREATE INDEX IF NOT EXISTS screening_results_patient_idx
+    ON screening_results (patient_id, screened_at DESC);
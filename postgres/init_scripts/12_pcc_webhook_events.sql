@@ -0,0 +1,25 @@
+-- PCC webhook events by message ID, so redelivered events are processed
+-- once. FAILED events are retried with backoff from next_attempt_at, and
+-- a RECEIVED event whose next_attempt_at has passed died mid-processing
+CREATE TABLE IF NOT EXISTS pcc_webhook_events (
+    message_id       TEXT PRIMARY KEY,
+    event_type       TEXT NOT NULL,
+    org_uuid         TEXT NOT NULL,
+    facility_id      INTEGER,
+    patient_id       INTEGER,
+    event_date       TIMESTAMPTZ,
+    status           TEXT NOT NULL CHECK (status IN ('RECEIVED', 'PROCESSED', 'IGNORED', 'FAILED')),
+    outcome          TEXT,
+    case_id          UUID,
+    error            TEXT,
+    attempts         INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at  TIMESTAMPTZ,
+    received_at      TIMESTAMPTZ NOT NULL,
+    processed_at     TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS pcc_webhook_events_patient_idx
+    ON pcc_webhook_events (org_uuid, patient_id, received_at DESC);
+
+CREATE INDEX IF NOT EXISTS pcc_webhook_events_retry_idx
+    ON pcc_webhook_events (next_attempt_at) WHERE status IN ('RECEIVED', 'FAILED');
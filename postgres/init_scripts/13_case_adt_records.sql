@@ -0,0 +1,11 @@
+-- ADT records (admissions, discharges, leaves) applied to each case, so a
+-- record seen by both the webhook and the poll moves the case once
+CREATE TABLE IF NOT EXISTS onboarding_case_adt_records (
+    case_id               UUID NOT NULL REFERENCES onboarding_cases (case_id),
+    adt_record_id         INTEGER NOT NULL,
+    standard_action_type  TEXT NOT NULL,
+    effective_at          TIMESTAMPTZ NOT NULL,
+    outcome               TEXT NOT NULL CHECK (outcome IN ('SUSPENDED', 'CLOSED', 'READMITTED', 'NO_CHANGE')),
+    applied_at            TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (case_id, adt_record_id)
+);
@@ -0,0 +1,23 @@
+-- Facility directory synced from PCC /facs; facilities PCC stops listing
+-- stay as inactive so existing cases keep their name
+CREATE TABLE IF NOT EXISTS facilities (
+    org_uuid       TEXT NOT NULL,
+    facility_id    INTEGER NOT NULL,
+    name           TEXT NOT NULL,
+    facility_code  TEXT,
+    health_type    TEXT,
+    address_line1  TEXT,
+    address_line2  TEXT,
+    city           TEXT,
+    region         TEXT,
+    postal_code    TEXT,
+    country        TEXT,
+    time_zone      TEXT,
+    bed_count      INTEGER,
+    active         BOOLEAN NOT NULL DEFAULT true,
+    synced_at      TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (org_uuid, facility_id)
+);
+
+CREATE INDEX IF NOT EXISTS facilities_name_idx
+    ON facilities (org_uuid, name);
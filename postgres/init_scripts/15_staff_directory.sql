@@ -0,0 +1,93 @@
+-- Staff directory: practitioners synced from PCC /practitioners and staff
+-- added locally. Replaces the RT roster and facility notification contacts.
+CREATE TABLE IF NOT EXISTS staff_members (
+    staff_id         TEXT PRIMARY KEY,
+    org_uuid         TEXT NOT NULL,
+    source           TEXT NOT NULL CHECK (source IN ('PCC', 'LOCAL')),
+    practitioner_id  INTEGER,
+    first_name       TEXT NOT NULL,
+    last_name        TEXT NOT NULL,
+    profession       TEXT,
+    email            TEXT,
+    phone            TEXT,
+    webhook_url      TEXT,
+    active           BOOLEAN NOT NULL DEFAULT true,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+    synced_at        TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS staff_members_practitioner_idx
+    ON staff_members (org_uuid, practitioner_id)
+    WHERE practitioner_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS staff_roles (
+    staff_id  TEXT NOT NULL REFERENCES staff_members (staff_id) ON DELETE CASCADE,
+    role      TEXT NOT NULL CHECK (role IN ('RT', 'NURSE', 'ADMIN', 'DON', 'MANAGER')),
+    PRIMARY KEY (staff_id, role)
+);
+
+-- Facilities each member works at; for an RT, the facilities they cover
+CREATE TABLE IF NOT EXISTS staff_facilities (
+    staff_id     TEXT NOT NULL REFERENCES staff_members (staff_id) ON DELETE CASCADE,
+    org_uuid     TEXT NOT NULL,
+    facility_id  INTEGER NOT NULL,
+    is_owner     BOOLEAN NOT NULL DEFAULT false,
+    PRIMARY KEY (staff_id, org_uuid, facility_id)
+);
+
+CREATE INDEX IF NOT EXISTS staff_facilities_facility_idx
+    ON staff_facilities (org_uuid, facility_id);
+
+-- At most one owning RT per facility (used by the facility-owner strategy)
+CREATE UNIQUE INDEX IF NOT EXISTS staff_facilities_owner_idx
+    ON staff_facilities (org_uuid, facility_id) WHERE is_owner;
+
+-- Carry the RT roster and notification contacts over as local staff,
+-- keeping their IDs so assignments and inbox messages still match
+INSERT INTO staff_members (staff_id, org_uuid, source, first_name, last_name, email, active)
+SELECT DISTINCT ON (rt.rt_id)
+       rt.rt_id, cov.org_uuid, 'LOCAL', rt.first_name, rt.last_name, rt.email, rt.active
+FROM respiratory_therapists rt
+JOIN rt_facility_coverage cov ON cov.rt_id = rt.rt_id
+ORDER BY rt.rt_id, cov.org_uuid
+ON CONFLICT (staff_id) DO NOTHING;
+
+INSERT INTO staff_roles (staff_id, role)
+SELECT staff_id, 'RT' FROM staff_members
+WHERE staff_id IN (SELECT rt_id FROM respiratory_therapists)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO staff_facilities (staff_id, org_uuid, facility_id, is_owner)
+SELECT cov.rt_id, cov.org_uuid, cov.facility_id, cov.is_owner
+FROM rt_facility_coverage cov
+JOIN staff_members s ON s.staff_id = cov.rt_id AND s.org_uuid = cov.org_uuid
+ON CONFLICT DO NOTHING;
+
+-- Contacts had one name; its first word becomes the first name
+INSERT INTO staff_members (staff_id, org_uuid, source, first_name, last_name, email, webhook_url)
+SELECT DISTINCT ON (recipient_id)
+       recipient_id, org_uuid, 'LOCAL',
+       split_part(name, ' ', 1),
+       substr(name, length(split_part(name, ' ', 1)) + 2),
+       email, webhook_url
+FROM facility_notification_contacts
+ORDER BY recipient_id, org_uuid
+ON CONFLICT (staff_id) DO NOTHING;
+
+INSERT INTO staff_roles (staff_id, role)
+SELECT DISTINCT contact.recipient_id, contact.role
+FROM facility_notification_contacts contact
+JOIN staff_members s ON s.staff_id = contact.recipient_id
+ON CONFLICT DO NOTHING;
+
+INSERT INTO staff_facilities (staff_id, org_uuid, facility_id)
+SELECT DISTINCT contact.recipient_id, contact.org_uuid, contact.facility_id
+FROM facility_notification_contacts contact
+JOIN staff_members s
+  ON s.staff_id = contact.recipient_id AND s.org_uuid = contact.org_uuid
+ON CONFLICT DO NOTHING;
+
+DROP TABLE IF EXISTS facility_notification_contacts;
+DROP TABLE IF EXISTS rt_facility_coverage;
+DROP TABLE IF EXISTS respiratory_therapists;
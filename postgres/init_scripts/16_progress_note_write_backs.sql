@@ -0,0 +1,21 @@
+-- Outbox of review decisions written to the PCC chart as progress notes;
+-- failed writes are retried with backoff until next_attempt_at is null
+CREATE TABLE IF NOT EXISTS progress_note_write_backs (
+    write_back_id         UUID PRIMARY KEY,
+    case_id               UUID NOT NULL REFERENCES onboarding_cases (case_id),
+    outcome               TEXT NOT NULL,
+    note                  JSONB NOT NULL,
+    status                TEXT NOT NULL CHECK (status IN ('PENDING', 'SENT', 'FAILED')),
+    attempts              INTEGER NOT NULL DEFAULT 0,
+    last_error            TEXT,
+    next_attempt_at       TIMESTAMPTZ,
+    pcc_progress_note_id  INTEGER,
+    created_at            TIMESTAMPTZ NOT NULL DEFAULT now(),
+    sent_at               TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS progress_note_write_backs_case_idx
+    ON progress_note_write_backs (case_id, created_at);
+
+CREATE INDEX IF NOT EXISTS progress_note_write_backs_retry_idx
+    ON progress_note_write_backs (next_attempt_at) WHERE status = 'FAILED';
@@ -0,0 +1,20 @@
+-- Documents uploaded to S3 for an onboarding case and their copy in the
+-- patient's PCC chart; pcc_document_id is set once PCC accepts the file
+CREATE TABLE IF NOT EXISTS case_documents (
+    document_id      UUID PRIMARY KEY,
+    case_id          UUID NOT NULL REFERENCES onboarding_cases (case_id),
+    org_uuid         TEXT NOT NULL,
+    patient_id       INTEGER NOT NULL,
+    facility_id      INTEGER NOT NULL,
+    file_name        TEXT NOT NULL,
+    content_type     TEXT NOT NULL,
+    storage_key      TEXT NOT NULL UNIQUE,
+    status           TEXT NOT NULL CHECK (status IN ('AWAITING_UPLOAD', 'ATTACHED', 'FAILED')),
+    pcc_document_id  INTEGER,
+    last_error       TEXT,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+    attached_at      TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS case_documents_case_idx
+    ON case_documents (case_id, created_at);